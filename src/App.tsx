@@ -2,17 +2,26 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { useEffect } from "react";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { useAuthStore } from "@/stores/authStore";
+import { isTokenExpired } from "@/lib/jwt";
+import { loginPath } from "@/lib/redirect";
 import { AppLayout } from "@/components/layout/AppLayout";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import Dashboard from "@/pages/Dashboard";
 import Robots from "@/pages/Robots";
+import RobotDetail from "@/pages/RobotDetail";
 import Shelves from "@/pages/Shelves";
 import Zones from "@/pages/Zones";
 import Products from "@/pages/Products";
 import Tasks from "@/pages/Tasks";
+import TaskDetail from "@/pages/TaskDetail";
+import Schedules from "@/pages/Schedules";
+import Workflows from "@/pages/Workflows";
+import Analytics from "@/pages/Analytics";
+import Energy from "@/pages/Energy";
 import WarehouseMap from "@/pages/Map";
 import Settings from "@/pages/Settings";
 import NotFound from "@/pages/NotFound";
@@ -20,9 +29,18 @@ import NotFound from "@/pages/NotFound";
 const queryClient = new QueryClient();
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuthStore();
-  if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+  const { isAuthenticated, token, sessionEndReason, endSession } = useAuthStore();
+  const location = useLocation();
+  // A token left in storage is not enough; it must also be unexpired
+  const expired = !!token && isTokenExpired(token);
+
+  useEffect(() => {
+    if (expired) endSession('expired');
+  }, [expired, endSession]);
+
+  if (!isAuthenticated || expired) {
+    const reason = expired ? 'expired' : sessionEndReason;
+    return <Navigate to={loginPath(location.pathname + location.search, reason)} replace />;
   }
   return <>{children}</>;
 }
@@ -43,10 +61,16 @@ const App = () => (
           }>
             <Route path="/" element={<Dashboard />} />
             <Route path="/robots" element={<Robots />} />
+            <Route path="/robots/:id" element={<RobotDetail />} />
             <Route path="/shelves" element={<Shelves />} />
             <Route path="/zones" element={<Zones />} />
             <Route path="/products" element={<Products />} />
             <Route path="/tasks" element={<Tasks />} />
+            <Route path="/tasks/:id" element={<TaskDetail />} />
+            <Route path="/schedules" element={<Schedules />} />
+            <Route path="/workflows" element={<Workflows />} />
+            <Route path="/analytics" element={<Analytics />} />
+            <Route path="/energy" element={<Energy />} />
             <Route path="/map" element={<WarehouseMap />} />
             <Route path="/settings" element={<Settings />} />
           </Route>
@@ -1,38 +1,36 @@
 /**
  * API client for real-time map and task management
+ * Uses the shared request core, so it gets the same base URL, auth and errors as services/api.ts
  */
 import { TaskMapView, ShelfMap, Coordinates } from '../types/map';
-
-const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:5000/api';
+import { ApiError, request } from '../services/http';
 
 class MapApi {
   /**
    * Fetch all tasks in map view format (real-time)
    */
   async getAllTasksForMap(): Promise<TaskMapView[]> {
-    const res = await fetch(`${API_BASE}/tasks/realtime/map/all`);
-    if (!res.ok) throw new Error(`Failed to fetch tasks map: ${res.statusText}`);
-    const data = await res.json();
-    return data.tasks || data;
+    const data = await request<{ tasks?: TaskMapView[] } | TaskMapView[]>('/tasks/realtime/map/all', {
+      errorMessage: 'Failed to fetch tasks map',
+    });
+    return Array.isArray(data) ? data : data.tasks || [];
   }
 
   /**
    * Fetch a single task in map view format
    */
   async getTaskForMap(taskId: string): Promise<TaskMapView> {
-    const res = await fetch(`${API_BASE}/tasks/realtime/${taskId}`);
-    if (!res.ok) throw new Error(`Failed to fetch task: ${res.statusText}`);
-    const data = await res.json();
-    return data.task || data;
+    const data = await request<{ task?: TaskMapView }>(`/tasks/realtime/${taskId}`, {
+      errorMessage: 'Failed to fetch task',
+    });
+    return data.task || (data as TaskMapView);
   }
 
   /**
    * Fetch shelf details with both storage and current locations
    */
   async getShelf(shelfId: string): Promise<ShelfMap> {
-    const res = await fetch(`${API_BASE}/shelves/${shelfId}`);
-    if (!res.ok) throw new Error(`Failed to fetch shelf: ${res.statusText}`);
-    return res.json();
+    return request<ShelfMap>(`/shelves/${shelfId}`, { errorMessage: 'Failed to fetch shelf' });
   }
 
   /**
@@ -40,12 +38,10 @@ class MapApi {
    * This is called after a RETURN_SHELF task completes
    */
   async restoreShelfToStorage(shelfId: string): Promise<ShelfMap> {
-    const res = await fetch(`${API_BASE}/shelves/${shelfId}/restore`, {
+    return request<ShelfMap>(`/shelves/${shelfId}/restore`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      errorMessage: 'Failed to restore shelf',
     });
-    if (!res.ok) throw new Error(`Failed to restore shelf: ${res.statusText}`);
-    return res.json();
   }
 
   /**
@@ -56,16 +52,24 @@ class MapApi {
     shelfId: string,
     coordinates: { storage_x: number; storage_y: number; storage_yaw?: number }
   ): Promise<ShelfMap> {
-    const res = await fetch(`${API_BASE}/shelves/${shelfId}/storage`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(coordinates),
-    });
-    if (res.status === 403) {
-      throw new Error('Forbidden: Admin privileges required');
+    try {
+      return await request<ShelfMap>(`/shelves/${shelfId}/storage`, {
+        method: 'PUT',
+        body: coordinates,
+        errorMessage: 'Failed to set shelf storage',
+      });
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 403) {
+        throw new ApiError({
+          kind: err.kind,
+          status: err.status,
+          method: err.method,
+          endpoint: err.endpoint,
+          message: 'Forbidden: Admin privileges required',
+        });
+      }
+      throw err;
     }
-    if (!res.ok) throw new Error(`Failed to set shelf storage: ${res.statusText}`);
-    return res.json();
   }
 
   /**
@@ -85,10 +89,10 @@ class MapApi {
    * Get all shelves with map view format
    */
   async getAllShelves(): Promise<ShelfMap[]> {
-    const res = await fetch(`${API_BASE}/shelves`);
-    if (!res.ok) throw new Error(`Failed to fetch shelves: ${res.statusText}`);
-    const data = await res.json();
-    return data.shelves || data.results || data;
+    const data = await request<{ shelves?: ShelfMap[]; results?: ShelfMap[] } | ShelfMap[]>('/shelves', {
+      errorMessage: 'Failed to fetch shelves',
+    });
+    return Array.isArray(data) ? data : data.shelves || data.results || [];
   }
 }
 
@@ -0,0 +1,319 @@
+/**
+ * Fleet alert rules card for the Settings page
+ * Rules are saved per connection profile; alerts go to the notification center
+ */
+import { useState } from 'react';
+import { Pencil, RotateCcw, Siren, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useActiveProfile } from '@/stores/connectionStore';
+import { useActiveAlertRules, useAlertRuleStore } from '@/stores/alertRuleStore';
+import {
+  ALERT_RULE_KINDS,
+  describeRule,
+  validateAlertRule,
+  type AlertRule,
+  type AlertRuleInput,
+  type AlertRuleKind,
+  type AlertSeverity,
+} from '@/lib/alertRules';
+import { TELEMETRY_METRICS, type TelemetryMetric } from '@/lib/telemetry';
+
+interface RuleForm {
+  name: string;
+  kind: AlertRuleKind;
+  severity: AlertSeverity;
+  metric: TelemetryMetric;
+  op: 'above' | 'below';
+  value: string;
+  forSeconds: string;
+  seconds: string;
+  radius: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  kind: 'threshold',
+  severity: 'warning',
+  metric: 'battery_level',
+  op: 'below',
+  value: '20',
+  forSeconds: '0',
+  seconds: '30',
+  radius: '0.1',
+};
+
+const SEVERITY_BADGE: Record<AlertSeverity, string> = {
+  info: 'border-primary/40 text-primary',
+  warning: 'border-warning/40 text-warning',
+  critical: 'border-destructive/40 text-destructive',
+};
+
+const toForm = (rule: AlertRule): RuleForm => ({
+  ...EMPTY_FORM,
+  name: rule.name,
+  kind: rule.kind,
+  severity: rule.severity,
+  ...(rule.kind === 'threshold'
+    ? { metric: rule.metric, op: rule.op, value: String(rule.value), forSeconds: String(rule.forSeconds) }
+    : { seconds: String(rule.seconds) }),
+  ...(rule.kind === 'stuck' ? { radius: String(rule.radius) } : {}),
+});
+
+const toInput = (form: RuleForm, enabled: boolean): AlertRuleInput => {
+  const base = { name: form.name.trim(), enabled, severity: form.severity };
+  if (form.kind === 'threshold') {
+    return {
+      ...base,
+      kind: 'threshold',
+      metric: form.metric,
+      op: form.op,
+      value: parseFloat(form.value),
+      forSeconds: parseFloat(form.forSeconds || '0'),
+    };
+  }
+  if (form.kind === 'silent') return { ...base, kind: 'silent', seconds: parseFloat(form.seconds) };
+  return { ...base, kind: 'stuck', seconds: parseFloat(form.seconds), radius: parseFloat(form.radius) };
+};
+
+export function AlertRuleSettings() {
+  const profile = useActiveProfile();
+  const rules = useActiveAlertRules();
+  const { addRule, updateRule, removeRule, setEnabled, resetRules } = useAlertRuleStore();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+  };
+
+  const startEdit = (rule: AlertRule) => {
+    setEditingId(rule.id);
+    setForm(toForm(rule));
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    const editing = rules.find((r) => r.id === editingId);
+    const input = toInput(form, editing?.enabled ?? true);
+    const error = validateAlertRule(input);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    if (editing) {
+      updateRule(profile.id, editing.id, input);
+      toast({ title: 'Alert rule updated', description: input.name });
+    } else {
+      addRule(profile.id, input);
+      toast({ title: 'Alert rule added', description: input.name });
+    }
+    resetForm();
+  };
+
+  const handleReset = () => {
+    resetRules(profile.id);
+    resetForm();
+    toast({ title: 'Alert rules reset', description: `Defaults restored for ${profile.name}` });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-destructive/10 flex items-center justify-center">
+            <Siren className="h-5 w-5 text-destructive" />
+          </div>
+          <div className="flex-1">
+            <CardTitle>Fleet Alerts</CardTitle>
+            <CardDescription>Telemetry rules for {profile.name}</CardDescription>
+          </div>
+          <Button size="sm" variant="ghost" onClick={handleReset} title="Restore the default rules">
+            <RotateCcw className="h-4 w-4 mr-1" /> Defaults
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Rules of the active profile */}
+        <div className="space-y-2">
+          {rules.length === 0 && <p className="text-sm text-muted-foreground">No rules; nothing will alert.</p>}
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-2 rounded-lg border border-border/50 bg-card/50 p-3">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(checked) => setEnabled(profile.id, rule.id, checked)}
+                aria-label={`Enable ${rule.name}`}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{rule.name}</span>
+                  <Badge variant="outline" className={SEVERITY_BADGE[rule.severity]}>
+                    {rule.severity}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+              </div>
+              <Button size="icon" variant="ghost" onClick={() => startEdit(rule)} title="Edit">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="text-destructive"
+                onClick={() => removeRule(profile.id, rule.id)}
+                title="Delete"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Add / edit form */}
+        <div className="space-y-3 rounded-lg bg-muted/30 p-3">
+          <p className="text-sm font-medium">{editingId ? 'Edit rule' : 'New rule'}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="ruleName">Name</Label>
+              <Input
+                id="ruleName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Battery low"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v as AlertRuleKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ALERT_RULE_KINDS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select value={form.severity} onValueChange={(v) => setForm({ ...form, severity: v as AlertSeverity })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="info">Info</SelectItem>
+                  <SelectItem value="warning">Warning</SelectItem>
+                  <SelectItem value="critical">Critical</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.kind === 'threshold' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Metric</Label>
+                  <Select value={form.metric} onValueChange={(v) => setForm({ ...form, metric: v as TelemetryMetric })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TELEMETRY_METRICS.map((m) => (
+                        <SelectItem key={m.key} value={m.key}>
+                          {m.label} ({m.unit})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>When</Label>
+                  <div className="flex gap-2">
+                    <Select value={form.op} onValueChange={(v) => setForm({ ...form, op: v as RuleForm['op'] })}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="below">below</SelectItem>
+                        <SelectItem value="above">above</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      value={form.value}
+                      onChange={(e) => setForm({ ...form, value: e.target.value })}
+                      aria-label="Threshold"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="ruleFor">Held for (seconds, 0 = at once)</Label>
+                  <Input
+                    id="ruleFor"
+                    type="number"
+                    min={0}
+                    value={form.forSeconds}
+                    onChange={(e) => setForm({ ...form, forSeconds: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+
+            {form.kind !== 'threshold' && (
+              <div className={`space-y-2 ${form.kind === 'silent' ? 'col-span-2' : ''}`}>
+                <Label htmlFor="ruleSeconds">
+                  {form.kind === 'silent' ? 'Silent for (seconds)' : 'Not moved for (seconds)'}
+                </Label>
+                <Input
+                  id="ruleSeconds"
+                  type="number"
+                  min={1}
+                  value={form.seconds}
+                  onChange={(e) => setForm({ ...form, seconds: e.target.value })}
+                />
+              </div>
+            )}
+            {form.kind === 'stuck' && (
+              <div className="space-y-2">
+                <Label htmlFor="ruleRadius">Within (metres)</Label>
+                <Input
+                  id="ruleRadius"
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={form.radius}
+                  onChange={(e) => setForm({ ...form, radius: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSave} className="flex-1">
+              {editingId ? 'Save Changes' : 'Add Rule'}
+            </Button>
+            {editingId && (
+              <Button variant="ghost" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * Bulk task creation from pasted CSV or a file
+ * Rows are resolved and checked (dry run) before anything is sent, then
+ * submitted a few at a time with a per-row result report
+ */
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, FileUp, ListPlus, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useShelfList, useTaskList, useZoneList } from '@/hooks/useEntities';
+import { tasks } from '@/services/api';
+import { ApiError } from '@/services/http';
+import { useEntityStore } from '@/stores/entityStore';
+import { BULK_COLUMNS, prepareBulkRows, readBulkRows, runWithConcurrency } from '@/lib/bulkTasks';
+
+/** Requests in flight at once while submitting */
+const CONCURRENCY = 4;
+
+const EXAMPLE = `shelf,task_type,zone,priority,description
+R1-S1,PICKUP_AND_DELIVER,DROP-1,7,Morning wave
+R2-S3,RETURN_SHELF,,5,`;
+
+interface RowResult {
+  ok: boolean;
+  taskId?: string;
+  message?: string;
+}
+
+const errorMessage = (reason: unknown) => {
+  if (reason instanceof ApiError && reason.details.length) {
+    return Object.entries(reason.fieldErrors)
+      .map(([field, msg]) => `${field}: ${msg}`)
+      .join('; ');
+  }
+  return reason instanceof Error ? reason.message : 'Failed to create task';
+};
+
+export function BulkTaskDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const shelfList = useShelfList();
+  const zoneList = useZoneList();
+  const taskList = useTaskList();
+  const reloadEntities = useEntityStore((s) => s.load);
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<Record<number, RowResult> | null>(null);
+
+  // Frozen once submission starts so new tasks don't flag their own rows as conflicts
+  const [frozen, setFrozen] = useState<ReturnType<typeof prepareBulkRows> | null>(null);
+  const preview = useMemo(
+    () => prepareBulkRows(readBulkRows(text), { shelves: shelfList, zones: zoneList, tasks: taskList }),
+    [text, shelfList, zoneList, taskList]
+  );
+  const rows = frozen ?? preview;
+
+  const ready = rows.filter((row) => row.payload);
+  const invalid = rows.length - ready.length;
+  const done = results ? Object.keys(results).length : 0;
+  const failed = results ? Object.values(results).filter((r) => !r.ok).length : 0;
+
+  const reset = () => {
+    setText('');
+    setResults(null);
+    setFrozen(null);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setResults(null);
+    setFrozen(null);
+    setText(await file.text());
+  };
+
+  const handleSubmit = async () => {
+    if (ready.length === 0) return;
+    setFrozen(rows);
+    setResults({});
+    setSubmitting(true);
+
+    await runWithConcurrency(
+      ready,
+      CONCURRENCY,
+      (row) => tasks.create(row.payload!),
+      (index, settled) => {
+        const line = ready[index].line;
+        const result: RowResult =
+          settled.status === 'fulfilled'
+            ? { ok: true, taskId: settled.value?.id }
+            : { ok: false, message: errorMessage(settled.reason) };
+        setResults((prev) => ({ ...prev, [line]: result }));
+      }
+    );
+
+    setSubmitting(false);
+    await reloadEntities({ silent: true });
+    toast({ title: 'Bulk create finished', description: `${ready.length} rows submitted` });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (submitting) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5 text-primary" /> Bulk Create Tasks
+          </DialogTitle>
+          <DialogDescription>
+            Paste CSV or load a file. Columns: {BULK_COLUMNS.join(', ')}. Shelves and zones can be referenced by
+            their warehouse / zone id.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!results && (
+          <div className="space-y-2">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={EXAMPLE}
+              rows={6}
+              className="font-mono text-xs"
+            />
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                <FileUp className="h-4 w-4 mr-1" /> Load file
+              </Button>
+              {rows.length > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {ready.length} ready, {invalid} with errors
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {results && (
+          <div className="space-y-2">
+            <Progress value={ready.length ? (done / ready.length) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">
+              {done}/{ready.length} submitted, {done - failed} created, {failed} failed
+              {invalid > 0 && `, ${invalid} skipped`}
+            </p>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <ScrollArea className="h-72 rounded-lg border border-border/30">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Line</TableHead>
+                  <TableHead>Shelf</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Zone / Target</TableHead>
+                  <TableHead className="w-16">Priority</TableHead>
+                  <TableHead>{results ? 'Result' : 'Check'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const result = results?.[row.line];
+                  return (
+                    <TableRow key={row.line}>
+                      <TableCell className="font-mono text-xs">{row.line}</TableCell>
+                      <TableCell>{row.shelfLabel ?? row.values.shelf ?? '—'}</TableCell>
+                      <TableCell className="text-xs">{row.payload?.task_type ?? row.values.task_type ?? '—'}</TableCell>
+                      <TableCell className="text-xs">{row.values.zone ?? row.values.target_shelf ?? '—'}</TableCell>
+                      <TableCell>{row.payload?.priority ?? row.values.priority ?? 5}</TableCell>
+                      <TableCell className="text-xs space-y-0.5">
+                        {row.errors.map((e) => (
+                          <div key={e} className="flex items-center gap-1 text-destructive">
+                            <XCircle className="h-3 w-3 shrink-0" /> {e}
+                          </div>
+                        ))}
+                        {row.warnings.map((w) => (
+                          <div key={w} className="flex items-center gap-1 text-warning">
+                            <AlertTriangle className="h-3 w-3 shrink-0" /> {w}
+                          </div>
+                        ))}
+                        {row.payload && !results && row.warnings.length === 0 && (
+                          <span className="flex items-center gap-1 text-success">
+                            <CheckCircle className="h-3 w-3" /> OK
+                          </span>
+                        )}
+                        {result?.ok && (
+                          <span className="flex items-center gap-1 text-success">
+                            <CheckCircle className="h-3 w-3" /> Created {result.taskId}
+                          </span>
+                        )}
+                        {result && !result.ok && (
+                          <span className="flex items-center gap-1 text-destructive">
+                            <XCircle className="h-3 w-3 shrink-0" /> {result.message}
+                          </span>
+                        )}
+                        {results && row.payload && !result && <Badge variant="outline">Queued</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <>
+              <Button variant="outline" onClick={reset} disabled={submitting}>
+                New batch
+              </Button>
+              <Button onClick={() => handleOpenChange(false)} disabled={submitting}>
+                Close
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={ready.length === 0}>
+                Create {ready.length} task{ready.length === 1 ? '' : 's'}
+                {invalid > 0 && ` (skip ${invalid})`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Connection profiles card for the Settings page
+ * Saved API/WebSocket endpoints per warehouse or stack, with a connection test
+ */
+import { useState } from 'react';
+import { CheckCircle2, Loader2, Pencil, Plug, Server, Trash2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { health } from '@/services/api';
+import { testSocketHandshake } from '@/services/websocket';
+import {
+  DEFAULT_PROFILE_ID,
+  useConnectionStore,
+  validateProfile,
+  type ConnectionProfileInput,
+} from '@/stores/connectionStore';
+import { useSimulatorStore } from '@/stores/simulatorStore';
+
+interface TestResult {
+  api: { ok: boolean; message: string };
+  socket: { ok: boolean; message: string };
+}
+
+const EMPTY_FORM: ConnectionProfileInput = { name: '', apiUrl: '', wsUrl: '' };
+
+function ResultLine({ label, ok, message }: { label: string; ok: boolean; message: string }) {
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      {ok ? (
+        <CheckCircle2 className="h-4 w-4 shrink-0 text-success" />
+      ) : (
+        <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+      )}
+      <span className="font-medium">{label}</span>
+      <span className="text-muted-foreground break-all">{message}</span>
+    </div>
+  );
+}
+
+export function ConnectionSettings() {
+  const { profiles, activeId, addProfile, updateProfile, removeProfile, activate } = useConnectionStore();
+  const simulatorEnabled = useSimulatorStore((s) => s.enabled);
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ConnectionProfileInput>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setTestResult(null);
+  };
+
+  const startEdit = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setEditingId(id);
+    setForm({ name: profile.name, apiUrl: profile.apiUrl, wsUrl: profile.wsUrl });
+    setFormError(null);
+    setTestResult(null);
+  };
+
+  const handleSave = () => {
+    const error = validateProfile(form);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    const input = { name: form.name.trim(), apiUrl: form.apiUrl.trim(), wsUrl: form.wsUrl.trim() };
+    if (editingId) {
+      updateProfile(editingId, input);
+      toast({ title: 'Connection updated', description: input.name });
+    } else {
+      addProfile(input);
+      toast({ title: 'Connection saved', description: input.name });
+    }
+    resetForm();
+  };
+
+  const handleActivate = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    activate(id);
+    toast({ title: 'Switched connection', description: `Now using ${profile?.name}` });
+  };
+
+  const handleTest = async () => {
+    const error = validateProfile({ ...form, name: form.name || 'test' });
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    setFormError(null);
+    setTesting(true);
+    setTestResult(null);
+
+    const [apiResult, socket] = await Promise.all([
+      health.check(form.apiUrl.trim()),
+      testSocketHandshake(form.wsUrl.trim()),
+    ]);
+    const api =
+      apiResult.status === 'ok'
+        ? { ok: true, message: 'Health check passed' }
+        : {
+            ok: false,
+            message: 'code' in apiResult ? `HTTP ${apiResult.code}` : String(apiResult.message),
+          };
+
+    setTestResult({ api, socket });
+    setTesting(false);
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Server className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Connection</CardTitle>
+            <CardDescription>Saved backend API and WebSocket endpoints</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {simulatorEnabled && (
+          <p className="text-xs text-warning">
+            The fleet simulator is on; the active profile is used again once it is turned off.
+          </p>
+        )}
+
+        {/* Saved profiles */}
+        <div className="space-y-2">
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeId;
+            const isDefault = profile.id === DEFAULT_PROFILE_ID;
+            return (
+              <div
+                key={profile.id}
+                className="flex items-center gap-2 rounded-lg border border-border/50 bg-card/50 p-3"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{profile.name}</span>
+                    {isActive && <Badge variant="secondary">Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono truncate">{profile.apiUrl}</p>
+                  <p className="text-xs text-muted-foreground font-mono truncate">{profile.wsUrl}</p>
+                </div>
+                {!isActive && (
+                  <Button size="sm" variant="outline" onClick={() => handleActivate(profile.id)}>
+                    Use
+                  </Button>
+                )}
+                {!isDefault && (
+                  <>
+                    <Button size="icon" variant="ghost" onClick={() => startEdit(profile.id)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-destructive"
+                      onClick={() => removeProfile(profile.id)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Add / edit form */}
+        <div className="space-y-3 rounded-lg bg-muted/30 p-3">
+          <p className="text-sm font-medium">{editingId ? 'Edit connection' : 'New connection'}</p>
+          <div className="space-y-2">
+            <Label htmlFor="profileName">Name</Label>
+            <Input
+              id="profileName"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Warehouse B, Staging"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="apiUrl">API URL</Label>
+            <Input
+              id="apiUrl"
+              value={form.apiUrl}
+              onChange={(e) => setForm({ ...form, apiUrl: e.target.value })}
+              placeholder="http://localhost:5000/api"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="wsUrl">WebSocket URL</Label>
+            <Input
+              id="wsUrl"
+              value={form.wsUrl}
+              onChange={(e) => setForm({ ...form, wsUrl: e.target.value })}
+              placeholder="http://localhost:5000"
+            />
+          </div>
+
+          {formError && <p className="text-xs text-destructive">{formError}</p>}
+          {testResult && (
+            <div className="space-y-1">
+              <ResultLine label="API" {...testResult.api} />
+              <ResultLine label="Socket" {...testResult.socket} />
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleTest} disabled={testing}>
+              {testing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plug className="h-4 w-4 mr-2" />}
+              Test Connection
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              {editingId ? 'Save Changes' : 'Save Connection'}
+            </Button>
+            {editingId && (
+              <Button variant="ghost" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
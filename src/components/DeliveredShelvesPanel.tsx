@@ -0,0 +1,93 @@
+/**
+ * Shelves waiting at drop zones: return countdown per the zone's policy,
+ * with one-click return and picking confirmation
+ */
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, Timer, Undo2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useDeliveredShelves } from '@/hooks/useDeliveredShelves';
+import { useReturnPolicyStore } from '@/stores/returnPolicyStore';
+import { requestShelfReturn } from '@/services/shelfReturnSync';
+import { describeReturn, type DeliveredShelf } from '@/lib/shelfReturn';
+
+export function DeliveredShelvesPanel({ canReturn }: { canReturn: boolean }) {
+  const { delivered, now } = useDeliveredShelves();
+  const errors = useReturnPolicyStore((s) => s.errors);
+  const [busy, setBusy] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  if (delivered.length === 0) return null;
+
+  const handleReturn = async (item: DeliveredShelf, reason: string) => {
+    setBusy(item.shelf.id);
+    const task = await requestShelfReturn(item.shelf.id, reason);
+    setBusy(null);
+    if (task) toast({ title: 'Return task created', description: `Shelf ${item.shelf.warehouse_id} is going back to storage` });
+  };
+
+  return (
+    <div className="bg-card/80 backdrop-blur rounded-xl border border-border/30 p-4 space-y-3">
+      <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+        <Timer className="w-5 h-5 text-accent" /> At drop zones
+        <Badge variant="secondary">{delivered.length}</Badge>
+      </h2>
+      <div className="space-y-2">
+        {delivered.map((item) => {
+          const overdue = !item.returnTask && item.dueAt !== undefined && item.dueAt <= now;
+          const error = errors[item.shelf.id];
+          return (
+            <div
+              key={item.shelf.id}
+              className="flex flex-wrap items-center gap-3 rounded-lg border border-border/30 p-3 text-sm"
+            >
+              <span className="font-semibold">{item.shelf.warehouse_id}</span>
+              <span className="text-xs text-muted-foreground">
+                at {item.zone?.name ?? item.zone?.zone_id ?? 'unknown zone'}
+              </span>
+              <span className={`text-xs font-medium ${overdue ? 'text-warning' : 'text-accent'}`}>
+                {describeReturn(item, now)}
+              </span>
+              {item.returnTask && (
+                <Link to={`/tasks/${item.returnTask.id}`} className="text-xs text-primary hover:underline">
+                  View task
+                </Link>
+              )}
+              {error && (
+                <span className="flex items-center gap-1 text-xs text-destructive">
+                  <XCircle className="h-3 w-3" /> {error}
+                </span>
+              )}
+              <span className="flex-1" />
+              {canReturn && !item.returnTask && (
+                <>
+                  {item.policy.mode === 'on_confirm' && (
+                    <Button
+                      size="sm"
+                      className="h-7"
+                      disabled={busy === item.shelf.id}
+                      onClick={() => handleReturn(item, 'picking confirmed')}
+                    >
+                      <CheckCircle className="h-3 w-3 mr-1" /> Picking done
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7"
+                    disabled={busy === item.shelf.id}
+                    onClick={() => handleReturn(item, 'returned by operator')}
+                  >
+                    <Undo2 className="h-3 w-3 mr-1" /> Return now
+                  </Button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
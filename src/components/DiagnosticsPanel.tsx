@@ -0,0 +1,95 @@
+/**
+ * Developer diagnostics panel
+ * Lists API documents and socket payloads rejected by schema validation
+ */
+import { useState } from 'react';
+import { Bug, ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useDiagnosticsStore, type ValidationFailure } from '@/stores/diagnosticsStore';
+
+function FailureRow({ failure }: { failure: ValidationFailure }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/50 p-3 text-sm">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="flex w-full items-start gap-2 text-left"
+      >
+        {open ? (
+          <ChevronDown className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+        )}
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono text-xs text-foreground">{failure.source}</span>
+            <Badge variant="outline">{failure.kind}</Badge>
+            {failure.docId && (
+              <span className="font-mono text-xs text-muted-foreground">#{failure.docId}</span>
+            )}
+            {failure.count > 1 && <Badge variant="secondary">×{failure.count}</Badge>}
+            <span className="ml-auto text-xs text-muted-foreground">
+              {new Date(failure.lastSeen).toLocaleTimeString()}
+            </span>
+          </div>
+          <ul className="space-y-0.5 text-xs text-destructive">
+            {failure.issues.map((issue) => (
+              <li key={issue} className="font-mono">
+                {issue}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </button>
+      {open && (
+        <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted/40 p-2 text-xs text-muted-foreground">
+          {JSON.stringify(failure.sample, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export function DiagnosticsPanel() {
+  const failures = useDiagnosticsStore((s) => s.failures);
+  const clear = useDiagnosticsStore((s) => s.clear);
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-destructive/10 flex items-center justify-center">
+            <Bug className="h-5 w-5 text-destructive" />
+          </div>
+          <div className="flex-1">
+            <CardTitle>Developer Diagnostics</CardTitle>
+            <CardDescription>
+              Documents and socket payloads that failed schema validation and were ignored
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={clear} disabled={failures.length === 0}>
+            <Trash2 className="h-4 w-4 mr-1" /> Clear
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {failures.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No validation failures recorded.</p>
+        ) : (
+          <ScrollArea className="h-80 pr-3">
+            <div className="space-y-2">
+              {failures.map((failure) => (
+                <FailureRow key={failure.key} failure={failure} />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * Fulfil a cart of products: one delivery task per holding shelf to a
+ * chosen drop zone. Stock is picked when each task reaches the zone
+ * (services/fulfilmentSync.ts).
+ */
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Minus, Plus, ShoppingCart, Trash2, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useShelfList, useTaskList, useZoneList } from '@/hooks/useEntities';
+import { tasks } from '@/services/api';
+import { useEntityStore } from '@/stores/entityStore';
+import { useFulfilmentStore } from '@/stores/fulfilmentStore';
+import { fulfilmentTask, planFulfilment, type CartLine } from '@/lib/fulfilment';
+import type { Product } from '@/types';
+
+interface FulfilDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+  cart: CartLine[];
+  onCartChange: (cart: CartLine[]) => void;
+}
+
+export function FulfilDialog({ open, onOpenChange, products, cart, onCartChange }: FulfilDialogProps) {
+  const shelfList = useShelfList();
+  const zoneList = useZoneList();
+  const taskList = useTaskList();
+  const reloadEntities = useEntityStore((s) => s.load);
+  const addOrder = useFulfilmentStore((s) => s.add);
+  const { toast } = useToast();
+
+  const [zoneId, setZoneId] = useState('');
+  const [priority, setPriority] = useState(5);
+  const [submitting, setSubmitting] = useState(false);
+
+  const plan = useMemo(
+    () => planFulfilment(cart, { products, shelves: shelfList, tasks: taskList }),
+    [cart, products, shelfList, taskList]
+  );
+  const sendable = plan.groups.filter((group) => group.errors.length === 0);
+
+  const setQuantity = (productId: string, quantity: number) =>
+    onCartChange(cart.map((line) => (line.productId === productId ? { ...line, quantity: Math.max(1, quantity) } : line)));
+
+  const removeLine = (productId: string) => onCartChange(cart.filter((line) => line.productId !== productId));
+
+  const handleSubmit = async () => {
+    if (!zoneId || sendable.length === 0) return;
+    setSubmitting(true);
+    const sent = new Set<string>();
+    const failures: string[] = [];
+
+    for (const group of sendable) {
+      try {
+        const task = await tasks.create(fulfilmentTask(group, zoneId, priority));
+        addOrder({
+          taskId: task.id,
+          shelfId: group.shelf.id,
+          zoneId,
+          lines: group.lines.map((line) => ({
+            productId: line.productId,
+            sku: line.product.sku,
+            name: line.product.name,
+            quantity: line.quantity,
+            pick: 'waiting',
+          })),
+        });
+        group.lines.forEach((line) => sent.add(line.productId));
+      } catch (error) {
+        console.error(`[Fulfilment] Task for shelf ${group.shelf.warehouse_id} failed:`, error);
+        failures.push(`${group.shelf.warehouse_id}: ${error instanceof Error ? error.message : 'failed'}`);
+      }
+    }
+
+    setSubmitting(false);
+    // Lines that went out leave the cart; the rest stay for another try
+    onCartChange(cart.filter((line) => !sent.has(line.productId)));
+    await reloadEntities({ silent: true });
+
+    const created = sendable.length - failures.length;
+    toast({
+      title: failures.length ? 'Some fulfilment tasks failed' : 'Fulfilment started',
+      description: [`${created} task${created === 1 ? '' : 's'} created`, ...failures].join('. '),
+      variant: failures.length ? 'destructive' : 'default',
+    });
+    if (failures.length === 0 && sent.size === cart.length) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !submitting && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShoppingCart className="h-5 w-5 text-primary" /> Fulfil Products
+          </DialogTitle>
+          <DialogDescription>
+            Each shelf holding cart products is delivered to the drop zone. Stock is picked when the shelf arrives.
+          </DialogDescription>
+        </DialogHeader>
+
+        {cart.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            The cart is empty. Use "Fulfil" on a product to add it.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {plan.groups.map((group) => (
+              <div key={group.shelf.id} className="rounded-lg border border-border/30 p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold text-sm">Shelf {group.shelf.warehouse_id}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {group.lines.length} product{group.lines.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {group.lines.map((line) => (
+                  <div key={line.productId} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 min-w-0 truncate">
+                      {line.product.name} <span className="text-xs text-muted-foreground">({line.product.sku})</span>
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setQuantity(line.productId, line.quantity - 1)}
+                      disabled={submitting}
+                    >
+                      <Minus className="h-3 w-3" />
+                    </Button>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      onChange={(e) => setQuantity(line.productId, parseInt(e.target.value) || 1)}
+                      className="h-7 w-16 text-center"
+                      disabled={submitting}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setQuantity(line.productId, line.quantity + 1)}
+                      disabled={submitting}
+                    >
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                    <span className="w-16 text-right text-xs text-muted-foreground">of {line.product.quantity}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => removeLine(line.productId)}
+                      disabled={submitting}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                {group.errors.map((error) => (
+                  <div key={error} className="flex items-center gap-1 text-xs text-destructive">
+                    <XCircle className="h-3 w-3 shrink-0" /> {error}
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {plan.rejected.map((line) => (
+              <div key={line.productId} className="flex items-center gap-2 text-xs text-warning">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                <span className="flex-1">
+                  {line.product?.name ?? line.productId}: {line.reason}
+                </span>
+                <Button variant="ghost" size="sm" className="h-6" onClick={() => removeLine(line.productId)}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Drop zone</Label>
+                <Select value={zoneId} onValueChange={setZoneId} disabled={submitting}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a zone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {zoneList.map((zone) => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name || zone.zone_id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Priority (1-10)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={priority}
+                  onChange={(e) => setPriority(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                  disabled={submitting}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Close
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !zoneId || sendable.length === 0}>
+            {submitting ? 'Creating…' : `Create ${sendable.length} task${sendable.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
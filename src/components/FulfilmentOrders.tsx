@@ -0,0 +1,83 @@
+/**
+ * Fulfilment orders and the pick state of their lines
+ */
+import { Link } from 'react-router-dom';
+import { CheckCircle, Clock, RotateCcw, X, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useEntityStore } from '@/stores/entityStore';
+import { isOrderOpen, useFulfilmentStore, type PickState } from '@/stores/fulfilmentStore';
+import { retryFulfilment } from '@/services/fulfilmentSync';
+import { isReadyToPick } from '@/lib/fulfilment';
+
+const PICK_ICON: Record<PickState, JSX.Element> = {
+  waiting: <Clock className="h-3 w-3 text-muted-foreground" />,
+  picked: <CheckCircle className="h-3 w-3 text-success" />,
+  failed: <XCircle className="h-3 w-3 text-destructive" />,
+};
+
+export function FulfilmentOrders({ canRetry }: { canRetry: boolean }) {
+  const orders = useFulfilmentStore((s) => s.orders);
+  const dismiss = useFulfilmentStore((s) => s.dismiss);
+  const taskMap = useEntityStore((s) => s.tasks);
+  const shelves = useEntityStore((s) => s.shelves);
+  const zones = useEntityStore((s) => s.zones);
+
+  if (orders.length === 0) return null;
+
+  return (
+    <div className="bg-card/80 backdrop-blur rounded-xl border border-border/30 p-4 space-y-3">
+      <h2 className="text-lg font-bold text-foreground">Fulfilment</h2>
+      <div className="space-y-2">
+        {orders.map((order) => {
+          const task = taskMap[order.taskId];
+          const open = isOrderOpen(order);
+          const failed = order.lines.some((line) => line.pick === 'failed');
+          return (
+            <div key={order.taskId} className="rounded-lg border border-border/30 p-3 text-sm space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Link to={`/tasks/${order.taskId}`} className="font-semibold hover:text-primary transition">
+                  Shelf {shelves[order.shelfId]?.warehouse_id ?? order.shelfId}
+                </Link>
+                <span className="text-xs text-muted-foreground">
+                  → {zones[order.zoneId]?.name ?? zones[order.zoneId]?.zone_id ?? order.zoneId}
+                </span>
+                <span className="flex-1" />
+                {order.cancelled ? (
+                  <Badge variant="outline">Cancelled</Badge>
+                ) : (
+                  <Badge variant={open ? 'secondary' : 'default'}>{open ? task?.status ?? 'Unknown task' : 'Picked'}</Badge>
+                )}
+                {failed && canRetry && task && isReadyToPick(task.status) && (
+                  <Button variant="outline" size="sm" className="h-7" onClick={() => retryFulfilment(order.taskId)}>
+                    <RotateCcw className="h-3 w-3 mr-1" /> Retry picks
+                  </Button>
+                )}
+                {(!open || order.cancelled || !task) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Remove from list"
+                    onClick={() => dismiss(order.taskId)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              {order.lines.map((line) => (
+                <div key={line.productId} className="flex items-center gap-2 text-xs">
+                  {PICK_ICON[line.pick]}
+                  <span>
+                    {line.quantity}x {line.name} ({line.sku})
+                  </span>
+                  {line.error && <span className="text-destructive truncate">{line.error}</span>}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
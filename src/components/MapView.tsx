@@ -8,6 +8,8 @@ import { Stage, Layer, Circle, Rect, Line, Text, Group, Image as KonvaImage } fr
 import { useMapContext } from '../context/MapContext';
 import { TaskMapView, ShelfMap, Robot } from '../types/map';
 import { ShelfDetailsPanel } from './ShelfDetailsPanel';
+import { useRobotLiveness } from '../hooks/useRobotLiveness';
+import { lastSeenLabel } from '../lib/robotLiveness';
 
 interface MapViewProps {
   width?: number;
@@ -23,6 +25,8 @@ export function MapView({
   selectedTaskId,
 }: MapViewProps) {
   const { tasks, shelves, robots } = useMapContext();
+  // Robots are matched to the entity cache by id or robot_id; unknown ones count as live
+  const { fleet, now } = useRobotLiveness();
   const stageRef = useRef<any>(null);
   const [selectedShelfId, setSelectedShelfId] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1);
@@ -92,8 +96,9 @@ export function MapView({
     }
   };
 
-  // Color mapping for robot status
+  // Color mapping for robot status; a robot presumed offline is drawn as OFFLINE
   const getRobotColor = (robot: Robot) => {
+    if (fleet[robot.id]?.liveness === 'offline') return '#ef4444';
     switch (robot.status) {
       case 'IDLE':
         return '#22c55e'; // Green
@@ -222,31 +227,47 @@ export function MapView({
           })}
 
           {/* Robots */}
-          {Array.from(robots.values()).map((robot) => (
-            <Group key={robot.id}>
-              <Circle
-                x={robot.x}
-                y={robot.y}
-                radius={10}
-                fill={getRobotColor(robot)}
-                stroke="#1e293b"
-                strokeWidth={2}
-                opacity={0.8}
-              />
-              <Text
-                x={robot.x + 15}
-                y={robot.y - 10}
-                text={robot.id.slice(-4)}
-                fontSize={11}
-                fill="#e2e8f0"
-                opacity={0.7}
-              />
-            </Group>
-          ))}
+          {Array.from(robots.values()).map((robot) => {
+            const seen = fleet[robot.id];
+            const quiet = seen !== undefined && seen.liveness !== 'live';
+            return (
+              <Group key={robot.id}>
+                <Circle
+                  x={robot.x}
+                  y={robot.y}
+                  radius={10}
+                  fill={getRobotColor(robot)}
+                  stroke={quiet ? '#f59e0b' : '#1e293b'}
+                  strokeWidth={2}
+                  dash={quiet ? [3, 3] : undefined}
+                  opacity={quiet ? 0.4 : 0.8}
+                />
+                <Text
+                  x={robot.x + 15}
+                  y={robot.y - 10}
+                  text={robot.id.slice(-4)}
+                  fontSize={11}
+                  fill="#e2e8f0"
+                  opacity={0.7}
+                />
+                {quiet && (
+                  <Text
+                    x={robot.x + 15}
+                    y={robot.y + 3}
+                    text={lastSeenLabel(seen.lastSeen, now)}
+                    fontSize={10}
+                    fill="#f59e0b"
+                  />
+                )}
+              </Group>
+            );
+          })}
 
           {/* Active task highlighting */}
           {selectedTaskId && tasks.has(selectedTaskId) && (() => {
             const task = tasks.get(selectedTaskId)!;
+            // The task's robot has gone quiet, so its progress may be out of date
+            const color = task.robot && (fleet[task.robot.id]?.liveness ?? 'live') !== 'live' ? '#f59e0b' : '#60a5fa';
             return (
               <Group>
                 {/* Arrow from robot to target */}
@@ -258,7 +279,7 @@ export function MapView({
                       task.drop_zone?.x || task.shelf.current.x,
                       task.drop_zone?.y || task.shelf.current.y,
                     ]}
-                    stroke="#60a5fa"
+                    stroke={color}
                     strokeWidth={2}
                     opacity={0.6}
                   />
@@ -269,7 +290,7 @@ export function MapView({
                   y={task.drop_zone?.y || task.shelf.current.y}
                   radius={15}
                   fill="none"
-                  stroke="#60a5fa"
+                  stroke={color}
                   strokeWidth={2}
                   dash={[4, 4]}
                   opacity={0.7}
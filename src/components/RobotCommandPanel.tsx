@@ -0,0 +1,268 @@
+/**
+ * Command panel on the robot detail page: go to a pose or zone, pause,
+ * resume, emergency stop and release the shelf, with this robot's audit trail
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Crosshair, History, MapPin, OctagonX, Package, Pause, Play, Send } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/usePermission';
+import { useZoneList } from '@/hooks/useEntities';
+import { sendRobotCommand } from '@/services/robotCommands';
+import { useRobotCommandStore } from '@/stores/robotCommandStore';
+import {
+  COMMAND_STATUS_LABELS,
+  ROBOT_COMMANDS,
+  TRANSPORT_LABELS,
+  commandLatency,
+  describeCommand,
+  validateCommand,
+  type RobotCommandStatus,
+  type RobotCommandTransport,
+} from '@/lib/robotCommands';
+import type { Robot, RobotCommandKind, RobotGoToInput } from '@/types';
+
+/** Audit entries listed under the panel */
+const AUDIT_ROWS = 15;
+
+const STATUS_VARIANT: Record<RobotCommandStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  acknowledged: 'secondary',
+  rejected: 'destructive',
+  timed_out: 'destructive',
+};
+
+const toField = (value?: number) => (value === undefined ? '' : String(value));
+
+export function RobotCommandPanel({ robot, target }: { robot: Robot; target?: RobotGoToInput }) {
+  const canCommand = usePermission('robot:command');
+  const zones = useZoneList();
+  const { toast } = useToast();
+  const { entries, transport, setTransport } = useRobotCommandStore();
+  const [pose, setPose] = useState({ x: toField(target?.x), y: toField(target?.y), yaw: toField(target?.yaw) });
+  const [zoneId, setZoneId] = useState('');
+  const [sending, setSending] = useState<RobotCommandKind | null>(null);
+  const [confirming, setConfirming] = useState<RobotCommandKind | null>(null);
+
+  // A pose picked on the map fills the form; sending stays a separate step
+  useEffect(() => {
+    if (target) setPose({ x: toField(target.x), y: toField(target.y), yaw: toField(target.yaw) });
+  }, [target]);
+
+  const audit = useMemo(
+    () => entries.filter((e) => e.robotKey === robot.id).slice(0, AUDIT_ROWS),
+    [entries, robot.id]
+  );
+
+  const posePayload: RobotGoToInput = {
+    x: pose.x.trim() === '' ? undefined : Number(pose.x),
+    y: pose.y.trim() === '' ? undefined : Number(pose.y),
+    yaw: pose.yaw.trim() === '' ? undefined : Number(pose.yaw),
+  };
+  const poseError = pose.x || pose.y ? validateCommand('goto_pose', posePayload) : null;
+
+  const send = async (command: RobotCommandKind, params: RobotGoToInput = {}) => {
+    setSending(command);
+    try {
+      const entry = await sendRobotCommand(robot, command, params);
+      const title = `${describeCommand(command, params, zones)}: ${COMMAND_STATUS_LABELS[entry.status].toLowerCase()}`;
+      toast({
+        title,
+        description: entry.message,
+        variant: entry.status === 'acknowledged' ? 'default' : 'destructive',
+      });
+    } catch (err) {
+      toast({
+        title: 'Command not sent',
+        description: err instanceof Error ? err.message : 'Invalid command',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const busy = sending !== null;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Send className="h-5 w-5 text-primary" /> Commands
+            </CardTitle>
+            <CardDescription>Interventions are acknowledged by the backend and kept in the audit trail</CardDescription>
+          </div>
+          <ToggleGroup
+            type="single"
+            value={transport}
+            onValueChange={(v) => v && setTransport(v as RobotCommandTransport)}
+            variant="outline"
+            size="sm"
+          >
+            {(Object.keys(TRANSPORT_LABELS) as RobotCommandTransport[]).map((t) => (
+              <ToggleGroupItem key={t} value={t}>
+                {TRANSPORT_LABELS[t]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!canCommand && <p className="text-sm text-muted-foreground">Your role can't send robot commands.</p>}
+
+        {canCommand && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => send('pause')} disabled={busy}>
+                <Pause className="h-4 w-4 mr-1" /> {ROBOT_COMMANDS.pause.label}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => send('resume')} disabled={busy}>
+                <Play className="h-4 w-4 mr-1" /> {ROBOT_COMMANDS.resume.label}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfirming('release_shelf')}
+                disabled={busy || !robot.current_shelf_id}
+                title={robot.current_shelf_id ? undefined : 'No shelf attached'}
+              >
+                <Package className="h-4 w-4 mr-1" /> {ROBOT_COMMANDS.release_shelf.label}
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => setConfirming('emergency_stop')} disabled={busy}>
+                <OctagonX className="h-4 w-4 mr-1" /> {ROBOT_COMMANDS.emergency_stop.label}
+              </Button>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{ROBOT_COMMANDS.goto_pose.label}</Label>
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" asChild>
+                    <Link to={`/map?navigate=${encodeURIComponent(robot.id)}`}>
+                      <Crosshair className="h-3 w-3 mr-1" /> Pick on map
+                    </Link>
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['x', 'y', 'yaw'] as const).map((field) => (
+                    <Input
+                      key={field}
+                      type="number"
+                      step="0.1"
+                      placeholder={field === 'yaw' ? 'yaw (rad)' : field}
+                      aria-label={field}
+                      value={pose[field]}
+                      onChange={(e) => setPose({ ...pose, [field]: e.target.value })}
+                    />
+                  ))}
+                </div>
+                {poseError && <p className="text-xs text-destructive">{poseError}</p>}
+                <Button
+                  size="sm"
+                  className="w-full"
+                  onClick={() => send('goto_pose', posePayload)}
+                  disabled={busy || validateCommand('goto_pose', posePayload) !== null}
+                >
+                  <MapPin className="h-4 w-4 mr-1" /> Send to pose
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{ROBOT_COMMANDS.goto_zone.label}</Label>
+                <Select value={zoneId} onValueChange={setZoneId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a zone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {zones.map((zone) => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name || zone.zone_id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  className="w-full"
+                  onClick={() => send('goto_zone', { zone_id: zoneId })}
+                  disabled={busy || !zoneId}
+                >
+                  <MapPin className="h-4 w-4 mr-1" /> Send to zone
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium flex items-center gap-2 mb-2">
+            <History className="h-4 w-4 text-muted-foreground" /> Audit trail
+          </h4>
+          {audit.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No commands sent to this robot yet.</p>
+          ) : (
+            <ul className="divide-y divide-border/30">
+              {audit.map((entry) => {
+                const latency = commandLatency(entry);
+                return (
+                  <li key={entry.id} className="flex items-start justify-between gap-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium">{describeCommand(entry.command, entry.params, zones)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(entry.sentAt).toLocaleTimeString()} · {entry.user ?? 'unknown user'} ·{' '}
+                        {TRANSPORT_LABELS[entry.transport]}
+                        {latency !== undefined && ` · ${latency} ms`}
+                      </div>
+                      {entry.message && <div className="text-xs text-muted-foreground truncate">{entry.message}</div>}
+                    </div>
+                    <Badge variant={STATUS_VARIANT[entry.status]} className="shrink-0">
+                      {COMMAND_STATUS_LABELS[entry.status]}
+                    </Badge>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming && ROBOT_COMMANDS[confirming].label} · {robot.name}
+            </AlertDialogTitle>
+            <AlertDialogDescription>{confirming && ROBOT_COMMANDS[confirming].description}.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex justify-end gap-2">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirming && send(confirming)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {confirming && ROBOT_COMMANDS[confirming].label}
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
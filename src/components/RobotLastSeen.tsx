@@ -0,0 +1,29 @@
+/**
+ * "last seen 42s ago" label for a robot, flagged once its data goes stale
+ */
+import { LIVENESS_LABELS, lastSeenLabel, type RobotLivenessInfo } from '@/lib/robotLiveness';
+import { cn } from '@/lib/utils';
+
+const LIVENESS_STYLE = {
+  live: 'text-muted-foreground',
+  stale: 'text-warning',
+  offline: 'text-destructive',
+};
+
+export function RobotLastSeen({
+  info,
+  now,
+  className,
+}: {
+  info: RobotLivenessInfo | undefined;
+  now: number;
+  className?: string;
+}) {
+  if (!info) return null;
+  return (
+    <span className={cn('text-xs', LIVENESS_STYLE[info.liveness], className)}>
+      {info.liveness !== 'live' && <span className="font-semibold">{LIVENESS_LABELS[info.liveness]} · </span>}
+      {lastSeenLabel(info.lastSeen, now)}
+    </span>
+  );
+}
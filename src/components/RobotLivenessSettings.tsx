@@ -0,0 +1,85 @@
+/**
+ * Robot stale/offline timeouts card for the Settings page
+ */
+import { useEffect, useState } from 'react';
+import { RotateCcw, Timer } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useLivenessStore } from '@/stores/livenessStore';
+import { validateLivenessTimeouts } from '@/lib/robotLiveness';
+
+export function RobotLivenessSettings() {
+  const { timeouts, setTimeouts, reset } = useLivenessStore();
+  const { toast } = useToast();
+  const [stale, setStale] = useState(String(timeouts.staleSeconds));
+  const [offline, setOffline] = useState(String(timeouts.offlineSeconds));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStale(String(timeouts.staleSeconds));
+    setOffline(String(timeouts.offlineSeconds));
+  }, [timeouts]);
+
+  const dirty = stale !== String(timeouts.staleSeconds) || offline !== String(timeouts.offlineSeconds);
+
+  const handleSave = () => {
+    const next = { staleSeconds: parseFloat(stale), offlineSeconds: parseFloat(offline) };
+    const message = validateLivenessTimeouts(next);
+    setError(message);
+    if (message) return;
+    setTimeouts(next);
+    toast({ title: 'Robot timeouts saved', description: `Stale after ${stale}s, offline after ${offline}s` });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-warning/10 flex items-center justify-center">
+            <Timer className="h-5 w-5 text-warning" />
+          </div>
+          <div className="flex-1">
+            <CardTitle>Robot Liveness</CardTitle>
+            <CardDescription>When a robot without telemetry or position updates is flagged</CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              reset();
+              setError(null);
+            }}
+            title="Restore the default timeouts"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" /> Defaults
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="staleSeconds">Stale after (seconds)</Label>
+            <Input id="staleSeconds" type="number" min={1} value={stale} onChange={(e) => setStale(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="offlineSeconds">Presumed offline after (seconds)</Label>
+            <Input
+              id="offlineSeconds"
+              type="number"
+              min={1}
+              value={offline}
+              onChange={(e) => setOffline(e.target.value)}
+            />
+          </div>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <Button onClick={handleSave} disabled={!dirty} className="w-full">
+          Save Timeouts
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
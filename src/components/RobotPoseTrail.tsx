@@ -0,0 +1,84 @@
+/**
+ * Mini-map of one robot: the poses from its telemetry over the selected
+ * window, ending at the current pose with its heading
+ */
+import { useMemo } from 'react';
+
+interface TrailPoint {
+  x: number;
+  y: number;
+}
+
+const PADDING = 1; // metres around the drawn points
+
+export function RobotPoseTrail({ trail, pose }: { trail: TrailPoint[]; pose?: TrailPoint & { yaw?: number } }) {
+  const bounds = useMemo(() => {
+    const points = [...trail, ...(pose ? [pose] : [])];
+    if (points.length === 0) return null;
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const minX = Math.min(...xs) - PADDING;
+    const minY = Math.min(...ys) - PADDING;
+    return {
+      minX,
+      minY,
+      width: Math.max(Math.max(...xs) + PADDING - minX, 4),
+      height: Math.max(Math.max(...ys) + PADDING - minY, 4),
+    };
+  }, [trail, pose]);
+
+  if (!bounds) {
+    return <p className="text-sm text-muted-foreground">No poses reported in this window.</p>;
+  }
+
+  // SVG y grows downwards, warehouse y grows upwards
+  const toSvg = (p: TrailPoint) => ({ x: p.x - bounds.minX, y: bounds.height - (p.y - bounds.minY) });
+  const unit = Math.max(bounds.width, bounds.height) / 60;
+  const start = trail.length > 1 ? toSvg(trail[0]) : null;
+  const current = pose ? toSvg(pose) : null;
+  const heading = pose?.yaw ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${bounds.width} ${bounds.height}`}
+        className="w-full max-h-80 rounded-lg border border-border/30 bg-muted/20"
+        preserveAspectRatio="xMidYMid meet"
+      >
+        {trail.length > 1 && (
+          <polyline
+            points={trail
+              .map(toSvg)
+              .map((p) => `${p.x},${p.y}`)
+              .join(' ')}
+            fill="none"
+            className="stroke-primary"
+            strokeWidth={unit * 0.6}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            opacity={0.7}
+          />
+        )}
+        {start && <circle cx={start.x} cy={start.y} r={unit * 1.2} className="fill-muted-foreground" />}
+        {current && (
+          <g>
+            <circle cx={current.x} cy={current.y} r={unit * 1.8} className="fill-success" />
+            <line
+              x1={current.x}
+              y1={current.y}
+              x2={current.x + Math.cos(heading) * unit * 4}
+              y2={current.y - Math.sin(heading) * unit * 4}
+              className="stroke-success"
+              strokeWidth={unit * 0.6}
+              strokeLinecap="round"
+            />
+          </g>
+        )}
+      </svg>
+      <p className="text-xs text-muted-foreground">
+        {trail.length} pose{trail.length === 1 ? '' : 's'} in this window
+        {pose ? ` · now at x ${pose.x.toFixed(2)}, y ${pose.y.toFixed(2)}` : ''}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * Create or edit a task schedule: which shelves, what task, and when
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarClock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useShelfList, useZoneList } from '@/hooks/useEntities';
+import { useScheduleStore } from '@/stores/scheduleStore';
+import { validateTaskDraft } from '@/lib/taskValidation';
+import {
+  validateSchedule,
+  WEEKDAYS,
+  WORKING_DAYS,
+  type ScheduleDraft,
+  type ScheduleKind,
+  type TaskSchedule,
+} from '@/lib/taskSchedule';
+import type { TaskCreate, TaskType } from '@/types';
+
+/** Types that need nothing beyond a shelf and a zone */
+const SCHEDULE_TASK_TYPES: TaskType[] = ['PICKUP_AND_DELIVER', 'RETURN_SHELF', 'REPOSITION'];
+
+interface Form {
+  name: string;
+  kind: ScheduleKind;
+  date?: Date;
+  time: string;
+  days: string[];
+  shelfIds: string[];
+  taskType: TaskType;
+  zoneId: string;
+  priority: number;
+  description: string;
+}
+
+const emptyForm = (day?: Date): Form => ({
+  name: '',
+  kind: 'recurring',
+  date: day,
+  time: '06:00',
+  days: WORKING_DAYS.map(String),
+  shelfIds: [],
+  taskType: 'PICKUP_AND_DELIVER',
+  zoneId: '',
+  priority: 5,
+  description: '',
+});
+
+const formFrom = (schedule: TaskSchedule): Form => {
+  const first = schedule.tasks[0];
+  const runAt = schedule.runAt !== undefined ? new Date(schedule.runAt) : undefined;
+  return {
+    name: schedule.name,
+    kind: schedule.kind,
+    date: runAt,
+    time: runAt
+      ? `${String(runAt.getHours()).padStart(2, '0')}:${String(runAt.getMinutes()).padStart(2, '0')}`
+      : schedule.time ?? '06:00',
+    days: (schedule.days ?? WORKING_DAYS).map(String),
+    shelfIds: schedule.tasks.map((t) => t.shelf_id),
+    taskType: first?.task_type ?? 'PICKUP_AND_DELIVER',
+    zoneId: first?.zone_id ?? first?.target_zone_id ?? '',
+    priority: first?.priority ?? 5,
+    description: first?.description ?? '',
+  };
+};
+
+const toDraft = (form: Form): ScheduleDraft => {
+  const tasks: TaskCreate[] = form.shelfIds.map((shelf_id) => ({
+    shelf_id,
+    task_type: form.taskType,
+    priority: form.priority,
+    description: form.description.trim() || `Scheduled: ${form.name.trim()}`,
+    zone_id: form.taskType === 'PICKUP_AND_DELIVER' ? form.zoneId : undefined,
+    target_zone_id: form.taskType === 'REPOSITION' ? form.zoneId : undefined,
+  }));
+
+  let runAt: number | undefined;
+  if (form.kind === 'once' && form.date) {
+    const [h, m] = form.time.split(':').map(Number);
+    runAt = new Date(form.date).setHours(h, m, 0, 0);
+  }
+
+  return {
+    name: form.name.trim(),
+    tasks,
+    kind: form.kind,
+    runAt,
+    time: form.kind === 'recurring' ? form.time : undefined,
+    days: form.kind === 'recurring' ? form.days.map(Number).sort((a, b) => a - b) : undefined,
+  };
+};
+
+interface ScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Schedule to edit; a new one is created when unset */
+  schedule?: TaskSchedule | null;
+  /** Preselected day for new one-off schedules */
+  day?: Date;
+}
+
+export function ScheduleDialog({ open, onOpenChange, schedule, day }: ScheduleDialogProps) {
+  const shelfList = useShelfList();
+  const zoneList = useZoneList();
+  const add = useScheduleStore((s) => s.add);
+  const update = useScheduleStore((s) => s.update);
+  const [form, setForm] = useState<Form>(emptyForm(day));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(schedule ? formFrom(schedule) : emptyForm(day));
+    setError(null);
+  }, [open, schedule, day]);
+
+  const shelves = useMemo(
+    () => [...shelfList].sort((a, b) => a.warehouse_id.localeCompare(b.warehouse_id, undefined, { numeric: true })),
+    [shelfList]
+  );
+
+  const toggleShelf = (id: string, checked: boolean) =>
+    setForm((f) => ({ ...f, shelfIds: checked ? [...f.shelfIds, id] : f.shelfIds.filter((s) => s !== id) }));
+
+  const handleSave = () => {
+    const draft = toDraft(form);
+    const problem =
+      validateSchedule(draft) ??
+      draft.tasks
+        .map((t) =>
+          validateTaskDraft({
+            shelf_id: t.shelf_id,
+            priority: t.priority ?? 5,
+            description: t.description ?? '',
+            task_type: form.taskType,
+            zone_id: t.zone_id ?? '',
+            target_zone_id: t.target_zone_id,
+          })
+        )
+        .find(Boolean) ??
+      null;
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (schedule) update(schedule.id, draft);
+    else add(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" /> {schedule ? 'Edit Schedule' : 'New Schedule'}
+          </DialogTitle>
+          <DialogDescription>
+            Runs create one task per shelf. Schedules fire from this browser while the app is open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="schedule-name">Name</Label>
+            <Input
+              id="schedule-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Morning packing wave"
+            />
+          </div>
+
+          <Tabs value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as ScheduleKind })}>
+            <TabsList>
+              <TabsTrigger value="recurring">Recurring</TabsTrigger>
+              <TabsTrigger value="once">One-off</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {form.kind === 'once' ? (
+              <Calendar
+                mode="single"
+                selected={form.date}
+                onSelect={(date) => setForm({ ...form, date })}
+                disabled={{ before: new Date() }}
+                className="rounded-lg border border-border/30"
+              />
+            ) : (
+              <div className="space-y-1">
+                <Label>Days</Label>
+                <ToggleGroup
+                  type="multiple"
+                  value={form.days}
+                  onValueChange={(days) => setForm({ ...form, days })}
+                  className="flex-wrap justify-start"
+                >
+                  {WEEKDAYS.map((label, i) => (
+                    <ToggleGroupItem key={label} value={String(i)} size="sm" variant="outline">
+                      {label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="schedule-time">Time</Label>
+                <Input
+                  id="schedule-time"
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => setForm({ ...form, time: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Task type</Label>
+                <Select value={form.taskType} onValueChange={(taskType) => setForm({ ...form, taskType: taskType as TaskType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCHEDULE_TASK_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.taskType !== 'RETURN_SHELF' && (
+                <div className="space-y-1">
+                  <Label>{form.taskType === 'REPOSITION' ? 'Target zone' : 'Drop zone'}</Label>
+                  <Select value={form.zoneId} onValueChange={(zoneId) => setForm({ ...form, zoneId })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a zone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {zoneList.map((zone) => (
+                        <SelectItem key={zone.id} value={zone.id}>
+                          {zone.name || zone.zone_id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="schedule-priority">Priority (1-10)</Label>
+                <Input
+                  id="schedule-priority"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Shelves ({form.shelfIds.length} selected)</Label>
+            <ScrollArea className="h-40 rounded-lg border border-border/30 p-2">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {shelves.map((shelf) => (
+                  <label key={shelf.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={form.shelfIds.includes(shelf.id)}
+                      onCheckedChange={(checked) => toggleShelf(shelf.id, checked === true)}
+                    />
+                    {shelf.warehouse_id}
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="schedule-description">Task description</Label>
+            <Input
+              id="schedule-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Defaults to the schedule name"
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>{schedule ? 'Save' : 'Create schedule'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
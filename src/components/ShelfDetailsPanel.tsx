@@ -7,6 +7,7 @@ import { X, Lock, MapPin, RotateCcw, Settings } from 'lucide-react';
 import { ShelfMap } from '../types/map';
 import { mapApi } from '../api/mapApi';
 import { useMapContext } from '../context/MapContext';
+import { useCan } from '../hooks/usePermission';
 
 interface ShelfDetailsPanelProps {
   shelf: ShelfMap;
@@ -15,6 +16,9 @@ interface ShelfDetailsPanelProps {
 
 export function ShelfDetailsPanel({ shelf, onClose }: ShelfDetailsPanelProps) {
   const { setShelf } = useMapContext();
+  const can = useCan();
+  const canRestore = can('shelf:restore');
+  const canSetStorage = can('shelf:set_storage');
   const [isRestoring, setIsRestoring] = useState(false);
   const [showStorageForm, setShowStorageForm] = useState(false);
   const [storageCoords, setStorageCoords] = useState({
@@ -152,7 +156,7 @@ export function ShelfDetailsPanel({ shelf, onClose }: ShelfDetailsPanelProps) {
         )}
 
         {/* Storage form (admin) */}
-        {showStorageForm && (
+        {showStorageForm && canSetStorage && (
           <div className="bg-slate-900/50 p-3 rounded border border-slate-600 space-y-3">
             <p className="text-xs text-slate-400">Set permanent storage location</p>
             <div>
@@ -211,7 +215,7 @@ export function ShelfDetailsPanel({ shelf, onClose }: ShelfDetailsPanelProps) {
         {/* Action buttons */}
         {!showStorageForm && (
           <div className="flex space-x-2 pt-2">
-            {isDifferent && (
+            {isDifferent && canRestore && (
               <button
                 onClick={handleRestore}
                 disabled={isRestoring}
@@ -221,13 +225,15 @@ export function ShelfDetailsPanel({ shelf, onClose }: ShelfDetailsPanelProps) {
                 <span>{isRestoring ? 'Restoring...' : 'Restore'}</span>
               </button>
             )}
-            <button
-              onClick={() => setShowStorageForm(true)}
-              className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm font-semibold transition"
-            >
-              <Settings className="w-4 h-4" />
-              <span>Admin</span>
-            </button>
+            {canSetStorage && (
+              <button
+                onClick={() => setShowStorageForm(true)}
+                className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm font-semibold transition"
+              >
+                <Settings className="w-4 h-4" />
+                <span>Admin</span>
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,96 @@
+/**
+ * Fleet simulator card for the Settings page
+ * Runs the whole app against an in-memory warehouse instead of the backend
+ */
+import { useEffect, useState } from 'react';
+import { FlaskConical, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { SCENARIO_LIMITS, type SimScenario } from '@/services/simulator';
+import { useSimulatorStore } from '@/stores/simulatorStore';
+
+const FIELDS: Array<{ key: keyof SimScenario; label: string; format: (v: number) => string }> = [
+  { key: 'fleetSize', label: 'Fleet size', format: (v) => `${v} robots` },
+  { key: 'speed', label: 'Robot speed', format: (v) => `${v.toFixed(1)} m/s` },
+  { key: 'failureRate', label: 'Failure rate', format: (v) => `${Math.round(v * 100)}% of tasks` },
+  { key: 'batteryDrain', label: 'Battery drain', format: (v) => `${v.toFixed(1)}% / min driving` },
+];
+
+export function SimulatorSettings() {
+  const { enabled, scenario, setEnabled, setScenario, restart } = useSimulatorStore();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<SimScenario>(scenario);
+
+  useEffect(() => setDraft(scenario), [scenario]);
+
+  const dirty = FIELDS.some(({ key }) => draft[key] !== scenario[key]);
+
+  const handleToggle = (next: boolean) => {
+    setEnabled(next);
+    toast({
+      title: next ? 'Simulator started' : 'Simulator stopped',
+      description: next ? 'Data now comes from the simulated fleet.' : 'Reconnected to the backend.',
+    });
+  };
+
+  const handleApply = () => {
+    setScenario(draft);
+    if (enabled) toast({ title: 'Simulator restarted', description: 'Scenario applied to a fresh warehouse.' });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-accent/10 flex items-center justify-center">
+            <FlaskConical className="h-5 w-5 text-accent" />
+          </div>
+          <div className="flex-1">
+            <CardTitle>Fleet Simulator</CardTitle>
+            <CardDescription>Demo and offline mode, no backend needed</CardDescription>
+          </div>
+          <Switch checked={enabled} onCheckedChange={handleToggle} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {FIELDS.map(({ key, label, format }) => {
+          const { min, max, step } = SCENARIO_LIMITS[key];
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{label}</Label>
+                <span className="text-xs text-muted-foreground font-mono">{format(draft[key])}</span>
+              </div>
+              <Slider
+                min={min}
+                max={max}
+                step={step}
+                value={[draft[key]]}
+                onValueChange={([value]) => setDraft({ ...draft, [key]: value })}
+              />
+            </div>
+          );
+        })}
+
+        <p className="text-xs text-muted-foreground">
+          Any credentials log in while the simulator runs; usernames starting with "operator" or "viewer" get
+          that role.
+        </p>
+
+        <div className="flex gap-2">
+          <Button onClick={handleApply} disabled={!dirty} className="flex-1">
+            {enabled ? 'Apply & Restart' : 'Save Scenario'}
+          </Button>
+          <Button variant="outline" onClick={restart} disabled={!enabled} title="Reset the simulated warehouse">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Kanban board for tasks, one column per lifecycle phase
+ * Cards follow the entity cache, so they move as task_update events arrive.
+ * Dropping a card on a column is only accepted for legal transitions.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Clock, GripVertical } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useEntityStore } from '@/stores/entityStore';
+import { useRobotLiveness } from '@/hooks/useRobotLiveness';
+import { isStaleTask } from '@/lib/robotLiveness';
+import { formatDuration, parseTimestamp } from '@/lib/taskTimeline';
+import { TASK_PHASES, phaseOf, phaseTargetStatus, type TaskPhase } from '@/lib/taskStateMachine';
+import type { Task, TaskStatus } from '@/types';
+
+/** Finished tasks shown in the last column (most recent first) */
+const DONE_LIMIT = 30;
+const AGE_TICK_MS = 5000;
+
+interface TaskBoardProps {
+  tasks: Task[];
+  /** Called with the status a dropped card should move to */
+  onMove: (task: Task, status: TaskStatus) => void;
+  /** Whether cards may be dragged at all (permission / busy) */
+  canMove: boolean;
+}
+
+// Time since the task entered its current status (updated_at is bumped on every change)
+const enteredAt = (task: Task) => parseTimestamp(task.updated_at) ?? parseTimestamp(task.created_at);
+
+function TaskCard({
+  task,
+  shelfLabel,
+  now,
+  stale,
+  draggable,
+  onDragStart,
+  onDragEnd,
+}: {
+  task: Task;
+  shelfLabel: string;
+  now: number;
+  /** The assigned robot has gone quiet */
+  stale: boolean;
+  draggable: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  const since = enteredAt(task);
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', task.id);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className={`rounded-lg border border-border/40 bg-card/80 p-3 text-sm space-y-1.5 ${
+        draggable ? 'cursor-grab active:cursor-grabbing' : ''
+      } ${task.status === 'ERROR' ? 'border-destructive/50' : stale ? 'border-warning/60' : ''}`}
+    >
+      <div className="flex items-start gap-1.5">
+        {draggable && <GripVertical className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />}
+        <Link to={`/tasks/${task.id}`} className="font-semibold hover:text-primary transition flex-1 min-w-0 truncate">
+          {shelfLabel}
+        </Link>
+        <span className="text-xs font-bold text-primary">P{task.priority}</span>
+      </div>
+      <div className="text-xs text-muted-foreground truncate">{task.task_type}</div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-[10px] text-foreground/80">{task.status}</span>
+        {since !== undefined && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {formatDuration(Math.max(0, now - since))}
+          </span>
+        )}
+      </div>
+      {task.assigned_robot_name && <div className="text-xs text-muted-foreground">{task.assigned_robot_name}</div>}
+      {stale && <div className="text-xs text-warning">Robot not reporting</div>}
+      {task.status === 'ERROR' && task.error_message && (
+        <div className="text-xs text-destructive line-clamp-2" title={task.error_message}>
+          {task.error_message}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TaskBoard({ tasks, onMove, canMove }: TaskBoardProps) {
+  const shelves = useEntityStore((s) => s.shelves);
+  const { fleet } = useRobotLiveness();
+  const [now, setNow] = useState(Date.now());
+  const [dragging, setDragging] = useState<Task | null>(null);
+  const [over, setOver] = useState<TaskPhase | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), AGE_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const columns = useMemo(() => {
+    const byPhase = new Map<TaskPhase, Task[]>(TASK_PHASES.map((p) => [p.id, []]));
+    tasks.forEach((task) => byPhase.get(phaseOf(task.status))?.push(task));
+    return TASK_PHASES.map((phase) => {
+      const list = byPhase.get(phase.id) ?? [];
+      // Oldest first so stuck work sits at the top; finished work newest first
+      list.sort((a, b) => (enteredAt(a) ?? 0) - (enteredAt(b) ?? 0));
+      if (phase.id === 'done') list.reverse();
+      return { ...phase, tasks: list };
+    });
+  }, [tasks]);
+
+  // Dropping back on the card's own column does nothing
+  const targetFor = (phase: TaskPhase) =>
+    dragging && phaseOf(dragging.status) !== phase ? phaseTargetStatus(dragging, phase) : null;
+
+  const endDrag = () => {
+    setDragging(null);
+    setOver(null);
+  };
+
+  return (
+    <div className="grid gap-3 grid-cols-1 md:grid-cols-3 xl:grid-cols-6">
+      {columns.map((column) => {
+        const target = targetFor(column.id);
+        const isSource = dragging ? phaseOf(dragging.status) === column.id : false;
+        const first = column.tasks[0];
+        const oldest = column.id !== 'done' && first ? enteredAt(first) : undefined;
+        const visible = column.id === 'done' ? column.tasks.slice(0, DONE_LIMIT) : column.tasks;
+
+        return (
+          <div
+            key={column.id}
+            onDragOver={(e) => {
+              if (!target) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              if (over !== column.id) setOver(column.id);
+            }}
+            onDragLeave={() => over === column.id && setOver(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragging && target) onMove(dragging, target);
+              endDrag();
+            }}
+            title={dragging && !target && !isSource ? `${dragging.status} can't move to ${column.label}` : undefined}
+            className={`rounded-xl border p-3 space-y-3 min-h-[12rem] transition ${
+              dragging && !isSource
+                ? target
+                  ? over === column.id
+                    ? 'border-accent bg-accent/10'
+                    : 'border-accent/40 bg-card/40'
+                  : 'border-border/20 bg-card/20 opacity-50'
+                : 'border-border/30 bg-card/40'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-bold">{column.label}</h3>
+              <Badge variant="secondary">{column.tasks.length}</Badge>
+            </div>
+            {oldest !== undefined && (
+              <p className="text-xs text-muted-foreground">Oldest: {formatDuration(Math.max(0, now - oldest))}</p>
+            )}
+            {dragging && target && !isSource && <p className="text-xs text-accent">Moves to {target}</p>}
+
+            <div className="space-y-2">
+              {visible.map((task) => (
+                <TaskCard
+                  key={task.id}
+                  task={task}
+                  now={now}
+                  stale={isStaleTask(task, fleet)}
+                  shelfLabel={shelves[task.shelf_id]?.warehouse_id ?? task.shelf_id}
+                  draggable={canMove && TASK_PHASES.some((p) => p.id !== column.id && phaseTargetStatus(task, p.id))}
+                  onDragStart={() => setDragging(task)}
+                  onDragEnd={endDrag}
+                />
+              ))}
+              {column.tasks.length > visible.length && (
+                <p className="text-xs text-muted-foreground text-center">
+                  +{column.tasks.length - visible.length} older
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Task event log panel
+ * Status changes seen by the client, with illegal transitions flagged
+ */
+import { useMemo, useState } from 'react';
+import { AlertTriangle, History, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { useTaskEventStore, type TaskEvent } from '@/stores/taskEventStore';
+
+function EventRow({ event, showTask }: { event: TaskEvent; showTask: boolean }) {
+  return (
+    <div
+      className={`rounded-lg border p-3 text-sm ${
+        event.anomaly ? 'border-destructive/50 bg-destructive/10' : 'border-border/50 bg-card/50'
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        {event.anomaly && <AlertTriangle className="h-4 w-4 text-destructive" />}
+        {showTask && <span className="font-mono text-xs text-foreground">#{event.taskId}</span>}
+        <span className="font-mono text-xs">
+          {event.from} → {event.to}
+        </span>
+        <Badge variant="outline">{event.source}</Badge>
+        <span className="ml-auto text-xs text-muted-foreground">{new Date(event.at).toLocaleTimeString()}</span>
+      </div>
+      {event.anomaly && <p className="mt-1 text-xs text-destructive">{event.anomaly}</p>}
+    </div>
+  );
+}
+
+export function TaskEventLog({ taskId }: { taskId?: string }) {
+  const events = useTaskEventStore((s) => s.events);
+  const clear = useTaskEventStore((s) => s.clear);
+  const [anomaliesOnly, setAnomaliesOnly] = useState(false);
+
+  const visible = useMemo(
+    () => events.filter((e) => (!taskId || e.taskId === taskId) && (!anomaliesOnly || e.anomaly)),
+    [events, taskId, anomaliesOnly]
+  );
+  const anomalyCount = useMemo(
+    () => events.filter((e) => e.anomaly && (!taskId || e.taskId === taskId)).length,
+    [events, taskId]
+  );
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <History className="h-5 w-5 text-primary" />
+          </div>
+          <div className="flex-1">
+            <CardTitle className="flex items-center gap-2">
+              Task Event Log
+              {anomalyCount > 0 && <Badge variant="destructive">{anomalyCount} anomalies</Badge>}
+            </CardTitle>
+            <CardDescription>Status changes seen this session, illegal jumps are flagged</CardDescription>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Switch checked={anomaliesOnly} onCheckedChange={setAnomaliesOnly} />
+            Anomalies only
+          </label>
+          {!taskId && (
+            <Button variant="outline" size="sm" onClick={clear} disabled={events.length === 0}>
+              <Trash2 className="h-4 w-4 mr-1" /> Clear
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        ) : (
+          <ScrollArea className="h-64 pr-3">
+            <div className="space-y-2">
+              {visible.map((event) => (
+                <EventRow key={event.id} event={event} showTask={!taskId} />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * Filter bar and sort header for the Tasks page. State lives in the URL
+ * (lib/taskFilters.ts); every change goes through onChange.
+ */
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, Filter, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRobotList, useShelfList, useZoneList } from '@/hooks/useEntities';
+import { TASK_STATUSES } from '@/lib/taskStateMachine';
+import { activeFilterCount, TASK_TYPES, toDay, type TaskQuery, type TaskSortField } from '@/lib/taskFilters';
+
+// Radix Select items can't have an empty value
+const ANY = '__any';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface MultiSelectProps<T extends string> {
+  label: string;
+  options: readonly T[];
+  value: T[];
+  onChange: (value: T[]) => void;
+}
+
+function MultiSelect<T extends string>({ label, options, value, onChange }: MultiSelectProps<T>) {
+  const toggle = (option: T, checked: boolean) =>
+    onChange(checked ? options.filter((o) => o === option || value.includes(o)) : value.filter((v) => v !== option));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9">
+          {label}
+          {value.length > 0 && <span className="ml-1 text-primary font-semibold">({value.length})</span>}
+          <ChevronDown className="h-3 w-3 ml-1 opacity-60" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 p-2" align="start">
+        <div className="max-h-72 overflow-y-auto space-y-1">
+          {options.map((option) => (
+            <label
+              key={option}
+              className="flex items-center gap-2 rounded px-2 py-1 text-xs font-mono hover:bg-secondary/50 cursor-pointer"
+            >
+              <Checkbox checked={value.includes(option)} onCheckedChange={(c) => toggle(option, c === true)} />
+              {option}
+            </label>
+          ))}
+        </div>
+        {value.length > 0 && (
+          <Button variant="ghost" size="sm" className="w-full mt-1 h-7 text-xs" onClick={() => onChange([])}>
+            Clear
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface TaskFilterBarProps {
+  query: TaskQuery;
+  onChange: (patch: Partial<TaskQuery>) => void;
+}
+
+export function TaskFilterBar({ query, onChange }: TaskFilterBarProps) {
+  const robotList = useRobotList();
+  const shelfList = useShelfList();
+  const zoneList = useZoneList();
+  const [search, setSearch] = useState(query.search ?? '');
+
+  // Follow back/forward navigation and "Clear all"
+  useEffect(() => setSearch(query.search ?? ''), [query.search]);
+
+  useEffect(() => {
+    if (search.trim() === (query.search ?? '')) return;
+    const timer = setTimeout(() => onChange({ search: search.trim() || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, query.search, onChange]);
+
+  const count = activeFilterCount(query);
+  const today = toDay(new Date());
+  const priority = (raw: string) => (raw === '' ? undefined : Math.min(10, Math.max(1, Math.round(Number(raw)) || 1)));
+
+  const entitySelect = (
+    placeholder: string,
+    value: string | undefined,
+    options: Array<{ value: string; label: string }>,
+    onSelect: (value: string | undefined) => void
+  ) => (
+    <Select value={value ?? ANY} onValueChange={(v) => onSelect(v === ANY ? undefined : v)}>
+      <SelectTrigger className="h-9 w-40 text-xs">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any {placeholder.toLowerCase()}</SelectItem>
+        {/* Keep a value from a shared link visible even if it isn't loaded */}
+        {value && !options.some((o) => o.value === value) && <SelectItem value={value}>{value}</SelectItem>}
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="rounded-lg border border-border/30 bg-card/50 p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Filter className="h-4 w-4 text-muted-foreground" />
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search id, description, error"
+            className="h-9 w-56 pl-7 text-xs"
+          />
+        </div>
+        <MultiSelect
+          label="Status"
+          options={TASK_STATUSES}
+          value={query.statuses}
+          onChange={(statuses) => onChange({ statuses })}
+        />
+        <MultiSelect label="Type" options={TASK_TYPES} value={query.types} onChange={(types) => onChange({ types })} />
+        {entitySelect(
+          'Robot',
+          query.robot,
+          robotList.map((r) => ({ value: r.robot_id, label: `${r.name} (${r.robot_id})` })),
+          (robot) => onChange({ robot })
+        )}
+        {entitySelect(
+          'Shelf',
+          query.shelf,
+          [...shelfList]
+            .sort((a, b) => a.warehouse_id.localeCompare(b.warehouse_id, undefined, { numeric: true }))
+            .map((s) => ({ value: s.id, label: s.warehouse_id })),
+          (shelf) => onChange({ shelf })
+        )}
+        {entitySelect(
+          'Zone',
+          query.zone,
+          zoneList.map((z) => ({ value: z.id, label: z.name || z.zone_id })),
+          (zone) => onChange({ zone })
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <Label className="text-xs text-muted-foreground">Priority</Label>
+        <Input
+          type="number"
+          min={1}
+          max={10}
+          value={query.priorityMin ?? ''}
+          onChange={(e) => onChange({ priorityMin: priority(e.target.value) })}
+          placeholder="1"
+          className="h-8 w-16 text-xs"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="number"
+          min={1}
+          max={10}
+          value={query.priorityMax ?? ''}
+          onChange={(e) => onChange({ priorityMax: priority(e.target.value) })}
+          placeholder="10"
+          className="h-8 w-16 text-xs"
+        />
+
+        <Label className="text-xs text-muted-foreground ml-3">Created</Label>
+        <Input
+          type="date"
+          value={query.from ?? ''}
+          max={query.to}
+          onChange={(e) => onChange({ from: e.target.value || undefined })}
+          className="h-8 w-36 text-xs"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="date"
+          value={query.to ?? ''}
+          min={query.from}
+          onChange={(e) => onChange({ to: e.target.value || undefined })}
+          className="h-8 w-36 text-xs"
+        />
+        <Button
+          variant={query.from === today && query.to === today ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => onChange({ from: today, to: today })}
+        >
+          Today
+        </Button>
+
+        {count > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs ml-auto"
+            onClick={() =>
+              onChange({
+                statuses: [],
+                types: [],
+                robot: undefined,
+                shelf: undefined,
+                zone: undefined,
+                priorityMin: undefined,
+                priorityMax: undefined,
+                from: undefined,
+                to: undefined,
+                search: undefined,
+              })
+            }
+          >
+            <X className="h-3 w-3 mr-1" /> Clear {count} filter{count === 1 ? '' : 's'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const SORT_COLUMNS: Array<{ field: TaskSortField; label: string }> = [
+  { field: 'created_at', label: 'Created' },
+  { field: 'updated_at', label: 'Updated' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'status', label: 'Status' },
+  { field: 'task_type', label: 'Type' },
+];
+
+/** Clicking the active column flips the order; a new column starts descending */
+export function TaskSortHeader({ query, onChange }: TaskFilterBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-1 text-xs">
+      <span className="text-muted-foreground mr-1">Sort by</span>
+      {SORT_COLUMNS.map(({ field, label }) => {
+        const active = query.sort.field === field;
+        const Arrow = query.sort.order === 'asc' ? ArrowUp : ArrowDown;
+        return (
+          <button
+            key={field}
+            onClick={() =>
+              onChange({
+                sort: { field, order: active && query.sort.order === 'desc' ? 'asc' : 'desc' },
+              })
+            }
+            className={`flex items-center gap-1 rounded px-2 py-1 transition ${
+              active ? 'bg-primary/20 text-primary font-semibold' : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {label}
+            {active && <Arrow className="h-3 w-3" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Mini-map of one task: the robot path reported while it ran,
+ * plus its pickup, drop and origin snapshot points
+ */
+import { useMemo } from 'react';
+import type { Task } from '@/types';
+import type { TrackPoint } from '@/stores/taskEventStore';
+
+interface Marker {
+  key: string;
+  label: string;
+  x: number;
+  y: number;
+  className: string;
+}
+
+const PADDING = 1; // metres around the drawn points
+
+const markersOf = (task: Task): Marker[] => {
+  const candidates: Array<[string, string, number | undefined, number | undefined, string]> = [
+    ['storage', 'Origin storage', task.origin_storage_x, task.origin_storage_y, 'fill-muted-foreground'],
+    ['pickup', 'Pickup', task.pickup_x ?? task.origin_pickup_x, task.pickup_y ?? task.origin_pickup_y, 'fill-primary'],
+    ['drop', 'Drop', task.drop_x ?? task.target_x, task.drop_y ?? task.target_y, 'fill-accent'],
+  ];
+  return candidates
+    .filter(([, , x, y]) => typeof x === 'number' && typeof y === 'number')
+    .map(([key, label, x, y, className]) => ({ key, label, x: x as number, y: y as number, className }));
+};
+
+export function TaskPathMap({ task, track, live }: { task: Task; track: TrackPoint[]; live: boolean }) {
+  const markers = useMemo(() => markersOf(task), [task]);
+  const robot = useMemo(
+    () =>
+      typeof task.current_robot_x === 'number' && typeof task.current_robot_y === 'number'
+        ? { x: task.current_robot_x, y: task.current_robot_y }
+        : track[track.length - 1],
+    [task.current_robot_x, task.current_robot_y, track]
+  );
+
+  const bounds = useMemo(() => {
+    const points = [...track, ...markers, ...(robot ? [robot] : [])];
+    if (points.length === 0) return null;
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const minX = Math.min(...xs) - PADDING;
+    const minY = Math.min(...ys) - PADDING;
+    return {
+      minX,
+      minY,
+      width: Math.max(Math.max(...xs) + PADDING - minX, 4),
+      height: Math.max(Math.max(...ys) + PADDING - minY, 4),
+    };
+  }, [track, markers, robot]);
+
+  if (!bounds) {
+    return <p className="text-sm text-muted-foreground">No positions reported for this task yet.</p>;
+  }
+
+  // SVG y grows downwards, warehouse y grows upwards
+  const toSvg = (p: { x: number; y: number }) => ({ x: p.x - bounds.minX, y: bounds.height - (p.y - bounds.minY) });
+  const robotAt = robot ? toSvg(robot) : null;
+  const unit = Math.max(bounds.width, bounds.height) / 60;
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${bounds.width} ${bounds.height}`}
+        className="w-full max-h-80 rounded-lg border border-border/30 bg-muted/20"
+        preserveAspectRatio="xMidYMid meet"
+      >
+        {track.length > 1 && (
+          <polyline
+            points={track
+              .map(toSvg)
+              .map((p) => `${p.x},${p.y}`)
+              .join(' ')}
+            fill="none"
+            className="stroke-primary"
+            strokeWidth={unit * 0.6}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            opacity={0.8}
+          />
+        )}
+        {markers.map((m) => {
+          const { x: cx, y: cy } = toSvg(m);
+          return (
+            <g key={m.key}>
+              <rect
+                x={cx - unit * 1.5}
+                y={cy - unit * 1.5}
+                width={unit * 3}
+                height={unit * 3}
+                className={m.className}
+                opacity={0.85}
+              />
+              <text x={cx + unit * 2} y={cy + unit} fontSize={unit * 3} className="fill-foreground">
+                {m.label}
+              </text>
+            </g>
+          );
+        })}
+        {robotAt && (
+          <circle
+            cx={robotAt.x}
+            cy={robotAt.y}
+            r={unit * 1.8}
+            className={`fill-success ${live ? 'animate-pulse' : ''}`}
+          />
+        )}
+      </svg>
+      <p className="text-xs text-muted-foreground">
+        {track.length} path point{track.length === 1 ? '' : 's'} recorded this session
+        {live ? ', updating live' : ''}.
+      </p>
+    </div>
+  );
+}
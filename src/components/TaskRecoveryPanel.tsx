@@ -0,0 +1,192 @@
+/**
+ * Recovery options for a failed task and the log of what was tried
+ */
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Hand, History, Home, RotateCcw, UserCog, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useRobotList, useTaskList } from '@/hooks/useEntities';
+import { useCan } from '@/hooks/usePermission';
+import { useTaskRecoveryStore } from '@/stores/taskRecoveryStore';
+import { flagShelfForManualHandling, reassignTask, restoreTaskShelf, retryTask } from '@/services/taskRecovery';
+import {
+  RECOVERY_LABELS,
+  needsManualHandling,
+  reassignCandidates,
+  recoveryBlockers,
+  recoveryHistory,
+  type RecoveryAction,
+  type RecoveryEntry,
+} from '@/lib/taskRecovery';
+import type { Shelf, Task } from '@/types';
+
+interface TaskRecoveryPanelProps {
+  task: Task;
+  shelf?: Shelf;
+}
+
+export function TaskRecoveryPanel({ task, shelf }: TaskRecoveryPanelProps) {
+  const entries = useTaskRecoveryStore((s) => s.entries);
+  const robotList = useRobotList();
+  const taskList = useTaskList();
+  const can = useCan();
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<RecoveryAction | null>(null);
+  const [robotId, setRobotId] = useState('');
+
+  // Recorded on the task, plus attempts whose note the backend refused
+  const localIds = useMemo(
+    () => new Set(entries.filter((e) => e.taskId === task.id).map((e) => e.id)),
+    [entries, task.id]
+  );
+  const history = useMemo(
+    () =>
+      [...recoveryHistory(task), ...entries.filter((e) => localIds.has(e.id))].sort((a, b) => b.at - a.at),
+    [task, entries, localIds]
+  );
+  const robots = useMemo(() => reassignCandidates(robotList), [robotList]);
+  const blockers = useMemo(() => recoveryBlockers(task, shelf, taskList), [task, shelf, taskList]);
+
+  const failed = task.status === 'ERROR';
+  if (!failed && history.length === 0) return null;
+
+  const canRequeue = can('task:update_status');
+  const canShelf = can('shelf:restore');
+
+  const perform = async (action: RecoveryAction, call: () => Promise<RecoveryEntry>, confirmText?: string) => {
+    if (confirmText && !confirm(confirmText)) return;
+    setBusy(action);
+    const entry = await call();
+    setBusy(null);
+    if (action === 'reassign' && entry.ok) setRobotId('');
+    toast({
+      title: entry.ok ? RECOVERY_LABELS[action] : `${RECOVERY_LABELS[action]}: failed`,
+      description: entry.detail,
+      variant: entry.ok ? 'default' : 'destructive',
+    });
+  };
+
+  const actionButton = (
+    action: RecoveryAction,
+    label: string,
+    Icon: typeof RotateCcw,
+    onClick: () => void,
+    extraDisabled = false
+  ) => (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={!!busy || !!blockers[action] || extraDisabled}
+      title={blockers[action]}
+      onClick={onClick}
+    >
+      <Icon className="h-4 w-4 mr-1" /> {label}
+    </Button>
+  );
+
+  return (
+    <Card className={`glass-card ${failed ? 'border-destructive/50' : ''}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className={`h-5 w-5 ${failed ? 'text-destructive' : 'text-muted-foreground'}`} /> Recovery
+        </CardTitle>
+        <CardDescription>
+          {failed ? 'The task failed. Choose how to recover it.' : 'Recovery actions taken on this task'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {failed && (
+          <>
+            <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm">
+              {task.error_message || 'No error message was reported'}
+            </div>
+            {shelf && needsManualHandling(shelf) && (
+              <p className="text-xs text-warning flex items-center gap-1">
+                <Hand className="h-3 w-3" /> Shelf {shelf.warehouse_id} is flagged for manual handling
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              {canRequeue && (
+                <>
+                  {actionButton('retry', 'Retry', RotateCcw, () => perform('retry', () => retryTask(task)))}
+                  <div className="flex items-center gap-2">
+                    <Select value={robotId} onValueChange={setRobotId}>
+                      <SelectTrigger className="h-9 w-44 text-xs">
+                        <SelectValue placeholder={robots.length ? 'Robot' : 'No idle robots'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {robots.map((robot) => (
+                          <SelectItem key={robot.id} value={robot.id}>
+                            {robot.name} ({robot.robot_id})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {actionButton(
+                      'reassign',
+                      'Reassign',
+                      UserCog,
+                      () => perform('reassign', () => reassignTask(task, robotId)),
+                      !robotId
+                    )}
+                  </div>
+                </>
+              )}
+              {canShelf && (
+                <>
+                  {actionButton('restore_shelf', 'Restore shelf', Home, () =>
+                    perform(
+                      'restore_shelf',
+                      () => restoreTaskShelf(task),
+                      `Put shelf ${shelf?.warehouse_id ?? task.shelf_id} back at its storage location?`
+                    )
+                  )}
+                  {actionButton('manual_handling', 'Needs manual handling', Hand, () =>
+                    perform(
+                      'manual_handling',
+                      () => flagShelfForManualHandling(task),
+                      `Take shelf ${shelf?.warehouse_id ?? task.shelf_id} out of service for manual handling?`
+                    )
+                  )}
+                </>
+              )}
+            </div>
+          </>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold flex items-center gap-1">
+              <History className="h-4 w-4" /> History
+            </h4>
+            <ul className="space-y-1.5">
+              {history.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-2 text-sm">
+                  {entry.ok ? (
+                    <CheckCircle className="h-4 w-4 text-success shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0">
+                    <div>
+                      <span className="font-medium">{RECOVERY_LABELS[entry.action]}</span>
+                      {entry.detail && <span className="text-muted-foreground"> · {entry.detail}</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(entry.at).toLocaleString()}
+                      {entry.user && ` by ${entry.user}`}
+                      {entry.taskError && ` · task error: ${entry.taskError}`}
+                      {localIds.has(entry.id) && ' · not saved on the task, kept in this browser only'}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * Create or edit a workflow template: an ordered list of task steps
+ */
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, Workflow as WorkflowIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useShelfList, useZoneList } from '@/hooks/useEntities';
+import { useWorkflowStore } from '@/stores/workflowStore';
+import { validateTemplate, type WorkflowStep, type WorkflowTemplate } from '@/lib/workflow';
+import type { TaskType } from '@/types';
+
+const TASK_TYPES: TaskType[] = ['PICKUP_AND_DELIVER', 'REPOSITION', 'MOVE_SHELF', 'RETURN_SHELF'];
+
+const newStep = (task_type: TaskType = 'PICKUP_AND_DELIVER'): WorkflowStep => ({ task_type, priority: 5 });
+
+interface WorkflowTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template?: WorkflowTemplate | null;
+}
+
+export function WorkflowTemplateDialog({ open, onOpenChange, template }: WorkflowTemplateDialogProps) {
+  const zoneList = useZoneList();
+  const shelfList = useShelfList();
+  const saveTemplate = useWorkflowStore((s) => s.saveTemplate);
+  const [name, setName] = useState('');
+  const [steps, setSteps] = useState<WorkflowStep[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? '');
+    // New templates start with the common deliver-then-return shape
+    setSteps(template ? template.steps.map((s) => ({ ...s })) : [newStep(), newStep('RETURN_SHELF')]);
+    setError(null);
+  }, [open, template]);
+
+  const patchStep = (index: number, patch: Partial<WorkflowStep>) =>
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+
+  const moveStep = (index: number, delta: number) =>
+    setSteps((prev) => {
+      const next = [...prev];
+      const [step] = next.splice(index, 1);
+      next.splice(index + delta, 0, step);
+      return next;
+    });
+
+  const handleSave = () => {
+    const problem = validateTemplate(name, steps);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    saveTemplate({ id: template?.id, name: name.trim(), steps });
+    onOpenChange(false);
+  };
+
+  const zoneSelect = (value: string | undefined, onChange: (zoneId: string) => void) => (
+    <Select value={value ?? ''} onValueChange={onChange}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Zone" />
+      </SelectTrigger>
+      <SelectContent>
+        {zoneList.map((zone) => (
+          <SelectItem key={zone.id} value={zone.id}>
+            {zone.name || zone.zone_id}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <WorkflowIcon className="h-5 w-5 text-primary" /> {template ? 'Edit Workflow' : 'New Workflow'}
+          </DialogTitle>
+          <DialogDescription>
+            Steps run in order on one shelf. Each waits for the previous task to complete.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="workflow-name">Name</Label>
+            <Input
+              id="workflow-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Pick, QA, return"
+            />
+          </div>
+
+          <div className="space-y-2">
+            {steps.map((step, index) => (
+              <div key={index} className="flex items-center gap-2 rounded-lg border border-border/30 p-2">
+                <span className="w-6 text-center text-xs font-bold text-muted-foreground">{index + 1}</span>
+                <div className="w-44 shrink-0">
+                  <Select
+                    value={step.task_type}
+                    onValueChange={(task_type) => patchStep(index, { task_type: task_type as TaskType })}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TASK_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-1 min-w-0">
+                  {step.task_type === 'PICKUP_AND_DELIVER' &&
+                    zoneSelect(step.zone_id, (zone_id) => patchStep(index, { zone_id }))}
+                  {step.task_type === 'REPOSITION' &&
+                    zoneSelect(step.target_zone_id, (target_zone_id) => patchStep(index, { target_zone_id }))}
+                  {step.task_type === 'MOVE_SHELF' && (
+                    <Select
+                      value={step.target_shelf_id ?? ''}
+                      onValueChange={(target_shelf_id) => patchStep(index, { target_shelf_id })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue placeholder="Target shelf" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {shelfList.map((shelf) => (
+                          <SelectItem key={shelf.id} value={shelf.id}>
+                            {shelf.warehouse_id}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {step.task_type === 'RETURN_SHELF' && (
+                    <span className="text-xs text-muted-foreground">Back to storage</span>
+                  )}
+                </div>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={step.priority}
+                  onChange={(e) => patchStep(index, { priority: parseInt(e.target.value) || 1 })}
+                  className="h-8 w-14 text-xs"
+                  title="Priority"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={index === 0}
+                  onClick={() => moveStep(index, -1)}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={index === steps.length - 1}
+                  onClick={() => moveStep(index, 1)}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setSteps((prev) => [...prev, newStep()])}>
+              <Plus className="h-4 w-4 mr-1" /> Add step
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>{template ? 'Save' : 'Create workflow'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
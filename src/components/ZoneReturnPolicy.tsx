@@ -0,0 +1,79 @@
+/**
+ * Return policy picker for one zone: what happens to shelves delivered there
+ */
+import { useEffect, useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useReturnPolicyStore } from '@/stores/returnPolicyStore';
+import {
+  DEFAULT_RETURN_MINUTES,
+  DEFAULT_RETURN_POLICY,
+  RETURN_POLICY_MODES,
+  type ReturnPolicyMode,
+} from '@/lib/shelfReturn';
+
+export function ZoneReturnPolicy({ zoneId, editable }: { zoneId: string; editable: boolean }) {
+  const policy = useReturnPolicyStore((s) => s.policies[zoneId]) ?? DEFAULT_RETURN_POLICY;
+  const setPolicy = useReturnPolicyStore((s) => s.setPolicy);
+  const minutes = policy.minutes ?? DEFAULT_RETURN_MINUTES;
+  // Edited as text so the field can be cleared while typing
+  const [minutesDraft, setMinutesDraft] = useState(String(minutes));
+
+  useEffect(() => setMinutesDraft(String(minutes)), [minutes]);
+
+  const commitMinutes = () => {
+    const value = Math.round(Number(minutesDraft));
+    if (Number.isFinite(value) && value >= 1) setPolicy(zoneId, { mode: 'after_minutes', minutes: value });
+    else setMinutesDraft(String(minutes));
+  };
+
+  const label = RETURN_POLICY_MODES.find((m) => m.mode === policy.mode)?.label;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium flex items-center gap-1">
+        <Undo2 className="h-3 w-3" /> Shelf return
+      </p>
+      {editable ? (
+        <div className="flex gap-2">
+          <Select
+            value={policy.mode}
+            onValueChange={(mode: ReturnPolicyMode) =>
+              setPolicy(zoneId, mode === 'after_minutes' ? { mode, minutes } : { mode })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETURN_POLICY_MODES.map((m) => (
+                <SelectItem key={m.mode} value={m.mode}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {policy.mode === 'after_minutes' && (
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={1}
+                value={minutesDraft}
+                onChange={(e) => setMinutesDraft(e.target.value)}
+                onBlur={commitMinutes}
+                onKeyDown={(e) => e.key === 'Enter' && commitMinutes()}
+                className="h-8 w-16 text-xs"
+              />
+              <span className="text-xs text-muted-foreground">min</span>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {policy.mode === 'after_minutes' ? `Return after ${minutes} min` : label}
+        </p>
+      )}
+    </div>
+  );
+}
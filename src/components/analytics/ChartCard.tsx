@@ -0,0 +1,47 @@
+import type { ReactNode } from 'react';
+import { Download, type LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { downloadCsv } from '@/lib/csv';
+
+interface ChartCardProps {
+  title: string;
+  description?: string;
+  icon: LucideIcon;
+  /** Builds the CSV for the data behind the chart; the button is hidden without it */
+  csv?: () => string;
+  filename: string;
+  empty?: boolean;
+  children: ReactNode;
+  className?: string;
+}
+
+/** Analytics card with a CSV export of the data behind its chart */
+export function ChartCard({ title, description, icon: Icon, csv, filename, empty, children, className }: ChartCardProps) {
+  return (
+    <Card className={`glass-card ${className ?? ''}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Icon className="h-5 w-5 text-primary" /> {title}
+          </CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+        {csv && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            disabled={empty}
+            onClick={() => downloadCsv(filename, csv())}
+          >
+            <Download className="h-3 w-3 mr-1" /> CSV
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {empty ? <p className="py-10 text-center text-sm text-muted-foreground">No data in this range</p> : children}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,19 @@
 import { Outlet } from 'react-router-dom';
 import { AppSidebar } from './AppSidebar';
+import { NotificationCenter } from './NotificationCenter';
 import { useAuthStore } from '@/stores/authStore';
+import { useEntitySync } from '@/hooks/useEntities';
+import { useSessionExpiry } from '@/hooks/useSessionExpiry';
 import { cn } from '@/lib/utils';
 
 export function AppLayout() {
   const { isAuthenticated } = useAuthStore();
 
+  // Keep the shared robot/shelf/task/zone cache live for every page
+  useEntitySync();
+  // Warn before the token expires, refresh it if possible, sign out when it lapses
+  useSessionExpiry();
+
   return (
     <div className="min-h-screen bg-background">
       {isAuthenticated && <AppSidebar />}
@@ -15,6 +23,11 @@ export function AppLayout() {
           isAuthenticated ? 'ml-16 md:ml-64' : ''
         )}
       >
+        {isAuthenticated && (
+          <header className="sticky top-0 z-30 flex h-14 items-center justify-end gap-2 border-b border-border/30 bg-background/80 px-4 backdrop-blur md:px-6 lg:px-8">
+            <NotificationCenter />
+          </header>
+        )}
         <div className="p-4 md:p-6 lg:p-8">
           <Outlet />
         </div>
@@ -6,6 +6,10 @@ import {
   Package,
   Map,
   ListTodo,
+  CalendarClock,
+  Workflow,
+  BarChart3,
+  BatteryCharging,
   Box,
   Layers,
   Settings,
@@ -16,6 +20,8 @@ import {
 } from 'lucide-react';
 import { useState } from 'react';
 import { useAuthStore } from '@/stores/authStore';
+import { DEFAULT_PROFILE_ID, useActiveProfile } from '@/stores/connectionStore';
+import { useSimulatorStore } from '@/stores/simulatorStore';
 import { Button } from '@/components/ui/button';
 
 interface NavItem {
@@ -31,6 +37,10 @@ const navItems: NavItem[] = [
   { icon: Layers, label: 'Zones', path: '/zones' },
   { icon: Package, label: 'Products', path: '/products' },
   { icon: ListTodo, label: 'Tasks', path: '/tasks' },
+  { icon: CalendarClock, label: 'Schedules', path: '/schedules' },
+  { icon: Workflow, label: 'Workflows', path: '/workflows' },
+  { icon: BarChart3, label: 'Analytics', path: '/analytics' },
+  { icon: BatteryCharging, label: 'Energy', path: '/energy' },
   { icon: Map, label: 'Map', path: '/map' },
 ];
 
@@ -38,6 +48,8 @@ export function AppSidebar() {
   const [collapsed, setCollapsed] = useState(false);
   const location = useLocation();
   const { logout, isAuthenticated } = useAuthStore();
+  const activeProfile = useActiveProfile();
+  const simulatorEnabled = useSimulatorStore((s) => s.enabled);
 
   if (!isAuthenticated) return null;
 
@@ -102,6 +114,14 @@ export function AppSidebar() {
 
       {/* Bottom section */}
       <div className="absolute bottom-0 left-0 right-0 p-2 border-t border-sidebar-border">
+        {!collapsed && simulatorEnabled && (
+          <p className="px-3 py-1 text-xs text-warning truncate">Simulator mode</p>
+        )}
+        {!collapsed && !simulatorEnabled && activeProfile.id !== DEFAULT_PROFILE_ID && (
+          <p className="px-3 py-1 text-xs text-muted-foreground truncate" title={activeProfile.apiUrl}>
+            Connected to <span className="font-medium text-foreground">{activeProfile.name}</span>
+          </p>
+        )}
         <RouterNavLink
           to="/settings"
           className={cn(
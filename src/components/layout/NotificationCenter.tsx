@@ -0,0 +1,220 @@
+/**
+ * Bell button for the app header and the notification drawer it opens:
+ * active items to acknowledge or snooze, and the full history
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  AlertOctagon,
+  AlertTriangle,
+  Bell,
+  BellOff,
+  Check,
+  CheckCheck,
+  Clock,
+  ExternalLink,
+  Info,
+  Trash2,
+} from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuthStore } from '@/stores/authStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { NOTIFICATION_SOURCES, SNOOZE_OPTIONS, needsAttention, type AppNotification } from '@/lib/notifications';
+import { formatDuration } from '@/lib/taskTimeline';
+import { cn } from '@/lib/utils';
+
+/** Snoozed items come back on their own; re-check this often */
+const CLOCK_MS = 30000;
+
+const SEVERITY_STYLE = {
+  critical: { icon: AlertOctagon, className: 'text-destructive' },
+  warning: { icon: AlertTriangle, className: 'text-warning' },
+  info: { icon: Info, className: 'text-primary' },
+};
+
+function NotificationItem({
+  notification,
+  now,
+  onOpen,
+}: {
+  notification: AppNotification;
+  now: number;
+  onOpen: () => void;
+}) {
+  const { acknowledge, snooze } = useNotificationStore();
+  const username = useAuthStore((s) => s.user?.username);
+  const { icon: Icon, className } = SEVERITY_STYLE[notification.severity];
+  const active = needsAttention(notification, now);
+  const snoozed = !notification.acknowledgedAt && !active;
+
+  return (
+    <li className={cn('rounded-lg border border-border/50 bg-card/50 p-3', !active && 'opacity-60')}>
+      <div className="flex items-start gap-2">
+        <Icon className={cn('h-4 w-4 mt-0.5 shrink-0', className)} />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium">{notification.title}</p>
+          <p className="text-xs text-muted-foreground break-words">{notification.message}</p>
+          <p className="mt-1 text-[11px] text-muted-foreground">
+            {NOTIFICATION_SOURCES[notification.source].label} · {formatDuration(Math.max(0, now - notification.at))} ago
+            {notification.acknowledgedAt &&
+              ` · acknowledged${notification.acknowledgedBy ? ` by ${notification.acknowledgedBy}` : ''}`}
+            {snoozed && ` · snoozed until ${new Date(notification.snoozedUntil!).toLocaleTimeString()}`}
+          </p>
+        </div>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-1">
+        {notification.link && (
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" asChild onClick={onOpen}>
+            <Link to={notification.link}>
+              <ExternalLink className="h-3 w-3 mr-1" /> Open
+            </Link>
+          </Button>
+        )}
+        {!notification.acknowledgedAt && (
+          <>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => acknowledge(notification.id, username)}
+            >
+              <Check className="h-3 w-3 mr-1" /> Acknowledge
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs">
+                  <Clock className="h-3 w-3 mr-1" /> Snooze
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Snooze for</DropdownMenuLabel>
+                {SNOOZE_OPTIONS.map((option) => (
+                  <DropdownMenuItem key={option.ms} onClick={() => snooze(notification.id, option.ms)}>
+                    {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function NotificationCenter() {
+  const notifications = useNotificationStore((s) => s.notifications);
+  const { acknowledgeAll, clear } = useNotificationStore();
+  const username = useAuthStore((s) => s.user?.username);
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Ages in the drawer are read when it opens
+  useEffect(() => {
+    if (open) setNow(Date.now());
+  }, [open]);
+
+  const active = useMemo(() => notifications.filter((n) => needsAttention(n, now)), [notifications, now]);
+  const critical = active.some((n) => n.severity === 'critical');
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="Notifications">
+          <Bell className="h-5 w-5" />
+          {active.length > 0 && (
+            <span
+              className={cn(
+                'absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] rounded-full px-1 text-[10px] font-bold leading-[18px] text-center',
+                critical ? 'bg-destructive text-destructive-foreground' : 'bg-warning text-warning-foreground'
+              )}
+            >
+              {active.length > 99 ? '99+' : active.length}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Notifications</SheetTitle>
+          <SheetDescription>Task failures, robot and system health, low stock and fleet alerts</SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="active" className="flex min-h-0 flex-1 flex-col">
+          <div className="flex items-center justify-between gap-2">
+            <TabsList>
+              <TabsTrigger value="active">
+                Active
+                {active.length > 0 && (
+                  <Badge variant="secondary" className="ml-1.5 px-1.5">
+                    {active.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <div className="flex gap-1">
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => acknowledgeAll(username)}
+                disabled={active.length === 0}
+                title="Acknowledge all"
+              >
+                <CheckCheck className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="text-destructive"
+                onClick={clear}
+                disabled={notifications.length === 0}
+                title="Clear history"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {(['active', 'history'] as const).map((tab) => {
+            const list = tab === 'active' ? active : notifications;
+            return (
+              <TabsContent key={tab} value={tab} className="min-h-0 flex-1">
+                {list.length === 0 ? (
+                  <div className="flex flex-col items-center gap-2 py-12 text-sm text-muted-foreground">
+                    <BellOff className="h-6 w-6" />
+                    {tab === 'active' ? 'Nothing needs attention' : 'No notifications yet'}
+                  </div>
+                ) : (
+                  <ScrollArea className="h-full pr-3">
+                    <ul className="space-y-2">
+                      {list.map((n) => (
+                        <NotificationItem key={n.id} notification={n} now={now} onOpen={() => setOpen(false)} />
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                )}
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,5 +1,7 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { robots, shelves, tasks, dashboard, products, zones } from '@/services/api';
+import { useEntityStatus, useRobotList, useShelfList, useTaskList, useZoneList } from '@/hooks/useEntities';
+import { useSocketConnected } from '@/hooks/useSocket';
 import type { Robot, Shelf, Task, Product, Zone, DashboardStats } from '@/types';
 
 // Generic fetch hook
@@ -28,9 +30,17 @@ function useFetch<T>(fetcher: () => Promise<T>, deps: any[] = []) {
   return { data, loading, error, refetch };
 }
 
+// List hooks for cached entities keep the useFetch shape but read from
+// the shared entity cache instead of hitting REST on every mount
+function useCachedList<T>(data: T[]) {
+  const { loaded, loading, error, reload } = useEntityStatus();
+  const refetch = useCallback(() => reload({ silent: true }), [reload]);
+  return { data: loaded ? data : null, loading: loading || !loaded, error, refetch };
+}
+
 // Robots hook
 export function useRobots() {
-  return useFetch<Robot[]>(robots.list);
+  return useCachedList<Robot>(useRobotList());
 }
 
 export function useRobot(id: string) {
@@ -39,7 +49,7 @@ export function useRobot(id: string) {
 
 // Shelves hook
 export function useShelves() {
-  return useFetch<Shelf[]>(shelves.list);
+  return useCachedList<Shelf>(useShelfList());
 }
 
 export function useShelf(id: string) {
@@ -48,7 +58,7 @@ export function useShelf(id: string) {
 
 // Tasks hook
 export function useTasks() {
-  return useFetch<Task[]>(tasks.list);
+  return useCachedList<Task>(useTaskList());
 }
 
 export function useTask(id: string) {
@@ -74,71 +84,61 @@ export function useProduct(id: string) {
 }
 
 // Dashboard stats hook
+// Robot/task/shelf counts are derived from the entity cache; only the
+// product count needs its own request
 export function useDashboardStats() {
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const refetch = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  const robotsData = useRobotList();
+  const tasksData = useTaskList();
+  const shelvesData = useShelfList();
+  const { loaded, error: cacheError, reload } = useEntityStatus();
+  const [productCount, setProductCount] = useState(0);
+  const [productsLoading, setProductsLoading] = useState(true);
+
+  const loadProducts = useCallback(async () => {
     try {
-      const [robotsData, tasksData, shelvesData, productsData] = await Promise.all([
-        robots.list().catch(() => []),
-        tasks.list().catch(() => []),
-        shelves.list().catch(() => []),
-        products.list().catch(() => []),
-      ]);
-
-      const activeRobots = robotsData.filter((r: Robot) => r.status === 'busy' || r.status === 'idle');
-      const activeTasks = tasksData.filter((t: Task) => !['COMPLETED', 'CANCELLED', 'FAILED'].includes(t.status));
-      const completedTasks = tasksData.filter((t: Task) => t.status === 'COMPLETED');
-      const pendingTasks = tasksData.filter((t: Task) => t.status === 'PENDING');
-
-      setStats({
-        totalRobots: robotsData.length,
-        activeRobots: activeRobots.length,
-        totalTasks: tasksData.length,
-        completedTasks: completedTasks.length,
-        pendingTasks: pendingTasks.length,
-        activeTasks: activeTasks.length,
-        totalShelves: shelvesData.length,
-        totalProducts: productsData.length,
-        systemHealth: activeRobots.length > 0 ? 'healthy' : robotsData.length > 0 ? 'warning' : 'critical',
-      });
-    } catch (e: any) {
-      setError(e.message || 'Failed to fetch dashboard stats');
+      const productsData = await products.list();
+      setProductCount(Array.isArray(productsData) ? productsData.length : 0);
+    } catch {
+      setProductCount(0);
     } finally {
-      setLoading(false);
+      setProductsLoading(false);
     }
   }, []);
 
   useEffect(() => {
-    refetch();
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(refetch, 30000);
-    return () => clearInterval(interval);
-  }, [refetch]);
+    loadProducts();
+  }, [loadProducts]);
+
+  const stats = useMemo<DashboardStats | null>(() => {
+    if (!loaded) return null;
+
+    const activeRobots = robotsData.filter((r: Robot) => r.status === 'BUSY' || r.status === 'IDLE');
+    const activeTasks = tasksData.filter((t: Task) => !['COMPLETED', 'CANCELLED', 'ERROR'].includes(t.status));
+    const completedTasks = tasksData.filter((t: Task) => t.status === 'COMPLETED');
+    const pendingTasks = tasksData.filter((t: Task) => t.status === 'PENDING');
+
+    return {
+      totalRobots: robotsData.length,
+      activeRobots: activeRobots.length,
+      totalTasks: tasksData.length,
+      completedTasks: completedTasks.length,
+      pendingTasks: pendingTasks.length,
+      activeTasks: activeTasks.length,
+      totalShelves: shelvesData.length,
+      totalProducts: productCount,
+      systemHealth: activeRobots.length > 0 ? 'healthy' : robotsData.length > 0 ? 'warning' : 'critical',
+    };
+  }, [loaded, robotsData, tasksData, shelvesData, productCount]);
 
-  return { stats, loading, error, refetch };
+  const refetch = useCallback(async () => {
+    await Promise.all([reload({ silent: true }), loadProducts()]);
+  }, [reload, loadProducts]);
+
+  return { stats, loading: !loaded || productsLoading, error: cacheError, refetch };
 }
 
-// Real-time connection hook
+// Real-time connection hook (shared socket; never opens a second connection)
 export function useWebSocket() {
-  const [connected, setConnected] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    import('@/services/websocket').then(({ connectWebSocket, isConnected, disconnectWebSocket }) => {
-      connectWebSocket()
-        .then(() => setConnected(true))
-        .catch((e) => setError(e.message));
-
-      return () => {
-        disconnectWebSocket();
-      };
-    });
-  }, []);
-
-  return { connected, error };
+  const connected = useSocketConnected();
+  return { connected, error: null as string | null };
 }
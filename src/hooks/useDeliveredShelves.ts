@@ -0,0 +1,34 @@
+/**
+ * Shelves waiting at a drop zone, with their return countdown
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { useReturnPolicyStore } from '@/stores/returnPolicyStore';
+import { findDeliveredShelves, type DeliveredShelf } from '@/lib/shelfReturn';
+import { useShelfList, useTaskList, useZoneList } from './useEntities';
+
+const TICK_MS = 1000;
+
+export function useDeliveredShelves(): { delivered: DeliveredShelf[]; byShelf: Map<string, DeliveredShelf>; now: number } {
+  const shelfList = useShelfList();
+  const taskList = useTaskList();
+  const zoneList = useZoneList();
+  const policies = useReturnPolicyStore((s) => s.policies);
+  const [now, setNow] = useState(Date.now());
+
+  const delivered = useMemo(
+    () => findDeliveredShelves(shelfList, taskList, zoneList, policies),
+    [shelfList, taskList, zoneList, policies]
+  );
+  const byShelf = useMemo(() => new Map(delivered.map((d) => [d.shelf.id, d])), [delivered]);
+
+  // Only tick while there is a countdown to show
+  const counting = delivered.some((d) => d.dueAt !== undefined && !d.returnTask);
+  useEffect(() => {
+    if (!counting) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [counting]);
+
+  return { delivered, byShelf, now };
+}
@@ -0,0 +1,69 @@
+import { useEffect, useMemo } from 'react';
+import { useEntityStore } from '@/stores/entityStore';
+import { retainEntitySync } from '@/services/entitySync';
+import type { Robot, Shelf, Task, Zone } from '@/types';
+
+/**
+ * Keep the shared entity cache in sync while the calling component is mounted.
+ * Mounted once in AppLayout; pages only need the selector hooks below.
+ */
+export function useEntitySync() {
+  useEffect(() => retainEntitySync(), []);
+}
+
+// Selectors return the stored record; arrays are derived with useMemo so
+// zustand never sees a fresh reference on every render.
+
+export function useRobotList(): Robot[] {
+  const map = useEntityStore((s) => s.robots);
+  return useMemo(() => Object.values(map), [map]);
+}
+
+export function useShelfList(): Shelf[] {
+  const map = useEntityStore((s) => s.shelves);
+  return useMemo(() => Object.values(map), [map]);
+}
+
+export function useTaskList(): Task[] {
+  const map = useEntityStore((s) => s.tasks);
+  return useMemo(
+    () =>
+      Object.values(map).sort(
+        (a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime()
+      ),
+    [map]
+  );
+}
+
+export function useZoneList(): Zone[] {
+  const map = useEntityStore((s) => s.zones);
+  return useMemo(() => Object.values(map), [map]);
+}
+
+export function useRobotById(id: string | undefined): Robot | undefined {
+  return useEntityStore((s) => (id ? s.robots[id] : undefined));
+}
+
+export function useShelfById(id: string | undefined): Shelf | undefined {
+  return useEntityStore((s) => (id ? s.shelves[id] : undefined));
+}
+
+export function useTaskById(id: string | undefined): Task | undefined {
+  return useEntityStore((s) => (id ? s.tasks[id] : undefined));
+}
+
+export function useZoneById(id: string | undefined): Zone | undefined {
+  return useEntityStore((s) => (id ? s.zones[id] : undefined));
+}
+
+/**
+ * Cache status for loading spinners and connection banners
+ */
+export function useEntityStatus() {
+  const loaded = useEntityStore((s) => s.loaded);
+  const loading = useEntityStore((s) => s.loading);
+  const error = useEntityStore((s) => s.error);
+  const socketConnected = useEntityStore((s) => s.socketConnected);
+  const reload = useEntityStore((s) => s.load);
+  return { loaded, loading, error, socketConnected, reload };
+}
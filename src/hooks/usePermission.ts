@@ -0,0 +1,23 @@
+/**
+ * Permission hooks for gating UI by the signed-in user's role
+ */
+import { useCallback } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import type { UserRole } from '@/types';
+
+export function useRole(): UserRole | null {
+  return useAuthStore((s) => s.user?.role ?? null);
+}
+
+/** Whether the current user holds a single permission */
+export function usePermission(permission: Permission): boolean {
+  const role = useRole();
+  return hasPermission(role, permission);
+}
+
+/** Checker for components that gate several actions */
+export function useCan(): (permission: Permission) => boolean {
+  const role = useRole();
+  return useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+}
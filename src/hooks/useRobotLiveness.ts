@@ -0,0 +1,31 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useEntityStore } from '@/stores/entityStore';
+import { useTelemetryStore } from '@/stores/telemetryStore';
+import { useLivenessStore } from '@/stores/livenessStore';
+import { assessFleet, type FleetLiveness } from '@/lib/robotLiveness';
+
+/** How often "last seen" ages and liveness are re-read */
+const TICK_MS = 1000;
+
+/**
+ * Liveness of every cached robot (keyed by cache key and robot_id), plus
+ * the clock it was judged at for "last seen" labels
+ */
+export function useRobotLiveness(): { fleet: FleetLiveness; now: number } {
+  const robots = useEntityStore((s) => s.robots);
+  const receivedAt = useTelemetryStore((s) => s.receivedAt);
+  const since = useTelemetryStore((s) => s.since);
+  const timeouts = useLivenessStore((s) => s.timeouts);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fleet = useMemo(
+    () => assessFleet(robots, receivedAt, since, now, timeouts),
+    [robots, receivedAt, since, now, timeouts]
+  );
+  return { fleet, now };
+}
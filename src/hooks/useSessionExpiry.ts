@@ -0,0 +1,50 @@
+/**
+ * Session expiry timers for the signed-in token:
+ * warn shortly before `exp`, try a silent refresh, and end the session at `exp`
+ */
+import { useEffect } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { getTokenExpiry } from '@/lib/jwt';
+import { toast } from '@/hooks/use-toast';
+
+/** How long before expiry the user is warned */
+export const SESSION_WARNING_MS = 2 * 60 * 1000;
+/** How long before expiry a silent refresh is attempted */
+const REFRESH_LEAD_MS = 60 * 1000;
+/** setTimeout delays above this overflow and fire immediately */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export function useSessionExpiry() {
+  const token = useAuthStore((s) => s.token);
+
+  useEffect(() => {
+    const expiresAt = getTokenExpiry(token);
+    if (!expiresAt) return;
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const schedule = (at: number, fn: () => void) => {
+      const delay = at - Date.now();
+      if (delay <= MAX_TIMEOUT_MS) timers.push(setTimeout(fn, Math.max(0, delay)));
+    };
+
+    schedule(expiresAt - SESSION_WARNING_MS, () => {
+      toast({
+        title: 'Session expiring soon',
+        description: 'You will be signed out in about two minutes unless the session can be renewed.',
+      });
+    });
+
+    // On success the token changes and this effect reschedules for the new expiry
+    schedule(expiresAt - REFRESH_LEAD_MS, () => {
+      useAuthStore.getState().refreshSession();
+    });
+
+    schedule(expiresAt, () => {
+      if (useAuthStore.getState().token === token) {
+        useAuthStore.getState().endSession('expired');
+      }
+    });
+
+    return () => timers.forEach(clearTimeout);
+  }, [token]);
+}
@@ -0,0 +1,42 @@
+/**
+ * React bindings for the shared socket connection manager
+ */
+import { useEffect, useRef, useState } from 'react';
+import { isSocketConnected, joinRoom, on, onConnectionChange } from '@/services/websocket';
+import type { SocketEventMap, SocketEventName, SocketRoom } from '@/types';
+
+/**
+ * Listen for a typed socket event while the component is mounted.
+ * The handler may change between renders without re-subscribing.
+ */
+export function useSocketEvent<E extends SocketEventName>(
+  eventName: E,
+  handler: (data: SocketEventMap[E]) => void
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => on(eventName, (data) => handlerRef.current(data)), [eventName]);
+}
+
+/**
+ * Hold a room subscription while mounted (pass null to skip)
+ */
+export function useSocketRoom(room: SocketRoom | null) {
+  useEffect(() => (room ? joinRoom(room) : undefined), [room]);
+}
+
+/**
+ * Current connection state of the shared socket
+ */
+export function useSocketConnected() {
+  const [connected, setConnected] = useState(isSocketConnected);
+
+  useEffect(() => {
+    const unsubscribe = onConnectionChange(setConnected);
+    setConnected(isSocketConnected());
+    return unsubscribe;
+  }, []);
+
+  return connected;
+}
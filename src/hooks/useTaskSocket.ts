@@ -1,18 +1,27 @@
 /**
  * WebSocket hook for real-time task and map updates
- * Handles all socket.io events and provides reconnection logic
+ * Thin adapter over the shared connection manager (services/websocket.ts):
+ * no socket of its own, and room subscriptions are ref-counted
  */
 import { useEffect, useCallback, useRef, useState } from 'react';
-import { io, Socket } from 'socket.io-client';
 import {
   TaskMapView,
   RobotPositionPayload,
   TaskStatusChangePayload,
   ShelfLocationFixedPayload,
   MapDataPayload,
-  AllTasksMapUpdatePayload,
 } from '../types/map';
 import { mapApi } from '../api/mapApi';
+import {
+  connectWebSocket,
+  getSocket,
+  isSocketConnected,
+  joinRoom,
+  on,
+  onConnectionChange,
+  onEvent,
+} from '../services/websocket';
+import type { SocketRoom } from '../types';
 
 interface UseTaskSocketOptions {
   onTaskUpdate?: (task: TaskMapView) => void;
@@ -27,168 +36,114 @@ interface UseTaskSocketOptions {
 }
 
 export function useTaskSocket(options: UseTaskSocketOptions = {}) {
-  const socketRef = useRef<Socket | null>(null);
-  const reconnectCountRef = useRef(0);
-  const [isConnected, setIsConnected] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  // Latest options without re-subscribing on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
-  const MAX_RECONNECT_ATTEMPTS = 5;
-  const BASE_RECONNECT_DELAY = 1000; // 1 second
+  // Rooms held by this hook instance, released on unmount/disconnect
+  const roomsRef = useRef(new Map<SocketRoom, () => void>());
+  const [isConnected, setIsConnected] = useState(isSocketConnected);
+  const [error, setError] = useState<Error | null>(null);
+  const [attached, setAttached] = useState(true);
 
-  // Exponential backoff for reconnection
-  const getReconnectDelay = useCallback(() => {
-    return Math.min(BASE_RECONNECT_DELAY * Math.pow(2, reconnectCountRef.current), 30000);
-  }, []);
+  useEffect(() => {
+    if (!attached) return;
+    connectWebSocket();
 
-  // Initialize socket connection
-  const connect = useCallback(() => {
-    if (socketRef.current?.connected) return;
-
-    const socketUrl = import.meta.env.VITE_WS_URL || 'http://localhost:5000';
-    const socket = io(socketUrl, {
-      transports: ['websocket', 'polling'],
-      reconnection: true,
-      reconnectionDelay: getReconnectDelay(),
-      reconnectionAttempts: MAX_RECONNECT_ATTEMPTS,
-    });
-
-    // Connection event
-    socket.on('connect', () => {
-      console.log('[Socket] Connected');
-      reconnectCountRef.current = 0;
+    const handleConnected = () => {
       setIsConnected(true);
       setError(null);
-      options.onConnected?.();
+      optionsRef.current.onConnected?.();
 
-      // Fetch latest map after reconnect to reconcile state
+      // Fetch latest map after (re)connect to reconcile state
       mapApi
         .getAllTasksForMap()
         .then((tasks) => {
-          options.onAllTasksUpdate?.(tasks);
+          optionsRef.current.onAllTasksUpdate?.(tasks);
         })
         .catch((err) => console.error('Failed to fetch map after reconnect:', err));
-    });
-
-    // Disconnect event
-    socket.on('disconnect', () => {
-      console.log('[Socket] Disconnected');
-      setIsConnected(false);
-      reconnectCountRef.current++;
-      options.onDisconnected?.();
-    });
-
-    // Task update event
-    socket.on('task_update', (data: { task: TaskMapView }) => {
-      console.log('[Socket] task_update:', data);
-      options.onTaskUpdate?.(data.task);
-    });
-
-    // Robot position update event
-    socket.on('robot_position_update', (data: RobotPositionPayload) => {
-      console.log('[Socket] robot_position_update:', data);
-      options.onRobotPositionUpdate?.(data);
-    });
-
-    // Task status change event
-    socket.on('task_status_change', (data: TaskStatusChangePayload) => {
-      console.log('[Socket] task_status_change:', data);
-      options.onTaskStatusChange?.(data);
-    });
-
-    // Shelf location fixed event (immutable storage coords confirmed)
-    socket.on('shelf_location_fixed', (data: ShelfLocationFixedPayload) => {
-      console.log('[Socket] shelf_location_fixed:', data);
-      options.onShelfLocationFixed?.(data);
-    });
-
-    // Map data bulk update
-    socket.on('map_data', (data: MapDataPayload) => {
-      console.log('[Socket] map_data:', data);
-      options.onMapDataUpdate?.(data);
-    });
-
-    // All tasks map update (alternative event name)
-    socket.on('all_tasks_map_update', (data: AllTasksMapUpdatePayload) => {
-      console.log('[Socket] all_tasks_map_update:', data);
-      options.onAllTasksUpdate?.(data.tasks);
-    });
-
-    // Fallback for 'tasks_update' event
-    socket.on('tasks_update', (data: { tasks: TaskMapView[] }) => {
-      console.log('[Socket] tasks_update:', data);
-      options.onAllTasksUpdate?.(data.tasks);
-    });
-
-    // Error event
-    socket.on('error', (err: any) => {
-      console.error('[Socket] Error:', err);
-      const error = new Error(typeof err === 'string' ? err : JSON.stringify(err));
-      setError(error);
-      options.onError?.(error);
-    });
-
-    socketRef.current = socket;
-  }, [getReconnectDelay, options]);
+    };
 
-  // Subscribe to map updates
-  const subscribeMap = useCallback(() => {
-    if (!socketRef.current?.connected) {
-      console.warn('[Socket] Not connected, skipping subscribe_map');
-      return;
-    }
-    socketRef.current.emit('subscribe_map');
-    console.log('[Socket] Emitted: subscribe_map');
+    const unsubscribers = [
+      onConnectionChange((connected) => {
+        if (connected) {
+          handleConnected();
+        } else {
+          setIsConnected(false);
+          optionsRef.current.onDisconnected?.();
+        }
+      }),
+      // task_update payloads for map views carry the task under `task`
+      on('task_update', (data) => {
+        if (data?.task) optionsRef.current.onTaskUpdate?.(data.task as unknown as TaskMapView);
+      }),
+      // The map-view position event carries { task_id, robot } rather than a flat pose
+      onEvent('robot_position_update', (data) => {
+        const payload = data as RobotPositionPayload;
+        if (payload?.robot) optionsRef.current.onRobotPositionUpdate?.(payload);
+      }),
+      on('task_status_change', (data) => optionsRef.current.onTaskStatusChange?.(data)),
+      on('shelf_location_fixed', (data) => optionsRef.current.onShelfLocationFixed?.(data)),
+      on('map_data', (data) => optionsRef.current.onMapDataUpdate?.(data)),
+      on('all_tasks_map_update', (data) => optionsRef.current.onAllTasksUpdate?.(data.tasks)),
+      // Fallback for 'tasks_update' event
+      onEvent('tasks_update', (data) => {
+        const tasks = (data as { tasks?: TaskMapView[] })?.tasks;
+        if (Array.isArray(tasks)) optionsRef.current.onAllTasksUpdate?.(tasks);
+      }),
+      on('error', (err) => {
+        console.error('[Socket] Error:', err);
+        const socketError = new Error(typeof err === 'string' ? err : JSON.stringify(err));
+        setError(socketError);
+        optionsRef.current.onError?.(socketError);
+      }),
+    ];
+
+    if (isSocketConnected()) handleConnected();
+
+    const rooms = roomsRef.current;
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      rooms.forEach((release) => release());
+      rooms.clear();
+    };
+  }, [attached]);
+
+  const hold = useCallback((room: SocketRoom) => {
+    if (!roomsRef.current.has(room)) roomsRef.current.set(room, joinRoom(room));
   }, []);
 
-  // Unsubscribe from map updates
-  const unsubscribeMap = useCallback(() => {
-    if (!socketRef.current?.connected) {
-      console.warn('[Socket] Not connected, skipping unsubscribe_map');
-      return;
-    }
-    socketRef.current.emit('unsubscribe_map');
-    console.log('[Socket] Emitted: unsubscribe_map');
+  const release = useCallback((room: SocketRoom) => {
+    roomsRef.current.get(room)?.();
+    roomsRef.current.delete(room);
   }, []);
 
+  // Subscribe to map updates
+  const subscribeMap = useCallback(() => hold('map'), [hold]);
+
+  // Unsubscribe from map updates
+  const unsubscribeMap = useCallback(() => release('map'), [release]);
+
   // Subscribe to a specific task
-  const subscribeTask = useCallback((taskId: string) => {
-    if (!socketRef.current?.connected) {
-      console.warn('[Socket] Not connected, skipping subscribe_task');
-      return;
-    }
-    socketRef.current.emit('subscribe_task', { task_id: taskId });
-    console.log(`[Socket] Emitted: subscribe_task (${taskId})`);
-  }, []);
+  const subscribeTask = useCallback((taskId: string) => hold(`task:${taskId}`), [hold]);
 
   // Unsubscribe from a specific task
-  const unsubscribeTask = useCallback((taskId: string) => {
-    if (!socketRef.current?.connected) {
-      console.warn('[Socket] Not connected, skipping unsubscribe_task');
-      return;
-    }
-    socketRef.current.emit('unsubscribe_task', { task_id: taskId });
-    console.log(`[Socket] Emitted: unsubscribe_task (${taskId})`);
-  }, []);
+  const unsubscribeTask = useCallback((taskId: string) => release(`task:${taskId}`), [release]);
 
-  // Disconnect socket
+  // Detach this hook from the shared socket (the connection stays up for others)
   const disconnect = useCallback(() => {
-    if (socketRef.current) {
-      socketRef.current.disconnect();
-      socketRef.current = null;
-      setIsConnected(false);
-    }
+    setAttached(false);
+    setIsConnected(false);
   }, []);
 
-  // Auto-connect on mount
-  useEffect(() => {
-    connect();
-    return () => {
-      disconnect();
-    };
-  }, [connect, disconnect]);
+  const reconnect = useCallback(() => {
+    const socket = connectWebSocket();
+    if (socket && !socket.connected) socket.connect();
+    setAttached(true);
+  }, []);
 
   return {
-    socket: socketRef.current,
+    socket: getSocket(),
     isConnected,
     error,
     subscribeMap,
@@ -196,6 +151,6 @@ export function useTaskSocket(options: UseTaskSocketOptions = {}) {
     subscribeTask,
     unsubscribeTask,
     disconnect,
-    reconnect: connect,
+    reconnect,
   };
 }
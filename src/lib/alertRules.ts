@@ -0,0 +1,249 @@
+/**
+ * Fleet alert rules: telemetry thresholds held for a while, robots that go
+ * silent, and BUSY robots that stop moving. `evaluateAlerts` is pure; the
+ * watcher (services/fleetAlerts.ts) feeds it the live fleet every second.
+ */
+import type { RobotStatus } from '@/types';
+import { TELEMETRY_METRICS, type TelemetryMetric } from './telemetry';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertRuleKind = 'threshold' | 'silent' | 'stuck';
+
+interface AlertRuleBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+}
+
+/** Metric above/below a value for at least `forSeconds` */
+export interface ThresholdRule extends AlertRuleBase {
+  kind: 'threshold';
+  metric: TelemetryMetric;
+  op: 'above' | 'below';
+  value: number;
+  forSeconds: number;
+}
+
+/** No telemetry for `seconds` (robots reported OFFLINE are skipped) */
+export interface SilentRule extends AlertRuleBase {
+  kind: 'silent';
+  seconds: number;
+}
+
+/** BUSY but within `radius` metres of the same pose for `seconds` */
+export interface StuckRule extends AlertRuleBase {
+  kind: 'stuck';
+  seconds: number;
+  radius: number;
+}
+
+export type AlertRule = ThresholdRule | SilentRule | StuckRule;
+
+export type AlertRuleInput = Omit<ThresholdRule, 'id'> | Omit<SilentRule, 'id'> | Omit<StuckRule, 'id'>;
+
+export const ALERT_RULE_KINDS: Record<AlertRuleKind, string> = {
+  threshold: 'Telemetry threshold',
+  silent: 'Robot silent',
+  stuck: 'Stuck while BUSY',
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'battery-low',
+    name: 'Battery low',
+    enabled: true,
+    severity: 'warning',
+    kind: 'threshold',
+    metric: 'battery_level',
+    op: 'below',
+    value: 15,
+    forSeconds: 0,
+  },
+  {
+    id: 'battery-critical',
+    name: 'Battery critical',
+    enabled: true,
+    severity: 'critical',
+    kind: 'threshold',
+    metric: 'battery_level',
+    op: 'below',
+    value: 5,
+    forSeconds: 0,
+  },
+  {
+    id: 'overheating',
+    name: 'Overheating',
+    enabled: true,
+    severity: 'critical',
+    kind: 'threshold',
+    metric: 'temperature',
+    op: 'above',
+    value: 75,
+    forSeconds: 10,
+  },
+  {
+    id: 'cpu-high',
+    name: 'CPU saturated',
+    enabled: true,
+    severity: 'warning',
+    kind: 'threshold',
+    metric: 'cpu_usage',
+    op: 'above',
+    value: 90,
+    forSeconds: 60,
+  },
+  {
+    id: 'ram-high',
+    name: 'RAM nearly full',
+    enabled: true,
+    severity: 'warning',
+    kind: 'threshold',
+    metric: 'ram_usage',
+    op: 'above',
+    value: 90,
+    forSeconds: 60,
+  },
+  {
+    id: 'silent',
+    name: 'No telemetry',
+    enabled: true,
+    severity: 'critical',
+    kind: 'silent',
+    seconds: 30,
+  },
+  {
+    id: 'stuck',
+    name: 'Stuck while busy',
+    enabled: true,
+    severity: 'warning',
+    kind: 'stuck',
+    seconds: 60,
+    radius: 0.1,
+  },
+];
+
+/** Returns an error message, or null if the rule can be saved */
+export function validateAlertRule(rule: AlertRuleInput): string | null {
+  if (!rule.name.trim()) return 'Name is required';
+  if (rule.kind === 'threshold') {
+    if (!Number.isFinite(rule.value)) return 'Threshold must be a number';
+    if (!Number.isFinite(rule.forSeconds) || rule.forSeconds < 0) return 'Duration cannot be negative';
+  } else if (!Number.isFinite(rule.seconds) || rule.seconds <= 0) {
+    return 'Duration must be more than 0 seconds';
+  }
+  if (rule.kind === 'stuck' && (!Number.isFinite(rule.radius) || rule.radius <= 0)) {
+    return 'Radius must be more than 0 m';
+  }
+  return null;
+}
+
+/** One-line description of what a rule watches */
+export const describeRule = (rule: AlertRuleInput): string => {
+  if (rule.kind === 'silent') return `No telemetry for ${rule.seconds}s`;
+  if (rule.kind === 'stuck') return `BUSY within ${rule.radius} m for ${rule.seconds}s`;
+  const metric = TELEMETRY_METRICS.find((m) => m.key === rule.metric);
+  const held = rule.forSeconds > 0 ? ` for ${rule.forSeconds}s` : '';
+  return `${metric?.label ?? rule.metric} ${rule.op} ${rule.value}${metric?.unit ?? ''}${held}`;
+};
+
+// =========================================================
+// EVALUATION
+// =========================================================
+
+/** What the engine knows about one robot right now */
+export interface RobotObservation {
+  key: string;
+  name: string;
+  status?: RobotStatus;
+  values: Partial<Record<TelemetryMetric, number>>;
+  x?: number;
+  y?: number;
+  /** When telemetry last arrived (ms) */
+  lastSeen?: number;
+}
+
+/** Per rule + robot: when the condition started holding, and whether it has fired */
+export interface AlertTrack {
+  since?: number;
+  firing: boolean;
+  /** Stuck rules: where the robot was when it last moved */
+  anchor?: { x: number; y: number; at: number };
+}
+
+export type AlertState = Record<string, AlertTrack>;
+
+export interface FiredAlert {
+  rule: AlertRule;
+  robot: RobotObservation;
+  message: string;
+}
+
+export const alertKey = (ruleId: string, robotKey: string) => `${ruleId}:${robotKey}`;
+
+const thresholdHolds = (rule: ThresholdRule, robot: RobotObservation) => {
+  const value = robot.values[rule.metric];
+  if (value === undefined) return false;
+  return rule.op === 'above' ? value > rule.value : value < rule.value;
+};
+
+const alertMessage = (rule: AlertRule, robot: RobotObservation, now: number) => {
+  if (rule.kind === 'silent') {
+    return `${robot.name}: no telemetry for ${Math.round((now - (robot.lastSeen ?? now)) / 1000)}s`;
+  }
+  if (rule.kind === 'stuck') return `${robot.name}: BUSY but has not moved for ${rule.seconds}s`;
+  const metric = TELEMETRY_METRICS.find((m) => m.key === rule.metric);
+  const value = `${robot.values[rule.metric]}${metric?.unit ?? ''}`;
+  return `${robot.name}: ${metric?.label ?? rule.metric} ${value} (${rule.op} ${rule.value})`;
+};
+
+/**
+ * Step every enabled rule for every robot. An alert fires once when its
+ * condition has held long enough, and can fire again after it clears.
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  robots: RobotObservation[],
+  state: AlertState,
+  now = Date.now()
+): { state: AlertState; fired: FiredAlert[] } => {
+  const next: AlertState = {};
+  const fired: FiredAlert[] = [];
+
+  for (const rule of rules.filter((r) => r.enabled)) {
+    for (const robot of robots) {
+      const key = alertKey(rule.id, robot.key);
+      const prev = state[key] ?? { firing: false };
+      let anchor = prev.anchor;
+      let holds: boolean;
+      let holdMs: number;
+
+      if (rule.kind === 'threshold') {
+        holds = thresholdHolds(rule, robot);
+        holdMs = rule.forSeconds * 1000;
+      } else if (rule.kind === 'silent') {
+        // A robot the backend already reports OFFLINE is expected to be quiet
+        const quietMs = robot.lastSeen === undefined ? 0 : now - robot.lastSeen;
+        holds = robot.status !== 'OFFLINE' && quietMs >= rule.seconds * 1000;
+        holdMs = 0;
+      } else {
+        const { x, y } = robot;
+        if (robot.status !== 'BUSY' || x === undefined || y === undefined) anchor = undefined;
+        else if (!anchor || Math.hypot(x - anchor.x, y - anchor.y) > rule.radius) anchor = { x, y, at: now };
+        holds = !!anchor && now - anchor.at >= rule.seconds * 1000;
+        holdMs = 0;
+      }
+
+      if (!holds) {
+        if (anchor) next[key] = { firing: false, anchor };
+        continue;
+      }
+      const since = prev.since ?? now;
+      const firing = prev.firing || now - since >= holdMs;
+      if (firing && !prev.firing) fired.push({ rule, robot, message: alertMessage(rule, robot, now) });
+      next[key] = { since, firing, anchor };
+    }
+  }
+  return { state: next, fired };
+};
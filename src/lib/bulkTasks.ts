@@ -0,0 +1,246 @@
+/**
+ * Bulk task import: CSV parsing, resolution of human shelf/zone ids and a
+ * dry-run check of every row before anything is submitted
+ */
+import type { Shelf, Task, TaskCreate, TaskType, Zone } from '@/types';
+import { TERMINAL_STATUSES } from './taskStateMachine';
+import { validateTaskDraft, type TaskDraft } from './taskValidation';
+
+export const BULK_COLUMNS = ['shelf', 'task_type', 'zone', 'priority', 'description', 'target_shelf'] as const;
+
+export type BulkColumn = (typeof BULK_COLUMNS)[number];
+
+/** Header spellings accepted for each column */
+const COLUMN_ALIASES: Record<BulkColumn, string[]> = {
+  shelf: ['shelf', 'shelf_id', 'warehouse_id'],
+  task_type: ['task_type', 'type'],
+  zone: ['zone', 'zone_id', 'drop_zone', 'target_zone', 'target_zone_id'],
+  priority: ['priority'],
+  description: ['description', 'note', 'notes'],
+  target_shelf: ['target_shelf', 'target_shelf_id'],
+};
+
+const TASK_TYPES: TaskType[] = ['PICKUP_AND_DELIVER', 'MOVE_SHELF', 'RETURN_SHELF', 'REPOSITION'];
+
+export interface BulkRow {
+  /** 1-based line in the source text */
+  line: number;
+  values: Partial<Record<BulkColumn, string>>;
+  /** Payload to submit; set only when the row has no errors */
+  payload?: TaskCreate;
+  /** Label of the resolved shelf, for the preview */
+  shelfLabel?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+// =========================================================
+// CSV
+// =========================================================
+
+/**
+ * Minimal RFC 4180 parser: commas (or tabs, when pasted from a sheet),
+ * double-quoted fields with "" escapes, CRLF or LF line ends
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Map parsed CSV to column values. A header row is used when present;
+ * otherwise columns are read in BULK_COLUMNS order.
+ */
+export const readBulkRows = (text: string): Array<Pick<BulkRow, 'line' | 'values'>> => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const columnOf = (name: string) =>
+    (Object.keys(COLUMN_ALIASES) as BulkColumn[]).find((col) => COLUMN_ALIASES[col].includes(name));
+  const hasHeader = header.some((cell) => columnOf(cell));
+  const columns = hasHeader ? header.map(columnOf) : [...BULK_COLUMNS];
+
+  return rows
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(hasHeader ? 1 : 0)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''))
+    .map(({ cells, line }) => {
+      const values: BulkRow['values'] = {};
+      cells.forEach((cell, i) => {
+        const column = columns[i];
+        if (column && cell.trim() !== '') values[column] = cell.trim();
+      });
+      return { line, values };
+    });
+};
+
+// =========================================================
+// RESOLUTION & DRY RUN
+// =========================================================
+
+interface BulkContext {
+  shelves: Shelf[];
+  zones: Zone[];
+  tasks: Task[];
+}
+
+const findShelf = (shelves: Shelf[], ref: string) => {
+  const key = ref.toLowerCase();
+  return (
+    shelves.find((s) => s.id === ref) ?? shelves.find((s) => s.warehouse_id?.toLowerCase() === key)
+  );
+};
+
+const findZone = (zones: Zone[], ref: string) => {
+  const key = ref.toLowerCase();
+  return (
+    zones.find((z) => z.id === ref) ??
+    zones.find((z) => z.zone_id?.toLowerCase() === key) ??
+    zones.find((z) => z.name?.toLowerCase() === key)
+  );
+};
+
+/**
+ * Resolve every row and check it against the create-form rules and the
+ * current tasks. Nothing is sent; rows with errors get no payload.
+ */
+export const prepareBulkRows = (
+  rows: Array<Pick<BulkRow, 'line' | 'values'>>,
+  { shelves, zones, tasks }: BulkContext
+): BulkRow[] => {
+  const busyShelves = new Map(
+    tasks.filter((t) => !TERMINAL_STATUSES.includes(t.status) && t.status !== 'ERROR').map((t) => [t.shelf_id, t])
+  );
+  const seenShelves = new Map<string, number>();
+
+  return rows.map(({ line, values }) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const taskType = (values.task_type ?? 'PICKUP_AND_DELIVER').toUpperCase().replace(/[\s-]+/g, '_') as TaskType;
+    if (!TASK_TYPES.includes(taskType)) errors.push(`Unknown task type "${values.task_type}"`);
+
+    const shelf = values.shelf ? findShelf(shelves, values.shelf) : undefined;
+    if (values.shelf && !shelf) errors.push(`Unknown shelf "${values.shelf}"`);
+
+    const zone = values.zone ? findZone(zones, values.zone) : undefined;
+    if (values.zone && !zone) errors.push(`Unknown zone "${values.zone}"`);
+
+    const targetShelf = values.target_shelf ? findShelf(shelves, values.target_shelf) : undefined;
+    if (values.target_shelf && !targetShelf) errors.push(`Unknown target shelf "${values.target_shelf}"`);
+
+    const priority = values.priority === undefined ? 5 : Number(values.priority);
+
+    const draft: TaskDraft = {
+      shelf_id: shelf?.id ?? '',
+      priority,
+      description: values.description ?? '',
+      task_type: taskType,
+      zone_id: taskType === 'PICKUP_AND_DELIVER' ? zone?.id ?? '' : '',
+      target_zone_id: taskType === 'REPOSITION' ? zone?.id : undefined,
+      target_shelf_id: taskType === 'MOVE_SHELF' ? targetShelf?.id : undefined,
+    };
+    // Form rules only make sense once every reference resolved
+    if (errors.length === 0) {
+      const rule = validateTaskDraft(draft);
+      if (rule) errors.push(rule);
+    }
+
+    if (zone && taskType !== 'PICKUP_AND_DELIVER' && taskType !== 'REPOSITION') {
+      warnings.push(`Zone is ignored for ${taskType} tasks`);
+    }
+
+    if (shelf) {
+      const active = busyShelves.get(shelf.id);
+      if (active) errors.push(`Shelf ${shelf.warehouse_id} already has an active task (${active.status})`);
+      const earlier = seenShelves.get(shelf.id);
+      if (earlier !== undefined) errors.push(`Shelf ${shelf.warehouse_id} is already used on line ${earlier}`);
+      else seenShelves.set(shelf.id, line);
+      if (shelf.available === false && !active) warnings.push(`Shelf ${shelf.warehouse_id} is marked unavailable`);
+    }
+
+    const row: BulkRow = { line, values, shelfLabel: shelf?.warehouse_id, errors, warnings };
+    if (errors.length === 0) {
+      row.payload = {
+        shelf_id: draft.shelf_id,
+        priority: draft.priority,
+        task_type: draft.task_type,
+        description: draft.description || undefined,
+        zone_id: draft.zone_id || undefined,
+        target_zone_id: draft.target_zone_id,
+        target_shelf_id: draft.target_shelf_id,
+      };
+    }
+    return row;
+  });
+};
+
+// =========================================================
+// SUBMISSION
+// =========================================================
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Results keep the input order; a failing item does not stop the rest.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onSettled?: (index: number, result: PromiseSettledResult<R>) => void
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      onSettled?.(index, results[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, lane));
+  return results;
+};
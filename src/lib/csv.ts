@@ -0,0 +1,25 @@
+/**
+ * CSV export helpers
+ */
+
+type Cell = string | number | boolean | null | undefined;
+
+const escape = (value: Cell) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Header row from `columns`, then one line per row */
+export const toCsv = <T extends object>(columns: Array<keyof T & string>, rows: T[]): string =>
+  [columns.join(','), ...rows.map((row) => columns.map((c) => escape(row[c] as Cell)).join(','))].join('\n');
+
+/** Save CSV text as a file in the browser */
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.csv') ? filename : `${filename}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
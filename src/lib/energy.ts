@@ -0,0 +1,129 @@
+/**
+ * Fleet energy: battery drain rate fitted to recent telemetry, the time
+ * left at that rate, and which robots should charge or stay off long tasks
+ */
+import type { Robot, Zone } from '@/types';
+import type { TelemetrySample } from './telemetry';
+
+export interface EnergyLimits {
+  /** At or below this battery level (%) a robot should go and charge */
+  lowLevel: number;
+  /** With fewer minutes left than this a robot should not get long tasks */
+  reserveMinutes: number;
+}
+
+export const DEFAULT_ENERGY_LIMITS: EnergyLimits = { lowLevel: 25, reserveMinutes: 20 };
+
+/** The drain rate is fitted over this much recent telemetry */
+export const DRAIN_WINDOW_MS = 10 * 60 * 1000;
+
+// Too few points or too short a span gives a meaningless slope
+const MIN_POINTS = 3;
+const MIN_SPAN_MS = 30 * 1000;
+
+export type EnergyFlag = 'ok' | 'avoid_long_tasks' | 'charge_now';
+
+export const ENERGY_FLAGS: Record<EnergyFlag, string> = {
+  ok: 'OK',
+  avoid_long_tasks: 'No long tasks',
+  charge_now: 'Charge now',
+};
+
+export interface BatteryPoint {
+  at: number;
+  level: number;
+}
+
+export interface RobotEnergy {
+  key: string;
+  name: string;
+  level?: number;
+  trend: BatteryPoint[];
+  /** % per minute; negative while draining */
+  ratePerMin?: number;
+  /** Until empty at the current drain; unset while not draining */
+  minutesLeft?: number;
+  flag: EnergyFlag;
+  reason?: string;
+}
+
+export const validateEnergyLimits = ({ lowLevel, reserveMinutes }: EnergyLimits): string | null => {
+  if (!Number.isFinite(lowLevel) || lowLevel < 0 || lowLevel > 100) return 'Low level must be 0–100%';
+  if (!Number.isFinite(reserveMinutes) || reserveMinutes < 0) return 'Reserve must be 0 minutes or more';
+  return null;
+};
+
+/** Battery readings within `windowMs` before `now`, oldest first */
+export const batteryTrend = (samples: TelemetrySample[], windowMs: number, now: number): BatteryPoint[] =>
+  samples
+    .filter((s) => s.battery_level !== undefined && s.at >= now - windowMs && s.at <= now)
+    .map((s) => ({ at: s.at, level: s.battery_level as number }));
+
+/** Least-squares slope of the trend in % per minute */
+export const drainRate = (trend: BatteryPoint[]): number | undefined => {
+  if (trend.length < MIN_POINTS || trend[trend.length - 1].at - trend[0].at < MIN_SPAN_MS) return undefined;
+  const t0 = trend[0].at;
+  const xs = trend.map((p) => (p.at - t0) / 60000);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = trend.reduce((sum, p) => sum + p.level, 0) / trend.length;
+  let num = 0;
+  let den = 0;
+  xs.forEach((x, i) => {
+    num += (x - meanX) * (trend[i].level - meanY);
+    den += (x - meanX) ** 2;
+  });
+  return den === 0 ? undefined : num / den;
+};
+
+export const minutesToEmpty = (level: number | undefined, ratePerMin: number | undefined) =>
+  level !== undefined && ratePerMin !== undefined && ratePerMin < 0 ? level / -ratePerMin : undefined;
+
+export const assessEnergy = (
+  key: string,
+  robot: Robot,
+  samples: TelemetrySample[],
+  limits: EnergyLimits,
+  now: number
+): RobotEnergy => {
+  const trend = batteryTrend(samples, DRAIN_WINDOW_MS, now);
+  const level = robot.battery_level ?? trend[trend.length - 1]?.level;
+  const ratePerMin = drainRate(trend);
+  const minutesLeft = minutesToEmpty(level, ratePerMin);
+  const base = { key, name: robot.name || robot.robot_id, level, trend, ratePerMin, minutesLeft };
+
+  if (level !== undefined && level <= limits.lowLevel) {
+    return { ...base, flag: 'charge_now', reason: `Battery ${Math.round(level)}% (limit ${limits.lowLevel}%)` };
+  }
+  if (minutesLeft !== undefined && minutesLeft < limits.reserveMinutes) {
+    return {
+      ...base,
+      flag: 'avoid_long_tasks',
+      reason: `About ${Math.round(minutesLeft)} min left at the current drain`,
+    };
+  }
+  return { ...base, flag: 'ok' };
+};
+
+const FLAG_ORDER: Record<EnergyFlag, number> = { charge_now: 0, avoid_long_tasks: 1, ok: 2 };
+
+/** Most urgent first: by flag, then by time left, then by level */
+export const compareEnergy = (a: RobotEnergy, b: RobotEnergy) =>
+  FLAG_ORDER[a.flag] - FLAG_ORDER[b.flag] ||
+  (a.minutesLeft ?? Infinity) - (b.minutesLeft ?? Infinity) ||
+  (a.level ?? 100) - (b.level ?? 100);
+
+/** The zone nearest to the robot's pose */
+export const nearestZone = (robot: Robot, zones: Zone[]): Zone | undefined => {
+  const x = robot.current_x ?? robot.x ?? 0;
+  const y = robot.current_y ?? robot.y ?? 0;
+  let best: Zone | undefined;
+  let bestDistance = Infinity;
+  zones.forEach((zone) => {
+    const d = Math.hypot(zone.x - x, zone.y - y);
+    if (d < bestDistance) {
+      best = zone;
+      bestDistance = d;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,91 @@
+/**
+ * Product fulfilment: turn a cart of products into one delivery task per
+ * holding shelf. Stock is picked once the shelf reaches the drop zone
+ * (see services/fulfilmentSync.ts).
+ */
+import type { Product, Shelf, Task, TaskCreate, TaskStatus } from '@/types';
+import { TERMINAL_STATUSES } from './taskStateMachine';
+
+export interface CartLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface FulfilmentGroup {
+  shelf: Shelf;
+  lines: Array<CartLine & { product: Product }>;
+  /** Reasons the shelf can't be sent now; the group is skipped when set */
+  errors: string[];
+}
+
+export interface FulfilmentPlan {
+  groups: FulfilmentGroup[];
+  /** Lines that can't be fulfilled at all (no shelf, unknown product, bad quantity) */
+  rejected: Array<CartLine & { product?: Product; reason: string }>;
+}
+
+/**
+ * Statuses in which the shelf has reached the drop zone. Later statuses are
+ * included so a pick missed while the app was closed still happens.
+ */
+export const PICK_STATUSES: TaskStatus[] = ['ARRIVED_AT_DROP', 'RELEASED', 'MOVING_TO_REFERENCE', 'COMPLETED'];
+
+export const isReadyToPick = (status: TaskStatus) => PICK_STATUSES.includes(status);
+
+/**
+ * Group cart lines by the shelf holding each product and check every
+ * group can be sent: the shelf exists and has no active task, and the
+ * requested quantities are in stock. Nothing is sent.
+ */
+export const planFulfilment = (
+  cart: CartLine[],
+  { products, shelves, tasks }: { products: Product[]; shelves: Shelf[]; tasks: Task[] }
+): FulfilmentPlan => {
+  const rejected: FulfilmentPlan['rejected'] = [];
+  const byShelf = new Map<string, FulfilmentGroup>();
+  const busyShelves = new Map(
+    tasks.filter((t) => !TERMINAL_STATUSES.includes(t.status) && t.status !== 'ERROR').map((t) => [t.shelf_id, t])
+  );
+
+  cart.forEach((line) => {
+    const product = products.find((p) => p.id === line.productId);
+    if (!product) return rejected.push({ ...line, reason: 'Unknown product' });
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      return rejected.push({ ...line, product, reason: 'Quantity must be a whole number above 0' });
+    }
+    if (!product.shelf_id) return rejected.push({ ...line, product, reason: 'Not stored on a shelf' });
+    const shelf = shelves.find((s) => s.id === product.shelf_id);
+    if (!shelf) return rejected.push({ ...line, product, reason: `Unknown shelf ${product.shelf_id}` });
+
+    const group = byShelf.get(shelf.id) ?? { shelf, lines: [], errors: [] };
+    const existing = group.lines.find((l) => l.productId === product.id);
+    if (existing) existing.quantity += line.quantity;
+    else group.lines.push({ productId: product.id, quantity: line.quantity, product });
+    byShelf.set(shelf.id, group);
+  });
+
+  const groups = [...byShelf.values()];
+  groups.forEach((group) => {
+    const active = busyShelves.get(group.shelf.id);
+    if (active) group.errors.push(`Shelf ${group.shelf.warehouse_id} already has an active task (${active.status})`);
+    if (group.shelf.available === false && !active) {
+      group.errors.push(`Shelf ${group.shelf.warehouse_id} is marked unavailable`);
+    }
+    group.lines.forEach((line) => {
+      if (line.quantity > line.product.quantity) {
+        group.errors.push(`${line.product.sku}: only ${line.product.quantity} in stock`);
+      }
+    });
+  });
+
+  return { groups, rejected };
+};
+
+/** Task payload delivering a group's shelf to the drop zone */
+export const fulfilmentTask = (group: FulfilmentGroup, zoneId: string, priority: number): TaskCreate => ({
+  shelf_id: group.shelf.id,
+  zone_id: zoneId,
+  task_type: 'PICKUP_AND_DELIVER',
+  priority,
+  description: `Fulfil ${group.lines.map((l) => `${l.quantity}x ${l.product.sku}`).join(', ')}`,
+});
@@ -0,0 +1,53 @@
+/**
+ * Minimal JWT helpers
+ * Only decodes the payload for display/gating; the backend verifies signatures
+ */
+
+export interface JwtClaims {
+  sub?: string;
+  exp?: number; // seconds since epoch
+  iat?: number;
+  username?: string;
+  user_id?: string;
+  role?: string;
+  roles?: string[];
+  [key: string]: unknown;
+}
+
+function base64UrlDecode(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  // Decode as UTF-8 so non-ASCII usernames survive
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decode the payload of a JWT without verifying it.
+ * Returns null for anything that isn't a well-formed token.
+ */
+export function decodeJwt(token: string | null | undefined): JwtClaims | null {
+  if (!token) return null;
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const payload = JSON.parse(base64UrlDecode(parts[1]));
+    return payload && typeof payload === 'object' ? (payload as JwtClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Expiry of a token in ms since epoch, or null if it carries no exp claim */
+export function getTokenExpiry(token: string | null | undefined): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/** Tokens without an exp claim are treated as non-expiring */
+export function isTokenExpired(token: string | null | undefined, now = Date.now()): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry <= now;
+}
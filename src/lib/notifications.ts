@@ -0,0 +1,139 @@
+/**
+ * Notification center rules: which entity changes are worth a notification,
+ * their severity and deep link, and when a notification still needs attention
+ */
+import type { LiveSystemHealth, Product, Robot, Task } from '@/types';
+import type { AlertSeverity } from './alertRules';
+
+export type NotificationSource = 'alert' | 'task' | 'robot' | 'system' | 'stock';
+
+export const NOTIFICATION_SOURCES: Record<NotificationSource, { label: string; description: string }> = {
+  task: { label: 'Task failures', description: 'A task ends in ERROR' },
+  robot: { label: 'Robot status', description: 'A robot goes OFFLINE or into ERROR' },
+  system: { label: 'System health', description: 'Backend health or a service connection changes' },
+  stock: { label: 'Low stock', description: 'A product falls to or below the low-stock level' },
+  alert: { label: 'Fleet alerts', description: 'Telemetry alert rules fire' },
+};
+
+export interface AppNotification {
+  id: string;
+  at: number;
+  severity: AlertSeverity;
+  source: NotificationSource;
+  title: string;
+  message: string;
+  /** In-app route to the related entity */
+  link?: string;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+  /** Hidden from the active list until then (ms) */
+  snoozedUntil?: number;
+}
+
+export type NotificationInput = Pick<AppNotification, 'severity' | 'source' | 'title' | 'message' | 'link'>;
+
+export const SNOOZE_OPTIONS = [
+  { label: '15 minutes', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '4 hours', ms: 4 * 60 * 60 * 1000 },
+];
+
+/** Not acknowledged and not snoozed */
+export const needsAttention = (n: AppNotification, now = Date.now()) =>
+  !n.acknowledgedAt && (n.snoozedUntil === undefined || n.snoozedUntil <= now);
+
+/**
+ * Every open tab sees the same change; a notification matching one raised
+ * within this window is the same event seen by another tab (ms). Covers
+ * the stock poll, which tabs run out of step.
+ */
+export const DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+
+/** The same notification was raised moments ago, most likely by another tab */
+export const isDuplicateNotice = (notifications: AppNotification[], input: NotificationInput, now = Date.now()) =>
+  notifications.some(
+    (n) =>
+      now - n.at < DUPLICATE_WINDOW_MS &&
+      n.source === input.source &&
+      n.title === input.title &&
+      n.message === input.message &&
+      n.link === input.link
+  );
+
+// =========================================================
+// ENTITY CHANGES
+// =========================================================
+
+/** A task that has just moved into ERROR */
+export const taskFailureNotice = (prev: Task | undefined, next: Task): NotificationInput | null => {
+  if (!prev || prev.status === next.status || next.status !== 'ERROR') return null;
+  return {
+    severity: 'critical',
+    source: 'task',
+    title: `Task ${next.id} failed`,
+    message: next.error_message || `${next.task_type} stopped in ${prev.status}`,
+    link: `/tasks/${next.id}`,
+  };
+};
+
+/** A robot that has just gone OFFLINE or into ERROR */
+export const robotStatusNotice = (key: string, prev: Robot | undefined, next: Robot): NotificationInput | null => {
+  if (!prev || prev.status === next.status) return null;
+  if (next.status !== 'OFFLINE' && next.status !== 'ERROR') return null;
+  return {
+    severity: next.status === 'ERROR' ? 'critical' : 'warning',
+    source: 'robot',
+    title: `${next.name || next.robot_id} is ${next.status}`,
+    message: `Was ${prev.status}`,
+    link: `/robots/${key}`,
+  };
+};
+
+const SERVICES: Array<[keyof LiveSystemHealth, string]> = [
+  ['mqtt_connected', 'MQTT'],
+  ['influxdb_connected', 'InfluxDB'],
+  ['mongodb_connected', 'MongoDB'],
+];
+
+/** Overall health changed, or a service connection dropped or came back */
+export const healthNotice = (prev: LiveSystemHealth | undefined, next: LiveSystemHealth): NotificationInput | null => {
+  if (!prev) return null;
+  const dropped = SERVICES.filter(([key]) => prev[key] && !next[key]).map(([, label]) => label);
+  const restored = SERVICES.filter(([key]) => !prev[key] && next[key]).map(([, label]) => label);
+  if (prev.status === next.status && dropped.length === 0 && restored.length === 0) return null;
+
+  const parts = [
+    dropped.length ? `${dropped.join(', ')} disconnected` : '',
+    restored.length ? `${restored.join(', ')} reconnected` : '',
+  ].filter(Boolean);
+  return {
+    severity: next.status === 'healthy' ? 'info' : next.status,
+    source: 'system',
+    title: `System ${next.status}`,
+    message: parts.join('; ') || `Was ${prev.status}`,
+  };
+};
+
+/**
+ * Products at or below `threshold` that were not low last time; `wasLow`
+ * holds the ids that were low, so one notification is raised per dip
+ */
+export const lowStockNotices = (
+  products: Product[],
+  threshold: number,
+  wasLow: Set<string>
+): { notices: NotificationInput[]; low: Set<string> } => {
+  const low = new Set(products.filter((p) => p.quantity <= threshold).map((p) => p.id));
+  const notices = products
+    .filter((p) => low.has(p.id) && !wasLow.has(p.id))
+    .map(
+      (p): NotificationInput => ({
+        severity: p.quantity <= 0 ? 'critical' : 'warning',
+        source: 'stock',
+        title: p.quantity <= 0 ? `${p.name} is out of stock` : `${p.name} is running low`,
+        message: `${p.quantity} left (${p.sku})`,
+        link: `/products?product=${encodeURIComponent(p.id)}`,
+      })
+    );
+  return { notices, low };
+};
@@ -0,0 +1,87 @@
+/**
+ * Role-based access control
+ * VIEWER is read-only, OPERATOR runs tasks, stock moves and robot commands,
+ * ADMIN additionally edits fleet/storage configuration and map metadata
+ */
+import type { AuthResponse, User, UserRole } from '@/types';
+import { decodeJwt } from './jwt';
+
+export const ROLES: UserRole[] = ['VIEWER', 'OPERATOR', 'ADMIN'];
+
+/** Role assumed when neither the login response nor the token names one */
+export const DEFAULT_ROLE: UserRole = 'VIEWER';
+
+export type Permission =
+  | 'task:create'
+  | 'task:update_status'
+  | 'task:delete'
+  | 'stock:move'
+  | 'shelf:restore'
+  | 'shelf:manage'
+  | 'shelf:set_storage'
+  | 'product:manage'
+  | 'robot:manage'
+  | 'robot:command'
+  | 'zone:manage'
+  | 'map:edit_metadata';
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+  'task:create',
+  'task:update_status',
+  'stock:move',
+  'shelf:restore',
+  'robot:command',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, ReadonlySet<Permission>> = {
+  VIEWER: new Set<Permission>(),
+  OPERATOR: new Set<Permission>(OPERATOR_PERMISSIONS),
+  ADMIN: new Set<Permission>([
+    ...OPERATOR_PERMISSIONS,
+    'task:delete',
+    'shelf:manage',
+    'shelf:set_storage',
+    'product:manage',
+    'robot:manage',
+    'zone:manage',
+    'map:edit_metadata',
+  ]),
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.has(permission) ?? false;
+}
+
+/** Accepts "admin", "ROLE_ADMIN", etc. Unknown values yield null */
+export function normalizeRole(raw: unknown): UserRole | null {
+  if (typeof raw !== 'string') return null;
+  const role = raw.trim().toUpperCase().replace(/^ROLE_/, '');
+  return (ROLES as string[]).includes(role) ? (role as UserRole) : null;
+}
+
+/**
+ * Build the current user from the login response, falling back to JWT claims.
+ * The role comes from the response first, then the token, then DEFAULT_ROLE.
+ */
+export function resolveUser(
+  token: string | null,
+  response?: Partial<AuthResponse> | null,
+  fallbackUsername?: string
+): User | null {
+  const claims = decodeJwt(token);
+  const fromResponse = response?.user;
+  if (!fromResponse && !claims && !fallbackUsername) return null;
+
+  const claimRoles = Array.isArray(claims?.roles) ? claims.roles : [];
+  const claimRole = normalizeRole(claims?.role) ?? claimRoles.map(normalizeRole).find(Boolean);
+  const username =
+    fromResponse?.username ?? claims?.username ?? claims?.sub ?? fallbackUsername ?? 'unknown';
+
+  return {
+    ...fromResponse,
+    id: fromResponse?.id ?? claims?.user_id ?? claims?.sub ?? username,
+    username,
+    role: normalizeRole(fromResponse?.role) ?? claimRole ?? DEFAULT_ROLE,
+  };
+}
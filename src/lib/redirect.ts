@@ -0,0 +1,22 @@
+/**
+ * Return-to URL helpers for redirecting through /login
+ */
+
+export type SessionEndReason = 'expired' | 'unauthorized';
+
+/** Build the /login URL that brings the user back to `path` afterwards */
+export function loginPath(path: string, reason?: SessionEndReason | null): string {
+  const params = new URLSearchParams();
+  if (path && path !== '/') params.set('returnTo', path);
+  if (reason) params.set('reason', reason);
+  const query = params.toString();
+  return query ? `/login?${query}` : '/login';
+}
+
+/** Only same-origin app paths are accepted; anything else falls back to "/" */
+export function safeReturnTo(value: string | null | undefined): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/login')) {
+    return '/';
+  }
+  return value;
+}
@@ -0,0 +1,114 @@
+/**
+ * Robot command panel: the operator interventions, how they are validated
+ * and described, and the audit entries recording what happened to each
+ */
+import type { RobotCommandKind, RobotGoToInput, Zone } from '@/types';
+
+export type RobotCommandTransport = 'rest' | 'socket';
+
+/** pending until the backend acknowledges, rejects or ACK_TIMEOUT_MS passes */
+export type RobotCommandStatus = 'pending' | 'acknowledged' | 'rejected' | 'timed_out';
+
+/** A command with no answer after this long is marked timed out */
+export const ACK_TIMEOUT_MS = 10000;
+
+export const ROBOT_COMMANDS: Record<RobotCommandKind, { label: string; description: string; confirm?: boolean }> = {
+  goto_pose: { label: 'Go to pose', description: 'Drive an idle robot to x/y (and heading)' },
+  goto_zone: { label: 'Go to zone', description: "Drive an idle robot to a zone's pose" },
+  pause: { label: 'Pause', description: 'Hold the robot and its task where they are' },
+  resume: { label: 'Resume', description: 'Continue after a pause or emergency stop' },
+  emergency_stop: {
+    label: 'Emergency stop',
+    description: 'Fail the current task and keep the robot stopped until resumed',
+    confirm: true,
+  },
+  release_shelf: {
+    label: 'Release shelf',
+    description: 'Set the attached shelf down where the robot is and cancel its task',
+    confirm: true,
+  },
+};
+
+export const TRANSPORT_LABELS: Record<RobotCommandTransport, string> = {
+  rest: 'REST',
+  socket: 'Socket',
+};
+
+export const COMMAND_STATUS_LABELS: Record<RobotCommandStatus, string> = {
+  pending: 'Awaiting ack',
+  acknowledged: 'Acknowledged',
+  rejected: 'Rejected',
+  timed_out: 'Timed out',
+};
+
+export interface RobotCommandEntry {
+  id: string;
+  /** Entity cache key (robot document id) */
+  robotKey: string;
+  robotName: string;
+  command: RobotCommandKind;
+  params?: RobotGoToInput;
+  transport: RobotCommandTransport;
+  /** Who sent it */
+  user?: string;
+  sentAt: number;
+  status: RobotCommandStatus;
+  /** When the acknowledgement, rejection or timeout was recorded */
+  resolvedAt?: number;
+  message?: string;
+}
+
+export type RobotCommandInput = Pick<
+  RobotCommandEntry,
+  'robotKey' | 'robotName' | 'command' | 'params' | 'transport' | 'user'
+>;
+
+export type RobotCommandResult = Pick<RobotCommandEntry, 'status' | 'message'>;
+
+export const validateCommand = (command: RobotCommandKind, params: RobotGoToInput = {}): string | null => {
+  if (command === 'goto_pose') {
+    if (!Number.isFinite(params.x) || !Number.isFinite(params.y)) return 'Target x and y are required';
+    if (params.yaw !== undefined && !Number.isFinite(params.yaw)) return 'Heading must be a number';
+  }
+  if (command === 'goto_zone' && !params.zone_id) return 'Choose a zone';
+  return null;
+};
+
+/** One-line summary for the audit trail, e.g. "Go to (4.0, 2.5)" */
+export const describeCommand = (command: RobotCommandKind, params: RobotGoToInput = {}, zones: Zone[] = []) => {
+  const charge = params.charge ? ' and charge' : '';
+  if (command === 'goto_pose' && params.x !== undefined && params.y !== undefined) {
+    const yaw = params.yaw !== undefined ? `, yaw ${params.yaw.toFixed(2)}` : '';
+    return `Go to (${params.x.toFixed(1)}, ${params.y.toFixed(1)}${yaw})${charge}`;
+  }
+  if (command === 'goto_zone' && params.zone_id) {
+    const zone = zones.find((z) => z.id === params.zone_id || z.zone_id === params.zone_id);
+    return `Go to ${zone?.name || zone?.zone_id || params.zone_id}${charge}`;
+  }
+  return ROBOT_COMMANDS[command].label;
+};
+
+/** Time from sending to the answer (or timeout), unset while pending */
+export const commandLatency = (entry: RobotCommandEntry) =>
+  entry.resolvedAt !== undefined ? entry.resolvedAt - entry.sentAt : undefined;
+
+/**
+ * Target pose picked on the map, passed in the query string
+ * (/robots/:id?x=4.2&y=7.5&yaw=1.57)
+ */
+export const targetFromQuery = (query: URLSearchParams): RobotGoToInput | undefined => {
+  const parse = (key: string) => {
+    const raw = query.get(key);
+    const n = raw === null || raw.trim() === '' ? NaN : Number(raw);
+    return Number.isFinite(n) ? n : undefined;
+  };
+  const x = parse('x');
+  const y = parse('y');
+  if (x === undefined || y === undefined) return undefined;
+  const yaw = parse('yaw');
+  return yaw === undefined ? { x, y } : { x, y, yaw };
+};
+
+/** Query string that targetFromQuery() reads back */
+export const targetQuery = ({ x, y }: { x: number; y: number }) =>
+  new URLSearchParams({ x: x.toFixed(2), y: y.toFixed(2) }).toString();
@@ -0,0 +1,86 @@
+/**
+ * Robot liveness from telemetry gaps: a robot is only as current as its
+ * last telemetry or position event. After `staleSeconds` without one its
+ * data is stale; after `offlineSeconds` it is presumed offline, whatever
+ * status the backend last sent.
+ */
+import type { Robot, Task } from '@/types';
+import { isActiveTask } from './taskStateMachine';
+import { formatDuration } from './taskTimeline';
+
+export type RobotLiveness = 'live' | 'stale' | 'offline';
+
+export interface LivenessTimeouts {
+  staleSeconds: number;
+  offlineSeconds: number;
+}
+
+export const DEFAULT_LIVENESS_TIMEOUTS: LivenessTimeouts = { staleSeconds: 15, offlineSeconds: 60 };
+
+export const LIVENESS_LABELS: Record<RobotLiveness, string> = {
+  live: 'Live',
+  stale: 'Stale',
+  offline: 'Presumed offline',
+};
+
+export interface RobotLivenessInfo {
+  liveness: RobotLiveness;
+  /** Last telemetry or position event (client clock, ms); unset if none yet */
+  lastSeen?: number;
+}
+
+/** Liveness of every robot, keyed by cache key and by robot_id */
+export type FleetLiveness = Record<string, RobotLivenessInfo>;
+
+export const validateLivenessTimeouts = ({ staleSeconds, offlineSeconds }: LivenessTimeouts): string | null => {
+  if (!Number.isFinite(staleSeconds) || staleSeconds < 1) return 'Stale after must be at least 1 second';
+  if (!Number.isFinite(offlineSeconds) || offlineSeconds <= staleSeconds) {
+    return 'Offline after must be longer than stale after';
+  }
+  return null;
+};
+
+/**
+ * `since` stands in for robots not heard from yet (when tracking started),
+ * so a robot that never reports still goes stale
+ */
+export const livenessOf = (
+  lastSeen: number | undefined,
+  since: number,
+  now: number,
+  { staleSeconds, offlineSeconds }: LivenessTimeouts
+): RobotLiveness => {
+  const quietMs = now - (lastSeen ?? since);
+  if (quietMs >= offlineSeconds * 1000) return 'offline';
+  if (quietMs >= staleSeconds * 1000) return 'stale';
+  return 'live';
+};
+
+export const lastSeenLabel = (lastSeen: number | undefined, now: number) =>
+  lastSeen === undefined ? 'not seen yet' : `last seen ${formatDuration(Math.max(0, now - lastSeen))} ago`;
+
+export const assessFleet = (
+  robots: Record<string, Robot>,
+  receivedAt: Record<string, number>,
+  since: number,
+  now: number,
+  timeouts: LivenessTimeouts
+): FleetLiveness => {
+  const fleet: FleetLiveness = {};
+  Object.entries(robots).forEach(([key, robot]) => {
+    const lastSeen = receivedAt[key];
+    const info = { liveness: livenessOf(lastSeen, since, now, timeouts), lastSeen };
+    fleet[key] = info;
+    // Tasks and socket payloads refer to robots by robot_id as often as by id
+    if (robot.robot_id && !fleet[robot.robot_id]) fleet[robot.robot_id] = info;
+  });
+  return fleet;
+};
+
+/** Liveness of the robot a task is assigned to, if it is known */
+export const taskRobotLiveness = (task: Task, fleet: FleetLiveness): RobotLivenessInfo | undefined =>
+  (task.assigned_robot_id && fleet[task.assigned_robot_id]) || (task.robot_id && fleet[task.robot_id]) || undefined;
+
+/** An active task whose robot has gone quiet */
+export const isStaleTask = (task: Task, fleet: FleetLiveness) =>
+  isActiveTask(task) && (taskRobotLiveness(task, fleet)?.liveness ?? 'live') !== 'live';
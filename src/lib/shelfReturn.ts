@@ -0,0 +1,101 @@
+/**
+ * Return policies for shelves left at a drop zone
+ * After a PICKUP_AND_DELIVER completes the shelf waits at the zone
+ * (DELIVERED_AT_DROP_ZONE) until a RETURN_SHELF task takes it home.
+ * Each zone decides when that happens.
+ */
+import type { Shelf, Task, TaskCreate, Zone } from '@/types';
+import { isActiveTask } from './taskStateMachine';
+import { formatDuration, parseTimestamp } from './taskTimeline';
+
+export type ReturnPolicyMode = 'after_minutes' | 'on_confirm' | 'never';
+
+export interface ReturnPolicy {
+  mode: ReturnPolicyMode;
+  /** Minutes at the zone before the return task is created (after_minutes) */
+  minutes?: number;
+}
+
+export const RETURN_POLICY_MODES: Array<{ mode: ReturnPolicyMode; label: string }> = [
+  { mode: 'after_minutes', label: 'Return after a delay' },
+  { mode: 'on_confirm', label: 'Return when picking is confirmed' },
+  { mode: 'never', label: 'Never (manual)' },
+];
+
+/** Zones without a policy keep today's behaviour */
+export const DEFAULT_RETURN_POLICY: ReturnPolicy = { mode: 'never' };
+export const DEFAULT_RETURN_MINUTES = 15;
+
+export interface DeliveredShelf {
+  shelf: Shelf;
+  /** The PICKUP_AND_DELIVER task that brought it here */
+  deliveryTask?: Task;
+  zone?: Zone;
+  policy: ReturnPolicy;
+  /** When the shelf was released at the zone (ms), if known */
+  deliveredAt?: number;
+  /** When the automatic return is due (after_minutes only) */
+  dueAt?: number;
+  /** Active task already moving the shelf */
+  returnTask?: Task;
+}
+
+const findZone = (zones: Zone[], ref?: string) =>
+  ref ? zones.find((z) => z.id === ref) ?? zones.find((z) => z.zone_id === ref) : undefined;
+
+/**
+ * Shelves waiting at a drop zone, with the policy of their zone and when
+ * (if ever) they are due to go back
+ */
+export const findDeliveredShelves = (
+  shelves: Shelf[],
+  tasks: Task[],
+  zones: Zone[],
+  policies: Record<string, ReturnPolicy>
+): DeliveredShelf[] =>
+  shelves
+    .filter((shelf) => shelf.location_status === 'DELIVERED_AT_DROP_ZONE')
+    .map((shelf) => {
+      const shelfTasks = tasks.filter((t) => t.shelf_id === shelf.id);
+      const deliveryTask =
+        shelfTasks.find((t) => t.id === shelf.last_task_id && t.task_type === 'PICKUP_AND_DELIVER') ??
+        shelfTasks
+          .filter((t) => t.task_type === 'PICKUP_AND_DELIVER' && t.status === 'COMPLETED')
+          .sort((a, b) => (parseTimestamp(b.completed_at) ?? 0) - (parseTimestamp(a.completed_at) ?? 0))[0];
+      const zone = findZone(zones, deliveryTask?.drop_zone_id) ?? findZone(zones, deliveryTask?.zone_id);
+      const policy = (zone && policies[zone.id]) || DEFAULT_RETURN_POLICY;
+      const deliveredAt = deliveryTask
+        ? parseTimestamp(deliveryTask.completed_at) ?? parseTimestamp(deliveryTask.updated_at)
+        : undefined;
+      const dueAt =
+        policy.mode === 'after_minutes' && deliveredAt !== undefined
+          ? deliveredAt + (policy.minutes ?? DEFAULT_RETURN_MINUTES) * 60000
+          : undefined;
+
+      return { shelf, deliveryTask, zone, policy, deliveredAt, dueAt, returnTask: shelfTasks.find(isActiveTask) };
+    });
+
+/** Whether the automatic return should be created now */
+export const isReturnDue = (delivered: DeliveredShelf, now: number) =>
+  !delivered.returnTask && delivered.dueAt !== undefined && now >= delivered.dueAt;
+
+/** Short status line for a delivered shelf, e.g. "Returns in 4m 05s" */
+export const describeReturn = (delivered: DeliveredShelf, now: number): string => {
+  if (delivered.returnTask) return `Returning (${delivered.returnTask.status})`;
+  switch (delivered.policy.mode) {
+    case 'after_minutes':
+      if (delivered.dueAt === undefined) return 'Delivery time unknown';
+      return delivered.dueAt > now ? `Returns in ${formatDuration(delivered.dueAt - now)}` : 'Return due';
+    case 'on_confirm':
+      return 'Waiting for picking to finish';
+    default:
+      return 'Waiting for manual return';
+  }
+};
+
+export const returnTaskPayload = (shelf: Shelf, reason: string): TaskCreate => ({
+  shelf_id: shelf.id,
+  task_type: 'RETURN_SHELF',
+  priority: 5,
+  description: `Return ${shelf.warehouse_id} to storage (${reason})`,
+});
@@ -0,0 +1,263 @@
+/**
+ * Task analytics: throughput, durations, time per status, failure rates
+ * and SLA breaches over a date range. Pure functions over task documents;
+ * the Analytics page charts the results and exports them as CSV.
+ */
+import type { Task, TaskStatus, TaskType } from '@/types';
+import type { TaskEvent } from '@/stores/taskEventStore';
+import { TASK_STATUSES } from './taskStateMachine';
+import { TASK_TYPES, toDay } from './taskFilters';
+import { buildTaskTimeline, parseTimestamp } from './taskTimeline';
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+export interface AnalyticsRange {
+  from: number;
+  to: number;
+}
+
+/** Tasks created within the range; the backend's task list can't filter by date */
+export const tasksInRange = (tasks: Task[], range: AnalyticsRange) =>
+  tasks.filter((task) => {
+    const created = parseTimestamp(task.created_at);
+    return created !== undefined && created >= range.from && created <= range.to;
+  });
+
+/** Ranges up to two days are bucketed by hour, longer ones by day */
+export type Bucket = 'hour' | 'day';
+export const bucketFor = (range: AnalyticsRange): Bucket => (range.to - range.from <= 2 * 24 * HOUR ? 'hour' : 'day');
+
+// =========================================================
+// THROUGHPUT
+// =========================================================
+
+export interface ThroughputRow {
+  label: string;
+  start: number;
+  created: number;
+  completed: number;
+  failed: number;
+}
+
+const bucketStart = (ms: number, bucket: Bucket) => {
+  const d = new Date(ms);
+  d.setMinutes(0, 0, 0);
+  if (bucket === 'day') d.setHours(0);
+  return d.getTime();
+};
+
+const nextBucket = (ms: number, bucket: Bucket) => {
+  const d = new Date(ms);
+  if (bucket === 'hour') d.setHours(d.getHours() + 1);
+  else d.setDate(d.getDate() + 1);
+  return d.getTime();
+};
+
+const bucketLabel = (start: number, bucket: Bucket, multiDay: boolean) => {
+  if (bucket === 'day') return toDay(new Date(start));
+  const d = new Date(start);
+  const hour = `${String(d.getHours()).padStart(2, '0')}:00`;
+  return multiDay ? `${toDay(d).slice(5)} ${hour}` : hour;
+};
+
+/** Tasks created, completed and failed per bucket; every bucket in the range is present */
+export const throughput = (tasks: Task[], range: AnalyticsRange, bucket = bucketFor(range)): ThroughputRow[] => {
+  const multiDay = toDay(new Date(range.from)) !== toDay(new Date(range.to));
+  const rows = new Map<number, ThroughputRow>();
+  for (let start = bucketStart(range.from, bucket); start <= range.to; start = nextBucket(start, bucket)) {
+    rows.set(start, { label: bucketLabel(start, bucket, multiDay), start, created: 0, completed: 0, failed: 0 });
+  }
+  const add = (value: unknown, key: 'created' | 'completed' | 'failed') => {
+    const at = parseTimestamp(value);
+    if (at === undefined || at < range.from || at > range.to) return;
+    const row = rows.get(bucketStart(at, bucket));
+    if (row) row[key] += 1;
+  };
+  tasks.forEach((task) => {
+    add(task.created_at, 'created');
+    if (task.status === 'COMPLETED') add(task.completed_at ?? task.updated_at, 'completed');
+    if (task.status === 'ERROR') add(task.completed_at ?? task.updated_at, 'failed');
+  });
+  return [...rows.values()];
+};
+
+// =========================================================
+// DURATIONS
+// =========================================================
+
+/** Run time of a completed task (start to completion) */
+export const taskDurationMs = (task: Task): number | undefined => {
+  if (task.status !== 'COMPLETED') return undefined;
+  if (typeof task.duration_seconds === 'number') return task.duration_seconds * 1000;
+  const start = parseTimestamp(task.started_at);
+  const end = parseTimestamp(task.completed_at);
+  return start !== undefined && end !== undefined && end >= start ? end - start : undefined;
+};
+
+export const DURATION_BINS: Array<{ label: string; maxMs: number }> = [
+  { label: '<1m', maxMs: MINUTE },
+  { label: '1–2m', maxMs: 2 * MINUTE },
+  { label: '2–5m', maxMs: 5 * MINUTE },
+  { label: '5–10m', maxMs: 10 * MINUTE },
+  { label: '10–30m', maxMs: 30 * MINUTE },
+  { label: '30m+', maxMs: Infinity },
+];
+
+export type DurationRow = { bin: string } & Record<TaskType, number>;
+
+/** Completed tasks per duration bin, one column per task type */
+export const durationDistribution = (tasks: Task[]): DurationRow[] => {
+  const rows = DURATION_BINS.map(
+    ({ label }) => ({ bin: label, ...Object.fromEntries(TASK_TYPES.map((t) => [t, 0])) }) as DurationRow
+  );
+  tasks.forEach((task) => {
+    const ms = taskDurationMs(task);
+    if (ms === undefined) return;
+    const index = DURATION_BINS.findIndex((b) => ms < b.maxMs);
+    rows[index][task.task_type] += 1;
+  });
+  return rows;
+};
+
+export interface DurationStats {
+  type: TaskType;
+  count: number;
+  avgMs?: number;
+  p50Ms?: number;
+  p90Ms?: number;
+}
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)] : undefined;
+
+export const durationStats = (tasks: Task[]): DurationStats[] =>
+  TASK_TYPES.map((type) => {
+    const values = tasks
+      .filter((t) => t.task_type === type)
+      .map(taskDurationMs)
+      .filter((ms): ms is number => ms !== undefined)
+      .sort((a, b) => a - b);
+    return {
+      type,
+      count: values.length,
+      avgMs: values.length ? values.reduce((sum, ms) => sum + ms, 0) / values.length : undefined,
+      p50Ms: percentile(values, 50),
+      p90Ms: percentile(values, 90),
+    };
+  });
+
+// =========================================================
+// TIME PER STATUS
+// =========================================================
+
+export interface StatusTimeRow {
+  status: TaskStatus;
+  totalMs: number;
+  avgMs: number;
+  /** Tasks that passed through this status */
+  tasks: number;
+}
+
+const FINAL: TaskStatus[] = ['COMPLETED', 'CANCELLED', 'ERROR'];
+
+/** Time spent in each non-final status, from state history and live events */
+export const timeInStatus = (tasks: Task[], events: TaskEvent[], now = Date.now()): StatusTimeRow[] => {
+  const totals = new Map<TaskStatus, { totalMs: number; tasks: number }>();
+  tasks.forEach((task) => {
+    buildTaskTimeline(task, events, now).forEach((entry) => {
+      if (entry.durationMs === undefined || FINAL.includes(entry.status)) return;
+      const row = totals.get(entry.status) ?? { totalMs: 0, tasks: 0 };
+      row.totalMs += entry.durationMs;
+      row.tasks += 1;
+      totals.set(entry.status, row);
+    });
+  });
+  return TASK_STATUSES.filter((s) => totals.has(s)).map((status) => {
+    const { totalMs, tasks: count } = totals.get(status)!;
+    return { status, totalMs, avgMs: totalMs / count, tasks: count };
+  });
+};
+
+// =========================================================
+// FAILURE RATES
+// =========================================================
+
+export interface FailureRow {
+  key: string;
+  label: string;
+  /** COMPLETED + ERROR */
+  finished: number;
+  failed: number;
+  /** failed / finished, 0–1 */
+  rate: number;
+}
+
+/**
+ * Failure rate grouped by `keyOf` (robot, zone, ...); tasks without a key
+ * or not yet finished are left out
+ */
+export const failureRates = (
+  tasks: Task[],
+  keyOf: (task: Task) => string | undefined,
+  labelOf: (key: string) => string = (key) => key
+): FailureRow[] => {
+  const groups = new Map<string, { finished: number; failed: number }>();
+  tasks.forEach((task) => {
+    if (task.status !== 'COMPLETED' && task.status !== 'ERROR') return;
+    const key = keyOf(task);
+    if (!key) return;
+    const group = groups.get(key) ?? { finished: 0, failed: 0 };
+    group.finished += 1;
+    if (task.status === 'ERROR') group.failed += 1;
+    groups.set(key, group);
+  });
+  return [...groups.entries()]
+    .map(([key, g]) => ({ key, label: labelOf(key), ...g, rate: g.failed / g.finished }))
+    .sort((a, b) => b.rate - a.rate || b.failed - a.failed || a.label.localeCompare(b.label));
+};
+
+export const robotKey = (task: Task) => task.robot_id ?? task.assigned_robot_id;
+export const zoneKey = (task: Task) => task.drop_zone_id ?? task.target_zone_id ?? task.zone_id;
+
+// =========================================================
+// SLA
+// =========================================================
+
+/** Minutes from creation to completion allowed per task type */
+export type SlaTargets = Record<TaskType, number>;
+
+export const DEFAULT_SLA_MINUTES: SlaTargets = {
+  PICKUP_AND_DELIVER: 15,
+  MOVE_SHELF: 10,
+  RETURN_SHELF: 10,
+  REPOSITION: 10,
+};
+
+export interface SlaBreach {
+  task: Task;
+  elapsedMs: number;
+  targetMs: number;
+  overMs: number;
+  /** Still running (or failed) past its target */
+  open: boolean;
+}
+
+/**
+ * Tasks that took, or have been open, longer than their type's target.
+ * Cancelled tasks are not counted.
+ */
+export const slaBreaches = (tasks: Task[], targets: SlaTargets, now = Date.now()): SlaBreach[] =>
+  tasks
+    .map((task): SlaBreach | null => {
+      if (task.status === 'CANCELLED') return null;
+      const created = parseTimestamp(task.created_at);
+      if (created === undefined) return null;
+      const done = task.status === 'COMPLETED' ? parseTimestamp(task.completed_at ?? task.updated_at) : undefined;
+      const elapsedMs = (done ?? now) - created;
+      const targetMs = (targets[task.task_type] ?? DEFAULT_SLA_MINUTES[task.task_type]) * MINUTE;
+      if (elapsedMs <= targetMs) return null;
+      return { task, elapsedMs, targetMs, overMs: elapsedMs - targetMs, open: done === undefined };
+    })
+    .filter((b): b is SlaBreach => b !== null)
+    .sort((a, b) => b.overMs - a.overMs);
@@ -0,0 +1,218 @@
+/**
+ * Task list filtering, sorting and paging
+ * The Tasks page keeps its query in the URL (?status=ERROR&robot=mp400-2&from=...)
+ * so filtered views can be shared. The same matcher and comparator back the
+ * simulator's GET /tasks, so server and board results agree.
+ */
+import type { SortOptions, Task, TaskFilterOptions, TaskListParams, TaskStatus, TaskType, Zone } from '@/types';
+import { TASK_STATUSES } from './taskStateMachine';
+
+export const TASK_TYPES: TaskType[] = ['PICKUP_AND_DELIVER', 'MOVE_SHELF', 'RETURN_SHELF', 'REPOSITION'];
+
+export const TASK_SORT_FIELDS = ['created_at', 'updated_at', 'priority', 'status', 'task_type'] as const;
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+
+export const DEFAULT_TASK_SORT: SortOptions = { field: 'created_at', order: 'desc' };
+
+export const PAGE_SIZES = [10, 25, 50, 100];
+export const DEFAULT_PAGE_SIZE = 25;
+
+/** Filter state as it appears in the URL; dates are local YYYY-MM-DD days */
+export interface TaskQuery {
+  statuses: TaskStatus[];
+  types: TaskType[];
+  /** robot_id (e.g. mp400-2) or robot document id */
+  robot?: string;
+  shelf?: string;
+  zone?: string;
+  priorityMin?: number;
+  priorityMax?: number;
+  from?: string;
+  to?: string;
+  search?: string;
+  sort: SortOptions;
+  page: number;
+  pageSize: number;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Repeated params (status=ERROR&status=PENDING) or a comma list
+const list = <T extends string>(raw: string[], allowed: readonly T[]) => [
+  ...new Set(
+    raw
+      .flatMap((v) => v.split(','))
+      .map((v) => v.trim().toUpperCase())
+      .filter((v): v is T => (allowed as readonly string[]).includes(v))
+  ),
+];
+
+const int = (raw: string | null, min: number, max: number) => {
+  const value = raw === null || raw === '' ? NaN : Number(raw);
+  return Number.isInteger(value) ? Math.min(max, Math.max(min, value)) : undefined;
+};
+
+const text = (raw: string | null) => raw?.trim() || undefined;
+
+/** Local calendar day of a date, as used by the from/to params */
+export const toDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseTaskQuery = (params: URLSearchParams): TaskQuery => {
+  const field = params.get('sort');
+  const from = params.get('from');
+  const to = params.get('to');
+  return {
+    statuses: list(params.getAll('status'), TASK_STATUSES),
+    types: list(params.getAll('type'), TASK_TYPES),
+    robot: text(params.get('robot')),
+    shelf: text(params.get('shelf')),
+    zone: text(params.get('zone')),
+    priorityMin: int(params.get('pmin'), 1, 10),
+    priorityMax: int(params.get('pmax'), 1, 10),
+    from: from && DAY.test(from) ? from : undefined,
+    to: to && DAY.test(to) ? to : undefined,
+    search: text(params.get('q')),
+    sort: {
+      field: TASK_SORT_FIELDS.includes(field as TaskSortField) ? (field as TaskSortField) : DEFAULT_TASK_SORT.field,
+      order: params.get('order') === 'asc' ? 'asc' : params.get('order') === 'desc' ? 'desc' : DEFAULT_TASK_SORT.order,
+    },
+    page: int(params.get('page'), 1, Number.MAX_SAFE_INTEGER) ?? 1,
+    pageSize: PAGE_SIZES.includes(Number(params.get('size'))) ? Number(params.get('size')) : DEFAULT_PAGE_SIZE,
+  };
+};
+
+/** URL params for a query; defaults are left out to keep links short */
+export const taskQueryParams = (query: TaskQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  const put = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  };
+  query.statuses.forEach((status) => params.append('status', status));
+  query.types.forEach((type) => params.append('type', type));
+  put('robot', query.robot);
+  put('shelf', query.shelf);
+  put('zone', query.zone);
+  put('pmin', query.priorityMin);
+  put('pmax', query.priorityMax);
+  put('from', query.from);
+  put('to', query.to);
+  put('q', query.search);
+  if (query.sort.field !== DEFAULT_TASK_SORT.field || query.sort.order !== DEFAULT_TASK_SORT.order) {
+    put('sort', query.sort.field);
+    put('order', query.sort.order);
+  }
+  if (query.page > 1) put('page', query.page);
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) put('size', query.pageSize);
+  return params;
+};
+
+/** Number of filters set (sorting and paging excluded) */
+export const activeFilterCount = (query: TaskQuery) =>
+  [
+    query.statuses.length > 0,
+    query.types.length > 0,
+    query.robot,
+    query.shelf,
+    query.zone,
+    query.priorityMin !== undefined || query.priorityMax !== undefined,
+    query.from || query.to,
+    query.search,
+  ].filter(Boolean).length;
+
+// Local day bounds as ISO timestamps; `to` is inclusive
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const dayEnd = (day: string) => new Date(`${day}T23:59:59.999`).toISOString();
+
+export const toListParams = (query: TaskQuery): TaskListParams => ({
+  limit: query.pageSize,
+  offset: (query.page - 1) * query.pageSize,
+  sort: query.sort,
+  filter: {
+    status: query.statuses.length ? query.statuses : undefined,
+    task_type: query.types.length ? query.types : undefined,
+    robot_id: query.robot,
+    shelf_id: query.shelf,
+    zone_id: query.zone,
+    priority_min: query.priorityMin,
+    priority_max: query.priorityMax,
+    dateRange:
+      query.from || query.to
+        ? { start: query.from && dayStart(query.from), end: query.to && dayEnd(query.to) }
+        : undefined,
+    search: query.search,
+  },
+});
+
+/**
+ * Whether GET /tasks can answer a list query by itself. The backend only
+ * filters by one status, robot and shelf and pages newest first; other
+ * queries are filtered, sorted and paged from the task cache.
+ */
+export const isServerQuery = ({ filter = {}, sort = DEFAULT_TASK_SORT }: TaskListParams) =>
+  (filter.status?.length ?? 0) <= 1 &&
+  !filter.task_type?.length &&
+  !filter.zone_id &&
+  filter.priority_min === undefined &&
+  filter.priority_max === undefined &&
+  !filter.dateRange?.start &&
+  !filter.dateRange?.end &&
+  !filter.search &&
+  sort.field === DEFAULT_TASK_SORT.field &&
+  sort.order === DEFAULT_TASK_SORT.order;
+
+/**
+ * Whether a task passes the filter. `zone` is the zone named by
+ * filter.zone_id, when known, so both of its ids can be matched.
+ */
+export const matchesTaskFilter = (task: Task, filter: TaskFilterOptions, zone?: Pick<Zone, 'id' | 'zone_id'>) => {
+  if (filter.status?.length && !filter.status.includes(task.status)) return false;
+  if (filter.task_type?.length && !filter.task_type.includes(task.task_type)) return false;
+  if (filter.robot_id && task.assigned_robot_id !== filter.robot_id && task.robot_id !== filter.robot_id) return false;
+  if (filter.shelf_id && task.shelf_id !== filter.shelf_id) return false;
+  if (filter.zone_id) {
+    const refs = new Set([filter.zone_id, zone?.id, zone?.zone_id].filter(Boolean));
+    if (![task.zone_id, task.drop_zone_id, task.target_zone_id].some((ref) => ref && refs.has(ref))) return false;
+  }
+  if (filter.priority_min !== undefined && task.priority < filter.priority_min) return false;
+  if (filter.priority_max !== undefined && task.priority > filter.priority_max) return false;
+  if (filter.dateRange?.start || filter.dateRange?.end) {
+    const created = task.created_at ? new Date(task.created_at).getTime() : NaN;
+    if (Number.isNaN(created)) return false;
+    if (filter.dateRange.start && created < new Date(filter.dateRange.start).getTime()) return false;
+    if (filter.dateRange.end && created > new Date(filter.dateRange.end).getTime()) return false;
+  }
+  if (filter.search) {
+    const needle = filter.search.toLowerCase();
+    const haystack = [task.id, task.description, task.error_message, task.assigned_robot_name, task.robot_id];
+    if (!haystack.some((value) => value?.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+};
+
+const time = (value?: string) => (value ? new Date(value).getTime() || 0 : 0);
+
+/** Comparator for a sort; ties fall back to newest first */
+export const compareTasks = (sort: SortOptions) => {
+  const direction = sort.order === 'asc' ? 1 : -1;
+  return (a: Task, b: Task) => {
+    let diff = 0;
+    switch (sort.field as TaskSortField) {
+      case 'priority':
+        diff = a.priority - b.priority;
+        break;
+      case 'status':
+        diff = TASK_STATUSES.indexOf(a.status) - TASK_STATUSES.indexOf(b.status);
+        break;
+      case 'task_type':
+        diff = a.task_type.localeCompare(b.task_type);
+        break;
+      case 'updated_at':
+        diff = time(a.updated_at ?? a.created_at) - time(b.updated_at ?? b.created_at);
+        break;
+      default:
+        diff = time(a.created_at) - time(b.created_at);
+    }
+    return diff * direction || time(b.created_at) - time(a.created_at);
+  };
+};
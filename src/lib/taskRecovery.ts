@@ -0,0 +1,103 @@
+/**
+ * Recovery of failed (ERROR) tasks
+ * An operator can re-queue the task as it was, hand it to a chosen robot,
+ * send its shelf back to storage or flag the shelf for manual handling.
+ * Every attempt is recorded on the task as a note in its status history;
+ * notes the backend refused stay in this browser (stores/taskRecoveryStore.ts).
+ */
+import type { Robot, Shelf, Task } from '@/types';
+import { isActiveTask } from './taskStateMachine';
+import { parseTimestamp } from './taskTimeline';
+
+export type RecoveryAction = 'retry' | 'reassign' | 'restore_shelf' | 'manual_handling';
+
+export const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  retry: 'Retried',
+  reassign: 'Reassigned',
+  restore_shelf: 'Shelf restored to storage',
+  manual_handling: 'Shelf flagged for manual handling',
+};
+
+export interface RecoveryEntry {
+  id: string;
+  taskId: string;
+  action: RecoveryAction;
+  at: number;
+  user?: string;
+  ok: boolean;
+  /** Outcome note, or the error when the action failed */
+  detail?: string;
+  /** Target robot (reassign) */
+  robotId?: string;
+  /** error_message of the task when the action was taken */
+  taskError?: string;
+}
+
+/** Why each action can't be taken right now; absent means allowed */
+export type RecoveryBlockers = Partial<Record<RecoveryAction, string>>;
+
+/** Shelves flagged for manual handling are taken out of service */
+export const needsManualHandling = (shelf: Pick<Shelf, 'status' | 'available'>) =>
+  shelf.status === 'ERROR' && !shelf.available;
+
+/** Robots that can start a reassigned task immediately */
+export const reassignCandidates = (robots: Robot[]) =>
+  robots.filter((r) => r.status === 'IDLE' && r.available).sort((a, b) => a.name.localeCompare(b.name));
+
+export const recoveryBlockers = (task: Task, shelf: Shelf | undefined, tasks: Task[]): RecoveryBlockers => {
+  const blockers: RecoveryBlockers = {};
+  const other = tasks.find((t) => t.id !== task.id && t.shelf_id === task.shelf_id && isActiveTask(t));
+  const busy = other ? `Shelf has another active task (${other.id}, ${other.status})` : undefined;
+
+  if (task.status !== 'ERROR') {
+    blockers.retry = blockers.reassign = `Task is ${task.status}`;
+  } else if (busy) {
+    blockers.retry = blockers.reassign = busy;
+  }
+
+  if (!shelf) {
+    blockers.restore_shelf = blockers.manual_handling = 'Shelf not found';
+    return blockers;
+  }
+  if (busy) blockers.restore_shelf = busy;
+  else if (shelf.status === 'BUSY') blockers.restore_shelf = 'Shelf is still on a robot';
+  else if (shelf.location_status === 'STORED') blockers.restore_shelf = 'Shelf is already in storage';
+
+  if (needsManualHandling(shelf)) blockers.manual_handling = 'Shelf is already flagged';
+  return blockers;
+};
+
+// =========================================================
+// NOTES ON THE TASK
+// =========================================================
+
+// "[recovery] reassign ok by alice: Assigned to MP400-2"
+const NOTE = /^\[recovery\] (retry|reassign|restore_shelf|manual_handling) (ok|failed)(?: by (\S+))?(?:: ([\s\S]*))?$/;
+
+/** The `message` of the status update that records an attempt on the task */
+export const recoveryNote = ({ action, ok, user, detail }: Pick<RecoveryEntry, 'action' | 'ok' | 'user' | 'detail'>) => {
+  const by = user ? ` by ${user.replace(/\s+/g, '_')}` : '';
+  return `[recovery] ${action} ${ok ? 'ok' : 'failed'}${by}${detail ? `: ${detail}` : ''}`;
+};
+
+/** Attempts recorded in the task's status history, newest first */
+export const recoveryHistory = (task: Task): RecoveryEntry[] =>
+  (task.status_history ?? [])
+    .flatMap((entry, i): RecoveryEntry[] => {
+      const match = entry.message?.match(NOTE);
+      if (!match) return [];
+      const action = match[1] as RecoveryAction;
+      return [
+        {
+          id: `${task.id}-note-${i}`,
+          taskId: task.id,
+          action,
+          at: parseTimestamp(entry.timestamp) ?? 0,
+          ok: match[2] === 'ok',
+          user: match[3],
+          detail: match[4],
+          robotId: action === 'reassign' ? entry.robot_id : undefined,
+        },
+      ];
+    })
+    .reverse();
@@ -0,0 +1,127 @@
+/**
+ * Scheduled tasks: one-off future runs and weekly recurring ones. Each run
+ * creates the schedule's TaskCreate payloads through the normal assign
+ * endpoint (services/taskScheduler.ts). Times are in the browser's zone.
+ */
+import type { TaskCreate } from '@/types';
+
+export type ScheduleKind = 'once' | 'recurring';
+
+export interface TaskSchedule {
+  id: string;
+  name: string;
+  /** Payloads created together at every run, e.g. one per shelf */
+  tasks: TaskCreate[];
+  kind: ScheduleKind;
+  /** once: when the run fires (ms) */
+  runAt?: number;
+  /** recurring: local time of day, "HH:MM" */
+  time?: string;
+  /** recurring: weekdays it runs on, 0 = Sunday */
+  days?: number[];
+  enabled: boolean;
+  createdAt: number;
+  /** Runs up to this time have been handled (fired or recorded as missed) */
+  checkedUntil: number;
+  /** Backend the tasks are created on (stores/simulatorStore.ts) */
+  backend?: string;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  /** Copied so the history still reads after the schedule is deleted */
+  scheduleName: string;
+  scheduledFor: number;
+  firedAt?: number;
+  taskIds: string[];
+  errors: string[];
+  /** The app was closed for too long; nothing was created */
+  missed?: boolean;
+  /** Copied from the schedule */
+  backend?: string;
+}
+
+export interface UpcomingRun {
+  schedule: TaskSchedule;
+  at: number;
+}
+
+/** Runs found later than this after their time are recorded as missed */
+export const MISSED_GRACE_MS = 15 * 60000;
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WORKING_DAYS = [1, 2, 3, 4, 5];
+
+const DAY_MS = 86400000;
+
+const parseTime = (time?: string): [number, number] | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time ?? '');
+  if (!match) return null;
+  const [h, m] = [Number(match[1]), Number(match[2])];
+  return h < 24 && m < 60 ? [h, m] : null;
+};
+
+/** Run times t of a schedule with from < t <= to */
+export const runsBetween = (schedule: TaskSchedule, from: number, to: number): number[] => {
+  if (to <= from) return [];
+  if (schedule.kind === 'once') {
+    return schedule.runAt !== undefined && schedule.runAt > from && schedule.runAt <= to ? [schedule.runAt] : [];
+  }
+
+  const hm = parseTime(schedule.time);
+  const days = schedule.days ?? [];
+  if (!hm || days.length === 0) return [];
+
+  const runs: number[] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+  // Step by calendar day (setDate keeps local time across DST changes)
+  while (day.getTime() <= to) {
+    if (days.includes(day.getDay())) {
+      const at = new Date(day).setHours(hm[0], hm[1], 0, 0);
+      if (at > from && at <= to) runs.push(at);
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return runs;
+};
+
+export const nextRun = (schedule: TaskSchedule, after: number): number | undefined =>
+  runsBetween(schedule, after, schedule.kind === 'once' ? Infinity : after + 8 * DAY_MS)[0];
+
+/** Enabled runs in (from, to], soonest first */
+export const upcomingRuns = (schedules: TaskSchedule[], from: number, to: number, limit = Infinity): UpcomingRun[] =>
+  schedules
+    .filter((s) => s.enabled)
+    .flatMap((schedule) => runsBetween(schedule, from, to).map((at) => ({ schedule, at })))
+    .sort((a, b) => a.at - b.at)
+    .slice(0, limit);
+
+/** "Mon–Fri at 06:00", "Every day at 22:30", "Once, 3/14/2026, 9:00 AM" */
+export const describeSchedule = (schedule: TaskSchedule): string => {
+  if (schedule.kind === 'once') {
+    return schedule.runAt !== undefined ? `Once, ${new Date(schedule.runAt).toLocaleString()}` : 'Once';
+  }
+  const days = [...(schedule.days ?? [])].sort((a, b) => a - b);
+  let label = days.map((d) => WEEKDAYS[d]).join(', ');
+  if (days.length === 7) label = 'Every day';
+  else if (days.join() === WORKING_DAYS.join()) label = 'Mon–Fri';
+  return `${label} at ${schedule.time}`;
+};
+
+export type ScheduleDraft = Pick<TaskSchedule, 'name' | 'tasks' | 'kind' | 'runAt' | 'time' | 'days'>;
+
+/** First problem with a draft, or null */
+export const validateSchedule = (draft: ScheduleDraft, now = Date.now()): string | null => {
+  if (!draft.name.trim()) return 'Name is required';
+  if (draft.tasks.length === 0) return 'Pick at least one shelf';
+  if (draft.kind === 'once') {
+    if (draft.runAt === undefined || Number.isNaN(draft.runAt)) return 'Pick a date and time';
+    if (draft.runAt <= now) return 'The run time is in the past';
+  } else {
+    if (!parseTime(draft.time)) return 'Time must be HH:MM';
+    if (!draft.days?.length) return 'Pick at least one weekday';
+  }
+  return null;
+};
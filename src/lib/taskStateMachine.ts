@@ -0,0 +1,160 @@
+/**
+ * Task lifecycle state machine
+ * Legal status transitions per task type, used to guard operator status
+ * changes and to spot task_update events that skip or rewind the flow
+ */
+import type { Task, TaskStatus, TaskType } from '@/types';
+
+export const TASK_STATUSES: TaskStatus[] = [
+  'PENDING',
+  'ASSIGNED',
+  'MOVING_TO_PICKUP',
+  'ARRIVED_AT_PICKUP',
+  'ATTACHED',
+  'MOVING_TO_DROP',
+  'ARRIVED_AT_DROP',
+  'RELEASED',
+  'MOVING_TO_REFERENCE',
+  'COMPLETED',
+  'ERROR',
+  'CANCELLED',
+];
+
+export const TERMINAL_STATUSES: TaskStatus[] = ['COMPLETED', 'CANCELLED'];
+
+/** Tasks still queued or running; a shelf with one is not free to send */
+export const isActiveTask = (task: Pick<Task, 'status'>) =>
+  !TERMINAL_STATUSES.includes(task.status) && task.status !== 'ERROR';
+
+/** Statuses in which the robot is carrying the shelf */
+export const CARRYING_STATUSES: TaskStatus[] = ['ATTACHED', 'MOVING_TO_DROP', 'ARRIVED_AT_DROP'];
+
+type TransitionTable = Record<TaskStatus, TaskStatus[]>;
+
+// Forward flow shared by every task type. ERROR and CANCELLED are added below.
+const BASE_FLOW: TransitionTable = {
+  PENDING: ['ASSIGNED'],
+  // The backend hands a task back to the queue when its robot drops out
+  ASSIGNED: ['MOVING_TO_PICKUP', 'PENDING'],
+  MOVING_TO_PICKUP: ['ARRIVED_AT_PICKUP'],
+  ARRIVED_AT_PICKUP: ['ATTACHED'],
+  ATTACHED: ['MOVING_TO_DROP'],
+  MOVING_TO_DROP: ['ARRIVED_AT_DROP'],
+  ARRIVED_AT_DROP: ['RELEASED'],
+  RELEASED: ['MOVING_TO_REFERENCE'],
+  MOVING_TO_REFERENCE: ['COMPLETED'],
+  COMPLETED: [],
+  // A failed task can be retried from the queue or written off
+  ERROR: ['PENDING', 'CANCELLED'],
+  CANCELLED: [],
+};
+
+/**
+ * Per-type differences from the base flow:
+ * - MOVE_SHELF / REPOSITION are short hops, so the robot may finish
+ *   right after releasing instead of driving back to its reference point
+ * - PICKUP_AND_DELIVER / MOVE_SHELF can't be cancelled while the shelf is
+ *   on the robot (it would be left in an aisle); RETURN_SHELF and
+ *   REPOSITION can, the shelf is then dropped where it stands
+ */
+const TYPE_RULES: Record<TaskType, { releaseCompletes: boolean; cancelWhileCarrying: boolean }> = {
+  PICKUP_AND_DELIVER: { releaseCompletes: false, cancelWhileCarrying: false },
+  MOVE_SHELF: { releaseCompletes: true, cancelWhileCarrying: false },
+  RETURN_SHELF: { releaseCompletes: false, cancelWhileCarrying: true },
+  REPOSITION: { releaseCompletes: true, cancelWhileCarrying: true },
+};
+
+const buildTable = (type: TaskType): TransitionTable => {
+  const rules = TYPE_RULES[type];
+  const table = {} as TransitionTable;
+
+  TASK_STATUSES.forEach((status) => {
+    const next = [...BASE_FLOW[status]];
+    if (!TERMINAL_STATUSES.includes(status) && status !== 'ERROR') {
+      next.push('ERROR');
+      if (rules.cancelWhileCarrying || !CARRYING_STATUSES.includes(status)) next.push('CANCELLED');
+    }
+    if (status === 'RELEASED' && rules.releaseCompletes) next.push('COMPLETED');
+    table[status] = next;
+  });
+
+  return table;
+};
+
+export const TASK_TRANSITIONS: Record<TaskType, TransitionTable> = {
+  PICKUP_AND_DELIVER: buildTable('PICKUP_AND_DELIVER'),
+  MOVE_SHELF: buildTable('MOVE_SHELF'),
+  RETURN_SHELF: buildTable('RETURN_SHELF'),
+  REPOSITION: buildTable('REPOSITION'),
+};
+
+// Older task documents may lack task_type
+const tableFor = (type?: TaskType) => TASK_TRANSITIONS[type ?? 'PICKUP_AND_DELIVER'] ?? TASK_TRANSITIONS.PICKUP_AND_DELIVER;
+
+export const nextStatuses = (type: TaskType | undefined, from: TaskStatus): TaskStatus[] =>
+  tableFor(type)[from] ?? [];
+
+export const canTransition = (type: TaskType | undefined, from: TaskStatus, to: TaskStatus): boolean =>
+  nextStatuses(type, from).includes(to);
+
+/**
+ * Why a transition is not allowed, or null when it is.
+ * Worded for the status buttons' tooltips.
+ */
+export const explainTransition = (
+  type: TaskType | undefined,
+  from: TaskStatus,
+  to: TaskStatus
+): string | null => {
+  if (from === to) return 'Current status';
+  if (canTransition(type, from, to)) return null;
+
+  if (TERMINAL_STATUSES.includes(from)) return `${from} tasks are final`;
+  if (to === 'CANCELLED' && CARRYING_STATUSES.includes(from)) {
+    return 'The robot is carrying the shelf; finish the delivery or mark the task as ERROR';
+  }
+  if (to === 'COMPLETED' && from === 'RELEASED') {
+    return `${type ?? 'PICKUP_AND_DELIVER'} tasks return the robot to its reference point before completing`;
+  }
+
+  const allowed = nextStatuses(type, from);
+  return allowed.length ? `From ${from} the task can only go to ${allowed.join(', ')}` : `${from} has no next status`;
+};
+
+export interface TransitionOption {
+  status: TaskStatus;
+  allowed: boolean;
+  /** Why the option is disabled (undefined when allowed) */
+  reason?: string;
+}
+
+/** Every status with whether the task may move there, in lifecycle order */
+export const transitionOptions = (task: Pick<Task, 'status' | 'task_type'>): TransitionOption[] =>
+  TASK_STATUSES.map((status) => {
+    const reason = explainTransition(task.task_type, task.status, status);
+    return reason ? { status, allowed: false, reason } : { status, allowed: true };
+  });
+
+export type TaskPhase = 'queued' | 'to_pickup' | 'carrying' | 'dropping' | 'returning' | 'done';
+
+/** Lifecycle phases used to group tasks on the board, in order */
+export const TASK_PHASES: Array<{ id: TaskPhase; label: string; statuses: TaskStatus[] }> = [
+  { id: 'queued', label: 'Queued', statuses: ['PENDING', 'ASSIGNED'] },
+  { id: 'to_pickup', label: 'To pickup', statuses: ['MOVING_TO_PICKUP', 'ARRIVED_AT_PICKUP'] },
+  { id: 'carrying', label: 'Carrying', statuses: ['ATTACHED', 'MOVING_TO_DROP'] },
+  { id: 'dropping', label: 'Dropping', statuses: ['ARRIVED_AT_DROP', 'RELEASED'] },
+  { id: 'returning', label: 'Returning', statuses: ['MOVING_TO_REFERENCE'] },
+  { id: 'done', label: 'Done / Failed', statuses: ['COMPLETED', 'CANCELLED', 'ERROR'] },
+];
+
+export const phaseOf = (status: TaskStatus): TaskPhase =>
+  TASK_PHASES.find((phase) => phase.statuses.includes(status))?.id ?? 'queued';
+
+/**
+ * Status a task lands in when moved into a phase: the phase's first status
+ * the task may legally go to, or null when the phase can't be reached directly
+ */
+export const phaseTargetStatus = (task: Pick<Task, 'status' | 'task_type'>, phase: TaskPhase): TaskStatus | null => {
+  const statuses = TASK_PHASES.find((p) => p.id === phase)?.statuses ?? [];
+  return statuses.find((status) => canTransition(task.task_type, task.status, status)) ?? null;
+};
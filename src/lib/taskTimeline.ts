@@ -0,0 +1,90 @@
+/**
+ * Task lifecycle timeline
+ * Merges the server's state history with status changes seen live
+ * (stores/taskEventStore.ts) into one ordered list with time per state
+ */
+import type { Task, TaskStatus } from '@/types';
+import type { TaskEvent } from '@/stores/taskEventStore';
+import { explainTransition } from './taskStateMachine';
+
+export interface TimelineEntry {
+  status: TaskStatus;
+  /** When the task entered this status (ms) */
+  at: number;
+  /** Time spent in this status; for the running status, time so far */
+  durationMs?: number;
+  /** server = state history, live = seen this session, derived = from task timestamps */
+  source: 'server' | 'live' | 'derived';
+  /** Set when the previous observed entry could not legally lead here */
+  anomaly?: string;
+}
+
+// Statuses after which the clock stops
+const FINAL: TaskStatus[] = ['COMPLETED', 'CANCELLED', 'ERROR'];
+
+/** ISO strings, or epoch seconds / milliseconds */
+export const parseTimestamp = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  if (Number.isFinite(n)) return n < 1e12 ? n * 1000 : n;
+  const ms = new Date(String(value)).getTime();
+  return Number.isNaN(ms) ? undefined : ms;
+};
+
+export const buildTaskTimeline = (task: Task, events: TaskEvent[], now = Date.now()): TimelineEntry[] => {
+  const entries: Omit<TimelineEntry, 'durationMs' | 'anomaly'>[] = [];
+
+  (task.status_history ?? []).forEach((h) => {
+    const at = parseTimestamp(h.timestamp);
+    if (at !== undefined) entries.push({ status: h.status, at, source: 'server' });
+  });
+
+  if (entries.length === 0) {
+    const created = parseTimestamp(task.created_at);
+    if (created !== undefined) entries.push({ status: 'PENDING', at: created, source: 'derived' });
+  }
+
+  // Live changes newer than the history fill the gap since it was fetched
+  const lastKnown = entries.length ? entries[entries.length - 1].at : -Infinity;
+  events
+    .filter((e) => e.taskId === task.id && e.at > lastKnown)
+    .sort((a, b) => a.at - b.at)
+    .forEach((e) => entries.push({ status: e.to, at: e.at, source: 'live' }));
+
+  const last = entries[entries.length - 1];
+  if (!last || last.status !== task.status) {
+    const at = parseTimestamp(task.updated_at) ?? parseTimestamp(task.started_at) ?? now;
+    entries.push({ status: task.status, at: Math.max(at, last?.at ?? at), source: 'derived' });
+  }
+
+  entries.sort((a, b) => a.at - b.at);
+  const timeline: TimelineEntry[] = [];
+  entries.forEach((entry) => {
+    const prev = timeline[timeline.length - 1];
+    if (prev?.status === entry.status) return;
+    // Gaps next to a derived entry are unknown steps, not illegal jumps
+    const observed = prev && prev.source !== 'derived' && entry.source !== 'derived';
+    timeline.push({
+      ...entry,
+      anomaly: observed ? explainTransition(task.task_type, prev.status, entry.status) ?? undefined : undefined,
+    });
+  });
+
+  timeline.forEach((entry, i) => {
+    const next = timeline[i + 1];
+    if (next) entry.durationMs = next.at - entry.at;
+    else if (!FINAL.includes(entry.status)) entry.durationMs = Math.max(0, now - entry.at);
+  });
+
+  return timeline;
+};
+
+/** 75000 -> "1m 15s" */
+export const formatDuration = (ms: number): string => {
+  const total = Math.round(ms / 1000);
+  if (total < 60) return `${total}s`;
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h ? `${h}h ${m}m` : `${m}m ${String(s).padStart(2, '0')}s`;
+};
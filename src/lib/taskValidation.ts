@@ -0,0 +1,40 @@
+/**
+ * Task creation rules shared by the create modal and bulk import
+ */
+import type { TaskType } from '@/types';
+
+/** Task fields as entered in the create form (ids are internal shelf/zone ids) */
+export interface TaskDraft {
+  shelf_id: string;
+  priority: number;
+  description: string;
+  zone_id: string;
+  task_type: TaskType;
+  target_shelf_id?: string;
+  target_zone_id?: string;
+}
+
+/** First rule the draft breaks, or null when it can be submitted */
+export function validateTaskDraft(draft: TaskDraft): string | null {
+  if (!draft.shelf_id || draft.shelf_id.trim() === '') {
+    return 'Shelf is required';
+  }
+
+  if (!Number.isInteger(draft.priority) || draft.priority < 1 || draft.priority > 10) {
+    return 'Priority must be between 1 and 10';
+  }
+
+  if (draft.task_type === 'PICKUP_AND_DELIVER' && !draft.zone_id) {
+    return 'Zone is required for PICKUP_AND_DELIVER tasks';
+  }
+
+  if (draft.task_type === 'MOVE_SHELF' && !draft.target_shelf_id) {
+    return 'Target Shelf is required for MOVE_SHELF tasks';
+  }
+
+  if (draft.task_type === 'REPOSITION' && !draft.target_zone_id) {
+    return 'Target Zone is required for REPOSITION tasks';
+  }
+
+  return null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Robot telemetry series: samples from the history endpoint and live
+ * `telemetry` events, trimmed to a time window for the robot detail charts
+ */
+import type { RobotTelemetry } from '@/types';
+import { parseTimestamp } from './taskTimeline';
+
+export type TelemetryMetric = 'battery_level' | 'cpu_usage' | 'ram_usage' | 'temperature';
+
+export interface TelemetrySample {
+  at: number;
+  battery_level?: number;
+  cpu_usage?: number;
+  ram_usage?: number;
+  temperature?: number;
+  x?: number;
+  y?: number;
+  yaw?: number;
+}
+
+export const TELEMETRY_METRICS: Array<{ key: TelemetryMetric; label: string; unit: string; color: string }> = [
+  { key: 'battery_level', label: 'Battery', unit: '%', color: 'hsl(var(--success))' },
+  { key: 'cpu_usage', label: 'CPU', unit: '%', color: 'hsl(var(--primary))' },
+  { key: 'ram_usage', label: 'RAM', unit: '%', color: 'hsl(var(--accent))' },
+  { key: 'temperature', label: 'Temperature', unit: '°C', color: 'hsl(var(--warning))' },
+];
+
+export const TELEMETRY_WINDOWS = [
+  { id: '5m', label: '5 min', ms: 5 * 60 * 1000 },
+  { id: '15m', label: '15 min', ms: 15 * 60 * 1000 },
+  { id: '1h', label: '1 h', ms: 60 * 60 * 1000 },
+  { id: '6h', label: '6 h', ms: 6 * 60 * 60 * 1000 },
+  { id: '24h', label: '24 h', ms: 24 * 60 * 60 * 1000 },
+] as const;
+
+export type TelemetryWindow = (typeof TELEMETRY_WINDOWS)[number]['id'];
+
+const num = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Sample from a stored telemetry point or a live event payload
+ * (which may carry current_x/current_y instead of x/y)
+ */
+export const toSample = (
+  data: Partial<RobotTelemetry> & { current_x?: unknown; current_y?: unknown; current_yaw?: unknown },
+  fallbackAt = Date.now()
+): TelemetrySample => ({
+  at: parseTimestamp(data.timestamp) ?? fallbackAt,
+  battery_level: num(data.battery_level),
+  cpu_usage: num(data.cpu_usage),
+  ram_usage: num(data.ram_usage),
+  temperature: num(data.temperature),
+  x: num(data.x) ?? num(data.current_x),
+  y: num(data.y) ?? num(data.current_y),
+  yaw: num(data.yaw) ?? num(data.current_yaw),
+});
+
+/** Append to a bounded buffer, dropping the oldest samples */
+export const pushSample = (buffer: TelemetrySample[], sample: TelemetrySample, max: number): TelemetrySample[] => {
+  const next = buffer.length >= max ? buffer.slice(buffer.length - max + 1) : buffer.slice();
+  next.push(sample);
+  return next;
+};
+
+/** History followed by the live samples newer than its last point */
+export const mergeSamples = (history: TelemetrySample[], live: TelemetrySample[]): TelemetrySample[] => {
+  const sorted = [...history].sort((a, b) => a.at - b.at);
+  const lastAt = sorted.length ? sorted[sorted.length - 1].at : -Infinity;
+  return [...sorted, ...live.filter((s) => s.at > lastAt)];
+};
+
+export const windowSamples = (samples: TelemetrySample[], windowMs: number, now = Date.now()) =>
+  samples.filter((s) => s.at >= now - windowMs && s.at <= now);
+
+/** At most `maxPoints` evenly spaced samples; the latest is always kept */
+export const downsample = <T>(samples: T[], maxPoints: number): T[] => {
+  if (samples.length <= maxPoints) return samples;
+  const step = samples.length / maxPoints;
+  const picked = Array.from({ length: maxPoints - 1 }, (_, i) => samples[Math.floor(i * step)]);
+  return [...picked, samples[samples.length - 1]];
+};
+
+/** Positions along the series, skipping moves shorter than `minStep` metres */
+export const poseTrail = (samples: TelemetrySample[], minStep = 0.05): Array<{ x: number; y: number; at: number }> => {
+  const trail: Array<{ x: number; y: number; at: number }> = [];
+  samples.forEach(({ x, y, at }) => {
+    if (x === undefined || y === undefined) return;
+    const last = trail[trail.length - 1];
+    if (last && Math.hypot(last.x - x, last.y - y) < minStep) return;
+    trail.push({ x, y, at });
+  });
+  return trail;
+};
@@ -0,0 +1,113 @@
+/**
+ * Multi-step shelf workflows
+ * A template is an ordered list of task steps for one shelf. A running
+ * workflow dispatches each step only after the previous task COMPLETED and
+ * stops at the first step that ends in ERROR or CANCELLED
+ * (services/workflowRunner.ts).
+ */
+import type { Task, TaskCreate, TaskType } from '@/types';
+import { validateTaskDraft } from './taskValidation';
+
+export interface WorkflowStep {
+  task_type: TaskType;
+  /** Drop zone (PICKUP_AND_DELIVER) */
+  zone_id?: string;
+  /** Target zone (REPOSITION) */
+  target_zone_id?: string;
+  /** Target shelf (MOVE_SHELF) */
+  target_shelf_id?: string;
+  priority: number;
+}
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  steps: WorkflowStep[];
+}
+
+export type WorkflowState = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Workflow {
+  id: string;
+  name: string;
+  shelfId: string;
+  /** Copied from the template when started */
+  steps: WorkflowStep[];
+  /** Task id dispatched for each step, by index */
+  stepTasks: Array<string | undefined>;
+  state: WorkflowState;
+  /** Why the workflow stopped (failed / cancelled) */
+  failure?: string;
+  startedAt: number;
+  finishedAt?: number;
+  /** Backend the steps are created on (stores/simulatorStore.ts) */
+  backend?: string;
+}
+
+export type WorkflowDecision =
+  | { kind: 'dispatch'; step: number }
+  | { kind: 'wait' }
+  | { kind: 'complete' }
+  | { kind: 'fail'; step: number; reason: string };
+
+/** Index of the step currently running or next to dispatch */
+export const currentStep = (workflow: Workflow) => {
+  const last = workflow.stepTasks.length - 1;
+  return last < 0 ? 0 : last;
+};
+
+/**
+ * What a running workflow should do next, given the task cache.
+ * A step's task missing from the cache is waited on (it may not have
+ * arrived yet), never treated as a failure.
+ */
+export const decideWorkflow = (workflow: Workflow, tasks: Record<string, Task>): WorkflowDecision => {
+  if (workflow.state !== 'running') return { kind: 'wait' };
+  if (workflow.stepTasks.length === 0) return { kind: 'dispatch', step: 0 };
+
+  const step = currentStep(workflow);
+  const taskId = workflow.stepTasks[step];
+  const task = taskId ? tasks[taskId] : undefined;
+  if (!task) return { kind: 'wait' };
+
+  if (task.status === 'ERROR' || task.status === 'CANCELLED') {
+    const detail = task.error_message ? `: ${task.error_message}` : '';
+    return { kind: 'fail', step, reason: `Step ${step + 1} (${task.task_type}) ended ${task.status}${detail}` };
+  }
+  if (task.status !== 'COMPLETED') return { kind: 'wait' };
+  return step + 1 < workflow.steps.length ? { kind: 'dispatch', step: step + 1 } : { kind: 'complete' };
+};
+
+export const stepPayload = (workflow: Workflow, index: number): TaskCreate => {
+  const step = workflow.steps[index];
+  return {
+    shelf_id: workflow.shelfId,
+    task_type: step.task_type,
+    priority: step.priority,
+    zone_id: step.task_type === 'PICKUP_AND_DELIVER' ? step.zone_id : undefined,
+    target_zone_id: step.task_type === 'REPOSITION' ? step.target_zone_id : undefined,
+    target_shelf_id: step.task_type === 'MOVE_SHELF' ? step.target_shelf_id : undefined,
+    description: `${workflow.name}: step ${index + 1}/${workflow.steps.length}`,
+  };
+};
+
+/** First problem with a template, or null */
+export const validateTemplate = (name: string, steps: WorkflowStep[]): string | null => {
+  if (!name.trim()) return 'Name is required';
+  if (steps.length === 0) return 'Add at least one step';
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const problem = validateTaskDraft({
+      // The shelf is picked when the workflow starts
+      shelf_id: 'any',
+      priority: step.priority,
+      description: '',
+      task_type: step.task_type,
+      zone_id: step.zone_id ?? '',
+      target_zone_id: step.target_zone_id,
+      target_shelf_id: step.target_shelf_id,
+    });
+    if (problem) return `Step ${i + 1}: ${problem}`;
+  }
+  return null;
+};
@@ -0,0 +1,462 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  Activity,
+  AlertTriangle,
+  BarChart3,
+  Bot,
+  CheckCircle,
+  Clock,
+  Hourglass,
+  Layers,
+  ListTodo,
+  RefreshCw,
+  Timer,
+} from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { StatCard } from '@/components/dashboard/StatCard';
+import { ChartCard } from '@/components/analytics/ChartCard';
+import { tasks as tasksApi } from '@/services/api';
+import { useRobotList, useZoneList } from '@/hooks/useEntities';
+import { useTaskEventStore } from '@/stores/taskEventStore';
+import { useSlaStore } from '@/stores/slaStore';
+import { toCsv } from '@/lib/csv';
+import { TASK_TYPES, toDay } from '@/lib/taskFilters';
+import { formatDuration } from '@/lib/taskTimeline';
+import {
+  bucketFor,
+  durationDistribution,
+  durationStats,
+  failureRates,
+  robotKey,
+  slaBreaches,
+  taskDurationMs,
+  tasksInRange,
+  throughput,
+  timeInStatus,
+  zoneKey,
+  type AnalyticsRange,
+} from '@/lib/taskAnalytics';
+import type { Task } from '@/types';
+
+type Preset = 'today' | '24h' | '7d' | '30d' | 'custom';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const presetRange = (preset: Exclude<Preset, 'custom'>): AnalyticsRange => {
+  const now = Date.now();
+  if (preset === 'today') return { from: new Date(`${toDay(new Date())}T00:00:00`).getTime(), to: now };
+  return { from: now - { '24h': 1, '7d': 7, '30d': 30 }[preset] * DAY_MS, to: now };
+};
+
+const minutes = (ms?: number) => (ms === undefined ? '' : Math.round((ms / 60000) * 10) / 10);
+const percent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+const TYPE_COLORS = ['hsl(var(--primary))', 'hsl(var(--success))', 'hsl(var(--accent))', 'hsl(var(--destructive))'];
+
+const throughputConfig: ChartConfig = {
+  created: { label: 'Created', color: 'hsl(var(--muted-foreground))' },
+  completed: { label: 'Completed', color: 'hsl(var(--success))' },
+  failed: { label: 'Failed', color: 'hsl(var(--destructive))' },
+};
+
+const durationConfig: ChartConfig = Object.fromEntries(
+  TASK_TYPES.map((type, i) => [type, { label: type, color: TYPE_COLORS[i % TYPE_COLORS.length] }])
+);
+
+const statusConfig: ChartConfig = { avgMin: { label: 'Avg minutes', color: 'hsl(var(--primary))' } };
+const failureConfig: ChartConfig = { ratePct: { label: 'Failure rate %', color: 'hsl(var(--destructive))' } };
+
+export default function Analytics() {
+  const [preset, setPreset] = useState<Preset>('7d');
+  const [range, setRange] = useState<AnalyticsRange>(() => presetRange('7d'));
+  const [customFrom, setCustomFrom] = useState(toDay(new Date(Date.now() - 7 * DAY_MS)));
+  const [customTo, setCustomTo] = useState(toDay(new Date()));
+  const [allTasks, setAllTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [overallAvg, setOverallAvg] = useState<number | null>(null);
+
+  const events = useTaskEventStore((s) => s.events);
+  const slaTargets = useSlaStore((s) => s.targets);
+  const setSlaTarget = useSlaStore((s) => s.setTarget);
+  const robotList = useRobotList();
+  const zoneList = useZoneList();
+
+  const applyPreset = (value: Preset) => {
+    if (!value) return;
+    setPreset(value);
+    if (value !== 'custom') setRange(presetRange(value));
+  };
+
+  useEffect(() => {
+    if (preset !== 'custom' || !customFrom || !customTo || customFrom > customTo) return;
+    setRange({
+      from: new Date(`${customFrom}T00:00:00`).getTime(),
+      to: new Date(`${customTo}T23:59:59.999`).getTime(),
+    });
+  }, [preset, customFrom, customTo]);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setAllTasks(await tasksApi.list());
+    } catch (err) {
+      console.error('[Analytics] Failed to load tasks:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tasks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // All-time average from the backend, next to the range's own figure
+  useEffect(() => {
+    tasksApi
+      .getLiveStats()
+      .then((stats) => setOverallAvg(stats.tasks.average_duration_seconds))
+      .catch((err) => console.error('[Analytics] Failed to load live stats:', err));
+  }, []);
+
+  const refresh = () => {
+    if (preset !== 'custom') setRange(presetRange(preset));
+    load();
+  };
+
+  // Everything but throughput works on the tasks created in the range;
+  // throughput also counts completions of tasks created before it
+  const taskList = useMemo(() => tasksInRange(allTasks, range), [allTasks, range]);
+
+  const robotLabel = useCallback(
+    (key: string) => {
+      const robot = robotList.find((r) => r.robot_id === key || r.id === key);
+      return robot ? `${robot.name} (${robot.robot_id})` : key;
+    },
+    [robotList]
+  );
+  const zoneLabel = useCallback(
+    (key: string) => {
+      const zone = zoneList.find((z) => z.zone_id === key || z.id === key);
+      return zone ? zone.name || zone.zone_id : key;
+    },
+    [zoneList]
+  );
+
+  const bucket = bucketFor(range);
+  const throughputRows = useMemo(() => throughput(allTasks, range, bucket), [allTasks, range, bucket]);
+  const distribution = useMemo(() => durationDistribution(taskList), [taskList]);
+  const stats = useMemo(() => durationStats(taskList), [taskList]);
+  const statusRows = useMemo(
+    () => timeInStatus(taskList, events, range.to).map((r) => ({ ...r, avgMin: minutes(r.avgMs) })),
+    [taskList, events, range.to]
+  );
+  const byRobot = useMemo(
+    () => failureRates(taskList, robotKey, robotLabel).map((r) => ({ ...r, ratePct: Math.round(r.rate * 1000) / 10 })),
+    [taskList, robotLabel]
+  );
+  const byZone = useMemo(
+    () => failureRates(taskList, zoneKey, zoneLabel).map((r) => ({ ...r, ratePct: Math.round(r.rate * 1000) / 10 })),
+    [taskList, zoneLabel]
+  );
+  const breaches = useMemo(() => slaBreaches(taskList, slaTargets), [taskList, slaTargets]);
+
+  const completed = taskList.filter((t) => t.status === 'COMPLETED');
+  const failed = taskList.filter((t) => t.status === 'ERROR').length;
+  const durations = completed.map(taskDurationMs).filter((ms): ms is number => ms !== undefined);
+  const avgMs = durations.length ? durations.reduce((a, b) => a + b, 0) / durations.length : undefined;
+  const rangeName = `${toDay(new Date(range.from))}_${toDay(new Date(range.to))}`;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <PageHeader title="Analytics" description="Throughput, durations and failures for tasks created in the selected range">
+        <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </PageHeader>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup type="single" value={preset} onValueChange={(v) => applyPreset(v as Preset)} variant="outline" size="sm">
+          <ToggleGroupItem value="today">Today</ToggleGroupItem>
+          <ToggleGroupItem value="24h">24 h</ToggleGroupItem>
+          <ToggleGroupItem value="7d">7 days</ToggleGroupItem>
+          <ToggleGroupItem value="30d">30 days</ToggleGroupItem>
+          <ToggleGroupItem value="custom">Custom</ToggleGroupItem>
+        </ToggleGroup>
+        {preset === 'custom' && (
+          <div className="flex items-center gap-2">
+            <Input type="date" value={customFrom} max={customTo} onChange={(e) => setCustomFrom(e.target.value)} className="h-8 w-36 text-xs" />
+            <span className="text-muted-foreground">–</span>
+            <Input type="date" value={customTo} min={customFrom} onChange={(e) => setCustomTo(e.target.value)} className="h-8 w-36 text-xs" />
+          </div>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {new Date(range.from).toLocaleString()} – {new Date(range.to).toLocaleString()}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="data-grid">
+        <StatCard title="Tasks" value={taskList.length} subtitle={`${completed.length} completed`} icon={ListTodo} variant="primary" />
+        <StatCard
+          title="Failure rate"
+          value={completed.length + failed ? percent(failed / (completed.length + failed)) : '—'}
+          subtitle={`${failed} failed`}
+          icon={AlertTriangle}
+          variant="danger"
+        />
+        <StatCard
+          title="Avg duration"
+          value={avgMs !== undefined ? formatDuration(avgMs) : '—'}
+          subtitle={overallAvg ? `${formatDuration(overallAvg * 1000)} all time` : undefined}
+          icon={Timer}
+          variant="success"
+        />
+        <StatCard title="SLA breaches" value={breaches.length} subtitle={`${breaches.filter((b) => b.open).length} still open`} icon={Hourglass} variant="warning" />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ChartCard
+          title="Throughput"
+          description={`Tasks per ${bucket}`}
+          icon={Activity}
+          filename={`throughput_${rangeName}`}
+          empty={taskList.length === 0}
+          csv={() =>
+            toCsv(
+              ['label', 'created', 'completed', 'failed'],
+              throughputRows
+            )
+          }
+          className="lg:col-span-2"
+        >
+          <ChartContainer config={throughputConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={throughputRows}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="created" fill="var(--color-created)" radius={2} />
+              <Bar dataKey="completed" fill="var(--color-completed)" radius={2} />
+              <Bar dataKey="failed" fill="var(--color-failed)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Duration distribution"
+          description="Completed tasks by run time, per task type"
+          icon={Clock}
+          filename={`durations_${rangeName}`}
+          empty={completed.length === 0}
+          csv={() =>
+            toCsv(
+              ['type', 'count', 'avg_min', 'p50_min', 'p90_min'],
+              stats.map((s) => ({
+                type: s.type,
+                count: s.count,
+                avg_min: minutes(s.avgMs),
+                p50_min: minutes(s.p50Ms),
+                p90_min: minutes(s.p90Ms),
+              }))
+            ) +
+            '\n\n' +
+            toCsv(['bin', ...TASK_TYPES], distribution)
+          }
+        >
+          <ChartContainer config={durationConfig} className="h-56 w-full aspect-auto">
+            <BarChart data={distribution}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="bin" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              {TASK_TYPES.map((type) => (
+                <Bar key={type} dataKey={type} stackId="types" fill={`var(--color-${type})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+          <Table className="mt-3 text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Count</TableHead>
+                <TableHead className="text-right">Avg</TableHead>
+                <TableHead className="text-right">p50</TableHead>
+                <TableHead className="text-right">p90</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats
+                .filter((s) => s.count > 0)
+                .map((s) => (
+                  <TableRow key={s.type}>
+                    <TableCell className="font-mono">{s.type}</TableCell>
+                    <TableCell className="text-right">{s.count}</TableCell>
+                    <TableCell className="text-right">{s.avgMs !== undefined ? formatDuration(s.avgMs) : '—'}</TableCell>
+                    <TableCell className="text-right">{s.p50Ms !== undefined ? formatDuration(s.p50Ms) : '—'}</TableCell>
+                    <TableCell className="text-right">{s.p90Ms !== undefined ? formatDuration(s.p90Ms) : '—'}</TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </ChartCard>
+
+        <ChartCard
+          title="Time in each status"
+          description="Average time a task spends in each step"
+          icon={Layers}
+          filename={`status-time_${rangeName}`}
+          empty={statusRows.length === 0}
+          csv={() =>
+            toCsv(
+              ['status', 'tasks', 'avg_min', 'total_min'],
+              statusRows.map((r) => ({ status: r.status, tasks: r.tasks, avg_min: r.avgMin, total_min: minutes(r.totalMs) }))
+            )
+          }
+        >
+          <ChartContainer config={statusConfig} className="h-72 w-full aspect-auto">
+            <BarChart data={statusRows} layout="vertical" margin={{ left: 8 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="status" tickLine={false} axisLine={false} width={140} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="avgMin" fill="var(--color-avgMin)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Failure rate by robot"
+          description="ERROR share of finished tasks"
+          icon={Bot}
+          filename={`failures-by-robot_${rangeName}`}
+          empty={byRobot.length === 0}
+          csv={() => toCsv(['key', 'label', 'finished', 'failed', 'rate'], byRobot)}
+        >
+          <FailureChart rows={byRobot} />
+        </ChartCard>
+
+        <ChartCard
+          title="Failure rate by zone"
+          description="ERROR share of finished tasks, by drop or target zone"
+          icon={Layers}
+          filename={`failures-by-zone_${rangeName}`}
+          empty={byZone.length === 0}
+          csv={() => toCsv(['key', 'label', 'finished', 'failed', 'rate'], byZone)}
+        >
+          <FailureChart rows={byZone} />
+        </ChartCard>
+
+        <ChartCard
+          title="SLA breaches"
+          description="Tasks that took longer than their target from creation to completion"
+          icon={Hourglass}
+          filename={`sla-breaches_${rangeName}`}
+          empty={false}
+          csv={() =>
+            toCsv(
+              ['task_id', 'task_type', 'status', 'created_at', 'elapsed_min', 'target_min', 'over_min', 'open'],
+              breaches.map((b) => ({
+                task_id: b.task.id,
+                task_type: b.task.task_type,
+                status: b.task.status,
+                created_at: b.task.created_at,
+                elapsed_min: minutes(b.elapsedMs),
+                target_min: minutes(b.targetMs),
+                over_min: minutes(b.overMs),
+                open: b.open,
+              }))
+            )
+          }
+          className="lg:col-span-2"
+        >
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            {TASK_TYPES.map((type) => (
+              <div key={type} className="flex items-center gap-1.5">
+                <Label className="text-xs font-mono text-muted-foreground">{type}</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={slaTargets[type]}
+                  onChange={(e) => setSlaTarget(type, Math.max(1, parseInt(e.target.value) || 1))}
+                  className="h-7 w-16 text-xs"
+                />
+                <span className="text-xs text-muted-foreground">min</span>
+              </div>
+            ))}
+          </div>
+          {breaches.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground flex items-center justify-center gap-2">
+              <CheckCircle className="h-4 w-4 text-success" /> No breaches in this range
+            </p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="text-right">Took</TableHead>
+                    <TableHead className="text-right">Over by</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {breaches.map((b) => (
+                    <TableRow key={b.task.id}>
+                      <TableCell>
+                        <Link to={`/tasks/${b.task.id}`} className="font-mono text-primary hover:underline">
+                          {b.task.id}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="font-mono">{b.task.task_type}</TableCell>
+                      <TableCell>
+                        <span className="font-mono">{b.task.status}</span>
+                        {b.open && (
+                          <Badge variant="outline" className="ml-2 text-warning border-warning/40">
+                            open
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{b.task.created_at ? new Date(b.task.created_at).toLocaleString() : '—'}</TableCell>
+                      <TableCell className="text-right">{formatDuration(b.elapsedMs)}</TableCell>
+                      <TableCell className="text-right text-destructive">+{formatDuration(b.overMs)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
+
+function FailureChart({ rows }: { rows: Array<{ label: string; ratePct: number; failed: number; finished: number }> }) {
+  return (
+    <ChartContainer config={failureConfig} className="h-56 w-full aspect-auto">
+      <BarChart data={rows}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} tick={{ fontSize: 10 }} />
+        <YAxis tickLine={false} axisLine={false} width={32} unit="%" domain={[0, 100]} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="ratePct" fill="var(--color-ratePct)" radius={2} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
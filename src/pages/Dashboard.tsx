@@ -6,11 +6,16 @@ import { useDashboardStats, useRobots, useTasks } from '@/hooks/useData';
 import { Bot, Package, Box, ListTodo, Activity, Zap, TrendingUp, Clock } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Link } from 'react-router-dom';
+import { useRobotLiveness } from '@/hooks/useRobotLiveness';
+import { RobotLastSeen } from '@/components/RobotLastSeen';
+import { isStaleTask } from '@/lib/robotLiveness';
+import { cn } from '@/lib/utils';
 
 export default function Dashboard() {
   const { stats, loading: statsLoading } = useDashboardStats();
   const { data: robotsList, loading: robotsLoading } = useRobots();
   const { data: tasksList, loading: tasksLoading } = useTasks();
+  const { fleet, now } = useRobotLiveness();
 
   const loading = statsLoading || robotsLoading || tasksLoading;
 
@@ -99,9 +104,10 @@ export default function Dashboard() {
                         <p className="text-xs text-muted-foreground">
                           Battery: {robot.battery_level ?? 100}%
                         </p>
+                        <RobotLastSeen info={fleet[robot.id]} now={now} />
                       </div>
                     </div>
-                    <StatusBadge status={robot.status} size="sm" />
+                    <StatusBadge status={fleet[robot.id]?.liveness === 'offline' ? 'OFFLINE' : robot.status} size="sm" />
                   </div>
                 ))}
               </div>
@@ -122,25 +128,33 @@ export default function Dashboard() {
               <p className="text-muted-foreground text-sm">No recent tasks</p>
             ) : (
               <div className="space-y-3">
-                {recentTasks.map((task) => (
-                  <div
-                    key={task.id}
-                    className="flex items-center justify-between p-3 rounded-lg bg-secondary/30"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="h-10 w-10 rounded-lg bg-accent/10 flex items-center justify-center">
-                        <ListTodo className="h-5 w-5 text-accent" />
-                      </div>
-                      <div>
-                        <p className="font-medium">Task #{task.id.slice(-6)}</p>
-                        <p className="text-xs text-muted-foreground">
-                          Robot: {task.robot_id?.slice(-6) || 'Unassigned'}
-                        </p>
+                {recentTasks.map((task) => {
+                  const stale = isStaleTask(task, fleet);
+                  return (
+                    <div
+                      key={task.id}
+                      className={cn(
+                        'flex items-center justify-between p-3 rounded-lg bg-secondary/30',
+                        stale && 'ring-1 ring-warning'
+                      )}
+                      title={stale ? 'The assigned robot has gone quiet' : undefined}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className="h-10 w-10 rounded-lg bg-accent/10 flex items-center justify-center">
+                          <ListTodo className="h-5 w-5 text-accent" />
+                        </div>
+                        <div>
+                          <p className="font-medium">Task #{task.id.slice(-6)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Robot: {task.robot_id?.slice(-6) || 'Unassigned'}
+                            {stale && <span className="text-warning"> · not reporting</span>}
+                          </p>
+                        </div>
                       </div>
+                      <StatusBadge status={task.status} size="sm" />
                     </div>
-                    <StatusBadge status={task.status} size="sm" />
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </CardContent>
@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Line, LineChart, YAxis } from 'recharts';
+import { BatteryCharging, BatteryLow, BatteryWarning, Gauge, PlugZap, RefreshCw, Zap } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart';
+import { StatCard } from '@/components/dashboard/StatCard';
+import { useToast } from '@/hooks/use-toast';
+import { useCan } from '@/hooks/usePermission';
+import { useRobotList, useZoneList } from '@/hooks/useEntities';
+import { robots as robotsApi } from '@/services/api';
+import { sendRobotCommand } from '@/services/robotCommands';
+import { useTelemetryStore } from '@/stores/telemetryStore';
+import { useEnergyStore } from '@/stores/energyStore';
+import { downsample, mergeSamples, toSample, type TelemetrySample } from '@/lib/telemetry';
+import {
+  DRAIN_WINDOW_MS,
+  ENERGY_FLAGS,
+  assessEnergy,
+  compareEnergy,
+  nearestZone,
+  validateEnergyLimits,
+  type EnergyFlag,
+} from '@/lib/energy';
+import { COMMAND_STATUS_LABELS } from '@/lib/robotCommands';
+import { formatDuration } from '@/lib/taskTimeline';
+import type { Robot } from '@/types';
+
+const CLOCK_MS = 5000;
+/** Points drawn per sparkline */
+const TREND_POINTS = 60;
+
+const trendConfig: ChartConfig = { level: { label: 'Battery %', color: 'hsl(var(--primary))' } };
+
+const FLAG_BADGE: Record<EnergyFlag, string> = {
+  ok: 'border-success/40 text-success',
+  avoid_long_tasks: 'border-warning/40 text-warning',
+  charge_now: 'border-destructive/40 text-destructive',
+};
+
+function ChargingSettings() {
+  const zoneList = useZoneList();
+  const { chargingZones, limits, setChargingZone, setLimits } = useEnergyStore();
+  const { toast } = useToast();
+  const [lowLevel, setLowLevel] = useState(String(limits.lowLevel));
+  const [reserve, setReserve] = useState(String(limits.reserveMinutes));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLowLevel(String(limits.lowLevel));
+    setReserve(String(limits.reserveMinutes));
+  }, [limits]);
+
+  const handleSave = () => {
+    const next = { lowLevel: parseFloat(lowLevel), reserveMinutes: parseFloat(reserve) };
+    const message = validateEnergyLimits(next);
+    setError(message);
+    if (message) return;
+    setLimits(next);
+    toast({ title: 'Energy limits saved' });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="text-lg font-display flex items-center gap-2">
+          <PlugZap className="h-5 w-5 text-primary" /> Charging
+        </CardTitle>
+        <CardDescription>Zones robots are sent to for charging, and when they are flagged</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {zoneList.length === 0 && <p className="text-sm text-muted-foreground">No zones yet</p>}
+          {zoneList.map((zone) => (
+            <div key={zone.id} className="flex items-center justify-between gap-2">
+              <Label htmlFor={`charging-${zone.id}`} className="font-normal">
+                {zone.name || zone.zone_id}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  ({zone.x.toFixed(1)}, {zone.y.toFixed(1)})
+                </span>
+              </Label>
+              <Switch
+                id={`charging-${zone.id}`}
+                checked={chargingZones.includes(zone.id)}
+                onCheckedChange={(checked) => setChargingZone(zone.id, checked)}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3 border-t border-border/30 pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="lowLevel">Charge at (%)</Label>
+            <Input
+              id="lowLevel"
+              type="number"
+              min={0}
+              max={100}
+              value={lowLevel}
+              onChange={(e) => setLowLevel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reserveMinutes">No long tasks under (min)</Label>
+            <Input
+              id="reserveMinutes"
+              type="number"
+              min={0}
+              value={reserve}
+              onChange={(e) => setReserve(e.target.value)}
+            />
+          </div>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <Button variant="outline" className="w-full" onClick={handleSave}>
+          Save Limits
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Energy() {
+  const robotList = useRobotList();
+  const zoneList = useZoneList();
+  const live = useTelemetryStore((s) => s.samples);
+  const { chargingZones, limits } = useEnergyStore();
+  const can = useCan();
+  const { toast } = useToast();
+
+  const [history, setHistory] = useState<Record<string, TelemetrySample[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Seed the trends from stored telemetry; live samples extend them from there
+  const robotIds = robotList.map((r) => r.id).join(',');
+  const loadHistory = useCallback(async () => {
+    const ids = robotIds ? robotIds.split(',') : [];
+    const end = Date.now();
+    const range = { start: new Date(end - DRAIN_WINDOW_MS).toISOString(), end: new Date(end).toISOString() };
+    setLoading(true);
+    const results = await Promise.allSettled(ids.map((id) => robotsApi.getTelemetry(id, range)));
+    const next: Record<string, TelemetrySample[]> = {};
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') next[ids[i]] = result.value.map((s) => toSample(s));
+      else console.warn(`[Energy] Failed to load telemetry for ${ids[i]}:`, result.reason);
+    });
+    setHistory(next);
+    setNow(end);
+    setLoading(false);
+  }, [robotIds]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const chargingZoneList = useMemo(
+    () => zoneList.filter((z) => chargingZones.includes(z.id)),
+    [zoneList, chargingZones]
+  );
+
+  const energies = useMemo(
+    () =>
+      robotList
+        .map((robot) =>
+          assessEnergy(robot.id, robot, mergeSamples(history[robot.id] ?? [], live[robot.id] ?? []), limits, now)
+        )
+        .sort(compareEnergy),
+    [robotList, history, live, limits, now]
+  );
+  const robotsById = useMemo(() => Object.fromEntries(robotList.map((r) => [r.id, r])), [robotList]);
+
+  const levels = energies.map((e) => e.level).filter((l): l is number => l !== undefined);
+  const average = levels.length ? Math.round(levels.reduce((sum, l) => sum + l, 0) / levels.length) : 0;
+  const countOf = (flag: EnergyFlag) => energies.filter((e) => e.flag === flag).length;
+
+  const sendToCharge = async (robot: Robot) => {
+    const zone = nearestZone(robot, chargingZoneList);
+    if (!zone) return;
+    setSending(robot.id);
+    try {
+      // A goto command like any other, so it shows up in the robot's audit trail
+      const entry = await sendRobotCommand(robot, 'goto_zone', { zone_id: zone.id, charge: true });
+      if (entry.status === 'acknowledged') {
+        toast({ title: 'Sent to charge', description: `${robot.name} → ${zone.name || zone.zone_id}` });
+      } else {
+        console.error('[Energy] Failed to send robot to charge:', entry.message);
+        toast({
+          title: `Could not send robot (${COMMAND_STATUS_LABELS[entry.status].toLowerCase()})`,
+          description: entry.message,
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setSending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <PageHeader title="Energy" description="Battery trends, time to empty and charging">
+        <Button variant="outline" onClick={loadHistory} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </PageHeader>
+
+      <div className="data-grid">
+        <StatCard
+          title="Fleet Battery"
+          value={`${average}%`}
+          subtitle={`${levels.length} robots`}
+          icon={Gauge}
+          variant="primary"
+        />
+        <StatCard
+          title="Charge Now"
+          value={countOf('charge_now')}
+          subtitle={`At or below ${limits.lowLevel}%`}
+          icon={BatteryLow}
+          variant={countOf('charge_now') ? 'danger' : 'default'}
+        />
+        <StatCard
+          title="No Long Tasks"
+          value={countOf('avoid_long_tasks')}
+          subtitle={`Under ${limits.reserveMinutes} min left`}
+          icon={BatteryWarning}
+          variant={countOf('avoid_long_tasks') ? 'warning' : 'default'}
+        />
+        <StatCard title="Charging Zones" value={chargingZoneList.length} icon={BatteryCharging} variant="default" />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="glass-card lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg font-display flex items-center gap-2">
+              <Zap className="h-5 w-5 text-primary" /> Fleet
+            </CardTitle>
+            <CardDescription>
+              Drain fitted over the last {formatDuration(DRAIN_WINDOW_MS)}; most urgent first
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {energies.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No robots</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Robot</TableHead>
+                    <TableHead>Battery</TableHead>
+                    <TableHead>Trend</TableHead>
+                    <TableHead>Drain</TableHead>
+                    <TableHead>Time left</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {energies.map((energy) => {
+                    const robot = robotsById[energy.key];
+                    return (
+                      <TableRow key={energy.key}>
+                        <TableCell className="font-medium">
+                          <Link to={`/robots/${energy.key}`} className="hover:text-primary hover:underline">
+                            {energy.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="w-32">
+                          <div className="flex items-center gap-2">
+                            <Progress value={energy.level ?? 0} className="h-2" />
+                            <span className="text-xs tabular-nums">
+                              {energy.level === undefined ? '—' : `${Math.round(energy.level)}%`}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {energy.trend.length > 1 ? (
+                            <ChartContainer config={trendConfig} className="h-8 w-28 aspect-auto">
+                              <LineChart data={downsample(energy.trend, TREND_POINTS)}>
+                                <YAxis hide domain={[0, 100]} />
+                                <Line
+                                  dataKey="level"
+                                  stroke="var(--color-level)"
+                                  strokeWidth={1.5}
+                                  dot={false}
+                                  isAnimationActive={false}
+                                />
+                              </LineChart>
+                            </ChartContainer>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs tabular-nums">
+                          {energy.ratePerMin === undefined ? '—' : `${energy.ratePerMin.toFixed(2)} %/min`}
+                        </TableCell>
+                        <TableCell className="text-xs tabular-nums">
+                          {energy.minutesLeft === undefined ? '—' : formatDuration(energy.minutesLeft * 60000)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={FLAG_BADGE[energy.flag]} title={energy.reason}>
+                            {ENERGY_FLAGS[energy.flag]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {can('robot:command') && robot && (
+                            <Button
+                              size="sm"
+                              variant={energy.flag === 'ok' ? 'ghost' : 'outline'}
+                              onClick={() => sendToCharge(robot)}
+                              disabled={chargingZoneList.length === 0 || sending === robot.id}
+                              title={
+                                chargingZoneList.length === 0
+                                  ? 'Designate a charging zone first'
+                                  : 'Send to the nearest charging zone'
+                              }
+                            >
+                              <BatteryCharging className="h-4 w-4 mr-1" /> Charge
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <ChargingSettings />
+      </div>
+    </div>
+  );
+}
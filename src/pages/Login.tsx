@@ -1,12 +1,19 @@
 import { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useAuthStore } from '@/stores/authStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Zap, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Zap, Loader2, Clock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { safeReturnTo } from '@/lib/redirect';
+
+const SESSION_END_MESSAGES: Record<string, string> = {
+  expired: 'Your session expired. Sign in again to continue where you left off.',
+  unauthorized: 'Your session is no longer valid. Sign in again to continue.',
+};
 
 export default function Login() {
   const [username, setUsername] = useState('');
@@ -14,6 +21,9 @@ export default function Login() {
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuthStore();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
+  const sessionEndMessage = SESSION_END_MESSAGES[searchParams.get('reason') ?? ''];
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -22,7 +32,7 @@ export default function Login() {
 
     try {
       await login(username, password);
-      navigate('/');
+      navigate(returnTo, { replace: true });
     } catch (err: any) {
       toast({ title: 'Login failed', description: err.message, variant: 'destructive' });
     } finally {
@@ -32,8 +42,8 @@ export default function Login() {
 
   // Demo login bypass
   const handleDemoLogin = () => {
-    useAuthStore.setState({ isAuthenticated: true, user: { id: 'demo', username: 'demo', role: 'admin' } });
-    navigate('/');
+    useAuthStore.setState({ isAuthenticated: true, user: { id: 'demo', username: 'demo', role: 'ADMIN' } });
+    navigate(returnTo, { replace: true });
   };
 
   return (
@@ -52,6 +62,12 @@ export default function Login() {
           <CardDescription>Sign in to manage your warehouse</CardDescription>
         </CardHeader>
         <CardContent>
+          {sessionEndMessage && (
+            <Alert className="mb-4">
+              <Clock className="h-4 w-4" />
+              <AlertDescription>{sessionEndMessage}</AlertDescription>
+            </Alert>
+          )}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="username">Username</Label>
@@ -11,9 +11,21 @@ import {
   Navigation,
   Zap,
   Package,
+  Pencil,
+  Crosshair,
 } from 'lucide-react';
-import { maps, robots, shelves, tasks, zones } from '@/services/api';
-import { subscribeToMapUpdates, onRobotUpdate, onShelfUpdate, onTelemetry } from '@/services/websocket';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { maps } from '@/services/api';
+import { subscribeToMapUpdates } from '@/services/websocket';
+import { useEntityStore } from '@/stores/entityStore';
+import { useEntityStatus, useRobotList, useShelfList, useTaskList, useZoneList } from '@/hooks/useEntities';
+import { usePermission } from '@/hooks/usePermission';
+import { useDeliveredShelves } from '@/hooks/useDeliveredShelves';
+import { useRobotLiveness } from '@/hooks/useRobotLiveness';
+import { RobotLastSeen } from '@/components/RobotLastSeen';
+import { describeReturn } from '@/lib/shelfReturn';
+import { isStaleTask } from '@/lib/robotLiveness';
+import { targetQuery } from '@/lib/robotCommands';
 import type { MapData, Robot, Shelf, Task, Zone } from '@/types';
 
 interface MapOriginObject {
@@ -24,7 +36,8 @@ interface MapOriginObject {
 
 type MapOrigin = MapOriginObject | [number, number, number?];
 
-interface ExtendedMapData {
+// Grid and metadata as served by /maps/merged
+interface MapGridData {
   id?: string;
   name?: string;
   width: number;
@@ -32,10 +45,6 @@ interface ExtendedMapData {
   resolution?: number;
   origin?: MapOrigin;
   occupancy_grid?: number[][];
-  robots: Robot[];
-  shelves: Shelf[];
-  tasks: Task[];
-  zones?: Zone[];
   data?: number[];
   updated_at?: string;
   timestamp?: string;
@@ -49,8 +58,36 @@ interface ExtendedMapData {
   [key: string]: any;
 }
 
+interface ExtendedMapData extends MapGridData {
+  robots: Robot[];
+  shelves: Shelf[];
+  tasks: Task[];
+  zones?: Zone[];
+}
+
 export default function WarehouseMap() {
-  const [mapData, setMapData] = useState<ExtendedMapData | null>(null);
+  // Grid + metadata come from /maps/merged; entities come from the shared cache
+  const [mapGrid, setMapGrid] = useState<MapGridData | null>(null);
+  const robotList = useRobotList();
+  const shelfList = useShelfList();
+  const taskList = useTaskList();
+  const zoneList = useZoneList();
+  const { loaded: entitiesLoaded, reload: reloadEntities } = useEntityStatus();
+  const entitiesUpdatedAt = useEntityStore((s) => s.lastUpdate);
+  // Return countdowns for shelves left at drop zones
+  const { byShelf: deliveredShelves, now } = useDeliveredShelves();
+  // Robots gone quiet are dimmed and labelled with when they were last heard from
+  const { fleet: liveness, now: livenessNow } = useRobotLiveness();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const mapData = useMemo<ExtendedMapData | null>(
+    () =>
+      mapGrid
+        ? { ...mapGrid, robots: robotList, shelves: shelfList, tasks: taskList, zones: zoneList }
+        : null,
+    [mapGrid, robotList, shelfList, taskList, zoneList]
+  );
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [zoom, setZoom] = useState(1);
   const [showGrid, setShowGrid] = useState(true);
@@ -72,12 +109,16 @@ export default function WarehouseMap() {
     if (normalized >= 292.5 && normalized < 337.5) return 'NW';
     return 'N';
   };
-  const [isLoading, setIsLoading] = useState(true);
+  const [isGridLoading, setIsGridLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
-  const [wsConnected, setWsConnected] = useState(false);
+  const [gridUpdatedAt, setGridUpdatedAt] = useState<number>(Date.now());
+  const isLoading = isGridLoading || !entitiesLoaded;
+  const lastUpdate = new Date(Math.max(gridUpdatedAt, entitiesUpdatedAt ?? 0));
   const [mouseCoords, setMouseCoords] = useState<{ worldX: number; worldY: number; canvasX: number; canvasY: number } | null>(null);
+  const canEditMetadata = usePermission('map:edit_metadata');
+  const [metadataDraft, setMetadataDraft] = useState<{ resolution: string; origin_x: string; origin_y: string } | null>(null);
+  const [metadataError, setMetadataError] = useState<string | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const animationFrameRef = useRef<number | null>(null);
@@ -199,10 +240,10 @@ export default function WarehouseMap() {
     [hasGrid, mapData, mapWidth, mapHeight, mapResolution]
   );
 
-  // Handle mouse move on map container for coordinate display
-  const handleMapMouseMove = useCallback(
+  // Pointer position inside the map container, in canvas pixels and world metres
+  const pointerAt = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
-      if (!mapContainerRef.current) return;
+      if (!mapContainerRef.current) return null;
 
       const rect = mapContainerRef.current.getBoundingClientRect();
       const canvasX = e.clientX - rect.left;
@@ -211,7 +252,17 @@ export default function WarehouseMap() {
       const leftPercent = (canvasX / rect.width) * 100;
       const topPercent = (canvasY / rect.height) * 100;
 
-      const { x: worldX, y: worldY } = percentToWorld(leftPercent, topPercent);
+      return { canvasX, canvasY, ...percentToWorld(leftPercent, topPercent) };
+    },
+    [percentToWorld]
+  );
+
+  // Handle mouse move on map container for coordinate display
+  const handleMapMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      const pointer = pointerAt(e);
+      if (!pointer) return;
+      const { canvasX, canvasY, x: worldX, y: worldY } = pointer;
 
       setMouseCoords({
         worldX: Number(worldX.toFixed(2)),
@@ -220,72 +271,45 @@ export default function WarehouseMap() {
         canvasY: Number(canvasY.toFixed(0)),
       });
     },
-    [percentToWorld]
+    [pointerAt]
+  );
+
+  // Click-to-navigate (/map?navigate=<robot id>): the clicked point becomes the
+  // target pose in that robot's command panel, which the operator then sends
+  const navigateRobot = robotList.find((r) => r.id === searchParams.get('navigate'));
+  const handleMapClick = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!navigateRobot || !hasGrid) return;
+      const pointer = pointerAt(e);
+      if (!pointer) return;
+      navigate(`/robots/${encodeURIComponent(navigateRobot.id)}?${targetQuery(pointer)}`);
+    },
+    [navigateRobot, hasGrid, pointerAt, navigate]
   );
 
   const handleMapMouseLeave = useCallback(() => {
     setMouseCoords(null);
   }, []);
 
-  // Load initial map data from endpoint
+  // Load the occupancy grid and map metadata (entities live in the cache)
   const loadInitialData = useCallback(async () => {
-    setIsLoading(true);
+    setIsGridLoading(true);
     setError(null);
     try {
       const mapResponse = await maps.getMerged();
       console.log('[MAP DEBUG] Occupancy grid response:', mapResponse);
-      
-      // Load entities in parallel
-      const [robotsData, shelvesData, tasksData, zonesData] = await Promise.all([
-        robots.list().catch(() => []),
-        shelves.list().catch(() => []),
-        tasks.list().catch(() => []),
-        zones.list().catch(() => []),
-      ]);
-
-      console.log('[MAP DEBUG] Robots API:', robotsData);
-      console.log('[MAP DEBUG] Shelves API:', shelvesData);
-      console.log('[MAP DEBUG] Tasks API:', tasksData);
-      console.log('[MAP DEBUG] Zones API:', zonesData);
-
-      // Map robots with position aliases
-      const mappedRobots = (Array.isArray(robotsData) ? robotsData : []).map((r: any) => ({
-        ...r,
-        // Add robot position data from telemetry fields if available
-        x: r.x !== undefined ? r.x : r.current_x,
-        y: r.y !== undefined ? r.y : r.current_y,
-        yaw: r.yaw !== undefined ? r.yaw : r.current_yaw,
-      }));
-
-      // Map shelves with position aliases
-      const mappedShelves = (Array.isArray(shelvesData) ? shelvesData : []).map((s: any) => ({
-        ...s,
-        // Use current location for map display
-        x: s.x !== undefined ? s.x : s.current_x,
-        y: s.y !== undefined ? s.y : s.current_y,
-        yaw: s.yaw !== undefined ? s.yaw : s.current_yaw,
-      }));
-
-      console.log('[MAP DEBUG] Mapped robots:', mappedRobots);
-      console.log('[MAP DEBUG] Mapped shelves:', mappedShelves);
-      console.log('[MAP DEBUG] Total entities - Robots:', mappedRobots.length, 'Shelves:', mappedShelves.length, 'Zones:', Array.isArray(zonesData) ? zonesData.length : 0, 'Tasks:', Array.isArray(tasksData) ? tasksData.length : 0);
 
       if (mapResponse) {
-        setMapData({
-          ...mapResponse,
-          robots: mappedRobots,
-          shelves: mappedShelves,
-          tasks: Array.isArray(tasksData) ? tasksData : [],
-          zones: Array.isArray(zonesData) ? zonesData : [],
-        });
+        const { robots: _r, shelves: _s, tasks: _t, zones: _z, ...grid } = mapResponse as MapGridData;
+        setMapGrid(grid);
       }
-      setLastUpdate(new Date());
+      setGridUpdatedAt(Date.now());
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to load map data';
       setError(message);
       console.error('[MAP DEBUG] Failed to load initial data:', err);
     } finally {
-      setIsLoading(false);
+      setIsGridLoading(false);
     }
   }, []);
 
@@ -293,221 +317,58 @@ export default function WarehouseMap() {
   const refreshMapData = useCallback(async () => {
     setIsRefreshing(true);
     try {
-      const data = await maps.getMerged();
+      const [data] = await Promise.all([maps.getMerged(), reloadEntities({ silent: true })]);
       if (data) {
-        setMapData(data);
+        const { robots: _r, shelves: _s, tasks: _t, zones: _z, ...grid } = data as MapGridData;
+        setMapGrid(grid);
       }
-      setLastUpdate(new Date());
+      setGridUpdatedAt(Date.now());
     } catch (error) {
       console.error('[MAP] Failed to refresh data:', error);
     } finally {
       setIsRefreshing(false);
     }
-  }, []);
+  }, [reloadEntities]);
+
+  // Save resolution/origin edits (admin only)
+  const saveMetadata = async () => {
+    if (!metadataDraft) return;
+    const resolution = Number(metadataDraft.resolution);
+    const origin = { x: Number(metadataDraft.origin_x), y: Number(metadataDraft.origin_y) };
+    if (!(resolution > 0) || isNaN(origin.x) || isNaN(origin.y)) {
+      setMetadataError('Resolution must be positive and origin must be numeric');
+      return;
+    }
+
+    try {
+      await maps.updateMetadata({ resolution, origin });
+      setMapGrid((prev) => (prev ? { ...prev, resolution, origin } : prev));
+      setGridUpdatedAt(Date.now());
+      setMetadataDraft(null);
+      setMetadataError(null);
+    } catch (error) {
+      console.error('[MAP] Failed to update metadata:', error);
+      setMetadataError(error instanceof Error ? error.message : 'Failed to update metadata');
+    }
+  };
 
-  // Initialize data and WebSocket subscriptions
+  // Load the grid and listen for map (grid) updates; robot/shelf/task
+  // updates are applied to the entity cache by the sync service
   useEffect(() => {
     loadInitialData();
 
-    // Subscribe to map updates via WebSocket
-    const unsubscribeMap = subscribeToMapUpdates((data: ExtendedMapData) => {
+    // Joins the (ref-counted) map room; only grid-bearing updates replace the grid
+    const unsubscribeMap = subscribeToMapUpdates((data) => {
       console.log('[MAP] Received map update from WebSocket');
-      if (data) {
-        setMapData(data);
-        setLastUpdate(new Date());
-        setWsConnected(true);
-      }
-    });
-
-    // Subscribe to real-time telemetry updates (PRIMARY SOURCE FOR POSITION & SENSORS)
-    const unsubscribeTelemetry = onTelemetry((data: any) => {
-      console.log('[MAP] Telemetry Update:', {
-        robot_id: data.robot_id || data.robot || data.id,
-        position: { x: data.x, y: data.y },
-        yaw: data.yaw,
-        status: data.status,
-        battery: data.battery_level,
-        cpu: data.cpu_usage,
-        ram: data.ram_usage,
-        temp: data.temperature
-      });
-
-      const robotId = data.robot_id || data.robot || data.id;
-      const x = data.x !== undefined ? data.x : data.current_x;
-      const y = data.y !== undefined ? data.y : data.current_y;
-      const yaw = data.yaw !== undefined ? data.yaw : (data.current_yaw ?? 0);
-
-      if (robotId && x !== undefined && y !== undefined) {
-        setMapData((prev) => {
-          if (!prev?.robots) return prev;
-          
-          const found = prev.robots.find(r => r.id === robotId || r.robot_id === robotId);
-          if (!found) {
-            console.log(`[MAP] Robot ${robotId} not found in local data, skipping update`);
-            return prev;
-          }
-
-          return {
-            ...prev,
-            robots: prev.robots.map((r) =>
-              r.id === robotId || r.robot_id === robotId
-                ? {
-                    ...r,
-                    x: Number(x),
-                    y: Number(y),
-                    yaw: Number(yaw),
-                    current_x: Number(x),
-                    current_y: Number(y),
-                    current_yaw: Number(yaw),
-                    status: data.status ?? r.status,
-                    cpu_usage: data.cpu_usage !== undefined ? Number(data.cpu_usage) : r.cpu_usage,
-                    ram_usage: data.ram_usage !== undefined ? Number(data.ram_usage) : r.ram_usage,
-                    battery_level: data.battery_level !== undefined ? Number(data.battery_level) : r.battery_level,
-                    temperature: data.temperature !== undefined ? Number(data.temperature) : r.temperature,
-                  }
-                : r
-            ),
-          };
-        });
-        setLastUpdate(new Date());
+      if (data?.width && data?.height) {
+        const { robots: _r, shelves: _s, tasks: _t, zones: _z, ...grid } = data;
+        setMapGrid((prev) => ({ ...prev, ...grid } as MapGridData));
+        setGridUpdatedAt(Date.now());
       }
     });
 
-    // Subscribe to robot position updates (FALLBACK if telemetry not received)
-    const unsubscribeRobot = onRobotUpdate((data: any) => {
-      console.log('[MAP] Robot Update (fallback):', data);
-      setMapData((prev) => {
-        if (!prev?.robots) return prev;
-        return {
-          ...prev,
-          robots: prev.robots.map((r) =>
-            r.id === data.robot_id || r.robot_id === data.robot_id || r.id === data.id
-              ? {
-                  ...r,
-                  x: data.x !== undefined ? data.x : (data.current_x !== undefined ? data.current_x : r.x),
-                  y: data.y !== undefined ? data.y : (data.current_y !== undefined ? data.current_y : r.y),
-                  yaw: data.yaw !== undefined ? data.yaw : (data.current_yaw !== undefined ? data.current_yaw : r.yaw),
-                  status: data.status ?? r.status,
-                  cpu_usage: data.cpu_usage !== undefined ? Number(data.cpu_usage) : r.cpu_usage,
-                  ram_usage: data.ram_usage !== undefined ? Number(data.ram_usage) : r.ram_usage,
-                  battery_level: data.battery_level !== undefined ? Number(data.battery_level) : r.battery_level,
-                  temperature: data.temperature !== undefined ? Number(data.temperature) : r.temperature,
-                }
-              : r
-          ),
-        };
-      });
-      setLastUpdate(new Date());
-    });
-
-    // Subscribe to shelf location updates
-    const unsubscribeShelf = onShelfUpdate((data: any) => {
-      console.log('[MAP] Received shelf update from WebSocket:', data);
-      setMapData((prev) => {
-        if (!prev?.shelves) return prev;
-        return {
-          ...prev,
-          shelves: prev.shelves.map((s) =>
-            s.id === data.shelf_id
-              ? {
-                  ...s,
-                  x: data.x !== undefined ? data.x : (data.current_x !== undefined ? data.current_x : s.x),
-                  y: data.y !== undefined ? data.y : (data.current_y !== undefined ? data.current_y : s.y),
-                  current_x: data.x !== undefined ? data.x : (data.current_x !== undefined ? data.current_x : s.current_x),
-                  current_y: data.y !== undefined ? data.y : (data.current_y !== undefined ? data.current_y : s.current_y),
-                  current_yaw: data.yaw !== undefined ? data.yaw : (data.current_yaw !== undefined ? data.current_yaw : s.current_yaw),
-                }
-              : s
-          ),
-        };
-      });
-      setLastUpdate(new Date());
-    });
-
-    // Background refresh interval for POSITION ONLY (every 0.1 seconds for smooth movement)
-    const positionRefreshInterval = setInterval(async () => {
-      try {
-        const [robotsData, shelvesData] = await Promise.all([
-          robots.list().catch(() => []),
-          shelves.list().catch(() => []),
-        ]);
-
-        setMapData((prev) => {
-          if (!prev) return prev;
-          
-          // Map updated robots - UPDATE POSITION ONLY
-          const updatedRobots = (Array.isArray(robotsData) ? robotsData : []).map((r: any) => {
-            const oldRobot = prev.robots?.find(oldR => oldR.id === r.id);
-            if (!oldRobot) return r;
-            
-            return {
-              ...oldRobot,
-              x: r.x !== undefined ? r.x : r.current_x,
-              y: r.y !== undefined ? r.y : r.current_y,
-              yaw: r.yaw !== undefined ? r.yaw : r.current_yaw,
-            };
-          });
-
-          // Map updated shelves - UPDATE POSITION ONLY
-          const updatedShelves = (Array.isArray(shelvesData) ? shelvesData : []).map((s: any) => {
-            const oldShelf = prev.shelves?.find(oldS => oldS.id === s.id);
-            if (!oldShelf) return s;
-            
-            return {
-              ...oldShelf,
-              x: s.x !== undefined ? s.x : s.current_x,
-              y: s.y !== undefined ? s.y : s.current_y,
-              yaw: s.yaw !== undefined ? s.yaw : s.current_yaw,
-            };
-          });
-
-          return {
-            ...prev,
-            robots: updatedRobots,
-            shelves: updatedShelves,
-          };
-        });
-      } catch (error) {
-        // Silently ignore position refresh errors
-      }
-    }, 100); // Update position every 0.1 seconds (100ms)
-
-    // Background refresh interval for TASK STATUS ONLY (every 0.2 seconds)
-    const taskStatusInterval = setInterval(async () => {
-      try {
-        const tasksData = await tasks.list().catch(() => []);
-        if (Array.isArray(tasksData)) {
-          setMapData((prev) => {
-            if (!prev?.tasks) return prev;
-            
-            const updatedTasks = tasksData.map((t: any) => {
-              const oldTask = prev.tasks?.find(oldT => oldT.id === t.id);
-              if (!oldTask) return t;
-              
-              return {
-                ...oldTask,
-                status: t.status,
-              };
-            });
-            
-            return {
-              ...prev,
-              tasks: updatedTasks,
-            };
-          });
-        }
-      } catch (error) {
-        // Silently ignore task status refresh errors
-      }
-    }, 200); // Update task status every 0.2 seconds (200ms)
-
     return () => {
       unsubscribeMap();
-      unsubscribeTelemetry();
-      unsubscribeRobot();
-      unsubscribeShelf();
-      clearInterval(positionRefreshInterval);
-      clearInterval(taskStatusInterval);
     };
   }, [loadInitialData]);
 
@@ -671,6 +532,26 @@ export default function WarehouseMap() {
         </div>
       )}
 
+      {navigateRobot && (
+        <div className="flex flex-wrap items-center justify-between gap-3 bg-primary-500/10 border border-primary-500/30 rounded-xl p-4">
+          <p className="text-sm text-white flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-primary-400" />
+            Click the map to set a target pose for <strong>{navigateRobot.name || navigateRobot.robot_id}</strong>
+          </p>
+          <div className="flex items-center gap-2 text-sm">
+            <Link to={`/robots/${encodeURIComponent(navigateRobot.id)}`} className="text-primary-400 hover:underline">
+              Back to robot
+            </Link>
+            <button
+              onClick={() => setSearchParams({})}
+              className="px-3 py-1 rounded-lg bg-accent-700 text-accent-200 hover:bg-accent-600 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Map Container */}
       <div className={`bg-gradient-card rounded-xl shadow-2xl border border-accent-700 ${isFullscreen ? 'fixed inset-4 z-50' : ''}`}>
         {/* Toolbar */}
@@ -815,6 +696,7 @@ export default function WarehouseMap() {
             }}
             onMouseMove={handleMapMouseMove}
             onMouseLeave={handleMapMouseLeave}
+            onClick={handleMapClick}
           >
             <div
               className="absolute inset-0 overflow-auto"
@@ -882,6 +764,8 @@ export default function WarehouseMap() {
                 {showShelves &&
                   mapData?.shelves?.map((shelf: Shelf) => {
                     const { left, top } = worldToPercent(shelf.current_x || 0, shelf.current_y || 0);
+                    const delivered = deliveredShelves.get(shelf.id);
+                    const returnLabel = delivered ? describeReturn(delivered, now) : null;
                     return (
                       <div
                         key={shelf.id}
@@ -908,6 +792,11 @@ export default function WarehouseMap() {
                             <div className="absolute top-3 left-1.5 w-1 h-1 bg-white opacity-60 rounded-full"></div>
                             <div className="absolute top-3 right-1.5 w-1 h-1 bg-white opacity-60 rounded-full"></div>
                           </div>
+                          {returnLabel && (
+                            <div className="absolute top-full mt-1 left-1/2 -translate-x-1/2 whitespace-nowrap rounded bg-accent-900/90 border border-accent-700 px-1.5 py-0.5 text-[10px] text-accent-300">
+                              {returnLabel}
+                            </div>
+                          )}
                           <div className="absolute bottom-full mb-2 left-1/2 transform -translate-x-1/2 hidden group-hover:block z-20">
                             <div className="bg-accent-900 border border-accent-700 rounded-lg px-3 py-2 shadow-xl whitespace-nowrap">
                               <div className="text-white font-bold text-sm mb-1">Shelf {shelf.id}</div>
@@ -925,6 +814,11 @@ export default function WarehouseMap() {
                               >
                                 {shelf.available ? 'Available' : 'Occupied'}
                               </div>
+                              {returnLabel && (
+                                <div className="text-accent-300 text-xs">
+                                  At {delivered?.zone?.name ?? 'drop zone'}: {returnLabel}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -941,6 +835,8 @@ export default function WarehouseMap() {
                     if (robot.yaw !== undefined && robot.yaw !== null) {
                       console.log(`[MAP] Robot ${robot.robot_id} yaw: ${robot.yaw}°`);
                     }
+                    const seen = liveness[robot.id];
+                    const quiet = seen !== undefined && seen.liveness !== 'live';
                     return (
                       <div
                         key={robot.id}
@@ -952,8 +848,10 @@ export default function WarehouseMap() {
                         }}
                       >
                         <div className="group relative">
-                          <div className="relative">
-                            <div className="absolute inset-0 bg-yellow-400 rounded-full blur-md opacity-50 animate-pulse"></div>
+                          <div className={`relative ${quiet ? 'opacity-50 grayscale' : ''}`}>
+                            {!quiet && (
+                              <div className="absolute inset-0 bg-yellow-400 rounded-full blur-md opacity-50 animate-pulse"></div>
+                            )}
                               <svg 
                               className="w-10 h-10 shadow-xl filter drop-shadow-lg hover:drop-shadow-xl transition-all hover:scale-110 cursor-pointer"
                               viewBox="0 0 40 40"
@@ -981,6 +879,11 @@ export default function WarehouseMap() {
                               <circle cx="20" cy="20" r="2.5" fill="#fef3c7" opacity="0.8" />
                             </svg>
                           </div>
+                          {quiet && (
+                            <div className="absolute top-full mt-1 left-1/2 -translate-x-1/2 whitespace-nowrap rounded bg-black/70 px-1.5 py-0.5">
+                              <RobotLastSeen info={seen} now={livenessNow} className="text-[10px]" />
+                            </div>
+                          )}
                           <div className="absolute bottom-full mb-2 left-1/2 transform -translate-x-1/2 hidden group-hover:block z-20">
                             <div className="bg-accent-900 border border-accent-700 rounded-lg px-3 py-2 shadow-xl whitespace-nowrap">
                               <div className="text-white font-bold text-sm mb-1">{robot.name || robot.robot_id}</div>
@@ -1006,8 +909,9 @@ export default function WarehouseMap() {
                                     : 'text-accent-400'
                                 }`}
                               >
-                                Status: {robot.status}
+                                Status: {seen?.liveness === 'offline' ? 'OFFLINE (presumed)' : robot.status}
                               </div>
+                              <RobotLastSeen info={seen} now={livenessNow} className="block" />
                             </div>
                           </div>
                         </div>
@@ -1029,6 +933,8 @@ export default function WarehouseMap() {
                     const pickupPy = (pickup.top / 100) * container.offsetHeight;
                     const dropPx = (drop.left / 100) * container.offsetWidth;
                     const dropPy = (drop.top / 100) * container.offsetHeight;
+                    // Active work whose robot has gone quiet stands out
+                    const taskColor = isStaleTask(task, liveness) ? '#ef4444' : '#fbbf24';
 
                     return (
                       <svg
@@ -1036,8 +942,8 @@ export default function WarehouseMap() {
                         className="absolute inset-0 w-full h-full pointer-events-none"
                         style={{ zIndex: 10 }}
                       >
-                        <line x1={pickupPx} y1={pickupPy} x2={dropPx} y2={dropPy} stroke="#fbbf24" strokeWidth="2" strokeDasharray="5,5" opacity="0.7" />
-                        <circle cx={dropPx} cy={dropPy} r="6" fill="#fbbf24" opacity="0.6" />
+                        <line x1={pickupPx} y1={pickupPy} x2={dropPx} y2={dropPy} stroke={taskColor} strokeWidth="2" strokeDasharray="5,5" opacity="0.7" />
+                        <circle cx={dropPx} cy={dropPy} r="6" fill={taskColor} opacity="0.6" />
                       </svg>
                     );
                   })}
@@ -1050,10 +956,69 @@ export default function WarehouseMap() {
       {/* Map Metadata */}
       {mapData && (
         <div className="bg-gradient-card rounded-xl shadow-neo p-6 border border-accent-700">
-          <h2 className="text-xl font-bold mb-4 flex items-center text-white">
-            <Layers className="w-5 h-5 mr-2 text-primary-300" />
-            Map Metadata
-          </h2>
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-xl font-bold flex items-center text-white">
+              <Layers className="w-5 h-5 mr-2 text-primary-300" />
+              Map Metadata
+            </h2>
+            {canEditMetadata && !metadataDraft && (
+              <button
+                onClick={() =>
+                  setMetadataDraft({
+                    resolution: String(mapResolution),
+                    origin_x: String((mapData.origin as MapOriginObject)?.x ?? 0),
+                    origin_y: String((mapData.origin as MapOriginObject)?.y ?? 0),
+                  })
+                }
+                className="flex items-center space-x-1 px-3 py-1.5 bg-accent-800 hover:bg-accent-700 text-accent-300 hover:text-white rounded-lg text-xs transition-all border border-accent-700"
+              >
+                <Pencil className="w-3 h-3" />
+                <span>Edit</span>
+              </button>
+            )}
+          </div>
+          {metadataDraft && (
+            <div className="mb-4 p-4 rounded-lg bg-accent-800/30 border border-accent-700 space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                {(
+                  [
+                    ['resolution', 'Resolution (m/cell)'],
+                    ['origin_x', 'Origin X'],
+                    ['origin_y', 'Origin Y'],
+                  ] as const
+                ).map(([key, label]) => (
+                  <label key={key} className="text-xs text-accent-400 space-y-1">
+                    <span className="block font-medium uppercase tracking-wide">{label}</span>
+                    <input
+                      type="number"
+                      step="any"
+                      value={metadataDraft[key]}
+                      onChange={(e) => setMetadataDraft({ ...metadataDraft, [key]: e.target.value })}
+                      className="w-full px-2 py-1 bg-accent-900 border border-accent-700 rounded text-sm text-white"
+                    />
+                  </label>
+                ))}
+              </div>
+              {metadataError && <p className="text-xs text-red-400">{metadataError}</p>}
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => {
+                    setMetadataDraft(null);
+                    setMetadataError(null);
+                  }}
+                  className="px-3 py-1.5 text-xs text-accent-300 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveMetadata}
+                  className="px-3 py-1.5 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-semibold transition-all"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="p-4 rounded-lg bg-accent-800/30 border border-accent-700">
               <p className="text-xs text-accent-400 mb-1 font-medium uppercase tracking-wide">Size (cells)</p>
@@ -1,6 +1,14 @@
 import { useEffect, useState } from 'react';
-import { Plus, Package, Edit, Trash2, Upload, X, DollarSign, Box, TrendingDown, TrendingUp, Settings } from 'lucide-react';
-import { products, shelves } from '../services/api';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Package, Edit, Trash2, Upload, X, DollarSign, Box, TrendingDown, TrendingUp, Settings, ShoppingCart } from 'lucide-react';
+import { products } from '../services/api';
+import { useShelfList } from '../hooks/useEntities';
+import { useCan } from '../hooks/usePermission';
+import { useFulfilmentStore } from '../stores/fulfilmentStore';
+import { FulfilDialog } from '../components/FulfilDialog';
+import { FulfilmentOrders } from '../components/FulfilmentOrders';
+import type { CartLine } from '../lib/fulfilment';
+import { checkStockLevels } from '../services/notifications';
 
 const PRODUCT_CATEGORIES = [
   'Electronics',
@@ -37,7 +45,21 @@ const PRODUCT_CATEGORIES = [
 
 export default function Products() {
   const [productList, setProductList] = useState<any[]>([]);
-  const [shelfList, setShelfList] = useState<any[]>([]);
+  // Deep link from a low-stock notification
+  const [searchParams] = useSearchParams();
+  const highlightId = searchParams.get('product');
+  const shelfList = useShelfList();
+  const can = useCan();
+  const canManage = can('product:manage');
+  const canMoveStock = can('stock:move');
+  // Fulfilment both creates tasks and picks stock
+  const canFulfil = can('task:create') && canMoveStock;
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [showFulfil, setShowFulfil] = useState(false);
+  // Bumps whenever a fulfilment pick lands, so stock figures stay current
+  const pickedLines = useFulfilmentStore((s) =>
+    s.orders.reduce((n, order) => n + order.lines.filter((line) => line.pick === 'picked').length, 0)
+  );
   const [showModal, setShowModal] = useState(false);
   const [showStockModal, setShowStockModal] = useState(false);
   const [editingProduct, setEditingProduct] = useState<any>(null);
@@ -66,27 +88,23 @@ export default function Products() {
 
   useEffect(() => {
     loadProducts();
-    loadShelves();
-  }, []);
+  }, [pickedLines]);
+
+  useEffect(() => {
+    if (!highlightId || productList.length === 0) return;
+    document.getElementById(`product-${highlightId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightId, productList.length]);
 
   const loadProducts = async () => {
     try {
       const data = await products.list();
       setProductList(data);
+      checkStockLevels(data);
     } catch (error) {
       console.error('Failed to load products:', error);
     }
   };
 
-  const loadShelves = async () => {
-    try {
-      const data = await shelves.list();
-      setShelfList(Array.isArray(data) ? data : []);
-    } catch (error) {
-      console.error('Failed to load shelves:', error);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -210,6 +228,14 @@ export default function Products() {
     setEditingProduct(null);
   };
 
+  const addToCart = (productId: string) => {
+    setCart((prev) =>
+      prev.some((line) => line.productId === productId)
+        ? prev.map((line) => (line.productId === productId ? { ...line, quantity: line.quantity + 1 } : line))
+        : [...prev, { productId, quantity: 1 }]
+    );
+  };
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -218,21 +244,39 @@ export default function Products() {
           <h1 className="text-4xl font-bold text-white mb-2">Products</h1>
           <p className="text-accent/70">Manage inventory and product details</p>
         </div>
-        <button
-          onClick={() => openModal()}
-          className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold hover:brightness-110 transition-all"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add Product</span>
-        </button>
+        <div className="flex items-center gap-3">
+          {canFulfil && (
+            <button
+              onClick={() => setShowFulfil(true)}
+              className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-secondary/50 text-secondary-foreground border border-border/30 font-bold hover:bg-secondary/70 transition-all"
+            >
+              <ShoppingCart className="w-5 h-5" />
+              <span>Fulfil{cart.length > 0 && ` (${cart.length})`}</span>
+            </button>
+          )}
+          {canManage && (
+            <button
+              onClick={() => openModal()}
+              className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold hover:brightness-110 transition-all"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Product</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      <FulfilmentOrders canRetry={canFulfil} />
+
       {/* Products Grid */}
       <div className="data-grid">
         {productList.map((product) => (
           <div
             key={product.id}
-            className="bg-card/80 backdrop-blur rounded-xl border border-border/30 overflow-hidden hover:border-primary/30 shadow-md hover:shadow-lg transition-all duration-300"
+            id={`product-${product.id}`}
+            className={`bg-card/80 backdrop-blur rounded-xl border border-border/30 overflow-hidden hover:border-primary/30 shadow-md hover:shadow-lg transition-all duration-300 ${
+              product.id === highlightId ? 'ring-2 ring-warning' : ''
+            }`}
           >
             {/* Image */}
             <div className="relative h-40 bg-card/50 flex items-center justify-center overflow-hidden border-b border-border/30">
@@ -245,18 +289,20 @@ export default function Products() {
               ) : (
                 <Package className="w-12 h-12 text-muted-foreground/50" />
               )}
-              <label className="absolute top-2 right-2 p-2 rounded-lg bg-card/80 hover:bg-card backdrop-blur cursor-pointer transition border border-border/50">
-                <Upload className="w-4 h-4 text-primary" />
-                <input
-                  type="file"
-                  className="hidden"
-                  accept="image/*"
-                  onChange={(e) => {
-                    const file = e.target.files?.[0];
-                    if (file) handleImageUpload(product.id, file);
-                  }}
-                />
-              </label>
+              {canManage && (
+                <label className="absolute top-2 right-2 p-2 rounded-lg bg-card/80 hover:bg-card backdrop-blur cursor-pointer transition border border-border/50">
+                  <Upload className="w-4 h-4 text-primary" />
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept="image/*"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImageUpload(product.id, file);
+                    }}
+                  />
+                </label>
+              )}
             </div>
 
             {/* Content */}
@@ -291,25 +337,41 @@ export default function Products() {
               </div>
 
               <div className="flex gap-2">
-                <button
-                  onClick={() => openStockModal(product)}
-                  className="flex-1 px-2 py-2 rounded-lg bg-secondary/50 text-secondary-foreground hover:bg-secondary/70 border border-border/30 text-xs font-semibold transition flex items-center justify-center gap-1"
-                  title="Manage Stock"
-                >
-                  <Settings className="w-3 h-3" /> Stock
-                </button>
-                <button
-                  onClick={() => openModal(product)}
-                  className="flex-1 px-2 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 border border-primary/30 text-xs font-semibold transition flex items-center justify-center gap-1"
-                >
-                  <Edit className="w-3 h-3" /> Edit
-                </button>
-                <button
-                  onClick={() => handleDelete(product.id)}
-                  className="flex-1 px-2 py-2 rounded-lg bg-destructive/20 text-destructive hover:bg-destructive/30 border border-destructive/30 text-xs font-semibold transition flex items-center justify-center gap-1"
-                >
-                  <Trash2 className="w-3 h-3" />
-                </button>
+                {canFulfil && (
+                  <button
+                    onClick={() => addToCart(product.id)}
+                    disabled={!product.shelf_id}
+                    className="flex-1 px-2 py-2 rounded-lg bg-accent/20 text-accent hover:bg-accent/30 border border-accent/30 text-xs font-semibold transition flex items-center justify-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={product.shelf_id ? 'Add to fulfilment cart' : 'Not stored on a shelf'}
+                  >
+                    <ShoppingCart className="w-3 h-3" /> Fulfil
+                  </button>
+                )}
+                {canMoveStock && (
+                  <button
+                    onClick={() => openStockModal(product)}
+                    className="flex-1 px-2 py-2 rounded-lg bg-secondary/50 text-secondary-foreground hover:bg-secondary/70 border border-border/30 text-xs font-semibold transition flex items-center justify-center gap-1"
+                    title="Manage Stock"
+                  >
+                    <Settings className="w-3 h-3" /> Stock
+                  </button>
+                )}
+                {canManage && (
+                  <>
+                    <button
+                      onClick={() => openModal(product)}
+                      className="flex-1 px-2 py-2 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 border border-primary/30 text-xs font-semibold transition flex items-center justify-center gap-1"
+                    >
+                      <Edit className="w-3 h-3" /> Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(product.id)}
+                      className="flex-1 px-2 py-2 rounded-lg bg-destructive/20 text-destructive hover:bg-destructive/30 border border-destructive/30 text-xs font-semibold transition flex items-center justify-center gap-1"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -317,7 +379,7 @@ export default function Products() {
       </div>
 
       {/* Add/Edit Modal */}
-      {showModal && (
+      {showModal && canManage && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
           <div className="bg-card/80 backdrop-blur rounded-xl shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-border/30">
             <div className="sticky top-0 bg-card/50 text-foreground p-6 flex items-center justify-between border-b border-border/30">
@@ -578,7 +640,7 @@ export default function Products() {
       )}
 
       {/* Stock Management Modal */}
-      {showStockModal && selectedProduct && (
+      {showStockModal && canMoveStock && selectedProduct && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
           <div className="bg-card/80 backdrop-blur rounded-xl shadow-lg max-w-md w-full border border-border/30">
             <div className="bg-card/50 text-foreground p-6 flex items-center justify-between border-b border-border/30">
@@ -696,6 +758,16 @@ export default function Products() {
           </div>
         </div>
       )}
+
+      {canFulfil && (
+        <FulfilDialog
+          open={showFulfil}
+          onOpenChange={setShowFulfil}
+          products={productList}
+          cart={cart}
+          onCartChange={setCart}
+        />
+      )}
     </div>
   );
 }
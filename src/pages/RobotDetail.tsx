@@ -0,0 +1,328 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Bot, FileQuestion, History, ListTodo, Map as MapIcon, RefreshCw } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { EmptyState } from '@/components/ui/empty-state';
+import { LoadingPage } from '@/components/ui/loading-spinner';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { RobotPoseTrail } from '@/components/RobotPoseTrail';
+import { RobotCommandPanel } from '@/components/RobotCommandPanel';
+import { robots, realtimeTasks } from '@/services/api';
+import { useEntityStatus, useRobotById, useTaskList } from '@/hooks/useEntities';
+import { useTelemetryStore } from '@/stores/telemetryStore';
+import { isActiveTask } from '@/lib/taskStateMachine';
+import { targetFromQuery } from '@/lib/robotCommands';
+import {
+  TELEMETRY_METRICS,
+  TELEMETRY_WINDOWS,
+  downsample,
+  mergeSamples,
+  poseTrail,
+  toSample,
+  windowSamples,
+  type TelemetrySample,
+  type TelemetryWindow,
+} from '@/lib/telemetry';
+import type { RealtimeTaskView } from '@/types';
+
+// Stable fallback so the selector never returns a fresh array
+const NO_SAMPLES: never[] = [];
+
+/** Points drawn per chart; longer series are thinned out */
+const MAX_POINTS = 300;
+const CLOCK_MS = 5000;
+
+const fmt = (value?: number, unit = '') => (typeof value === 'number' ? `${Math.round(value * 10) / 10}${unit}` : '—');
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground mb-1">{label}</div>
+      <div className="text-sm font-medium">{children}</div>
+    </div>
+  );
+}
+
+export default function RobotDetail() {
+  const { id } = useParams<{ id: string }>();
+  // Target pose picked on the map (/map?navigate=<id>) for the command panel
+  const [searchParams] = useSearchParams();
+  const query = searchParams.toString();
+  const target = useMemo(() => targetFromQuery(new URLSearchParams(query)), [query]);
+  const robot = useRobotById(id);
+  const { loaded } = useEntityStatus();
+  const taskList = useTaskList();
+  const live = useTelemetryStore((s) => (id ? s.samples[id] : undefined)) ?? NO_SAMPLES;
+
+  const [windowId, setWindowId] = useState<TelemetryWindow>('15m');
+  const [history, setHistory] = useState<TelemetrySample[]>([]);
+  const [robotTasks, setRobotTasks] = useState<RealtimeTaskView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tasksError, setTasksError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const windowMs = TELEMETRY_WINDOWS.find((w) => w.id === windowId)!.ms;
+
+  const load = useCallback(async () => {
+    if (!id) return;
+    const end = Date.now();
+    setLoading(true);
+    // Either half failing leaves the other one on screen
+    const [samples, active] = await Promise.allSettled([
+      robots.getTelemetry(id, { start: new Date(end - windowMs).toISOString(), end: new Date(end).toISOString() }),
+      realtimeTasks.getRobotTasks(id),
+    ]);
+    if (samples.status === 'fulfilled') {
+      setHistory(samples.value.map((s) => toSample(s)));
+      setError(null);
+    } else {
+      console.error('[Robots] Failed to load telemetry:', samples.reason);
+      setHistory([]);
+      setError(samples.reason instanceof Error ? samples.reason.message : 'Failed to load telemetry');
+    }
+    if (active.status === 'fulfilled') {
+      setRobotTasks(active.value);
+      setTasksError(null);
+    } else {
+      console.error('[Robots] Failed to load robot tasks:', active.reason);
+      setTasksError(active.reason instanceof Error ? active.reason.message : 'Failed to load robot tasks');
+    }
+    setNow(end);
+    setLoading(false);
+  }, [id, windowMs]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Slide the window along as live samples arrive
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const samples = useMemo(
+    () => windowSamples(mergeSamples(history, live), windowMs, Math.max(now, live[live.length - 1]?.at ?? 0)),
+    [history, live, windowMs, now]
+  );
+  const chartData = useMemo(() => downsample(samples, MAX_POINTS), [samples]);
+  const trail = useMemo(() => poseTrail(samples), [samples]);
+
+  const currentTask = useMemo(
+    () =>
+      robot
+        ? taskList.find(
+            (t) => isActiveTask(t) && (t.assigned_robot_id === robot.id || t.robot_id === robot.robot_id)
+          )
+        : undefined,
+    [taskList, robot]
+  );
+
+  // The realtime list only holds active tasks; refetch when the current one changes
+  const currentKey = currentTask ? `${currentTask.id}:${currentTask.status}` : '';
+  useEffect(() => {
+    if (!id) return;
+    realtimeTasks
+      .getRobotTasks(id)
+      .then((active) => {
+        setRobotTasks(active);
+        setTasksError(null);
+      })
+      .catch((err) => console.error('[Robots] Failed to load robot tasks:', err));
+  }, [id, currentKey]);
+
+  if (!robot && !loaded) return <LoadingPage text="Loading robot..." />;
+
+  if (!robot) {
+    return <EmptyState icon={FileQuestion} title="Robot not found" description={`No robot with id ${id}`} />;
+  }
+
+  const x = robot.current_x ?? robot.x;
+  const y = robot.current_y ?? robot.y;
+  const pose = typeof x === 'number' && typeof y === 'number' ? { x, y, yaw: robot.current_yaw ?? robot.yaw } : undefined;
+  const timeFormat = (at: number) =>
+    new Date(at).toLocaleTimeString([], windowMs > 60 * 60 * 1000 ? { hour: '2-digit', minute: '2-digit' } : undefined);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Button variant="ghost" size="sm" asChild className="-ml-2">
+        <Link to="/robots">
+          <ArrowLeft className="h-4 w-4 mr-1" /> All robots
+        </Link>
+      </Button>
+
+      <PageHeader title={robot.name} description={robot.robot_id}>
+        <StatusBadge status={robot.status} />
+        <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </PageHeader>
+
+      <Card className="glass-card">
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-6">
+          <Field label="Battery">{fmt(robot.battery_level, '%')}</Field>
+          <Field label="CPU">{fmt(robot.cpu_usage, '%')}</Field>
+          <Field label="RAM">{fmt(robot.ram_usage, '%')}</Field>
+          <Field label="Temperature">{fmt(robot.temperature, '°C')}</Field>
+          <Field label="Pose">
+            {pose ? `x ${pose.x.toFixed(2)} · y ${pose.y.toFixed(2)}` : '—'}
+            {pose?.yaw !== undefined && ` · yaw ${pose.yaw.toFixed(2)}`}
+          </Field>
+          <Field label="Available">{robot.available ? 'Yes' : 'No'}</Field>
+          <Field label="Shelf">{robot.current_shelf_id || '—'}</Field>
+          <Field label="Current task">
+            {currentTask ? (
+              <Link to={`/tasks/${currentTask.id}`} className="font-mono text-primary hover:underline">
+                {currentTask.id} · {currentTask.status}
+              </Link>
+            ) : (
+              'Idle'
+            )}
+          </Field>
+        </CardContent>
+      </Card>
+
+      <RobotCommandPanel robot={robot} target={target} />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          value={windowId}
+          onValueChange={(v) => v && setWindowId(v as TelemetryWindow)}
+          variant="outline"
+          size="sm"
+        >
+          {TELEMETRY_WINDOWS.map((w) => (
+            <ToggleGroupItem key={w.id} value={w.id}>
+              {w.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <span className="text-xs text-muted-foreground">
+          {samples.length} sample{samples.length === 1 ? '' : 's'} ({history.length} stored, {live.length} live this
+          session)
+        </span>
+        {error && <span className="text-xs text-destructive">Stored telemetry could not be loaded: {error}</span>}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {TELEMETRY_METRICS.map((metric) => {
+          const config: ChartConfig = { [metric.key]: { label: metric.label, color: metric.color } };
+          return (
+            <Card key={metric.key} className="glass-card">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">{metric.label}</CardTitle>
+                <CardDescription>Latest {fmt(samples[samples.length - 1]?.[metric.key], metric.unit)}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {chartData.length === 0 ? (
+                  <p className={`py-10 text-center text-sm ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {error ? 'Stored telemetry could not be loaded' : 'No samples in this window'}
+                  </p>
+                ) : (
+                  <ChartContainer config={config} className="h-48 w-full aspect-auto">
+                    <LineChart data={chartData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="at"
+                        type="number"
+                        scale="time"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={timeFormat}
+                        tickLine={false}
+                        axisLine={false}
+                        minTickGap={32}
+                      />
+                      <YAxis
+                        tickLine={false}
+                        axisLine={false}
+                        width={36}
+                        unit={metric.unit === '%' ? '%' : undefined}
+                        domain={metric.unit === '%' ? [0, 100] : ['auto', 'auto']}
+                      />
+                      <ChartTooltip
+                        content={<ChartTooltipContent labelFormatter={(_, payload) => timeFormat(payload[0]?.payload.at)} />}
+                      />
+                      <Line
+                        dataKey={metric.key}
+                        stroke={`var(--color-${metric.key})`}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapIcon className="h-5 w-5 text-primary" /> Pose Trail
+            </CardTitle>
+            <CardDescription>Where the robot went in the selected window</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RobotPoseTrail trail={trail} pose={pose} />
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListTodo className="h-5 w-5 text-primary" /> Robot Tasks
+            </CardTitle>
+            <CardDescription>Tasks the backend reports for this robot</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {tasksError && <p className="mb-2 text-sm text-destructive">{tasksError}</p>}
+            {robotTasks.length === 0 ? (
+              !tasksError && (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <Bot className="h-4 w-4" /> No tasks for this robot right now.
+                </p>
+              )
+            ) : (
+              <ul className="divide-y divide-border/30">
+                {robotTasks.map((t) => (
+                  <li key={t.task_id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                    <div>
+                      <Link to={`/tasks/${t.task_id}`} className="font-mono text-primary hover:underline">
+                        {t.task_id}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {t.task_type ?? 'Task'}
+                        {t.priority !== undefined && ` · priority ${t.priority}`}
+                        {t.updated_at && ` · updated ${new Date(t.updated_at).toLocaleTimeString()}`}
+                      </div>
+                    </div>
+                    <StatusBadge status={t.status} size="sm" />
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-3 text-xs text-muted-foreground flex items-center gap-1">
+              <History className="h-3 w-3" /> Finished tasks are on the{' '}
+              <Link to={`/tasks?robot=${encodeURIComponent(robot.robot_id)}`} className="text-primary hover:underline">
+                task list
+              </Link>
+              .
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
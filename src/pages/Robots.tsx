@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   Bot,
   Plus,
@@ -11,179 +12,37 @@ import {
   Activity,
   AlertCircle,
 } from 'lucide-react';
-import { robots, tasks } from '../services/api';
-import { onTelemetry, onRobotUpdate } from '../services/websocket';
+import { robots } from '../services/api';
+import { useEntityStore } from '../stores/entityStore';
+import { useEntityStatus, useRobotList } from '../hooks/useEntities';
+import { usePermission } from '../hooks/usePermission';
+import { useRobotLiveness } from '../hooks/useRobotLiveness';
+import { RobotLastSeen } from '../components/RobotLastSeen';
 
 export default function Robots() {
-  const [robotList, setRobotList] = useState<any[]>([]);
+  // Robots come from the shared entity cache, kept live by socket telemetry
+  const robotList = useRobotList();
+  const { loaded, error: loadError } = useEntityStatus();
+  const upsertEntity = useEntityStore((s) => s.upsert);
+  const removeEntity = useEntityStore((s) => s.remove);
+  const backendStatus = !loaded ? 'checking' : loadError ? 'disconnected' : 'connected';
+  const canManage = usePermission('robot:manage');
+  const { fleet, now } = useRobotLiveness();
+
   const [showModal, setShowModal] = useState(false);
   const [editingRobot, setEditingRobot] = useState<any>(null);
-  const [
-    backendStatus,
-    setBackendStatus,
-  ] = useState<'connected' | 'disconnected' | 'checking'>('checking');
   const [formData, setFormData] = useState({
     name: '',
     robot_id: '',
   });
 
-  useEffect(() => {
-    loadRobots();
-
-    // Subscribe to real-time telemetry updates (PRIMARY SOURCE)
-    const unsubscribeTelemetry = onTelemetry((data: any) => {
-      console.log('[Robots] Telemetry Update:', {
-        robot_id: data.robot_id || data.robot || data.id,
-        position: { x: data.x, y: data.y },
-        yaw: data.yaw,
-        battery: data.battery_level,
-        cpu: data.cpu_usage,
-        ram: data.ram_usage,
-        temp: data.temperature
-      });
-
-      setRobotList((prev) =>
-        prev.map((r) => {
-          // Match by robot_id, robot, name, or id field
-          const isMatch = 
-            r.robot_id === data.robot_id || 
-            r.robot_id === data.robot || 
-            r.name === data.name ||
-            r.id === data.id ||
-            r.robot_id === data.id;
-          
-          if (isMatch) {
-            console.log(`[Robots] Updating robot ${r.robot_id} with telemetry`);
-            return {
-              ...r,
-              // Position fields
-              x: data.x !== undefined ? Number(data.x) : (data.current_x !== undefined ? Number(data.current_x) : r.x),
-              y: data.y !== undefined ? Number(data.y) : (data.current_y !== undefined ? Number(data.current_y) : r.y),
-              yaw: data.yaw !== undefined ? Number(data.yaw) : (data.current_yaw !== undefined ? Number(data.current_yaw) : r.yaw),
-              current_x: data.x !== undefined ? Number(data.x) : (data.current_x !== undefined ? Number(data.current_x) : r.current_x),
-              current_y: data.y !== undefined ? Number(data.y) : (data.current_y !== undefined ? Number(data.current_y) : r.current_y),
-              current_yaw: data.yaw !== undefined ? Number(data.yaw) : (data.current_yaw !== undefined ? Number(data.current_yaw) : r.current_yaw),
-              // Sensor telemetry
-              cpu_usage: data.cpu_usage !== undefined ? Number(data.cpu_usage) : r.cpu_usage,
-              ram_usage: data.ram_usage !== undefined ? Number(data.ram_usage) : r.ram_usage,
-              battery_level: data.battery_level !== undefined ? Number(data.battery_level) : r.battery_level,
-              temperature: data.temperature !== undefined ? Number(data.temperature) : r.temperature,
-              status: data.status !== undefined ? data.status : r.status,
-            };
-          }
-          return r;
-        }),
-      );
-    });
-
-    // Subscribe to robot updates (FALLBACK)
-    const unsubscribeRobotUpdate = onRobotUpdate((data: any) => {
-      console.log('[Robots] Robot Update (fallback):', data);
-
-      setRobotList((prev) =>
-        prev.map((r) => {
-          const isMatch = 
-            r.robot_id === data.robot_id ||
-            r.robot_id === data.robot ||
-            r.id === data.robot_id ||
-            r.id === data.id;
-
-          if (isMatch) {
-            console.log(`[Robots] Updating robot ${r.robot_id} with robot update`);
-            return {
-              ...r,
-              x: data.x !== undefined ? Number(data.x) : (data.current_x !== undefined ? Number(data.current_x) : r.x),
-              y: data.y !== undefined ? Number(data.y) : (data.current_y !== undefined ? Number(data.current_y) : r.y),
-              yaw: data.yaw !== undefined ? Number(data.yaw) : (data.current_yaw !== undefined ? Number(data.current_yaw) : r.yaw),
-              current_x: data.x !== undefined ? Number(data.x) : (data.current_x !== undefined ? Number(data.current_x) : r.current_x),
-              current_y: data.y !== undefined ? Number(data.y) : (data.current_y !== undefined ? Number(data.current_y) : r.current_y),
-              current_yaw: data.yaw !== undefined ? Number(data.yaw) : (data.current_yaw !== undefined ? Number(data.current_yaw) : r.current_yaw),
-              cpu_usage: data.cpu_usage !== undefined ? Number(data.cpu_usage) : r.cpu_usage,
-              ram_usage: data.ram_usage !== undefined ? Number(data.ram_usage) : r.ram_usage,
-              battery_level: data.battery_level !== undefined ? Number(data.battery_level) : r.battery_level,
-              temperature: data.temperature !== undefined ? Number(data.temperature) : r.temperature,
-              status: data.status !== undefined ? data.status : r.status,
-            };
-          }
-          return r;
-        }),
-      );
-    });
-
-    // Background refresh interval for POSITION ONLY (every 0.1 seconds for smooth movement)
-    const positionInterval = setInterval(async () => {
-      try {
-        const updated = await robots.list();
-        
-        setRobotList((prev) =>
-          prev.map((robot) => {
-            const found = updated.find((r: any) => r.id === robot.id);
-            if (found) {
-              // ONLY update position fields, keep everything else unchanged
-              return {
-                ...robot,
-                x: found.x !== undefined ? found.x : found.current_x,
-                y: found.y !== undefined ? found.y : found.current_y,
-                yaw: found.yaw !== undefined ? found.yaw : found.current_yaw,
-              };
-            }
-            return robot;
-          }),
-        );
-      } catch {
-        // Silently ignore errors on position refresh
-      }
-    }, 100); // Update position every 0.1 seconds (100ms)
-
-    // Background refresh interval for TASK STATUS ONLY (every 0.2 seconds)
-    const taskStatusInterval = setInterval(async () => {
-      try {
-        const tasksData = await tasks.list().catch(() => []);
-        // Tasks data is available but we don't display it in Robots page
-        // This keeps task status updated in the background
-      } catch (error) {
-        // Silently ignore task status refresh errors
-      }
-    }, 200); // Update task status every 0.2 seconds (200ms)
-
-    return () => {
-      unsubscribeTelemetry();
-      unsubscribeRobotUpdate();
-      clearInterval(positionInterval);
-      clearInterval(taskStatusInterval);
-    };
-  }, []);
-
-  const loadRobots = async () => {
-    try {
-      const data = await robots.list();
-      console.log('[DEBUG] robots.list() response:', data);
-      setBackendStatus('connected');
-      // Map current_x/current_y to x/y for consistency
-      const mappedRobots = data.map((robot: any) => ({
-        ...robot,
-        x: robot.x !== undefined ? robot.x : robot.current_x,
-        y: robot.y !== undefined ? robot.y : robot.current_y,
-        yaw: robot.yaw !== undefined ? robot.yaw : robot.current_yaw,
-      }));
-      console.log('[DEBUG] Mapped robots:', mappedRobots);
-      setRobotList(mappedRobots);
-    } catch (error) {
-      console.error('[DEBUG] Error loading robots:', error);
-      setBackendStatus('disconnected');
-      setRobotList([]);
-    }
-  };
-
   const handleSubmit = async (e: any) => {
     e.preventDefault();
     try {
-      if (editingRobot) {
-        await robots.update(editingRobot.id, formData);
-      } else {
-        await robots.create(formData);
-      }
-      loadRobots();
+      const saved = editingRobot
+        ? await robots.update(editingRobot.id, formData)
+        : await robots.create(formData);
+      if (saved?.id) upsertEntity('robots', saved);
       closeModal();
     } catch (e) {}
   };
@@ -192,7 +51,7 @@ export default function Robots() {
     if (confirm('Delete this robot?')) {
       try {
         await robots.delete(robotId);
-        loadRobots();
+        removeEntity('robots', robotId);
       } catch (error) {
         console.error('Error deleting robot:', error);
         alert('Failed to delete robot');
@@ -268,13 +127,15 @@ export default function Robots() {
           </p>
         </div>
 
-        <button
-          onClick={() => openModal()}
-          className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold shadow-lg hover:brightness-110 transition"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add Robot</span>
-        </button>
+        {canManage && (
+          <button
+            onClick={() => openModal()}
+            className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold shadow-lg hover:brightness-110 transition"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Robot</span>
+          </button>
+        )}
       </div>
 
       {/* ROBOT CARDS */}
@@ -290,7 +151,9 @@ export default function Robots() {
           const cpu = robot.cpu_usage ?? 0;
           const ram = robot.ram_usage ?? 0;
           const temp = robot.temperature ?? 0;
-          const status = robot.status ?? 'UNKNOWN';
+          const liveness = fleet[robot.id];
+          // A robot gone quiet for too long is shown OFFLINE whatever it last reported
+          const status = liveness?.liveness === 'offline' ? 'OFFLINE' : (robot.status ?? 'UNKNOWN');
 
           return (
             <div
@@ -307,7 +170,11 @@ export default function Robots() {
                       <Bot className="w-5 h-5 text-primary" />
                     </div>
                     <div>
-                      <h3 className="font-bold text-foreground text-sm">{robot.name}</h3>
+                      <h3 className="font-bold text-foreground text-sm">
+                        <Link to={`/robots/${robot.id}`} className="hover:text-primary hover:underline">
+                          {robot.name}
+                        </Link>
+                      </h3>
                       <p className="text-xs text-muted-foreground">{robot.robot_id}</p>
                     </div>
                   </div>
@@ -347,9 +214,12 @@ export default function Robots() {
 
                   {/* RIGHT SIDE: Status light */}
                   <div
-                    className={`w-3 h-3 rounded-full ${getStatusColor(status)} animate-pulse`}
+                    className={`w-3 h-3 rounded-full ${getStatusColor(status)} ${
+                      liveness && liveness.liveness !== 'live' ? 'opacity-50' : 'animate-pulse'
+                    }`}
                   />
                 </div>
+                <RobotLastSeen info={liveness} now={now} className="block mt-1" />
               </div>
 
               {/* STATS */}
@@ -423,20 +293,22 @@ export default function Robots() {
                   </div>
                 ) : null}
 
-                <div className="flex space-x-1 pt-2">
-                  <button
-                    onClick={() => openModal(robot)}
-                    className="flex-1 px-2 py-1 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 border border-primary/30 text-xs font-semibold transition flex items-center justify-center space-x-1"
-                  >
-                    <Edit className="w-3 h-3" /> Edit
-                  </button>
-                  <button
-                    onClick={() => handleDelete(robot.id)}
-                    className="flex-1 px-2 py-1 rounded-lg bg-destructive/20 text-destructive hover:bg-destructive/30 border border-destructive/30 text-xs font-semibold transition flex items-center justify-center space-x-1"
-                  >
-                    <Trash2 className="w-3 h-3" /> Delete
-                  </button>
-                </div>
+                {canManage && (
+                  <div className="flex space-x-1 pt-2">
+                    <button
+                      onClick={() => openModal(robot)}
+                      className="flex-1 px-2 py-1 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 border border-primary/30 text-xs font-semibold transition flex items-center justify-center space-x-1"
+                    >
+                      <Edit className="w-3 h-3" /> Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(robot.id)}
+                      className="flex-1 px-2 py-1 rounded-lg bg-destructive/20 text-destructive hover:bg-destructive/30 border border-destructive/30 text-xs font-semibold transition flex items-center justify-center space-x-1"
+                    >
+                      <Trash2 className="w-3 h-3" /> Delete
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           );
@@ -444,7 +316,7 @@ export default function Robots() {
       </div>
 
       {/* MODAL */}
-      {showModal && (
+      {showModal && canManage && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
           <div className="bg-card/80 backdrop-blur rounded-xl shadow-lg max-w-md w-full border border-border/30">
             <div className="bg-card/50 text-foreground p-6 flex items-center justify-between border-b border-border/30">
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarClock, Edit2, History, Plus, Trash2 } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScheduleDialog } from '@/components/ScheduleDialog';
+import { usePermission } from '@/hooks/usePermission';
+import { useEntityStore } from '@/stores/entityStore';
+import { useScheduleStore } from '@/stores/scheduleStore';
+import { isOnBackend, useActiveBackendKey } from '@/stores/simulatorStore';
+import { describeSchedule, nextRun, upcomingRuns, type TaskSchedule } from '@/lib/taskSchedule';
+
+/** Upcoming runs listed next to the calendar */
+const UPCOMING_LIMIT = 12;
+const UPCOMING_WINDOW_MS = 14 * 86400000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export default function Schedules() {
+  // Only the backend in use; other backends' schedules hold their own shelf ids
+  const backend = useActiveBackendKey();
+  const allSchedules = useScheduleStore((s) => s.schedules);
+  const allRuns = useScheduleStore((s) => s.runs);
+  const schedules = useMemo(() => allSchedules.filter((s) => isOnBackend(s, backend)), [allSchedules, backend]);
+  const runs = useMemo(() => allRuns.filter((r) => isOnBackend(r, backend)), [allRuns, backend]);
+  const setEnabled = useScheduleStore((s) => s.setEnabled);
+  const removeSchedule = useScheduleStore((s) => s.remove);
+  const clearRuns = useScheduleStore((s) => s.clearRuns);
+  const shelves = useEntityStore((s) => s.shelves);
+  const canCreate = usePermission('task:create');
+
+  const [month, setMonth] = useState(() => startOfDay(new Date()));
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(() => startOfDay(new Date()));
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TaskSchedule | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Keep "next run" and the upcoming list current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const upcoming = useMemo(
+    () => upcomingRuns(schedules, now, now + UPCOMING_WINDOW_MS, UPCOMING_LIMIT),
+    [schedules, now]
+  );
+
+  // Days of the displayed month (plus outside days) that have a run
+  const scheduledDays = useMemo(() => {
+    const from = new Date(month.getFullYear(), month.getMonth() - 1, 24).getTime();
+    const to = new Date(month.getFullYear(), month.getMonth() + 1, 7).getTime();
+    const days = new Map<number, number>();
+    upcomingRuns(schedules, Math.max(from, now), to).forEach(({ at }) => {
+      const day = startOfDay(new Date(at)).getTime();
+      days.set(day, (days.get(day) ?? 0) + 1);
+    });
+    return days;
+  }, [schedules, month, now]);
+
+  const dayRuns = useMemo(() => {
+    if (!selectedDay) return [];
+    const from = Math.max(startOfDay(selectedDay).getTime() - 1, now);
+    const to = startOfDay(selectedDay).getTime() + 86400000 - 1;
+    return upcomingRuns(schedules, from, to);
+  }, [schedules, selectedDay, now]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (schedule: TaskSchedule) => {
+    setEditing(schedule);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (schedule: TaskSchedule) => {
+    if (confirm(`Delete schedule "${schedule.name}"? Its run history is kept.`)) removeSchedule(schedule.id);
+  };
+
+  const shelfLabels = (schedule: TaskSchedule) =>
+    schedule.tasks.map((t) => shelves[t.shelf_id]?.warehouse_id ?? t.shelf_id).join(', ');
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <PageHeader title="Schedules" description="Plan one-off and recurring tasks ahead of time">
+        {canCreate && (
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Schedule
+          </Button>
+        )}
+      </PageHeader>
+
+      {!canCreate && schedules.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Schedules only fire for users who can create tasks; yours are paused while you are signed in.
+        </p>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-[auto_1fr]">
+        <Card className="glass-card">
+          <CardContent className="p-2">
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              month={month}
+              onMonthChange={setMonth}
+              modifiers={{ scheduled: (day) => scheduledDays.has(day.getTime()) }}
+              modifiersClassNames={{ scheduled: 'font-bold text-accent underline underline-offset-4' }}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">
+              {selectedDay ? `Runs on ${selectedDay.toLocaleDateString()}` : 'Upcoming runs'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {(selectedDay ? dayRuns : upcoming).map(({ schedule, at }) => (
+              <div key={`${schedule.id}-${at}`} className="flex items-center gap-3 text-sm">
+                <span className="font-mono text-xs w-36 shrink-0">{new Date(at).toLocaleString()}</span>
+                <span className="font-semibold truncate">{schedule.name}</span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {schedule.tasks.length} task{schedule.tasks.length === 1 ? '' : 's'}
+                </span>
+              </div>
+            ))}
+            {selectedDay && dayRuns.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nothing scheduled for this day.</p>
+            )}
+            {selectedDay && (
+              <>
+                <p className="text-xs font-medium text-muted-foreground pt-3">Next up</p>
+                {upcoming.length === 0 && <p className="text-sm text-muted-foreground">No upcoming runs.</p>}
+                {upcoming.map(({ schedule, at }) => (
+                  <div key={`next-${schedule.id}-${at}`} className="flex items-center gap-3 text-sm">
+                    <span className="font-mono text-xs w-36 shrink-0">{new Date(at).toLocaleString()}</span>
+                    <span className="truncate">{schedule.name}</span>
+                  </div>
+                ))}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {schedules.length === 0 ? (
+        <EmptyState
+          icon={CalendarClock}
+          title="No schedules yet"
+          description="Create a schedule to dispatch tasks at a set time, once or every week"
+        />
+      ) : (
+        <div className="grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-3">
+          {schedules.map((schedule) => {
+            const next = schedule.enabled ? nextRun(schedule, now) : undefined;
+            return (
+              <Card key={schedule.id} className="glass-card">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="text-base truncate">{schedule.name}</CardTitle>
+                      <p className="text-xs text-muted-foreground">{describeSchedule(schedule)}</p>
+                    </div>
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={(enabled) => setEnabled(schedule.id, enabled)}
+                      disabled={!canCreate}
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <p className="text-xs">
+                    {schedule.tasks[0]?.task_type} · {shelfLabels(schedule)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {!schedule.enabled
+                      ? 'Paused'
+                      : next !== undefined
+                        ? `Next run: ${new Date(next).toLocaleString()}`
+                        : 'No more runs'}
+                  </p>
+                  {canCreate && (
+                    <div className="flex gap-2 pt-2 border-t">
+                      <Button variant="outline" size="sm" className="flex-1" onClick={() => openEdit(schedule)}>
+                        <Edit2 className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive hover:bg-destructive/10"
+                        onClick={() => handleDelete(schedule)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Card className="glass-card">
+        <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" /> Run history
+          </CardTitle>
+          {runs.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => clearRuns(backend)}>
+              Clear
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No runs yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scheduled for</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Tasks</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-mono text-xs">{new Date(run.scheduledFor).toLocaleString()}</TableCell>
+                    <TableCell>{run.scheduleName}</TableCell>
+                    <TableCell className="text-xs space-y-1">
+                      {run.missed ? (
+                        <Badge variant="outline">Missed (app closed)</Badge>
+                      ) : (
+                        <>
+                          <Badge variant={run.errors.length ? 'destructive' : 'secondary'}>
+                            {run.errors.length ? `${run.errors.length} failed` : 'Fired'}
+                          </Badge>
+                          {run.firedAt && (
+                            <span className="ml-2 text-muted-foreground">{new Date(run.firedAt).toLocaleTimeString()}</span>
+                          )}
+                          {run.errors.map((e) => (
+                            <div key={e} className="text-destructive">
+                              {e}
+                            </div>
+                          ))}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div className="flex flex-wrap gap-x-2">
+                        {run.taskIds.map((id) => (
+                          <Link key={id} to={`/tasks/${id}`} className="font-mono text-primary hover:underline">
+                            {id}
+                          </Link>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {canCreate && (
+        <ScheduleDialog open={dialogOpen} onOpenChange={setDialogOpen} schedule={editing} day={selectedDay} />
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,36 @@
-import { useState } from 'react';
 import { PageHeader } from '@/components/ui/page-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { useToast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/stores/authStore';
-import { Server, Bell, Shield, Palette } from 'lucide-react';
+import { DiagnosticsPanel } from '@/components/DiagnosticsPanel';
+import { ConnectionSettings } from '@/components/ConnectionSettings';
+import { SimulatorSettings } from '@/components/SimulatorSettings';
+import { AlertRuleSettings } from '@/components/AlertRuleSettings';
+import { RobotLivenessSettings } from '@/components/RobotLivenessSettings';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { useToast } from '@/hooks/use-toast';
+import { NOTIFICATION_SOURCES, type NotificationSource } from '@/lib/notifications';
+import { Bell, Shield, Palette } from 'lucide-react';
 
 export default function Settings() {
   const { user } = useAuthStore();
+  const { prefs, setPrefs, setSourceEnabled } = useNotificationStore();
   const { toast } = useToast();
-  const [apiUrl, setApiUrl] = useState(import.meta.env.VITE_API_URL || '/api');
-  const [wsUrl, setWsUrl] = useState(import.meta.env.VITE_WS_URL || 'http://localhost:5000');
-  const [notifications, setNotifications] = useState(true);
+  const browserSupported = typeof Notification !== 'undefined';
 
-  const handleSaveConnection = () => {
-    // In a real app, this would persist to localStorage or update env
-    toast({ title: 'Settings saved', description: 'Connection settings have been updated.' });
+  const handleBrowserPopups = async (enabled: boolean) => {
+    if (!enabled) {
+      setPrefs({ browser: false });
+      return;
+    }
+    const permission = Notification.permission === 'granted' ? 'granted' : await Notification.requestPermission();
+    if (permission === 'granted') {
+      setPrefs({ browser: true });
+    } else {
+      toast({ title: 'Popups blocked', description: 'Allow notifications for this site in the browser settings' });
+    }
   };
 
   return (
@@ -29,49 +41,11 @@ export default function Settings() {
       />
 
       <div className="grid gap-6 lg:grid-cols-2">
-        {/* Connection Settings */}
-        <Card className="glass-card">
-          <CardHeader>
-            <div className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
-                <Server className="h-5 w-5 text-primary" />
-              </div>
-              <div>
-                <CardTitle>Connection</CardTitle>
-                <CardDescription>Backend API and WebSocket settings</CardDescription>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="apiUrl">API URL</Label>
-              <Input
-                id="apiUrl"
-                value={apiUrl}
-                onChange={(e) => setApiUrl(e.target.value)}
-                placeholder="http://localhost:5000/api"
-              />
-              <p className="text-xs text-muted-foreground">
-                Set VITE_API_URL in your .env file for production
-              </p>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="wsUrl">WebSocket URL</Label>
-              <Input
-                id="wsUrl"
-                value={wsUrl}
-                onChange={(e) => setWsUrl(e.target.value)}
-                placeholder="http://localhost:5000"
-              />
-              <p className="text-xs text-muted-foreground">
-                Set VITE_WS_URL in your .env file for real-time updates
-              </p>
-            </div>
-            <Button onClick={handleSaveConnection} className="w-full">
-              Save Connection Settings
-            </Button>
-          </CardContent>
-        </Card>
+        {/* Connection profiles */}
+        <ConnectionSettings />
+
+        {/* Fleet simulator */}
+        <SimulatorSettings />
 
         {/* Notification Settings */}
         <Card className="glass-card">
@@ -82,35 +56,63 @@ export default function Settings() {
               </div>
               <div>
                 <CardTitle>Notifications</CardTitle>
-                <CardDescription>Manage alerts and notifications</CardDescription>
+                <CardDescription>What the notification center collects</CardDescription>
               </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <Label>Task Notifications</Label>
-                <p className="text-xs text-muted-foreground">Get notified on task updates</p>
+            {(Object.keys(NOTIFICATION_SOURCES) as NotificationSource[]).map((source) => (
+              <div key={source} className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor={`notify-${source}`}>{NOTIFICATION_SOURCES[source].label}</Label>
+                  <p className="text-xs text-muted-foreground">{NOTIFICATION_SOURCES[source].description}</p>
+                </div>
+                <Switch
+                  id={`notify-${source}`}
+                  checked={prefs.sources[source]}
+                  onCheckedChange={(checked) => setSourceEnabled(source, checked)}
+                />
               </div>
-              <Switch checked={notifications} onCheckedChange={setNotifications} />
-            </div>
-            <div className="flex items-center justify-between">
+            ))}
+            <div className="flex items-center justify-between gap-4">
               <div>
-                <Label>Robot Alerts</Label>
-                <p className="text-xs text-muted-foreground">Alert when robots go offline</p>
+                <Label htmlFor="lowStockThreshold">Low-stock level</Label>
+                <p className="text-xs text-muted-foreground">Notify when a product has this many or fewer</p>
               </div>
-              <Switch defaultChecked />
+              <Input
+                id="lowStockThreshold"
+                type="number"
+                min={0}
+                value={prefs.lowStockThreshold}
+                onChange={(e) => setPrefs({ lowStockThreshold: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-20"
+              />
             </div>
             <div className="flex items-center justify-between">
               <div>
-                <Label>System Warnings</Label>
-                <p className="text-xs text-muted-foreground">Critical system notifications</p>
+                <Label htmlFor="notify-browser">Browser popups</Label>
+                <p className="text-xs text-muted-foreground">
+                  {browserSupported
+                    ? 'Show critical notifications even when the tab is in the background'
+                    : 'Not supported by this browser'}
+                </p>
               </div>
-              <Switch defaultChecked />
+              <Switch
+                id="notify-browser"
+                checked={prefs.browser}
+                disabled={!browserSupported}
+                onCheckedChange={handleBrowserPopups}
+              />
             </div>
           </CardContent>
         </Card>
 
+        {/* Fleet alert rules */}
+        <AlertRuleSettings />
+
+        {/* Stale / offline timeouts */}
+        <RobotLivenessSettings />
+
         {/* Account Info */}
         <Card className="glass-card">
           <CardHeader>
@@ -156,6 +158,11 @@ export default function Settings() {
             </p>
           </CardContent>
         </Card>
+
+        {/* Schema validation failures */}
+        <div className="lg:col-span-2">
+          <DiagnosticsPanel />
+        </div>
       </div>
     </div>
   );
@@ -1,10 +1,15 @@
 // Shelves.tsx - FIXED VERSION with proper endpoint usage and WebSocket
 
 import { useEffect, useState } from 'react';
-import { Grid, Plus, Edit, Trash2, X, Package, AlertCircle, MapPin, Eye } from 'lucide-react';
+import { Grid, Plus, Edit, Trash2, X, Package, AlertCircle, MapPin, Eye, Timer } from 'lucide-react';
 import type { Shelf, ShelfCreate, ShelfUpdate, Product } from '@/types';
 import { shelves } from '../services/api';
-import { connectWebSocket } from '../services/websocket';
+import { useEntityStore } from '../stores/entityStore';
+import { useEntityStatus, useShelfById, useShelfList } from '../hooks/useEntities';
+import { useCan } from '../hooks/usePermission';
+import { useDeliveredShelves } from '../hooks/useDeliveredShelves';
+import { DeliveredShelvesPanel } from '../components/DeliveredShelvesPanel';
+import { describeReturn } from '../lib/shelfReturn';
 
 interface FormData {
   warehouse_id: string;
@@ -20,11 +25,19 @@ interface FormData {
 }
 
 export default function Shelves() {
-  const [shelfList, setShelfList] = useState<Shelf[]>([]);
+  // Shelves come from the shared entity cache; socket updates patch it live
+  const shelfList = useShelfList();
+  const { error: cacheError } = useEntityStatus();
+  const reloadEntities = useEntityStore((s) => s.load);
+  const removeEntity = useEntityStore((s) => s.remove);
+  const can = useCan();
+  const canManage = can('shelf:manage');
+  const { byShelf: deliveredShelves, now } = useDeliveredShelves();
   const [showModal, setShowModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [editingShelf, setEditingShelf] = useState<Shelf | null>(null);
-  const [selectedShelf, setSelectedShelf] = useState<Shelf | null>(null);
+  const [selectedShelfId, setSelectedShelfId] = useState<string | null>(null);
+  const selectedShelf = useShelfById(selectedShelfId ?? undefined);
   const [shelfProducts, setShelfProducts] = useState<Product[]>([]);
   const [loadingProducts, setLoadingProducts] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -46,91 +59,17 @@ export default function Shelves() {
   const [formData, setFormData] = useState<FormData>(initialFormData);
 
   useEffect(() => {
-    loadShelves();
-
-    const socket = connectWebSocket();
-    if (socket) {
-      // ✓ Subscribe to shelf updates
-      socket.emit("subscribe_shelves");
-
-      // Listen for shelf metadata updates
-      socket.on('shelf_update', (data: any) => {
-        console.log('[Shelves] WebSocket shelf_update received:', data);
-        setShelfList((prev) =>
-          prev.map((s) => (s.id === data.id ? { ...s, ...data } : s))
-        );
-      });
-
-      // Listen for shelf location updates specifically
-      socket.on('shelf_location_update', (data: any) => {
-        console.log('[Shelves] WebSocket shelf_location_update received:', data);
-        setShelfList((prev) =>
-          prev.map((s) =>
-            s.id === data.id
-              ? {
-                  ...s,
-                  current_x: data.current_x,
-                  current_y: data.current_y,
-                  current_yaw: data.current_yaw,
-                }
-              : s
-          )
-        );
-
-        // Update detail modal if it's open
-        if (selectedShelf?.id === data.id) {
-          setSelectedShelf((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  current_x: data.current_x,
-                  current_y: data.current_y,
-                  current_yaw: data.current_yaw,
-                }
-              : null
-          );
-        }
-      });
-
-      // Listen for shelf deletion
-      socket.on('shelf_deleted', (data: any) => {
-        console.log('[Shelves] WebSocket shelf_deleted received:', data);
-        setShelfList((prev) => prev.filter((s) => s.id !== data.id));
-      });
-    }
-
-    return () => {
-      if (socket) {
-        socket.off('shelf_update');
-        socket.off('shelf_location_update');
-        socket.off('shelf_deleted');
-      }
-    };
-  }, [selectedShelf?.id]);
+    if (cacheError) setError(cacheError);
+  }, [cacheError]);
 
   const loadShelves = async () => {
     try {
       setError(null);
       setLoading(true);
-      const data = await shelves.list();
-      const shelfArray = Array.isArray(data) ? data : [];
-
-      console.log('[DEBUG] Shelves API response:', shelfArray);
-      if (shelfArray.length === 0) {
-        console.log('[DEBUG] No shelves returned from API');
-      } else {
-        shelfArray.forEach((s) => {
-          console.log(
-            `  [DEBUG] ${s.warehouse_id}: current=(${s.current_x}, ${s.current_y}), storage=(${s.storage_x}, ${s.storage_y}), yaw=${s.current_yaw ?? 'N/A'}`
-          );
-        });
-      }
-
-      setShelfList(shelfArray);
+      await reloadEntities({ silent: true });
     } catch (err: any) {
       console.error('[DEBUG] Failed to load shelves:', err);
       setError(err?.message || 'Failed to load shelves');
-      setShelfList([]);
     } finally {
       setLoading(false);
     }
@@ -352,7 +291,7 @@ export default function Shelves() {
       setError(null);
       setLoading(true);
       await shelves.delete(id);
-      await loadShelves();
+      removeEntity('shelves', id);
     } catch (err: any) {
       console.error('Failed to delete shelf:', err);
       setError(err?.message || 'Failed to delete shelf');
@@ -374,15 +313,8 @@ export default function Shelves() {
 
       console.log('[Shelves] ✓ Restore successful!', result);
 
-      // Reload to see the change
+      // Reload to see the change (the detail modal reads from the cache)
       await loadShelves();
-
-      if (selectedShelf?.id === shelf.id) {
-        const updated = shelfList.find((s) => s.id === shelf.id);
-        if (updated) {
-          setSelectedShelf(updated);
-        }
-      }
     } catch (err: any) {
       console.error('Failed to restore shelf:', err);
       setError(err?.message || 'Failed to restore shelf to storage location');
@@ -421,7 +353,7 @@ export default function Shelves() {
   };
 
   const openDetailModal = async (shelf: Shelf) => {
-    setSelectedShelf(shelf);
+    setSelectedShelfId(shelf.id);
     setLoadingProducts(true);
     try {
       setError(null);
@@ -438,7 +370,7 @@ export default function Shelves() {
 
   const closeDetailModal = () => {
     setShowDetailModal(false);
-    setSelectedShelf(null);
+    setSelectedShelfId(null);
     setShelfProducts([]);
     setError(null);
   };
@@ -467,16 +399,20 @@ export default function Shelves() {
           <h1 className="text-4xl font-bold text-white mb-2">Shelves</h1>
           <p className="text-accent">Organize and manage warehouse inventory storage</p>
         </div>
-        <button
-          onClick={() => openModal()}
-          disabled={loading}
-          className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold shadow-lg hover:brightness-110 transition disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add Shelf</span>
-        </button>
+        {canManage && (
+          <button
+            onClick={() => openModal()}
+            disabled={loading}
+            className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold shadow-lg hover:brightness-110 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Shelf</span>
+          </button>
+        )}
       </div>
 
+      <DeliveredShelvesPanel canReturn={can('task:create')} />
+
       {/* Shelves Grid */}
       <div className="data-grid">
         {loading && shelfList.length === 0 ? (
@@ -583,30 +519,39 @@ export default function Shelves() {
                   </div>
                 </div>
 
-                <div className="flex space-x-1 pt-2">
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      openModal(shelf);
-                    }}
-                    disabled={loading}
-                    className="flex-1 px-2 py-1 rounded-lg bg-primary/20 border border-primary/30 text-primary hover:bg-primary/30 transition flex items-center justify-center space-x-1 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <Edit className="w-3 h-3" />
-                    <span>Edit</span>
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDelete(shelf.id);
-                    }}
-                    disabled={loading}
-                    className="flex-1 px-2 py-1 rounded-lg bg-destructive/20 border border-destructive/30 text-destructive hover:bg-destructive/30 transition flex items-center justify-center space-x-1 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <Trash2 className="w-3 h-3" />
-                    <span>Delete</span>
-                  </button>
-                </div>
+                {deliveredShelves.has(shelf.id) && (
+                  <div className="flex items-center gap-1 p-2 rounded-lg bg-accent/10 border border-accent/20 text-xs text-accent">
+                    <Timer className="w-3 h-3" />
+                    <span>{describeReturn(deliveredShelves.get(shelf.id)!, now)}</span>
+                  </div>
+                )}
+
+                {canManage && (
+                  <div className="flex space-x-1 pt-2">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openModal(shelf);
+                      }}
+                      disabled={loading}
+                      className="flex-1 px-2 py-1 rounded-lg bg-primary/20 border border-primary/30 text-primary hover:bg-primary/30 transition flex items-center justify-center space-x-1 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Edit className="w-3 h-3" />
+                      <span>Edit</span>
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(shelf.id);
+                      }}
+                      disabled={loading}
+                      className="flex-1 px-2 py-1 rounded-lg bg-destructive/20 border border-destructive/30 text-destructive hover:bg-destructive/30 transition flex items-center justify-center space-x-1 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           ))
@@ -614,7 +559,7 @@ export default function Shelves() {
       </div>
 
       {/* Add/Edit Modal */}
-      {showModal && (
+      {showModal && canManage && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
           <div className="bg-card/80 backdrop-blur rounded-xl shadow-lg max-w-md w-full border border-border/30 max-h-[90vh] overflow-y-auto">
             <div className="bg-card/50 text-foreground p-6 flex items-center justify-between border-b border-border/30 sticky top-0">
@@ -919,7 +864,8 @@ export default function Shelves() {
                   </p>
                   <button
                     onClick={() => handleRestoreLocation(selectedShelf)}
-                    disabled={loading}
+                    disabled={loading || !can('shelf:restore')}
+                    title={can('shelf:restore') ? undefined : 'Requires operator access'}
                     className="w-full px-4 py-2 bg-yellow-500/30 text-yellow-200 rounded-lg font-semibold hover:bg-yellow-500/40 transition disabled:opacity-50 disabled:cursor-not-allowed border border-yellow-500/50"
                   >
                     🔄 Restore to Storage Location
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Clock, FileQuestion, MapPin, Route, RefreshCw } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { EmptyState } from '@/components/ui/empty-state';
+import { LoadingPage } from '@/components/ui/loading-spinner';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { TaskEventLog } from '@/components/TaskEventLog';
+import { TaskPathMap } from '@/components/TaskPathMap';
+import { TaskRecoveryPanel } from '@/components/TaskRecoveryPanel';
+import { tasks } from '@/services/api';
+import { ApiError } from '@/services/http';
+import { useShelfById, useTaskById } from '@/hooks/useEntities';
+import { useTaskEventStore } from '@/stores/taskEventStore';
+import { buildTaskTimeline, formatDuration } from '@/lib/taskTimeline';
+import { TERMINAL_STATUSES } from '@/lib/taskStateMachine';
+import type { Task } from '@/types';
+
+// Stable fallback so the selector never returns a fresh array
+const NO_TRACK: never[] = [];
+
+const fmt = (value?: number) => (typeof value === 'number' ? value.toFixed(2) : '—');
+
+function CoordRow({ label, x, y, yaw }: { label: string; x?: number; y?: number; yaw?: number }) {
+  return (
+    <div className="flex items-center justify-between py-1.5 text-sm border-b border-border/20 last:border-0">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">
+        x {fmt(x)} · y {fmt(y)}
+        {yaw !== undefined && ` · yaw ${fmt(yaw)}`}
+      </span>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground mb-1">{label}</div>
+      <div className="text-sm font-medium">{children}</div>
+    </div>
+  );
+}
+
+export default function TaskDetail() {
+  const { id } = useParams<{ id: string }>();
+  const cached = useTaskById(id);
+  const [fetched, setFetched] = useState<Task | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const events = useTaskEventStore((s) => s.events);
+  const track = useTaskEventStore((s) => (id ? s.tracks[id] : undefined)) ?? NO_TRACK;
+
+  const load = useCallback(async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setFetched(await tasks.get(id));
+      setNotFound(false);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) setNotFound(true);
+      else setError(err instanceof Error ? err.message : 'Failed to load task');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // The cache carries live socket updates; the fetched document carries the state history
+  const task = useMemo<Task | null>(() => {
+    if (!cached) return fetched;
+    return {
+      ...fetched,
+      ...cached,
+      status_history: cached.status_history ?? fetched?.status_history,
+    };
+  }, [cached, fetched]);
+
+  const running = !!task && !TERMINAL_STATUSES.includes(task.status) && task.status !== 'ERROR';
+
+  // Tick the running state's duration
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const timeline = useMemo(() => (task ? buildTaskTimeline(task, events, now) : []), [task, events, now]);
+  const shelf = useShelfById(task?.shelf_id);
+
+  if (!task && loading) return <LoadingPage text="Loading task..." />;
+
+  if (!task) {
+    return (
+      <EmptyState
+        icon={FileQuestion}
+        title={notFound ? 'Task not found' : 'Could not load task'}
+        description={notFound ? `No task with id ${id}` : error ?? undefined}
+        action={notFound ? undefined : { label: 'Retry', onClick: load }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Button variant="ghost" size="sm" asChild className="-ml-2">
+        <Link to="/tasks">
+          <ArrowLeft className="h-4 w-4 mr-1" /> All tasks
+        </Link>
+      </Button>
+
+      <PageHeader title={`Task ${task.id}`} description={task.description || task.task_type}>
+        <StatusBadge status={task.status} />
+        <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </PageHeader>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <TaskRecoveryPanel task={task} shelf={shelf} />
+
+      <Card className="glass-card">
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-6">
+          <Field label="Type">{task.task_type}</Field>
+          <Field label="Priority">{task.priority}/10</Field>
+          <Field label="Robot">{task.assigned_robot_name || task.robot_id || task.assigned_robot_id || '—'}</Field>
+          <Field label="Shelf">{shelf ? `${shelf.warehouse_id} (Level ${shelf.level})` : task.shelf_id}</Field>
+          <Field label="Drop zone">{task.drop_zone_id || task.zone_id || task.target_zone_id || '—'}</Field>
+          <Field label="Completion action">{task.completion_action || '—'}</Field>
+          <Field label="Duration">
+            {typeof task.duration_seconds === 'number' ? formatDuration(task.duration_seconds * 1000) : '—'}
+          </Field>
+          <Field label="Progress">{typeof task.progress === 'number' ? `${task.progress}%` : '—'}</Field>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-primary" /> Lifecycle
+            </CardTitle>
+            <CardDescription>Time spent in each status</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="relative border-l border-border/50 ml-2 space-y-4">
+              {timeline.map((entry, i) => {
+                const current = i === timeline.length - 1;
+                return (
+                  <li key={`${entry.status}-${entry.at}`} className="ml-4">
+                    <span
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                        entry.anomaly ? 'bg-destructive' : current ? 'bg-primary' : 'bg-muted-foreground'
+                      }`}
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`font-mono text-sm ${current ? 'font-bold text-primary' : ''}`}>
+                        {entry.status}
+                      </span>
+                      {entry.durationMs !== undefined && (
+                        <Badge variant="secondary">
+                          {formatDuration(entry.durationMs)}
+                          {current && running ? ' so far' : ''}
+                        </Badge>
+                      )}
+                      {entry.source !== 'server' && (
+                        <span className="text-xs text-muted-foreground">({entry.source})</span>
+                      )}
+                    </div>
+                    <time className="text-xs text-muted-foreground">{new Date(entry.at).toLocaleString()}</time>
+                    {entry.anomaly && <p className="text-xs text-destructive">Unexpected: {entry.anomaly}</p>}
+                  </li>
+                );
+              })}
+            </ol>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5 text-primary" /> Robot Path
+            </CardTitle>
+            <CardDescription>Positions reported while the task ran</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TaskPathMap task={task} track={track} live={running} />
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-primary" /> Coordinates
+            </CardTitle>
+            <CardDescription>Origin snapshots are taken when the task is created</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CoordRow label="Pickup" x={task.pickup_x} y={task.pickup_y} yaw={task.pickup_yaw} />
+            <CoordRow label="Drop" x={task.drop_x} y={task.drop_y} yaw={task.drop_yaw} />
+            <CoordRow
+              label="Origin storage"
+              x={task.origin_storage_x}
+              y={task.origin_storage_y}
+              yaw={task.origin_storage_yaw}
+            />
+            <CoordRow
+              label="Origin pickup"
+              x={task.origin_pickup_x}
+              y={task.origin_pickup_y}
+              yaw={task.origin_pickup_yaw}
+            />
+            <CoordRow label="Robot (last)" x={task.current_robot_x} y={task.current_robot_y} yaw={task.current_yaw} />
+          </CardContent>
+        </Card>
+
+        <TaskEventLog taskId={task.id} />
+      </div>
+    </div>
+  );
+}
@@ -1,35 +1,32 @@
-import { useEffect, useState } from 'react';
-import { Plus, Edit, Trash2, X, AlertCircle, CheckCircle, Clock, Zap, MapPin } from 'lucide-react';
-import type { Task, TaskCreate, TaskStatus, Shelf, Zone } from '@/types';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Plus, Edit, Trash2, X, AlertCircle, CheckCircle, Clock, Zap, MapPin, List, Columns3, ListPlus, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { PaginatedResponse, Task, TaskCreate, TaskStatus } from '@/types';
 import { tasks } from '../services/api';
-import { shelves } from '../services/api';
-import { zones } from '../services/api';
-import { connectWebSocket } from '../services/websocket';
-
-interface FormData {
-  shelf_id: string;
-  priority: number;
-  description: string;
-  zone_id: string;
-  task_type: 'PICKUP_AND_DELIVER' | 'MOVE_SHELF' | 'RETURN_SHELF' | 'REPOSITION';
-  target_shelf_id?: string;
-  target_zone_id?: string;
-}
-
-const TASK_STATUSES: TaskStatus[] = [
-  'PENDING',
-  'ASSIGNED',
-  'MOVING_TO_PICKUP',
-  'ARRIVED_AT_PICKUP',
-  'ATTACHED',
-  'MOVING_TO_DROP',
-  'ARRIVED_AT_DROP',
-  'RELEASED',
-  'MOVING_TO_REFERENCE',
-  'COMPLETED',
-  'ERROR',
-  'CANCELLED',
-];
+import { useEntityStore } from '../stores/entityStore';
+import { useShelfList, useTaskList, useZoneList } from '../hooks/useEntities';
+import { useCan } from '../hooks/usePermission';
+import { useRobotLiveness } from '../hooks/useRobotLiveness';
+import { RobotLastSeen } from '../components/RobotLastSeen';
+import { isStaleTask, taskRobotLiveness } from '../lib/robotLiveness';
+import { explainTransition, transitionOptions } from '../lib/taskStateMachine';
+import { useTaskEventStore } from '../stores/taskEventStore';
+import { TaskEventLog } from '../components/TaskEventLog';
+import { TaskBoard } from '../components/TaskBoard';
+import { BulkTaskDialog } from '../components/BulkTaskDialog';
+import { TaskFilterBar, TaskSortHeader } from '../components/TaskFilterBar';
+import { validateTaskDraft, type TaskDraft } from '../lib/taskValidation';
+import {
+  activeFilterCount,
+  compareTasks,
+  isServerQuery,
+  matchesTaskFilter,
+  PAGE_SIZES,
+  parseTaskQuery,
+  taskQueryParams,
+  toListParams,
+  type TaskQuery,
+} from '../lib/taskFilters';
 
 const TASK_TYPES = [
   { value: 'PICKUP_AND_DELIVER', label: 'Pick up & Deliver to Zone' },
@@ -39,16 +36,103 @@ const TASK_TYPES = [
 ];
 
 export default function Tasks() {
-  const [taskList, setTaskList] = useState<Task[]>([]);
-  const [shelfList, setShelfList] = useState<Shelf[]>([]);
-  const [zoneList, setZoneList] = useState<Zone[]>([]);
+  // Tasks, shelves and zones come from the shared entity cache (socket-driven)
+  const taskList = useTaskList();
+  const shelfList = useShelfList();
+  const zoneList = useZoneList();
+  const { fleet, now } = useRobotLiveness();
+  const reloadEntities = useEntityStore((s) => s.load);
+  const removeEntity = useEntityStore((s) => s.remove);
+  const upsertEntity = useEntityStore((s) => s.upsert);
+  const recordTaskEvent = useTaskEventStore((s) => s.record);
+  const can = useCan();
   const [showModal, setShowModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [stats, setStats] = useState<any>(null);
+  const [view, setView] = useState<'list' | 'board'>('list');
+  const [showBulk, setShowBulk] = useState(false);
+
+  // Filters, sorting and paging live in the URL so views can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseTaskQuery(searchParams), [searchParams]);
+  const listParams = useMemo(() => toListParams(query), [query]);
+  const serverPaged = useMemo(() => isServerQuery(listParams), [listParams]);
+  const taskMap = useEntityStore((s) => s.tasks);
+  const taskCount = useEntityStore((s) => Object.keys(s.tasks).length);
+  const [page, setPage] = useState<PaginatedResponse<Task> | null>(null);
+  const [pageLoading, setPageLoading] = useState(false);
+  const pageRequest = useRef(0);
+
+  // Any filter change goes back to the first page unless the patch says otherwise
+  const updateQuery = useCallback(
+    (patch: Partial<TaskQuery>) => setSearchParams(taskQueryParams({ ...query, page: 1, ...patch }), { replace: true }),
+    [query, setSearchParams]
+  );
+
+  const loadPage = useCallback(async () => {
+    if (!serverPaged) return;
+    const request = ++pageRequest.current;
+    setPageLoading(true);
+    try {
+      const result = await tasks.query(listParams);
+      if (request === pageRequest.current) setPage(result);
+    } catch (err) {
+      console.error('[Tasks] Failed to load task page:', err);
+      if (request === pageRequest.current) setError(err instanceof Error ? err.message : 'Failed to load tasks');
+    } finally {
+      if (request === pageRequest.current) setPageLoading(false);
+    }
+  }, [listParams, serverPaged]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // Tasks created or deleted elsewhere change the page; refetch once things settle
+  const knownCount = useRef(taskCount);
+  useEffect(() => {
+    if (knownCount.current === taskCount) return;
+    knownCount.current = taskCount;
+    const timer = setTimeout(loadPage, 1000);
+    return () => clearTimeout(timer);
+  }, [taskCount, loadPage]);
+
+  // The board shows every cached task that passes the filters
+  const boardTasks = useMemo(() => {
+    const zone = query.zone ? zoneList.find((z) => z.id === query.zone || z.zone_id === query.zone) : undefined;
+    return taskList.filter((t) => matchesTaskFilter(t, listParams.filter ?? {}, zone));
+  }, [taskList, listParams, zoneList, query.zone]);
+
+  // Server pages take live status from the cache; queries the backend
+  // can't answer are sorted and paged from the board's tasks
+  const listPage = useMemo((): PaginatedResponse<Task> | null => {
+    if (serverPaged) return page && { ...page, items: page.items.map((t) => taskMap[t.id] ?? t) };
+    const offset = listParams.offset ?? 0;
+    const sorted = [...boardTasks].sort(compareTasks(query.sort));
+    return {
+      items: sorted.slice(offset, offset + query.pageSize),
+      total: sorted.length,
+      hasMore: offset + query.pageSize < sorted.length,
+      page: query.page,
+      limit: query.pageSize,
+    };
+  }, [serverPaged, page, taskMap, boardTasks, listParams, query.sort, query.page, query.pageSize]);
+  const pageTasks = listPage?.items ?? [];
+  // Without a total the page count is only known up to the next page
+  const total = listPage?.total;
+  const pageCount =
+    total !== undefined ? Math.max(1, Math.ceil(total / query.pageSize)) : query.page + (listPage?.hasMore ? 1 : 0);
+
+  // A shared link or a deletion can leave us past the last page
+  useEffect(() => {
+    if (!listPage || listPage.items.length > 0 || query.page <= 1) return;
+    if (total === undefined) updateQuery({ page: query.page - 1 });
+    else if (total > 0 && query.page > pageCount) updateQuery({ page: pageCount });
+  }, [listPage, total, pageCount, query.page, updateQuery]);
 
-  const initialFormData: FormData = {
+  const initialFormData: TaskDraft = {
     shelf_id: '',
     priority: 5,
     description: '',
@@ -58,56 +142,27 @@ export default function Tasks() {
     target_zone_id: undefined,
   };
 
-  const [formData, setFormData] = useState<FormData>(initialFormData);
+  const [formData, setFormData] = useState<TaskDraft>(initialFormData);
 
   useEffect(() => {
-    loadData();
-
-    // Subscribe to real-time updates
-    const socket = connectWebSocket();
-    if (socket) {
-      socket.on('task_update', (data: any) => {
-        setTaskList((prev) =>
-          prev.map((t) => (t.id === data.task?.id ? { ...t, ...data.task } : t))
-        );
-      });
-      socket.on('tasks_update', (data: any) => {
-        if (data.tasks) {
-          setTaskList(data.tasks);
-        }
-      });
-    }
-
-    return () => {
-      if (socket) {
-        socket.off('task_update');
-        socket.off('tasks_update');
-      }
-    };
+    loadStats();
   }, []);
 
+  const loadStats = async () => {
+    try {
+      const statsData = await tasks.getLiveStats();
+      console.log('[DEBUG] Stats API response:', statsData);
+      setStats(statsData);
+    } catch (err: any) {
+      console.error('[DEBUG] Failed to load stats:', err);
+    }
+  };
+
   const loadData = async () => {
     try {
       setError(null);
       setLoading(true);
-
-      // Load all data in parallel
-      const [taskData, shelfData, zoneData, statsData] = await Promise.all([
-        tasks.list(),
-        shelves.list(),
-        zones.list(),
-        tasks.getLiveStats(),
-      ]);
-
-      console.log('[DEBUG] Tasks API response:', taskData);
-      console.log('[DEBUG] Shelves API response:', shelfData);
-      console.log('[DEBUG] Zones API response:', zoneData);
-      console.log('[DEBUG] Stats API response:', statsData);
-
-      setTaskList(Array.isArray(taskData) ? taskData : []);
-      setShelfList(Array.isArray(shelfData) ? shelfData : []);
-      setZoneList(Array.isArray(zoneData) ? zoneData : []);
-      setStats(statsData);
+      await Promise.all([reloadEntities({ silent: true }), loadStats(), loadPage()]);
     } catch (err: any) {
       console.error('[DEBUG] Failed to load data:', err);
       setError(err?.message || 'Failed to load data');
@@ -116,29 +171,7 @@ export default function Tasks() {
     }
   };
 
-  const validateForm = (): string | null => {
-    if (!formData.shelf_id || formData.shelf_id.trim() === '') {
-      return 'Shelf is required';
-    }
-
-    if (formData.priority < 1 || formData.priority > 10) {
-      return 'Priority must be between 1 and 10';
-    }
-
-    if (formData.task_type === 'PICKUP_AND_DELIVER' && !formData.zone_id) {
-      return 'Zone is required for PICKUP_AND_DELIVER tasks';
-    }
-
-    if (formData.task_type === 'MOVE_SHELF' && !formData.target_shelf_id) {
-      return 'Target Shelf is required for MOVE_SHELF tasks';
-    }
-
-    if (formData.task_type === 'REPOSITION' && !formData.target_zone_id) {
-      return 'Target Zone is required for REPOSITION tasks';
-    }
-
-    return null;
-  };
+  const validateForm = (): string | null => validateTaskDraft(formData);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -203,9 +236,32 @@ export default function Tasks() {
       setLoading(true);
 
       const currentTask = taskList.find((t) => t.id === taskId);
-      const oldStatus = currentTask?.status;
+      if (!currentTask) return;
+      const oldStatus = currentTask.status;
+
+      // The task may have moved on since the buttons were rendered
+      const blocked = explainTransition(currentTask.task_type, oldStatus, newStatus);
+      if (blocked) {
+        setError(`Cannot change status to ${newStatus}: ${blocked}`);
+        return;
+      }
 
-      await tasks.updateStatus(taskId, newStatus, { old_status: oldStatus });
+      // Cache the new status up front so the task_update echoing this change
+      // isn't logged as a second, socket-sourced event
+      upsertEntity('tasks', { ...currentTask, status: newStatus });
+      try {
+        await tasks.updateStatus(taskId, newStatus, { old_status: oldStatus });
+      } catch (err) {
+        upsertEntity('tasks', currentTask);
+        throw err;
+      }
+      recordTaskEvent({
+        taskId,
+        taskType: currentTask.task_type,
+        from: oldStatus,
+        to: newStatus,
+        source: 'operator',
+      });
 
       await loadData();
     } catch (err: any) {
@@ -216,6 +272,14 @@ export default function Tasks() {
     }
   };
 
+  // Cards dropped on the board; finishing a task early needs confirmation
+  const handleBoardMove = (task: Task, status: TaskStatus) => {
+    if ((status === 'CANCELLED' || status === 'ERROR') && !confirm(`Mark this task as ${status}?`)) {
+      return;
+    }
+    handleStatusChange(task.id, status);
+  };
+
   const handleDeleteTask = async (taskId: string) => {
     if (!confirm('Are you sure you want to delete this task?')) {
       return;
@@ -226,8 +290,9 @@ export default function Tasks() {
       setLoading(true);
 
       await tasks.delete(taskId);
+      removeEntity('tasks', taskId);
 
-      await loadData();
+      await Promise.all([loadStats(), loadPage()]);
     } catch (err: any) {
       console.error('Failed to delete task:', err);
       setError(err?.message || 'Failed to delete task');
@@ -322,14 +387,42 @@ export default function Tasks() {
           <h1 className="text-4xl font-bold text-white mb-2">Tasks</h1>
           <p className="text-accent">Manage robot task assignments and monitor progress</p>
         </div>
-        <button
-          onClick={() => openModal()}
-          disabled={loading}
-          className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold shadow-lg hover:brightness-110 transition disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Create Task</span>
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-border/30 bg-card/50 p-1">
+            {(['list', 'board'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setView(mode)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-sm transition ${
+                  view === mode ? 'bg-primary/20 text-primary font-semibold' : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {mode === 'list' ? <List className="w-4 h-4" /> : <Columns3 className="w-4 h-4" />}
+                <span>{mode === 'list' ? 'List' : 'Board'}</span>
+              </button>
+            ))}
+          </div>
+          {can('task:create') && (
+            <button
+              onClick={() => setShowBulk(true)}
+              disabled={loading}
+              className="flex items-center space-x-2 px-4 py-3 rounded-lg bg-card/50 border border-border/30 text-foreground font-semibold hover:bg-card/70 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ListPlus className="w-5 h-5" />
+              <span>Bulk Create</span>
+            </button>
+          )}
+          {can('task:create') && (
+            <button
+              onClick={() => openModal()}
+              disabled={loading}
+              className="flex items-center space-x-2 px-6 py-3 rounded-lg bg-accent text-accent-foreground font-bold shadow-lg hover:brightness-110 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Create Task</span>
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Statistics */}
@@ -357,88 +450,171 @@ export default function Tasks() {
         </div>
       )}
 
+      <TaskFilterBar query={query} onChange={updateQuery} />
+
+      {/* Tasks Board */}
+      {view === 'board' && (
+        <TaskBoard tasks={boardTasks} onMove={handleBoardMove} canMove={can('task:update_status') && !loading} />
+      )}
+
       {/* Tasks List */}
-      <div className="space-y-3">
-        {loading && taskList.length === 0 ? (
-          <div className="text-center py-12">
-            <div className="inline-block animate-spin">
-              <Zap className="w-8 h-8 text-primary" />
+      {view === 'list' && (
+        <div className="space-y-3">
+          <TaskSortHeader query={query} onChange={updateQuery} />
+          {serverPaged && pageLoading && !page ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin">
+                <Zap className="w-8 h-8 text-primary" />
+              </div>
+              <p className="text-muted-foreground mt-3">Loading tasks...</p>
             </div>
-            <p className="text-muted-foreground mt-3">Loading tasks...</p>
-          </div>
-        ) : taskList.length === 0 ? (
-          <div className="text-center py-12 bg-card/50 rounded-lg border border-border/30">
-            <p className="text-muted-foreground text-lg">No tasks yet</p>
-          </div>
-        ) : (
-          taskList.map((task) => {
-            const shelf = shelfList.find((s) => s.id === task.shelf_id);
-            const zone = zoneList.find((z) => z.id === task.zone_id);
-
-            return (
-              <div
-                key={task.id}
-                className="p-4 rounded-lg bg-card/80 border border-border/30 hover:border-primary/30 transition"
-              >
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <h3 className="text-lg font-bold text-foreground">
-                        {TASK_TYPES.find((t) => t.value === task.task_type)?.label || task.task_type}
-                      </h3>
-                      <span
-                        className={`flex items-center space-x-1 px-2 py-1 rounded text-sm font-semibold ${getStatusColor(task.status)}`}
-                      >
-                        {getStatusIcon(task.status)}
-                        <span>{task.status}</span>
-                      </span>
+          ) : pageTasks.length === 0 ? (
+            <div className="text-center py-12 bg-card/50 rounded-lg border border-border/30">
+              <p className="text-muted-foreground text-lg">
+                {activeFilterCount(query) > 0 ? 'No tasks match these filters' : 'No tasks yet'}
+              </p>
+            </div>
+          ) : (
+            pageTasks.map((task) => {
+              const shelf = shelfList.find((s) => s.id === task.shelf_id);
+              const zone = zoneList.find((z) => z.id === task.zone_id);
+              const stale = isStaleTask(task, fleet);
+
+              return (
+                <div
+                  key={task.id}
+                  className={`p-4 rounded-lg bg-card/80 border hover:border-primary/30 transition ${
+                    stale ? 'border-warning/60' : 'border-border/30'
+                  }`}
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-2">
+                        <h3 className="text-lg font-bold text-foreground">
+                          <Link to={`/tasks/${task.id}`} className="hover:text-primary transition">
+                            {TASK_TYPES.find((t) => t.value === task.task_type)?.label || task.task_type}
+                          </Link>
+                        </h3>
+                        <span
+                          className={`flex items-center space-x-1 px-2 py-1 rounded text-sm font-semibold ${getStatusColor(task.status)}`}
+                        >
+                          {getStatusIcon(task.status)}
+                          <span>{task.status}</span>
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Shelf: {shelf?.warehouse_id} (Level {shelf?.level}) {zone && `→ Zone: ${zone.name}`}
+                      </p>
+                      {task.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{task.description}</p>
+                      )}
+                      {stale && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Assigned robot: <RobotLastSeen info={taskRobotLiveness(task, fleet)} now={now} />
+                        </p>
+                      )}
+                      {task.status === 'ERROR' && (
+                        <p className="text-sm text-destructive mt-1">
+                          {task.error_message || 'Failed without an error message'} ·{' '}
+                          <Link to={`/tasks/${task.id}`} className="font-semibold hover:underline">
+                            Recover
+                          </Link>
+                        </p>
+                      )}
                     </div>
-                    <p className="text-sm text-muted-foreground">
-                      Shelf: {shelf?.warehouse_id} (Level {shelf?.level}) {zone && `→ Zone: ${zone.name}`}
-                    </p>
-                    {task.description && (
-                      <p className="text-sm text-muted-foreground mt-1">{task.description}</p>
-                    )}
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm font-bold text-primary mb-2">Priority: {task.priority}/10</div>
-                    <div className="flex space-x-1">
-                      <button
-                        onClick={() => handleDeleteTask(task.id)}
-                        disabled={loading}
-                        className="px-2 py-1 rounded text-xs bg-destructive/20 text-destructive hover:bg-destructive/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        <Trash2 className="w-3 h-3" />
-                      </button>
+                    <div className="text-right">
+                      <div className="text-sm font-bold text-primary mb-2">Priority: {task.priority}/10</div>
+                      <div className="flex space-x-1">
+                        {can('task:delete') && (
+                          <button
+                            onClick={() => handleDeleteTask(task.id)}
+                            disabled={loading}
+                            className="px-2 py-1 rounded text-xs bg-destructive/20 text-destructive hover:bg-destructive/30 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                {/* Status Transitions */}
-                <div className="flex flex-wrap gap-2 pt-3 border-t border-border/30">
-                  {TASK_STATUSES.map((status) => (
-                    <button
-                      key={status}
-                      onClick={() => handleStatusChange(task.id, status)}
-                      disabled={loading || status === task.status}
-                      className={`text-xs px-2 py-1 rounded transition ${
-                        status === task.status
-                          ? 'bg-primary/30 text-primary font-bold'
-                          : 'bg-card/50 text-muted-foreground hover:bg-card/70'
-                      } disabled:opacity-50 disabled:cursor-not-allowed`}
-                    >
-                      {status}
-                    </button>
-                  ))}
+                  {/* Status Transitions */}
+                  {can('task:update_status') && (
+                    <div className="flex flex-wrap gap-2 pt-3 border-t border-border/30">
+                      {transitionOptions(task).map(({ status, allowed, reason }) => (
+                        <button
+                          key={status}
+                          onClick={() => handleStatusChange(task.id, status)}
+                          disabled={loading || !allowed}
+                          title={reason ?? `Move task to ${status}`}
+                          className={`text-xs px-2 py-1 rounded transition ${
+                            status === task.status
+                              ? 'bg-primary/30 text-primary font-bold'
+                              : allowed
+                                ? 'bg-accent/20 text-accent hover:bg-accent/30'
+                                : 'bg-card/50 text-muted-foreground'
+                          } disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                          {status}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
+              );
+            })
+          )}
+
+          {/* Pagination */}
+          {listPage && (listPage.items.length > 0 || query.page > 1) && (
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-2 text-sm">
+              <span className="text-muted-foreground">
+                {(query.page - 1) * query.pageSize + 1}–{(query.page - 1) * query.pageSize + listPage.items.length}
+                {total !== undefined && ` of ${total}`}
+                {serverPaged && pageLoading && ' · refreshing…'}
+              </span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={query.pageSize}
+                  onChange={(e) => updateQuery({ pageSize: Number(e.target.value) })}
+                  className="px-2 py-1 rounded bg-card/50 border border-border/30 text-foreground text-xs"
+                >
+                  {PAGE_SIZES.map((size) => (
+                    <option key={size} value={size}>
+                      {size} / page
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => updateQuery({ page: query.page - 1 })}
+                  disabled={query.page <= 1 || (serverPaged && pageLoading)}
+                  className="p-1.5 rounded bg-card/50 border border-border/30 hover:bg-card/70 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="text-xs text-muted-foreground">
+                  Page {query.page}
+                  {total !== undefined && ` of ${pageCount}`}
+                </span>
+                <button
+                  onClick={() => updateQuery({ page: query.page + 1 })}
+                  disabled={!listPage.hasMore || (serverPaged && pageLoading)}
+                  className="p-1.5 rounded bg-card/50 border border-border/30 hover:bg-card/70 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
               </div>
-            );
-          })
-        )}
-      </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <TaskEventLog />
+
+      {can('task:create') && <BulkTaskDialog open={showBulk} onOpenChange={setShowBulk} />}
 
       {/* Create/Edit Modal */}
-      {showModal && (
+      {showModal && can('task:create') && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
           <div className="bg-card/80 backdrop-blur rounded-xl shadow-lg max-w-md w-full border border-border/30 max-h-[90vh] overflow-y-auto">
             <div className="bg-card/50 text-foreground p-6 flex items-center justify-between border-b border-border/30 sticky top-0">
@@ -0,0 +1,256 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, Edit2, Play, Plus, Square, Trash2, Workflow as WorkflowIcon, X, XCircle } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WorkflowTemplateDialog } from '@/components/WorkflowTemplateDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useShelfList, useTaskList } from '@/hooks/useEntities';
+import { useCan } from '@/hooks/usePermission';
+import { useEntityStore } from '@/stores/entityStore';
+import { useWorkflowStore } from '@/stores/workflowStore';
+import { isOnBackend, useActiveBackendKey } from '@/stores/simulatorStore';
+import { cancelWorkflow, kickWorkflows } from '@/services/workflowRunner';
+import { isActiveTask } from '@/lib/taskStateMachine';
+import type { Workflow, WorkflowState, WorkflowStep, WorkflowTemplate } from '@/lib/workflow';
+import type { Task } from '@/types';
+
+const STATE_BADGE: Record<WorkflowState, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+function StepChip({ step, index, task }: { step: WorkflowStep; index: number; task?: Task }) {
+  const status = task?.status;
+  const tone =
+    status === 'COMPLETED'
+      ? 'border-success/40 text-success'
+      : status === 'ERROR' || status === 'CANCELLED'
+        ? 'border-destructive/50 text-destructive'
+        : status
+          ? 'border-accent/50 text-accent'
+          : 'border-border/30 text-muted-foreground';
+  const body = (
+    <span className={`inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs ${tone}`}>
+      {status === 'COMPLETED' && <CheckCircle className="h-3 w-3" />}
+      {(status === 'ERROR' || status === 'CANCELLED') && <XCircle className="h-3 w-3" />}
+      {index + 1}. {step.task_type}
+      {status && status !== 'COMPLETED' && <span className="font-mono text-[10px]">{status}</span>}
+    </span>
+  );
+  return task ? <Link to={`/tasks/${task.id}`}>{body}</Link> : body;
+}
+
+export default function Workflows() {
+  const templates = useWorkflowStore((s) => s.templates);
+  // Only the backend in use; other backends' workflows run on their own shelves
+  const backend = useActiveBackendKey();
+  const allWorkflows = useWorkflowStore((s) => s.workflows);
+  const workflows = useMemo(() => allWorkflows.filter((w) => isOnBackend(w, backend)), [allWorkflows, backend]);
+  const startWorkflow = useWorkflowStore((s) => s.start);
+  const removeTemplate = useWorkflowStore((s) => s.removeTemplate);
+  const removeWorkflow = useWorkflowStore((s) => s.remove);
+  const taskMap = useEntityStore((s) => s.tasks);
+  const shelves = useEntityStore((s) => s.shelves);
+  const shelfList = useShelfList();
+  const taskList = useTaskList();
+  const can = useCan();
+  const canCreate = can('task:create');
+  const { toast } = useToast();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WorkflowTemplate | null>(null);
+  const [shelfFor, setShelfFor] = useState<Record<string, string>>({});
+
+  // Shelves with an active task or workflow can't start another
+  const busyShelves = useMemo(() => {
+    const busy = new Set(taskList.filter(isActiveTask).map((t) => t.shelf_id));
+    workflows.filter((w) => w.state === 'running').forEach((w) => busy.add(w.shelfId));
+    return busy;
+  }, [taskList, workflows]);
+
+  const sortedShelves = useMemo(
+    () => [...shelfList].sort((a, b) => a.warehouse_id.localeCompare(b.warehouse_id, undefined, { numeric: true })),
+    [shelfList]
+  );
+
+  const handleStart = (template: WorkflowTemplate) => {
+    const shelfId = shelfFor[template.id];
+    if (!shelfId) return;
+    startWorkflow(template, shelfId);
+    kickWorkflows();
+    setShelfFor((prev) => ({ ...prev, [template.id]: '' }));
+    toast({ title: 'Workflow started', description: `${template.name} on ${shelves[shelfId]?.warehouse_id ?? shelfId}` });
+  };
+
+  const handleCancel = async (workflow: Workflow) => {
+    if (!confirm(`Cancel the remaining steps of "${workflow.name}"?`)) return;
+    const note = await cancelWorkflow(workflow.id);
+    toast({ title: 'Workflow cancelled', description: note ?? undefined, variant: note ? 'destructive' : 'default' });
+  };
+
+  const completedSteps = (workflow: Workflow) =>
+    workflow.stepTasks.filter((id) => id && taskMap[id]?.status === 'COMPLETED').length;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <PageHeader title="Workflows" description="Multi-step shelf jobs that dispatch each task after the last completes">
+        {canCreate && (
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setDialogOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Workflow
+          </Button>
+        )}
+      </PageHeader>
+
+      {templates.length === 0 ? (
+        <EmptyState
+          icon={WorkflowIcon}
+          title="No workflows yet"
+          description="Create a workflow such as deliver to PICK, reposition to QA, then return to storage"
+        />
+      ) : (
+        <div className="grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-3">
+          {templates.map((template) => {
+            const shelfId = shelfFor[template.id] ?? '';
+            return (
+              <Card key={template.id} className="glass-card">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">{template.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-1">
+                    {template.steps.map((step, i) => (
+                      <StepChip key={i} step={step} index={i} />
+                    ))}
+                  </div>
+                  {canCreate && (
+                    <>
+                      <div className="flex gap-2">
+                        <Select
+                          value={shelfId}
+                          onValueChange={(id) => setShelfFor((prev) => ({ ...prev, [template.id]: id }))}
+                        >
+                          <SelectTrigger className="h-8 text-xs flex-1">
+                            <SelectValue placeholder="Shelf" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {sortedShelves.map((shelf) => (
+                              <SelectItem key={shelf.id} value={shelf.id} disabled={busyShelves.has(shelf.id)}>
+                                {shelf.warehouse_id}
+                                {busyShelves.has(shelf.id) ? ' (busy)' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button size="sm" className="h-8" disabled={!shelfId} onClick={() => handleStart(template)}>
+                          <Play className="h-3 w-3 mr-1" /> Start
+                        </Button>
+                      </div>
+                      <div className="flex gap-2 pt-2 border-t">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => {
+                            setEditing(template);
+                            setDialogOpen(true);
+                          }}
+                        >
+                          <Edit2 className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive hover:bg-destructive/10"
+                          onClick={() => confirm(`Delete workflow "${template.name}"?`) && removeTemplate(template.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {workflows.length > 0 && (
+        <Card className="glass-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Runs</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {workflows.map((workflow) => {
+              const done = completedSteps(workflow);
+              return (
+                <div key={workflow.id} className="rounded-lg border border-border/30 p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{workflow.name}</span>
+                    <span className="text-sm text-muted-foreground">
+                      shelf {shelves[workflow.shelfId]?.warehouse_id ?? workflow.shelfId}
+                    </span>
+                    <Badge variant={STATE_BADGE[workflow.state]}>{workflow.state}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {done}/{workflow.steps.length} steps · started {new Date(workflow.startedAt).toLocaleString()}
+                    </span>
+                    <span className="flex-1" />
+                    {workflow.state === 'running' && canCreate && (
+                      <Button variant="outline" size="sm" className="h-7" onClick={() => handleCancel(workflow)}>
+                        <Square className="h-3 w-3 mr-1" /> Cancel rest
+                      </Button>
+                    )}
+                    {workflow.state !== 'running' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Remove from list"
+                        onClick={() => removeWorkflow(workflow.id)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                  <Progress value={(done / workflow.steps.length) * 100} className="h-1.5" />
+                  <div className="flex flex-wrap gap-1">
+                    {workflow.steps.map((step, i) => {
+                      const taskId = workflow.stepTasks[i];
+                      return <StepChip key={i} step={step} index={i} task={taskId ? taskMap[taskId] : undefined} />;
+                    })}
+                  </div>
+                  {workflow.failure && (
+                    <p
+                      className={`text-xs flex items-center gap-1 ${
+                        workflow.state === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                      }`}
+                    >
+                      <XCircle className="h-3 w-3 shrink-0" /> {workflow.failure}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {canCreate && <WorkflowTemplateDialog open={dialogOpen} onOpenChange={setDialogOpen} template={editing} />}
+    </div>
+  );
+}
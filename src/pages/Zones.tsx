@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { PageHeader } from '@/components/ui/page-header';
 import { LoadingPage } from '@/components/ui/loading-spinner';
 import { EmptyState } from '@/components/ui/empty-state';
@@ -25,6 +25,10 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Layers, Plus, Trash2, Edit2, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useEntityStatus, useZoneList } from '@/hooks/useEntities';
+import { isApiError, zones as zonesApi } from '@/services/api';
+import { usePermission } from '@/hooks/usePermission';
+import { ZoneReturnPolicy } from '@/components/ZoneReturnPolicy';
 import type { Zone, ZoneCreate, ZoneUpdate } from '@/types';
 
 interface FormData {
@@ -44,9 +48,11 @@ interface FormErrors {
 }
 
 export default function Zones() {
-  const [zones, setZones] = useState<Zone[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Zones are read from the shared entity cache
+  const zones = useZoneList();
+  const { loaded, error, reload } = useEntityStatus();
+  const loading = !loaded;
+  const canManage = usePermission('zone:manage');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [editingZone, setEditingZone] = useState<Zone | null>(null);
@@ -62,46 +68,8 @@ export default function Zones() {
   });
   const { toast } = useToast();
 
-  // Load zones on component mount
-  useEffect(() => {
-    loadZones();
-  }, []);
-
   const loadZones = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/zones', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      
-      if (!response.ok) {
-        // Check if response is HTML (error page from server)
-        const contentType = response.headers.get('content-type');
-        if (contentType?.includes('text/html')) {
-          throw new Error('API endpoint not found. Make sure Flask backend is running and zones routes are registered.');
-        }
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to load zones');
-      }
-      
-      const data = await response.json();
-      const zoneArray = Array.isArray(data) ? data : [];
-      console.log('[DEBUG] zones API response:', zoneArray);
-      zoneArray.forEach((z: any) => {
-        console.log(`  ${z.zone_id}: (${z.x}, ${z.y}), yaw=${z.yaw ?? 'N/A'}`);
-      });
-      setZones(zoneArray);
-    } catch (err: any) {
-      console.error('[DEBUG] Error loading zones:', err);
-      setError(err.message);
-      toast({ title: 'Error', description: err.message, variant: 'destructive' });
-    } finally {
-      setLoading(false);
-    }
+    await reload({ silent: true });
   };
 
   const validateForm = (): boolean => {
@@ -161,8 +129,7 @@ export default function Zones() {
     setIsSubmitting(true);
 
     try {
-      const token = localStorage.getItem('token');
-      const payload = {
+      const payload: ZoneCreate = {
         zone_id: formData.zone_id.trim(),
         name: formData.name.trim(),
         x: parseFloat(formData.x as string),
@@ -170,31 +137,23 @@ export default function Zones() {
         yaw: parseFloat(formData.yaw as string),
       };
 
-      const response = await fetch('/api/zones', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        const errorMsg = errorData.error === 'zone_exists' 
-          ? 'Zone ID already exists'
-          : errorData.error || 'Failed to create zone';
-        throw new Error(errorMsg);
+      if (editingZone) {
+        const { zone_id: _zoneId, ...changes } = payload;
+        await zonesApi.update(editingZone.id, changes);
+      } else {
+        await zonesApi.create(payload);
       }
 
-      toast({ title: 'Zone created successfully' });
+      toast({ title: editingZone ? 'Zone updated successfully' : 'Zone created successfully' });
       setIsDialogOpen(false);
       setEditingZone(null);
       setFormData({ zone_id: '', name: '', x: '', y: '', yaw: '' });
       setFormErrors({});
       await loadZones();
-    } catch (err: any) {
-      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } catch (err) {
+      const message =
+        isApiError(err) && err.error === 'zone_exists' ? 'Zone ID already exists' : (err as Error).message;
+      toast({ title: 'Error', description: message, variant: 'destructive' });
     } finally {
       setIsSubmitting(false);
     }
@@ -204,18 +163,7 @@ export default function Zones() {
     if (!zoneToDelete) return;
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/zones/${zoneToDelete}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || errorData.message || 'Failed to delete zone');
-      }
+      await zonesApi.delete(zoneToDelete);
 
       toast({ title: 'Zone deleted successfully' });
       setDeleteDialogOpen(false);
@@ -256,13 +204,15 @@ export default function Zones() {
         title="Zones"
         description="Manage warehouse zones with coordinates for robot navigation and task routing"
       >
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openCreate}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Zone
-            </Button>
-          </DialogTrigger>
+        <Dialog open={isDialogOpen && canManage} onOpenChange={setIsDialogOpen}>
+          {canManage && (
+            <DialogTrigger asChild>
+              <Button onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Zone
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{editingZone ? 'Edit Zone' : 'Add New Zone'}</DialogTitle>
@@ -420,6 +370,8 @@ export default function Zones() {
                   </div>
                 </div>
 
+                <ZoneReturnPolicy zoneId={zone.id} editable={canManage} />
+
                 {/* Metadata */}
                 <div className="text-xs space-y-1 text-muted-foreground">
                   {zone.created_at && (
@@ -431,28 +383,30 @@ export default function Zones() {
                 </div>
 
                 {/* Actions */}
-                <div className="flex gap-2 pt-2 border-t">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex-1"
-                    onClick={() => openEdit(zone)}
-                  >
-                    <Edit2 className="h-4 w-4 mr-1" />
-                    Edit
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="text-destructive hover:bg-destructive/10"
-                    onClick={() => {
-                      setZoneToDelete(zone.id);
-                      setDeleteDialogOpen(true);
-                    }}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
+                {canManage && (
+                  <div className="flex gap-2 pt-2 border-t">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => openEdit(zone)}
+                    >
+                      <Edit2 className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:bg-destructive/10"
+                      onClick={() => {
+                        setZoneToDelete(zone.id);
+                        setDeleteDialogOpen(true);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -460,7 +414,7 @@ export default function Zones() {
       )}
 
       {/* Delete Confirmation Dialog */}
-      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+      <AlertDialog open={deleteDialogOpen && canManage} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Zone</AlertDialogTitle>
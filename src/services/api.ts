@@ -1,67 +1,23 @@
-// API Configuration - Set VITE_API_URL in .env or use proxy
-const API_URL = (import.meta.env && import.meta.env.VITE_API_URL) || '/api';
-const DEBUG_MODE = import.meta.env.DEV;
+// Every module below goes through the shared request core (./http), which
+// handles the base URL, auth header, JSON, timeouts and ApiError
+import { getApiUrl, getToken, isApiError, request, setToken, type RequestOptions } from './http';
 
 import type {
+  AuthResponse,
+  PaginatedResponse,
+  RealtimeTaskView,
+  RobotGoToInput,
+  RobotTelemetry,
   Task,
   TaskCreate,
+  TaskListParams,
   TaskStatus,
   TaskType,
-} from '@/types'; 
-
-let token: string | null = localStorage.getItem('token');
-
-export const setToken = (newToken: string | null) => {
-  token = newToken;
-  if (newToken) {
-    localStorage.setItem('token', newToken);
-  } else {
-    localStorage.removeItem('token');
-  }
-};
-
-export const getToken = () => token || localStorage.getItem('token');
-
-const getHeaders = (): Record<string, string> => {
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
-  const currentToken = getToken();
-  if (currentToken) {
-    headers['Authorization'] = `Bearer ${currentToken}`;
-  }
-  return headers;
-};
-
-// Handle API responses with proper error handling
-const handleResponse = async (res: Response, endpoint: string) => {
-  if (!res.ok) {
-    const contentType = res.headers.get('content-type');
-    let errorMessage = `API Error: ${res.status} ${res.statusText}`;
-
-    try {
-      if (contentType?.includes('application/json')) {
-        const error = await res.json();
-        errorMessage = error.message || error.error || errorMessage;
-      }
-    } catch (e) {
-      // Response parsing failed
-    }
-
-    if (DEBUG_MODE) {
-      console.error(`[API] Failed: ${endpoint}`, { status: res.status, message: errorMessage });
-    }
+} from '@/types';
+import type { TaskMapView } from '@/types/map';
+import { validateEntities, validateEntity, type EntitySchemaKind } from './schemas';
 
-    throw new Error(errorMessage);
-  }
-
-  const contentType = res.headers.get('content-type');
-  if (!contentType?.includes('application/json')) {
-    return {};
-  }
-
-  return res.json();
-};
+export { ApiError, getToken, isApiError, onUnauthorized, setToken } from './http';
 
 // Sanitize MongoDB documents: convert _id to id and ensure numeric fields
 const sanitizeDoc = (doc: any) => {
@@ -89,46 +45,79 @@ const sanitizeDocs = (docs: any[]): any[] => {
   return docs.map(sanitizeDoc);
 };
 
+// Sanitize + schema-validate a list response; invalid documents are dropped
+// and reported to the diagnostics store
+const parseList = <K extends EntitySchemaKind>(kind: K, data: unknown, endpoint: string, key = 'results') => {
+  const docs = Array.isArray(data) ? data : (data as Record<string, unknown>)?.[key];
+  return validateEntities(kind, sanitizeDocs(Array.isArray(docs) ? docs : []), `GET ${endpoint}`);
+};
+
+// Sanitize + schema-validate a single document; throws if it doesn't match
+const parseOne = <K extends EntitySchemaKind>(kind: K, data: unknown, endpoint: string) => {
+  const doc = validateEntity(kind, sanitizeDoc(data), `GET ${endpoint}`);
+  if (!doc) throw new Error(`Invalid ${kind} received from ${endpoint}`);
+  return doc;
+};
+
+// Set once the backend answers /auth/refresh with 404/405
+let refreshSupported = true;
+
 // Auth endpoints
 export const auth = {
   register: async (username: string, password: string) => {
-    const res = await fetch(`${API_URL}/auth/register-admin`, {
+    return request('/auth/register-admin', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ username, password }),
+      auth: false,
+      body: { username, password },
     });
-    return handleResponse(res, '/auth/register-admin');
   },
 
-  login: async (username: string, password: string) => {
-    const res = await fetch(`${API_URL}/auth/login`, {
+  login: async (username: string, password: string): Promise<AuthResponse> => {
+    const data = await request<AuthResponse>('/auth/login', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ username, password }),
+      auth: false,
+      body: { username, password },
     });
-    const data = await handleResponse(res, '/auth/login');
     if (data.access_token) {
       setToken(data.access_token);
     }
     return data;
   },
 
+  // Exchange the current token for a fresh one. Resolves to null when the
+  // backend has no refresh endpoint or the token can no longer be refreshed.
+  refresh: async (): Promise<AuthResponse | null> => {
+    if (!refreshSupported || !getToken()) return null;
+
+    try {
+      const data = await request<AuthResponse>('/auth/refresh', { method: 'POST' });
+      if (!data?.access_token) return null;
+      setToken(data.access_token);
+      return data;
+    } catch (error) {
+      if (isApiError(error) && (error.status === 404 || error.status === 405)) {
+        refreshSupported = false;
+      }
+      return null;
+    }
+  },
+
   logout: () => {
     setToken(null);
   },
 };
 
-// Health check
+// Health check (against the active backend, or `baseUrl` when testing another one)
 export const health = {
-  check: async () => {
+  check: async (baseUrl?: string) => {
     try {
-      const res = await fetch(`${API_URL}/health`, { signal: AbortSignal.timeout(5000) });
-      if (res.ok) {
-        return { status: 'ok', data: await res.json() };
+      const data = await request('/health', { auth: false, timeoutMs: 5000, baseUrl });
+      return { status: 'ok', data };
+    } catch (error) {
+      if (isApiError(error) && error.kind === 'http') {
+        return { status: 'error', code: error.status };
       }
-      return { status: 'error', code: res.status };
-    } catch (error: any) {
-      return { status: 'error', message: error.message, apiUrl: API_URL };
+      return { status: 'error', message: (error as Error).message, apiUrl: baseUrl ?? getApiUrl() };
     }
   },
 };
@@ -136,156 +125,140 @@ export const health = {
 // Products API
 export const products = {
   list: async () => {
-    const res = await fetch(`${API_URL}/products`);
-    const data = await handleResponse(res, '/products');
-    return sanitizeDocs(Array.isArray(data) ? data : data.results || []);
+    const data = await request('/products');
+    return parseList('product', data, '/products');
   },
 
   get: async (id: string) => {
-    const res = await fetch(`${API_URL}/products/${id}`);
-    return sanitizeDoc(await handleResponse(res, `/products/${id}`));
+    return parseOne('product', await request(`/products/${id}`), `/products/${id}`);
   },
 
   create: async (data: any) => {
-    const res = await fetch(`${API_URL}/products`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return sanitizeDoc(await handleResponse(res, '/products'));
+    return sanitizeDoc(await request('/products', { method: 'POST', body: data }));
   },
 
   update: async (id: string, data: any) => {
-    const res = await fetch(`${API_URL}/products/${id}`, {
-      method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return sanitizeDoc(await handleResponse(res, `/products/${id}`));
+    return sanitizeDoc(await request(`/products/${id}`, { method: 'PUT', body: data }));
   },
 
   delete: async (id: string) => {
-    const res = await fetch(`${API_URL}/products/${id}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    });
-    return handleResponse(res, `/products/${id}`);
+    return request(`/products/${id}`, { method: 'DELETE' });
   },
 
   search: async (q: string) => {
     if (!q?.trim()) return [];
-    const res = await fetch(`${API_URL}/products/search?q=${encodeURIComponent(q)}`);
-    const data = await handleResponse(res, '/products/search');
-    return sanitizeDocs(Array.isArray(data) ? data : []);
+    const data = await request('/products/search', { query: { q } });
+    return parseList('product', Array.isArray(data) ? data : [], '/products/search');
   },
 
-  pickStock: async (productId: string, quantity: number, description?: string) => {
-    const res = await fetch(`${API_URL}/products/${productId}/pick`, {
+  /** The key is only a hint: the simulator answers a repeat with the earlier pick, other backends ignore it */
+  pickStock: async (productId: string, quantity: number, description?: string, idempotencyKey?: string) => {
+    return request(`/products/${productId}/pick`, {
       method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify({ quantity, description }),
+      body: { quantity, description, idempotency_key: idempotencyKey },
     });
-    return handleResponse(res, `/products/${productId}/pick`);
   },
 
   returnStock: async (productId: string, quantity: number, description?: string) => {
-    const res = await fetch(`${API_URL}/products/return`, {
+    return request('/products/return', {
       method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify({ product_id: productId, quantity, description }),
+      body: { product_id: productId, quantity, description },
     });
-    return handleResponse(res, '/products/return');
   },
 
   adjustStock: async (productId: string, newQuantity: number, reason?: string) => {
-    const res = await fetch(`${API_URL}/products/adjust`, {
+    return request('/products/adjust', {
       method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify({ product_id: productId, new_quantity: newQuantity, reason }),
+      body: { product_id: productId, new_quantity: newQuantity, reason },
     });
-    return handleResponse(res, '/products/adjust');
   },
 
   getTransactions: async (productId: string) => {
-    const res = await fetch(`${API_URL}/products/${productId}/transactions`, {
-      headers: getHeaders(),
-    });
-    const data = await handleResponse(res, `/products/${productId}/transactions`);
-    return sanitizeDocs(Array.isArray(data) ? data : data.transactions || []);
+    const data = await request(`/products/${productId}/transactions`);
+    return parseList('productTransaction', data, `/products/${productId}/transactions`, 'transactions');
   },
 
   uploadImage: async (productId: string, file: File) => {
     const formData = new FormData();
     formData.append('image', file);
-    const res = await fetch(`${API_URL}/products/${productId}/images`, {
+    return request(`/products/${productId}/images`, {
       method: 'POST',
-      headers: { Authorization: `Bearer ${getToken()}` },
       body: formData,
+      timeoutMs: 60000,
     });
-    return handleResponse(res, `/products/${productId}/images`);
   },
 
   deleteImage: async (productId: string, index: number) => {
-    const res = await fetch(`${API_URL}/products/${productId}/images/${index}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    });
-    return handleResponse(res, `/products/${productId}/images/${index}`);
+    return request(`/products/${productId}/images/${index}`, { method: 'DELETE' });
   },
 
   setMainImage: async (productId: string, imageUrl: string) => {
-    const res = await fetch(`${API_URL}/products/${productId}/images/set-main`, {
+    return request(`/products/${productId}/images/set-main`, {
       method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify({ image_url: imageUrl }),
+      body: { image_url: imageUrl },
     });
-    return handleResponse(res, `/products/${productId}/images/set-main`);
   },
 
   getImages: async (productId: string) => {
-    const res = await fetch(`${API_URL}/products/${productId}/images`);
-    const data = await handleResponse(res, `/products/${productId}/images`);
+    const data = await request<{ images?: string[] } | string[]>(`/products/${productId}/images`);
     return Array.isArray(data) ? data : data.images || [];
   },
 };
 
+// Robot commands answer within the caller's acknowledgement window
+type CommandOptions = Pick<RequestOptions, 'timeoutMs'>;
+
 // Robots API
 export const robots = {
   list: async () => {
-    const res = await fetch(`${API_URL}/robots`);
-    const data = await handleResponse(res, '/robots');
-    return sanitizeDocs(Array.isArray(data) ? data : data.results || []);
+    const data = await request('/robots');
+    return parseList('robot', data, '/robots');
   },
 
   get: async (id: string) => {
-    const res = await fetch(`${API_URL}/robots/${id}`);
-    return sanitizeDoc(await handleResponse(res, `/robots/${id}`));
+    return parseOne('robot', await request(`/robots/${id}`), `/robots/${id}`);
   },
 
   create: async (data: any) => {
-    const res = await fetch(`${API_URL}/robots`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return sanitizeDoc(await handleResponse(res, '/robots'));
+    return sanitizeDoc(await request('/robots', { method: 'POST', body: data }));
   },
 
   update: async (id: string, data: any) => {
-    const res = await fetch(`${API_URL}/robots/${id}`, {
-      method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return sanitizeDoc(await handleResponse(res, `/robots/${id}`));
+    return sanitizeDoc(await request(`/robots/${id}`, { method: 'PUT', body: data }));
   },
 
   delete: async (id: string) => {
-    const res = await fetch(`${API_URL}/robots/${id}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    });
-    return handleResponse(res, `/robots/${id}`);
+    return request(`/robots/${id}`, { method: 'DELETE' });
+  },
+
+  // Telemetry samples (InfluxDB) between two ISO timestamps, oldest first
+  getTelemetry: async (id: string, range: { start?: string; end?: string } = {}): Promise<RobotTelemetry[]> => {
+    const data = await request(`/robots/${id}/telemetry`, { query: range });
+    return parseList('robotTelemetry', data, `/robots/${id}/telemetry`, 'telemetry');
+  },
+
+  // Send an idle robot to a pose or to a zone's pose; `charge` keeps it there until full
+  goTo: async (id: string, target: RobotGoToInput, options: CommandOptions = {}) => {
+    return request(`/robots/${id}/goto`, { ...options, method: 'POST', body: target });
+  },
+
+  // Hold the robot (and its task) where it is until resumed
+  pause: async (id: string, options: CommandOptions = {}) => {
+    return request(`/robots/${id}/pause`, { ...options, method: 'POST' });
+  },
+
+  resume: async (id: string, options: CommandOptions = {}) => {
+    return request(`/robots/${id}/resume`, { ...options, method: 'POST' });
+  },
+
+  // Fails the current task and keeps the robot stopped until resumed
+  emergencyStop: async (id: string, options: CommandOptions = {}) => {
+    return request(`/robots/${id}/estop`, { ...options, method: 'POST' });
+  },
+
+  // Set the attached shelf down where the robot is
+  releaseShelf: async (id: string, options: CommandOptions = {}) => {
+    return request(`/robots/${id}/release-shelf`, { ...options, method: 'POST' });
   },
 };
 import type {
@@ -309,17 +282,15 @@ export const shelves = {
   // LIST ALL SHELVES
   // -------------------------------------
   list: async (): Promise<Shelf[]> => {
-    const res = await fetch(`${API_URL}/shelves`);
-    const data = await handleResponse(res, '/shelves');
-    return sanitizeDocs(Array.isArray(data) ? data : data.results || []);
+    const data = await request('/shelves');
+    return parseList('shelf', data, '/shelves');
   },
 
   // -------------------------------------
   // GET SINGLE SHELF
   // -------------------------------------
   get: async (id: string): Promise<Shelf> => {
-    const res = await fetch(`${API_URL}/shelves/${id}`);
-    return sanitizeDoc(await handleResponse(res, `/shelves/${id}`));
+    return parseOne('shelf', await request(`/shelves/${id}`), `/shelves/${id}`);
   },
 
   // -------------------------------------
@@ -362,21 +333,12 @@ export const shelves = {
 
     console.log('[Shelves API] Creating shelf with payload:', payload);
 
-    const res = await fetch(`${API_URL}/shelves`, {
+    const responseData = await request('/shelves', {
       method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to create shelf',
     });
 
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to create shelf');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
     return sanitizeDoc(responseData);
   },
 
@@ -401,21 +363,12 @@ export const shelves = {
 
     console.log('[Shelves API] Updating shelf with payload:', payload);
 
-    const res = await fetch(`${API_URL}/shelves/${id}`, {
+    const responseData = await request(`/shelves/${id}`, {
       method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to update shelf',
     });
 
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to update shelf');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
     return sanitizeDoc(responseData);
   },
 
@@ -447,21 +400,12 @@ export const shelves = {
 
     console.log('[Shelves API] Updating location for shelf', id, ':', payload);
 
-    const res = await fetch(`${API_URL}/shelves/${id}/location`, {
+    const responseData = await request(`/shelves/${id}/location`, {
       method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to update location',
     });
 
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to update location');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
     return sanitizeDoc(responseData);
   },
 
@@ -473,42 +417,20 @@ export const shelves = {
   restoreToStorage: async (id: string): Promise<any> => {
     console.log('[Shelves API] Restoring shelf', id, 'to storage location');
 
-    const res = await fetch(`${API_URL}/shelves/${id}/restore-location`, {
+    return request(`/shelves/${id}/restore-location`, {
       method: 'PUT',
-      headers: getHeaders(),
+      errorMessage: 'Failed to restore shelf',
     });
-
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to restore shelf');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
-    return responseData;
   },
 
   // Alias for restoreToStorage (POST variant)
   restore: async (id: string): Promise<any> => {
     console.log('[Shelves API] Restoring shelf', id, '(POST variant)');
 
-    const res = await fetch(`${API_URL}/shelves/${id}/restore`, {
+    return request(`/shelves/${id}/restore`, {
       method: 'POST',
-      headers: getHeaders(),
+      errorMessage: 'Failed to restore shelf',
     });
-
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to restore shelf');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
-    return responseData;
   },
 
   // Update shelf current location (for manual corrections or task updates)
@@ -539,21 +461,12 @@ export const shelves = {
 
     console.log('[Shelves API] Updating current location for shelf', id, ':', payload);
 
-    const res = await fetch(`${API_URL}/shelves/${id}/location`, {
+    const responseData = await request(`/shelves/${id}/location`, {
       method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to update location',
     });
 
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to update location');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
     return sanitizeDoc(responseData);
   },
 
@@ -582,22 +495,11 @@ export const shelves = {
 
     console.log('[Shelves API] Setting storage location for shelf', id, ':', payload);
 
-    const res = await fetch(`${API_URL}/shelves/${id}/storage`, {
+    return request(`/shelves/${id}/storage`, {
       method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to set storage location',
     });
-
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to set storage location');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
-    return responseData;
   },
 
   // -------------------------------------
@@ -605,8 +507,7 @@ export const shelves = {
   // Returns both current and storage location info for a shelf
   // -------------------------------------
   getLocationInfo: async (id: string): Promise<ShelfLocationInfo> => {
-    const res = await fetch(`${API_URL}/shelves/${id}/location-info`);
-    return handleResponse(res, `/shelves/${id}/location-info`);
+    return request(`/shelves/${id}/location-info`);
   },
 
   // -------------------------------------
@@ -618,10 +519,7 @@ export const shelves = {
     id: string,
     limit: number = 50
   ): Promise<{ shelf_id: string; history: LocationHistoryEntry[] }> => {
-    const res = await fetch(
-      `${API_URL}/shelves/${id}/location-history?limit=${limit}`
-    );
-    return handleResponse(res, `/shelves/${id}/location-history`);
+    return request(`/shelves/${id}/location-history`, { query: { limit } });
   },
 
   // -------------------------------------
@@ -632,19 +530,11 @@ export const shelves = {
   restoreToStorageLocation: async (id: string): Promise<Shelf> => {
     console.log('[Shelves API] Restoring shelf', id, 'to storage location');
 
-    const res = await fetch(`${API_URL}/shelves/${id}/restore`, {
+    const responseData = await request(`/shelves/${id}/restore`, {
       method: 'POST',
-      headers: getHeaders(),
+      errorMessage: 'Failed to restore shelf',
     });
 
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to restore shelf');
-      error.status = res.status;
-      throw error;
-    }
-
     return sanitizeDoc(responseData);
   },
 
@@ -655,20 +545,10 @@ export const shelves = {
   delete: async (id: string): Promise<any> => {
     console.log('[Shelves API] Deleting shelf', id);
 
-    const res = await fetch(`${API_URL}/shelves/${id}`, {
+    return request(`/shelves/${id}`, {
       method: 'DELETE',
-      headers: getHeaders(),
+      errorMessage: 'Failed to delete shelf',
     });
-
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to delete shelf');
-      error.status = res.status;
-      throw error;
-    }
-
-    return responseData;
   },
 
   // -------------------------------------
@@ -676,127 +556,68 @@ export const shelves = {
   // Returns all products stored on this shelf
   // -------------------------------------
   getProducts: async (id: string): Promise<Product[]> => {
-    const res = await fetch(`${API_URL}/shelves/${id}/products`, {
-      headers: getHeaders(),
-    });
-
-    const data = await handleResponse(res, `/shelves/${id}/products`);
-    return sanitizeDocs(Array.isArray(data) ? data : data.products || []);
+    const data = await request(`/shelves/${id}/products`);
+    return parseList('product', data, `/shelves/${id}/products`, 'products');
   },
 };
 
 // Zones API
 export const zones = {
   list: async () => {
-    const res = await fetch(`${API_URL}/zones`);
-    const data = await handleResponse(res, '/zones');
-    return sanitizeDocs(Array.isArray(data) ? data : data.results || []);
+    const data = await request('/zones');
+    return parseList('zone', data, '/zones');
   },
 
   get: async (id: string) => {
-    const res = await fetch(`${API_URL}/zones/${id}`);
-    return sanitizeDoc(await handleResponse(res, `/zones/${id}`));
+    return parseOne('zone', await request(`/zones/${id}`), `/zones/${id}`);
   },
 
   create: async (data: any) => {
-    const res = await fetch(`${API_URL}/zones`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return sanitizeDoc(await handleResponse(res, '/zones'));
+    return sanitizeDoc(await request('/zones', { method: 'POST', body: data }));
   },
 
   update: async (id: string, data: any) => {
-    const res = await fetch(`${API_URL}/zones/${id}`, {
-      method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return sanitizeDoc(await handleResponse(res, `/zones/${id}`));
+    return sanitizeDoc(await request(`/zones/${id}`, { method: 'PUT', body: data }));
   },
 
   delete: async (id: string) => {
-    const res = await fetch(`${API_URL}/zones/${id}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    });
-    return handleResponse(res, `/zones/${id}`);
+    return request(`/zones/${id}`, { method: 'DELETE' });
   },
 
   getShelves: async (id: string) => {
-    const res = await fetch(`${API_URL}/zones/${id}/shelves`, {
-      headers: getHeaders(),
-    });
-    const data = await handleResponse(res, `/zones/${id}/shelves`);
-    return sanitizeDocs(Array.isArray(data) ? data : data.shelves || []);
+    const data = await request(`/zones/${id}/shelves`);
+    return parseList('shelf', data, `/zones/${id}/shelves`, 'shelves');
   },
 };
 
 
 // Dashboard API
 export const dashboard = {
-  topMoving: async () => {
-    const res = await fetch(`${API_URL}/dashboard/top-moving`);
-    return handleResponse(res, '/dashboard/top-moving');
-  },
+  topMoving: async () => request('/dashboard/top-moving'),
 
-  shelves: async () => {
-    const res = await fetch(`${API_URL}/dashboard/shelves`);
-    return handleResponse(res, '/dashboard/shelves');
-  },
+  shelves: async () => request('/dashboard/shelves'),
 
-  daily: async () => {
-    const res = await fetch(`${API_URL}/dashboard/daily`);
-    return handleResponse(res, '/dashboard/daily');
-  },
+  daily: async () => request('/dashboard/daily'),
 
-  liveTasks: async () => {
-    const res = await fetch(`${API_URL}/dashboard/live/tasks`);
-    return handleResponse(res, '/dashboard/live/tasks');
-  },
+  liveTasks: async () => request('/dashboard/live/tasks'),
 
-  liveRobots: async () => {
-    const res = await fetch(`${API_URL}/dashboard/live/robots`);
-    return handleResponse(res, '/dashboard/live/robots');
-  },
+  liveRobots: async () => request('/dashboard/live/robots'),
 
-  liveSystem: async () => {
-    const res = await fetch(`${API_URL}/dashboard/live/system`);
-    return handleResponse(res, '/dashboard/live/system');
-  },
+  liveSystem: async () => request('/dashboard/live/system'),
 
-  taskStats: async () => {
-    const res = await fetch(`${API_URL}/tasks/stats/live`);
-    return handleResponse(res, '/tasks/stats/live');
-  },
+  taskStats: async () => request('/tasks/stats/live'),
 };
 
 // Maps API
 export const maps = {
   // Get complete map data with all entities
-  getData: async () => {
-    const res = await fetch(`${API_URL}/maps/data`, {
-      headers: getHeaders(),
-    });
-    return handleResponse(res, '/maps/data');
-  },
+  getData: async () => request('/maps/data'),
 
   // Get merged occupancy grid (legacy endpoint)
-  getMerged: async () => {
-    const res = await fetch(`${API_URL}/maps/merged`, {
-      headers: getHeaders(),
-    });
-    return handleResponse(res, '/maps/merged');
-  },
+  getMerged: async () => request('/maps/merged'),
 
   // Get map metadata only (dimensions, resolution, origin)
-  getMetadata: async () => {
-    const res = await fetch(`${API_URL}/maps/metadata`, {
-      headers: getHeaders(),
-    });
-    return handleResponse(res, '/maps/metadata');
-  },
+  getMetadata: async () => request('/maps/metadata'),
 
   // Update map metadata (admin only)
   updateMetadata: async (metadata: {
@@ -805,57 +626,36 @@ export const maps = {
     resolution?: number;
     origin?: { x: number; y: number };
   }) => {
-    const res = await fetch(`${API_URL}/maps/metadata`, {
-      method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(metadata),
-    });
-    return handleResponse(res, '/maps/metadata');
+    return request('/maps/metadata', { method: 'PUT', body: metadata });
   },
 
   // Get occupancy grid only
-  getOccupancyGrid: async () => {
-    const res = await fetch(`${API_URL}/maps/occupancy-grid`, {
-      headers: getHeaders(),
-    });
-    return handleResponse(res, '/maps/occupancy-grid');
-  },
+  getOccupancyGrid: async () => request('/maps/occupancy-grid'),
 };
 
 // Real-time task endpoints
 export const realtimeTasks = {
   updatePosition: async (id: string, position: { x: number; y: number; yaw?: number }) => {
-    const res = await fetch(`${API_URL}/tasks/realtime/${id}/position`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(position),
-    });
-    return handleResponse(res, `/tasks/realtime/${id}/position`);
+    return request(`/tasks/realtime/${id}/position`, { method: 'POST', body: position });
   },
 
   updateStatus: async (id: string, status: string) => {
-    const res = await fetch(`${API_URL}/tasks/realtime/${id}/status`, {
-      method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify({ status }),
-    });
-    return handleResponse(res, `/tasks/realtime/${id}/status`);
+    return request(`/tasks/realtime/${id}/status`, { method: 'PUT', body: { status } });
   },
 
   getForMap: async (id: string) => {
-    const res = await fetch(`${API_URL}/tasks/realtime/${id}`);
-    return sanitizeDoc(await handleResponse(res, `/tasks/realtime/${id}`));
+    return sanitizeDoc(await request(`/tasks/realtime/${id}`));
   },
 
   getAllForMap: async () => {
-    const res = await fetch(`${API_URL}/tasks/realtime/map/all`);
-    const data = await handleResponse(res, '/tasks/realtime/map/all');
+    const data = await request<{ tasks?: TaskMapView[] } | TaskMapView[]>('/tasks/realtime/map/all');
     return sanitizeDocs(Array.isArray(data) ? data : data.tasks || []);
   },
 
-  getRobotTasks: async (robotId: string) => {
-    const res = await fetch(`${API_URL}/tasks/realtime/map/robot/${robotId}`);
-    const data = await handleResponse(res, `/tasks/realtime/map/robot/${robotId}`);
+  getRobotTasks: async (robotId: string): Promise<RealtimeTaskView[]> => {
+    const data = await request<{ tasks?: RealtimeTaskView[] } | RealtimeTaskView[]>(
+      `/tasks/realtime/map/robot/${robotId}`
+    );
     return sanitizeDocs(Array.isArray(data) ? data : data.tasks || []);
   },
 };
@@ -877,20 +677,46 @@ export const tasks = {
     limit?: number;
     offset?: number;
   }): Promise<Task[]> => {
-    const params = new URLSearchParams();
-    if (filters?.status) params.append('status', filters.status);
-    if (filters?.robot_id) params.append('robot_id', filters.robot_id);
-    if (filters?.shelf_id) params.append('shelf_id', filters.shelf_id);
-    if (filters?.limit) params.append('limit', String(filters.limit));
-    if (filters?.offset) params.append('offset', String(filters.offset));
-
-    const url = params.toString()
-      ? `${API_URL}/tasks?${params.toString()}`
-      : `${API_URL}/tasks`;
-
-    const res = await fetch(url);
-    const data = await handleResponse(res, '/tasks');
-    return sanitizeDocs(Array.isArray(data) ? data : data.results || []);
+    const data = await request('/tasks', {
+      query: {
+        status: filters?.status,
+        robot_id: filters?.robot_id,
+        shelf_id: filters?.shelf_id,
+        limit: filters?.limit || undefined,
+        offset: filters?.offset || undefined,
+      },
+    });
+    return parseList('task', data, '/tasks');
+  },
+
+  // -------------------------------------
+  // QUERY TASKS (ONE PAGE)
+  // The backend filters by one status, robot and shelf only;
+  // see isServerQuery (lib/taskFilters.ts) for what it can page
+  // The backend sends no total, so one row past the page is
+  // asked for to tell whether another page follows
+  // -------------------------------------
+  query: async (params: TaskListParams = {}): Promise<PaginatedResponse<Task>> => {
+    const { filter = {}, limit, offset = 0 } = params;
+    const data = await request('/tasks', {
+      query: {
+        status: filter.status?.length === 1 ? filter.status[0] : undefined,
+        robot_id: filter.robot_id,
+        shelf_id: filter.shelf_id,
+        limit: limit ? limit + 1 : undefined,
+        offset: offset || undefined,
+      },
+    });
+    const rows = parseList('task', data, '/tasks');
+    const items = limit ? rows.slice(0, limit) : rows;
+    const total = Number((data as { total?: unknown })?.total);
+    return {
+      items,
+      total: Number.isFinite(total) ? total : undefined,
+      hasMore: Number.isFinite(total) ? offset + items.length < total : rows.length > items.length,
+      page: limit ? Math.floor(offset / limit) + 1 : 1,
+      limit: limit ?? items.length,
+    };
   },
 
   // -------------------------------------
@@ -898,8 +724,7 @@ export const tasks = {
   // Includes state history
   // -------------------------------------
   get: async (id: string): Promise<Task> => {
-    const res = await fetch(`${API_URL}/tasks/${id}`);
-    return sanitizeDoc(await handleResponse(res, `/tasks/${id}`));
+    return parseOne('task', await request(`/tasks/${id}`), `/tasks/${id}`);
   },
 
   // -------------------------------------
@@ -937,21 +762,12 @@ export const tasks = {
 
     console.log('[Tasks API] Creating task with payload:', JSON.stringify(payload, null, 2));
 
-    const res = await fetch(`${API_URL}/tasks/assign`, {
+    const responseData = await request('/tasks/assign', {
       method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to create task',
     });
 
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to create task');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
     return sanitizeDoc(responseData);
   },
 
@@ -962,7 +778,7 @@ export const tasks = {
   updateStatus: async (
     id: string,
     new_status: TaskStatus,
-    metadata?: { old_status?: TaskStatus; current_target?: string }
+    metadata?: { old_status?: TaskStatus; current_target?: string; robot_id?: string; message?: string }
   ): Promise<Task> => {
     const payload: any = {
       new_status: String(new_status).toUpperCase(),
@@ -974,24 +790,23 @@ export const tasks = {
     if (metadata?.current_target) {
       payload.current_target = metadata.current_target;
     }
+    // ASSIGNED with a robot hands the task to that robot
+    if (metadata?.robot_id) {
+      payload.robot_id = metadata.robot_id;
+    }
+    // Kept on the status history entry; with an unchanged status it is a note
+    if (metadata?.message) {
+      payload.message = metadata.message;
+    }
 
     console.log('[Tasks API] Updating task status:', JSON.stringify(payload, null, 2));
 
-    const res = await fetch(`${API_URL}/tasks/realtime/${id}/status`, {
+    const responseData = await request(`/tasks/realtime/${id}/status`, {
       method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to update task',
     });
 
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to update task');
-      error.status = res.status;
-      error.details = responseData?.details || [];
-      throw error;
-    }
-
     return sanitizeDoc(responseData);
   },
 
@@ -1021,21 +836,11 @@ export const tasks = {
 
     console.log('[Tasks API] Updating robot position:', payload);
 
-    const res = await fetch(`${API_URL}/tasks/realtime/${id}/position`, {
+    return request(`/tasks/realtime/${id}/position`, {
       method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(payload),
+      body: payload,
+      errorMessage: 'Failed to update robot position',
     });
-
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to update robot position');
-      error.status = res.status;
-      throw error;
-    }
-
-    return responseData;
   },
 
   // -------------------------------------
@@ -1044,11 +849,7 @@ export const tasks = {
   // and robot position for real-time visualization
   // -------------------------------------
   getTaskMapView: async (id: string): Promise<any> => {
-    const res = await fetch(`${API_URL}/tasks/realtime/${id}`, {
-      headers: getHeaders(),
-    });
-
-    const data = await handleResponse(res, `/tasks/realtime/${id}`);
+    const data = await request<{ task?: TaskMapView }>(`/tasks/realtime/${id}`);
     return data?.task || data;
   },
 
@@ -1057,11 +858,7 @@ export const tasks = {
   // Returns all tasks in progress for map display
   // -------------------------------------
   getAllTasksMapView: async (): Promise<any[]> => {
-    const res = await fetch(`${API_URL}/tasks/realtime/map/all`, {
-      headers: getHeaders(),
-    });
-
-    const data = await handleResponse(res, '/tasks/realtime/map/all');
+    const data = await request<{ tasks?: TaskMapView[] }>('/tasks/realtime/map/all');
     return data?.tasks || [];
   },
 
@@ -1070,11 +867,7 @@ export const tasks = {
   // Returns all tasks assigned to a specific robot
   // -------------------------------------
   getRobotTasks: async (robot_id: string): Promise<any[]> => {
-    const res = await fetch(`${API_URL}/tasks/realtime/map/robot/${robot_id}`, {
-      headers: getHeaders(),
-    });
-
-    const data = await handleResponse(res, `/tasks/realtime/map/robot/${robot_id}`);
+    const data = await request<{ tasks?: TaskMapView[] }>(`/tasks/realtime/map/robot/${robot_id}`);
     return data?.tasks || [];
   },
 
@@ -1097,20 +890,10 @@ export const tasks = {
   delete: async (id: string): Promise<any> => {
     console.log('[Tasks API] Deleting task', id);
 
-    const res = await fetch(`${API_URL}/tasks/${id}`, {
+    return request(`/tasks/${id}`, {
       method: 'DELETE',
-      headers: getHeaders(),
+      errorMessage: 'Failed to delete task',
     });
-
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to delete task');
-      error.status = res.status;
-      throw error;
-    }
-
-    return responseData;
   },
 
   // -------------------------------------
@@ -1134,9 +917,7 @@ export const tasks = {
     };
     timestamp: string;
   }> => {
-    const res = await fetch(`${API_URL}/tasks/stats/live`);
-    const data = await handleResponse(res, '/tasks/stats/live');
-    return data;
+    return request('/tasks/stats/live');
   },
 
   // -------------------------------------
@@ -1145,19 +926,9 @@ export const tasks = {
   // Useful for syncing state after batch updates
   // -------------------------------------
   broadcastMapUpdate: async (): Promise<any> => {
-    const res = await fetch(`${API_URL}/tasks/realtime/broadcast-map-update`, {
+    return request('/tasks/realtime/broadcast-map-update', {
       method: 'POST',
-      headers: getHeaders(),
+      errorMessage: 'Failed to broadcast map update',
     });
-
-    const responseData = await res.json();
-
-    if (!res.ok) {
-      const error: any = new Error(responseData?.error || 'Failed to broadcast map update');
-      error.status = res.status;
-      throw error;
-    }
-
-    return responseData;
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,171 @@
+/**
+ * Keeps the entity cache (stores/entityStore.ts) in sync with the backend.
+ *
+ * - One REST load on start
+ * - WebSocket events are applied as patches
+ * - A slow REST poll runs ONLY while the socket is disconnected
+ * - A full reload happens once when the socket reconnects
+ *
+ * Start/stop are ref-counted so any number of components can mount it.
+ */
+import { findRobotKey, unwrapTaskPayload, useEntityStore } from '@/stores/entityStore';
+import { useTaskEventStore } from '@/stores/taskEventStore';
+import { useTelemetryStore } from '@/stores/telemetryStore';
+import { TELEMETRY_METRICS, toSample } from '@/lib/telemetry';
+import { isSocketConnected, on, onConnectionChange } from '@/services/websocket';
+import { watchFulfilment } from '@/services/fulfilmentSync';
+import { watchShelfReturns } from '@/services/shelfReturnSync';
+import { watchSchedules } from '@/services/taskScheduler';
+import { watchWorkflows } from '@/services/workflowRunner';
+import { watchFleetAlerts } from '@/services/fleetAlerts';
+import { watchNotifications } from '@/services/notifications';
+import type { RobotUpdateEvent, TaskStatus, TaskUpdateEvent } from '@/types';
+
+/** Poll interval used while the socket is down */
+export const FALLBACK_POLL_MS = 10000;
+
+let refCount = 0;
+let teardown: (() => void) | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+const startFallbackPoll = () => {
+  if (pollTimer) return;
+  pollTimer = setInterval(() => {
+    useEntityStore.getState().load({ silent: true });
+  }, FALLBACK_POLL_MS);
+};
+
+const stopFallbackPoll = () => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
+
+const handleConnectionChange = (connected: boolean) => {
+  const store = useEntityStore.getState();
+  const wasConnected = store.socketConnected;
+  store.setSocketConnected(connected);
+
+  if (connected) {
+    stopFallbackPoll();
+    // Catch up on anything missed while offline
+    if (!wasConnected && store.loaded) store.load({ silent: true });
+  } else {
+    startFallbackPoll();
+  }
+};
+
+// Log the status change and robot position a task_update carries before
+// it is applied to the cache
+const handleTaskUpdate = (data: TaskUpdateEvent) => {
+  const store = useEntityStore.getState();
+  const events = useTaskEventStore.getState();
+  const patch = unwrapTaskPayload(data);
+  if (!patch) return;
+
+  const existing = store.tasks[patch.id as string];
+  if (existing && typeof patch.status === 'string') {
+    events.record({
+      taskId: existing.id,
+      taskType: existing.task_type,
+      from: existing.status,
+      to: patch.status as TaskStatus,
+      source: 'socket',
+    });
+  }
+  const x = Number(patch.current_robot_x);
+  const y = Number(patch.current_robot_y);
+  if (patch.current_robot_x != null && patch.current_robot_y != null && Number.isFinite(x) && Number.isFinite(y)) {
+    events.recordPosition(patch.id as string, x, y);
+  }
+  store.applyTaskUpdate(data);
+};
+
+// Apply the patch, note that the robot was heard from, and keep any sensor
+// readings it carries for the robot's telemetry charts
+const handleRobotUpdate = (data: RobotUpdateEvent) => {
+  const store = useEntityStore.getState();
+  store.applyRobotUpdate({ ...data });
+  const key = findRobotKey(store.robots, { ...data });
+  if (!key) return;
+  if (TELEMETRY_METRICS.every(({ key: metric }) => data[metric] === undefined)) {
+    useTelemetryStore.getState().seen(key);
+  } else {
+    useTelemetryStore.getState().push(key, toSample(data));
+  }
+};
+
+const start = () => {
+  const store = useEntityStore.getState();
+  if (!store.loaded && !store.loading) store.load();
+  // Robots not heard from count as quiet from now on
+  useTelemetryStore.getState().track();
+
+  // telemetry and robot_position_update are re-dispatched as robot_update
+  const unsubscribers = [
+    on('robot_update', handleRobotUpdate),
+    on('shelf_update', (data) => useEntityStore.getState().applyShelfUpdate({ ...data })),
+    on('shelf_location_update', (data) => useEntityStore.getState().applyShelfUpdate({ ...data })),
+    on('task_update', handleTaskUpdate),
+    // Only the task fields; the event's robot_id/timestamp are not task data
+    on('task_progress_update', ({ task_id, robot_id, status, current_robot_x, current_robot_y }) => {
+      // A position report, so the robot is alive too
+      const key = robot_id && findRobotKey(useEntityStore.getState().robots, { robot_id });
+      if (key) useTelemetryStore.getState().seen(key);
+      handleTaskUpdate(
+        Object.fromEntries(
+          Object.entries({ task_id, status, current_robot_x, current_robot_y }).filter(([, v]) => v !== undefined)
+        )
+      );
+    }),
+    on('tasks_update', (data) => {
+      const list = Array.isArray(data) ? data : data?.tasks;
+      if (Array.isArray(list)) useEntityStore.getState().replaceTasks(list);
+    }),
+    on('shelf_deleted', (data) => {
+      const id = data?.shelf_id || data?.id;
+      if (id) useEntityStore.getState().remove('shelves', id);
+    }),
+    onConnectionChange(handleConnectionChange),
+    // Pick fulfilment stock as tasks reach their drop zone
+    watchFulfilment(),
+    // Send delivered shelves home as their zone's return policy says
+    watchShelfReturns(),
+    // Fire scheduled and recurring tasks as they come due
+    watchSchedules(),
+    // Dispatch workflow steps as the previous one completes
+    watchWorkflows(),
+    // Raise fleet alerts from telemetry and robot state
+    watchFleetAlerts(),
+    // Notify on failed tasks, robot/system health changes and low stock
+    watchNotifications(),
+  ];
+
+  // The socket may already be connected (or still down) when we attach
+  handleConnectionChange(isSocketConnected());
+
+  teardown = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    stopFallbackPoll();
+  };
+};
+
+/**
+ * Start syncing the entity cache. Returns a release function.
+ */
+export const retainEntitySync = () => {
+  refCount += 1;
+  if (refCount === 1) start();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    refCount -= 1;
+    if (refCount === 0 && teardown) {
+      teardown();
+      teardown = null;
+    }
+  };
+};
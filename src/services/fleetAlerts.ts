@@ -0,0 +1,60 @@
+/**
+ * Runs the fleet alert rules (lib/alertRules.ts) of the active connection
+ * profile against the robot cache and live telemetry. Started with the
+ * entity sync; alerts go to the notification center.
+ */
+import { raiseNotification } from '@/services/notifications';
+import { useEntityStore } from '@/stores/entityStore';
+import { useTelemetryStore } from '@/stores/telemetryStore';
+import { getActiveAlertRules } from '@/stores/alertRuleStore';
+import { evaluateAlerts, type AlertState, type FiredAlert, type RobotObservation } from '@/lib/alertRules';
+
+/** How often the rules are evaluated */
+const CHECK_MS = 1000;
+
+let state: AlertState = {};
+
+const observeFleet = (): RobotObservation[] => {
+  const { receivedAt, since } = useTelemetryStore.getState();
+  return Object.entries(useEntityStore.getState().robots).map(([key, robot]) => ({
+    key,
+    name: robot.name || robot.robot_id,
+    status: robot.status,
+    values: {
+      battery_level: robot.battery_level,
+      cpu_usage: robot.cpu_usage,
+      ram_usage: robot.ram_usage,
+      temperature: robot.temperature,
+    },
+    x: robot.current_x ?? robot.x,
+    y: robot.current_y ?? robot.y,
+    // Robots not heard from yet count from when tracking started
+    lastSeen: receivedAt[key] ?? since,
+  }));
+};
+
+const raise = ({ rule, robot, message }: FiredAlert) => {
+  console.warn(`[Alerts] ${rule.name}: ${message}`);
+  raiseNotification({
+    severity: rule.severity,
+    source: 'alert',
+    title: rule.name,
+    message,
+    link: `/robots/${robot.key}`,
+  });
+};
+
+export const checkAlerts = (now = Date.now()) => {
+  // Nothing to judge until the cache has robots
+  if (!useEntityStore.getState().loaded) return;
+  const result = evaluateAlerts(getActiveAlertRules(), observeFleet(), state, now);
+  state = result.state;
+  result.fired.forEach(raise);
+};
+
+/** Evaluate the rules on a timer; returns the stop function */
+export const watchFleetAlerts = () => {
+  state = {};
+  const timer = setInterval(checkAlerts, CHECK_MS);
+  return () => clearInterval(timer);
+};
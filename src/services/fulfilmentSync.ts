@@ -0,0 +1,94 @@
+/**
+ * Picks the stock of fulfilment orders (stores/fulfilmentStore.ts) once
+ * their task reaches the drop zone. Started with the entity sync, so it
+ * follows the same cache that task_update events patch; only picks for
+ * users allowed to move stock.
+ */
+import { products } from '@/services/api';
+import { followOtherTabs, withTabLock } from '@/services/tabLock';
+import { useAuthStore } from '@/stores/authStore';
+import { useEntityStore } from '@/stores/entityStore';
+import { isOrderOpen, useFulfilmentStore, type FulfilmentOrder } from '@/stores/fulfilmentStore';
+import { isReadyToPick } from '@/lib/fulfilment';
+import { hasPermission } from '@/lib/permissions';
+import type { Task } from '@/types';
+
+// Orders with picks in flight in this tab, so a burst of task updates picks once
+const picking = new Set<string>();
+
+const pickOrder = async (order: FulfilmentOrder) => {
+  picking.add(order.taskId);
+  const { setLine } = useFulfilmentStore.getState();
+  try {
+    await withTabLock(`fulfilment-${order.taskId}`, async () => {
+      // Another tab may have picked these lines while this one waited
+      await useFulfilmentStore.persist.rehydrate();
+      const current = useFulfilmentStore.getState().orders.find((o) => o.taskId === order.taskId);
+      if (!current || !isOrderOpen(current)) return;
+
+      for (const line of current.lines) {
+        if (line.pick === 'picked') continue;
+        try {
+          await products.pickStock(
+            line.productId,
+            line.quantity,
+            `Fulfilment task ${order.taskId}`,
+            `fulfilment:${order.taskId}:${line.productId}`
+          );
+          setLine(order.taskId, line.productId, { pick: 'picked', error: undefined });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Pick failed';
+          console.error(`[Fulfilment] Pick of ${line.sku} for task ${order.taskId} failed:`, error);
+          setLine(order.taskId, line.productId, { pick: 'failed', error: message });
+        }
+      }
+    });
+  } finally {
+    picking.delete(order.taskId);
+  }
+};
+
+const canPick = () => hasPermission(useAuthStore.getState().user?.role, 'stock:move');
+
+const check = (tasks: Record<string, Task>) => {
+  if (!canPick()) return;
+  useFulfilmentStore
+    .getState()
+    .orders.filter(isOrderOpen)
+    .forEach((order) => {
+      const task = tasks[order.taskId];
+      if (!task || picking.has(order.taskId)) return;
+      if (task.status === 'CANCELLED') {
+        useFulfilmentStore.getState().cancel(order.taskId);
+      } else if (isReadyToPick(task.status) && order.lines.some((line) => line.pick === 'waiting')) {
+        pickOrder(order);
+      }
+    });
+};
+
+/**
+ * Retry the failed picks of an order. Only does something once its task
+ * has reached the drop zone.
+ */
+export const retryFulfilment = (taskId: string) => {
+  const order = useFulfilmentStore.getState().orders.find((o) => o.taskId === taskId);
+  const task = useEntityStore.getState().tasks[taskId];
+  if (!order || !task || !canPick() || !isReadyToPick(task.status) || picking.has(taskId)) return;
+  pickOrder(order);
+};
+
+/** Watch the task cache; returns the unsubscribe function */
+export const watchFulfilment = () => {
+  // Picks made in another tab must not be undone by this tab's next write
+  const unfollow = followOtherTabs(useFulfilmentStore);
+  // Catch up on tasks that moved on while the app was closed
+  if (useEntityStore.getState().loaded) check(useEntityStore.getState().tasks);
+
+  const unsubscribe = useEntityStore.subscribe((state, prev) => {
+    if (state.tasks !== prev.tasks) check(state.tasks);
+  });
+  return () => {
+    unsubscribe();
+    unfollow();
+  };
+};
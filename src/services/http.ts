@@ -0,0 +1,270 @@
+/**
+ * Request core shared by every API module (services/api.ts, api/mapApi.ts):
+ * base URL, bearer auth, JSON encoding/parsing, timeouts and structured errors
+ */
+import type { ApiError as ApiErrorBody, ValidationErrorDetail } from '@/types';
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+// API Configuration - Set VITE_API_URL in .env or use proxy (trailing slash tolerated)
+export const DEFAULT_API_URL = normalizeBaseUrl((import.meta.env && import.meta.env.VITE_API_URL) || '/api');
+
+// Overridden at runtime by the active connection profile (stores/connectionStore.ts)
+let apiUrl = DEFAULT_API_URL;
+
+export const getApiUrl = () => apiUrl;
+
+export const setApiUrl = (url: string | null) => {
+  apiUrl = url ? normalizeBaseUrl(url) : DEFAULT_API_URL;
+};
+const DEBUG_MODE = import.meta.env.DEV;
+
+/** Requests without an explicit timeout are aborted after this long */
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+// =========================================================
+// TOKEN
+// =========================================================
+
+let token: string | null = localStorage.getItem('token');
+
+export const setToken = (newToken: string | null) => {
+  token = newToken;
+  if (newToken) {
+    localStorage.setItem('token', newToken);
+  } else {
+    localStorage.removeItem('token');
+  }
+};
+
+export const getToken = () => token || localStorage.getItem('token');
+
+// Listeners notified when a request is rejected with 401 (see authStore)
+const unauthorizedListeners = new Set<(endpoint: string) => void>();
+
+/**
+ * Listen for 401 responses from any authenticated endpoint.
+ * Returns an unsubscribe function.
+ */
+export const onUnauthorized = (cb: (endpoint: string) => void) => {
+  unauthorizedListeners.add(cb);
+  return () => {
+    unauthorizedListeners.delete(cb);
+  };
+};
+
+// =========================================================
+// ERRORS
+// =========================================================
+
+/** http: server answered with an error status; the rest never got a response */
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted';
+
+/**
+ * Error thrown by every API call. Carries the backend's error body
+ * (`error`, `details`) alongside the HTTP status and request info.
+ */
+export class ApiError extends Error implements ApiErrorBody {
+  readonly kind: ApiErrorKind;
+  readonly status: number; // 0 when no response was received
+  readonly error: string;
+  readonly details: ValidationErrorDetail[];
+  readonly method: string;
+  readonly endpoint: string;
+
+  constructor(init: {
+    kind: ApiErrorKind;
+    message: string;
+    status?: number;
+    error?: string;
+    details?: ValidationErrorDetail[];
+    method: string;
+    endpoint: string;
+  }) {
+    super(init.message);
+    this.name = 'ApiError';
+    this.kind = init.kind;
+    this.status = init.status ?? 0;
+    this.error = init.error ?? init.message;
+    this.details = init.details ?? [];
+    this.method = init.method;
+    this.endpoint = init.endpoint;
+  }
+
+  /** Field -> message map built from Pydantic-style `details` */
+  get fieldErrors(): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const d of this.details) {
+      const field = d.loc?.[d.loc.length - 1] ?? 'field';
+      fields[String(field)] = d.msg;
+    }
+    return fields;
+  }
+
+  /** Message with validation details appended, for forms and toasts */
+  describe(): string {
+    if (this.details.length === 0) return this.message;
+    const fields = Object.entries(this.fieldErrors)
+      .map(([field, msg]) => `${field}: ${msg}`)
+      .join('; ');
+    return `Validation error - ${fields}`;
+  }
+}
+
+export const isApiError = (err: unknown): err is ApiError => err instanceof ApiError;
+
+// Normalize Flask ({ error, message, details }) and FastAPI ({ detail }) error bodies
+const parseErrorBody = (body: unknown, fallback: string) => {
+  const b = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const detail = b.detail;
+  const message =
+    (typeof b.message === 'string' && b.message) ||
+    (typeof b.error === 'string' && b.error) ||
+    (typeof detail === 'string' && detail) ||
+    fallback;
+  const details = Array.isArray(b.details) ? b.details : Array.isArray(detail) ? detail : [];
+  return {
+    message,
+    error: typeof b.error === 'string' ? b.error : message,
+    details: details as ValidationErrorDetail[],
+  };
+};
+
+// =========================================================
+// REQUEST
+// =========================================================
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Appended as a query string; null/undefined/'' values are skipped */
+  query?: Record<string, QueryValue>;
+  /** JSON-encoded unless it is FormData */
+  body?: unknown;
+  /** Attach the bearer token (default true) */
+  auth?: boolean;
+  timeoutMs?: number;
+  /** Caller cancellation, e.g. from an effect cleanup */
+  signal?: AbortSignal;
+  /** Message used when the error response has none */
+  errorMessage?: string;
+  /** Target another backend than the active one (e.g. testing a profile) */
+  baseUrl?: string;
+}
+
+const buildUrl = (base: string, path: string, query?: Record<string, QueryValue>) => {
+  const params = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') params.append(key, String(value));
+  });
+  const qs = params.toString();
+  return `${base}${path}${qs ? `?${qs}` : ''}`;
+};
+
+/**
+ * In-process replacement for fetch (the fleet simulator, services/simulator).
+ * Receives the path + query string, without the base URL.
+ */
+export type LocalTransport = (path: string, init: RequestInit) => Promise<Response>;
+
+let transport: LocalTransport | null = null;
+
+/** Route requests to an in-process backend instead of the network (null = network) */
+export const setTransport = (next: LocalTransport | null) => {
+  transport = next;
+};
+
+// Empty and non-JSON success bodies resolve to {} (as the old client did)
+const readJson = async (res: Response): Promise<unknown> => {
+  if (res.status === 204) return {};
+  const contentType = res.headers?.get('content-type');
+  if (contentType && !contentType.includes('json')) return {};
+  try {
+    return await res.json();
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Perform an API request and return the parsed JSON body.
+ * Throws ApiError for error statuses, network failures, timeouts and aborts.
+ */
+export async function request<T = unknown>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = 'GET', query, body, auth = true, timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options;
+  const endpoint = path;
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  const isForm = typeof FormData !== 'undefined' && body instanceof FormData;
+  // Always declared for non-form requests: some Flask handlers call get_json() on bodiless POSTs
+  if (!isForm) headers['Content-Type'] = 'application/json';
+  const currentToken = auth ? getToken() : null;
+  if (currentToken) headers['Authorization'] = `Bearer ${currentToken}`;
+
+  // One controller for both the timeout and the caller's signal
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  let res: Response;
+  try {
+    const init: RequestInit = {
+      method,
+      headers,
+      body: body === undefined ? undefined : isForm ? (body as FormData) : JSON.stringify(body),
+      signal: controller.signal,
+    };
+    // An explicit baseUrl always goes over the network (e.g. testing a profile)
+    if (transport && !options.baseUrl) {
+      res = await transport(buildUrl('', path, query), init);
+    } else {
+      const base = options.baseUrl ? normalizeBaseUrl(options.baseUrl) : apiUrl;
+      res = await fetch(buildUrl(base, path, query), init);
+    }
+  } catch (err) {
+    const aborted = controller.signal.aborted;
+    const kind: ApiErrorKind = timedOut ? 'timeout' : aborted ? 'aborted' : 'network';
+    const message =
+      kind === 'timeout'
+        ? `Request timed out after ${timeoutMs}ms`
+        : kind === 'aborted'
+          ? 'Request cancelled'
+          : err instanceof Error
+            ? err.message
+            : 'Network error';
+    if (DEBUG_MODE && kind !== 'aborted') {
+      console.error(`[API] Failed: ${method} ${endpoint}`, { kind, message });
+    }
+    throw new ApiError({ kind, message, method, endpoint });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  // Login/refresh failures are reported to the caller, not treated as an expired session
+  if (res.status === 401 && !endpoint.startsWith('/auth/')) {
+    unauthorizedListeners.forEach((cb) => cb(endpoint));
+  }
+
+  const data = await readJson(res);
+
+  if (!res.ok) {
+    const fallback = options.errorMessage || `API Error: ${res.status} ${res.statusText}`;
+    const parsed = parseErrorBody(data, fallback);
+
+    if (DEBUG_MODE) {
+      console.error(`[API] Failed: ${method} ${endpoint}`, { status: res.status, message: parsed.message });
+    }
+
+    throw new ApiError({ kind: 'http', status: res.status, method, endpoint, ...parsed });
+  }
+
+  return data as T;
+}
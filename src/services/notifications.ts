@@ -0,0 +1,113 @@
+/**
+ * Feeds the notification center (stores/notificationStore.ts): watches the
+ * entity cache for failed tasks and robots going OFFLINE/ERROR, system_update
+ * for health changes, and product stock for low levels. Started with the
+ * entity sync. Every notification also shows a toast; critical ones can
+ * raise a browser popup. Each open tab sees the same changes, so the first
+ * tab to raise a notification does so for all of them.
+ */
+import { toast } from '@/components/ui/sonner';
+import { products } from '@/services/api';
+import { on } from '@/services/websocket';
+import { useEntityStore } from '@/stores/entityStore';
+import { useNotificationStore } from '@/stores/notificationStore';
+import { followOtherTabs, withTabLock } from '@/services/tabLock';
+import {
+  healthNotice,
+  isDuplicateNotice,
+  lowStockNotices,
+  robotStatusNotice,
+  taskFailureNotice,
+  type NotificationInput,
+} from '@/lib/notifications';
+import type { LiveSystemHealth, Product } from '@/types';
+
+/** How often product stock is checked */
+const STOCK_CHECK_MS = 60000;
+
+let lastHealth: LiveSystemHealth | undefined;
+// Products low at the last check; null until the first check sets the baseline
+let lowProducts: Set<string> | null = null;
+
+const browserPopup = (title: string, body: string, tag: string) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const popup = new Notification(title, { body, tag });
+  popup.onclick = () => window.focus();
+};
+
+const raise = async (input: NotificationInput) => {
+  await useNotificationStore.persist.rehydrate();
+  if (isDuplicateNotice(useNotificationStore.getState().notifications, input)) return null;
+  const notification = useNotificationStore.getState().notify(input);
+  if (!notification) return null;
+
+  const show = input.severity === 'critical' ? toast.error : input.severity === 'warning' ? toast.warning : toast.info;
+  show(input.title, { description: input.message });
+  if (input.severity === 'critical' && useNotificationStore.getState().prefs.browser) {
+    browserPopup(input.title, input.message, notification.id);
+  }
+  return notification;
+};
+
+export const raiseNotification = (input: NotificationInput) =>
+  withTabLock('notifications', () => raise(input)).catch((err) => {
+    console.warn('[Notifications] Failed to raise notification:', err);
+    return null;
+  });
+
+/** Notify for products that have just become low; the first call only sets the baseline */
+export const checkStockLevels = (list: Product[]) => {
+  const { lowStockThreshold } = useNotificationStore.getState().prefs;
+  const { notices, low } = lowStockNotices(list, lowStockThreshold, lowProducts ?? new Set());
+  const baseline = lowProducts === null;
+  lowProducts = low;
+  if (!baseline) notices.forEach(raiseNotification);
+};
+
+const pollStock = async () => {
+  try {
+    checkStockLevels(await products.list());
+  } catch (err) {
+    console.warn('[Notifications] Stock check failed:', err);
+  }
+};
+
+/** Watch the cache, socket and stock; returns the stop function */
+export const watchNotifications = () => {
+  lastHealth = undefined;
+  lowProducts = null;
+
+  const unsubscribeCache = useEntityStore.subscribe((state, prev) => {
+    // Only changes to entities we already knew about; a (re)load is not news
+    if (!prev.loaded) return;
+    if (state.tasks !== prev.tasks) {
+      Object.values(state.tasks).forEach((task) => {
+        const notice = taskFailureNotice(prev.tasks[task.id], task);
+        if (notice) raiseNotification(notice);
+      });
+    }
+    if (state.robots !== prev.robots) {
+      Object.entries(state.robots).forEach(([key, robot]) => {
+        const notice = robotStatusNotice(key, prev.robots[key], robot);
+        if (notice) raiseNotification(notice);
+      });
+    }
+  });
+
+  const unsubscribeHealth = on('system_update', (health) => {
+    const notice = healthNotice(lastHealth, health);
+    lastHealth = health;
+    if (notice) raiseNotification(notice);
+  });
+
+  pollStock();
+  const timer = setInterval(pollStock, STOCK_CHECK_MS);
+  const stopFollowing = followOtherTabs(useNotificationStore);
+
+  return () => {
+    unsubscribeCache();
+    unsubscribeHealth();
+    clearInterval(timer);
+    stopFollowing();
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * Sends operator commands (lib/robotCommands.ts) to robots over REST or the
+ * socket. Every command lands in the audit trail (stores/robotCommandStore.ts)
+ * when sent and is updated when the backend acknowledges or rejects it, or
+ * once ACK_TIMEOUT_MS passes without an answer. A socket answer that comes
+ * after the timeout still updates the entry.
+ */
+import { robots } from '@/services/api';
+import { isApiError } from '@/services/http';
+import { emit, isSocketConnected, on } from '@/services/websocket';
+import { useAuthStore } from '@/stores/authStore';
+import { useRobotCommandStore } from '@/stores/robotCommandStore';
+import {
+  ACK_TIMEOUT_MS,
+  ROBOT_COMMANDS,
+  validateCommand,
+  type RobotCommandEntry,
+  type RobotCommandResult,
+  type RobotCommandTransport,
+} from '@/lib/robotCommands';
+import type { Robot, RobotCommandAck, RobotCommandKind, RobotGoToInput } from '@/types';
+
+// The request gives up when the acknowledgement window closes
+const options = { timeoutMs: ACK_TIMEOUT_MS };
+
+const REST_COMMANDS: Record<RobotCommandKind, (id: string, params: RobotGoToInput) => Promise<unknown>> = {
+  goto_pose: (id, { x, y, yaw }) => robots.goTo(id, { x, y, yaw }, options),
+  goto_zone: (id, { zone_id, charge }) => robots.goTo(id, { zone_id, charge }, options),
+  pause: (id) => robots.pause(id, options),
+  resume: (id) => robots.resume(id, options),
+  emergency_stop: (id) => robots.emergencyStop(id, options),
+  release_shelf: (id) => robots.releaseShelf(id, options),
+};
+
+/** Socket answers still recorded this long after a command timed out */
+const LATE_ACK_MS = 5 * 60 * 1000;
+
+const TIMED_OUT: RobotCommandResult = {
+  status: 'timed_out',
+  message: `No acknowledgement within ${ACK_TIMEOUT_MS / 1000}s`,
+};
+
+const messageOf = (body: unknown) =>
+  body && typeof body === 'object' && typeof (body as { message?: unknown }).message === 'string'
+    ? (body as { message: string }).message
+    : undefined;
+
+// The HTTP response is the acknowledgement; a 404 means the backend has no
+// REST endpoint for the command
+const sendOverRest = async (
+  robot: Robot,
+  command: RobotCommandKind,
+  params: RobotGoToInput
+): Promise<RobotCommandResult> => {
+  try {
+    const body = await REST_COMMANDS[command](robot.id, params);
+    return { status: 'acknowledged', message: messageOf(body) };
+  } catch (err) {
+    if (isApiError(err) && err.kind === 'timeout') return TIMED_OUT;
+    if (isApiError(err) && err.status === 404) {
+      return {
+        status: 'rejected',
+        message: `Not supported by this backend over REST (${err.method} ${err.endpoint} not found); try the socket`,
+      };
+    }
+    return { status: 'rejected', message: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+// Socket commands waiting for their robot_command_ack, by command id
+const awaitingAck = new Map<string, (ack: RobotCommandAck) => void>();
+// Registered with the first socket command and kept for the session
+let ackListener: (() => void) | null = null;
+
+const listenForAcks = () => {
+  ackListener ??= on('robot_command_ack', (ack) => awaitingAck.get(ack.command_id)?.(ack));
+};
+
+const sendOverSocket = (entry: RobotCommandEntry, robot: Robot, params: RobotGoToInput) =>
+  new Promise<RobotCommandResult>((resolve) => {
+    if (!isSocketConnected()) {
+      resolve({ status: 'rejected', message: 'Socket not connected' });
+      return;
+    }
+    listenForAcks();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      resolve(TIMED_OUT);
+      setTimeout(() => awaitingAck.delete(entry.id), LATE_ACK_MS);
+    }, ACK_TIMEOUT_MS);
+    awaitingAck.set(entry.id, (ack) => {
+      clearTimeout(timer);
+      awaitingAck.delete(entry.id);
+      const result: RobotCommandResult = {
+        status: ack.accepted ? 'acknowledged' : 'rejected',
+        message: ack.message,
+      };
+      if (!timedOut) resolve(result);
+      else {
+        console.log(`[Commands] ${ROBOT_COMMANDS[entry.command].label} → ${robot.robot_id} answered after the timeout`);
+        useRobotCommandStore.getState().resolve(entry.id, {
+          ...result,
+          message: result.message ?? `Answered after the ${ACK_TIMEOUT_MS / 1000}s timeout`,
+        });
+      }
+    });
+    emit('robot_command', { command_id: entry.id, robot_id: robot.id, command: entry.command, params });
+  });
+
+/**
+ * Send a command and wait for the outcome. Throws (without recording
+ * anything) when the parameters are invalid; otherwise resolves with the
+ * audit entry as it stands once answered or timed out.
+ */
+export const sendRobotCommand = async (
+  robot: Robot,
+  command: RobotCommandKind,
+  params: RobotGoToInput = {},
+  transport: RobotCommandTransport = useRobotCommandStore.getState().transport
+): Promise<RobotCommandEntry> => {
+  const invalid = validateCommand(command, params);
+  if (invalid) throw new Error(invalid);
+
+  const entry = useRobotCommandStore.getState().record({
+    robotKey: robot.id,
+    robotName: robot.name || robot.robot_id,
+    command,
+    params,
+    transport,
+    user: useAuthStore.getState().user?.username,
+  });
+  console.log(`[Commands] ${ROBOT_COMMANDS[command].label} → ${robot.robot_id} over ${transport}`);
+
+  const result =
+    transport === 'socket' ? await sendOverSocket(entry, robot, params) : await sendOverRest(robot, command, params);
+  if (result.status !== 'acknowledged') {
+    console.warn(`[Commands] ${ROBOT_COMMANDS[command].label} → ${robot.robot_id} ${result.status}:`, result.message);
+  }
+  useRobotCommandStore.getState().resolve(entry.id, result);
+  return useRobotCommandStore.getState().entries.find((e) => e.id === entry.id) ?? { ...entry, ...result };
+};
@@ -0,0 +1,466 @@
+/**
+ * Runtime validation for API documents and socket payloads (zod)
+ *
+ * Schemas normalize what the backend is known to send loosely
+ * (numbers as strings, nulls for missing values, lowercase enums).
+ * Anything that still doesn't fit is rejected and reported to the
+ * diagnostics store instead of leaking into the UI as `any`.
+ */
+import { z } from 'zod';
+import { useDiagnosticsStore } from '@/stores/diagnosticsStore';
+import type {
+  Product,
+  ProductTransaction,
+  Robot,
+  RobotTelemetry,
+  Shelf,
+  SocketEventMap,
+  SocketEventName,
+  Task,
+  Zone,
+} from '@/types';
+
+// =========================================================
+// PRIMITIVES
+// =========================================================
+
+const nullToUndefined = (v: unknown) => (v === null ? undefined : v);
+
+const toNumber = (v: unknown) => {
+  if (v === null || v === '') return undefined;
+  return typeof v === 'string' ? Number(v) : v;
+};
+
+const toUpper = (v: unknown) => (typeof v === 'string' ? v.toUpperCase() : nullToUndefined(v));
+
+const toBoolean = (v: unknown) => {
+  if (v === 'true') return true;
+  if (v === 'false') return false;
+  return nullToUndefined(v);
+};
+
+const num = z.preprocess(toNumber, z.number().finite());
+const optNum = z.preprocess(toNumber, z.number().finite().optional());
+const str = z.preprocess((v) => (typeof v === 'number' ? String(v) : v), z.string().min(1));
+const optStr = z.preprocess(nullToUndefined, z.string().optional());
+const bool = z.preprocess(toBoolean, z.boolean());
+
+const upperEnum = <T extends [string, ...string[]]>(values: T) => z.preprocess(toUpper, z.enum(values));
+const optUpperEnum = <T extends [string, ...string[]]>(values: T) =>
+  z.preprocess(toUpper, z.enum(values).optional());
+
+// =========================================================
+// ENUMS
+// =========================================================
+
+export const ROBOT_STATUSES = ['IDLE', 'BUSY', 'ERROR', 'OFFLINE'] as const;
+export const SHELF_STATUSES = ['IDLE', 'BUSY', 'ERROR', 'OFFLINE'] as const;
+export const SHELF_LOCATION_STATUSES = [
+  'STORED',
+  'IN_TRANSIT',
+  'AT_DROP_ZONE',
+  'DELIVERED_AT_DROP_ZONE',
+  'REPOSITIONED',
+  'REPOSITIONED_AT_ZONE',
+] as const;
+export const TASK_TYPES = ['PICKUP_AND_DELIVER', 'MOVE_SHELF', 'RETURN_SHELF', 'REPOSITION'] as const;
+export const TASK_STATUSES = [
+  'PENDING',
+  'ASSIGNED',
+  'MOVING_TO_PICKUP',
+  'ARRIVED_AT_PICKUP',
+  'ATTACHED',
+  'MOVING_TO_DROP',
+  'ARRIVED_AT_DROP',
+  'RELEASED',
+  'MOVING_TO_REFERENCE',
+  'COMPLETED',
+  'ERROR',
+  'CANCELLED',
+] as const;
+export const TASK_COMPLETION_ACTIONS = [
+  'RESTORED_TO_STORAGE',
+  'DELIVERED_TO_DROP_ZONE',
+  'MOVED_TO_TARGET',
+  'REPOSITIONED_AT_ZONE',
+] as const;
+export const TRANSACTION_ACTIONS = ['PICK', 'RETURN', 'ADJUST'] as const;
+
+// =========================================================
+// ENTITY SCHEMAS
+// =========================================================
+
+export const robotSchema = z
+  .object({
+    id: str,
+    name: str,
+    robot_id: str,
+    available: bool.default(true),
+    status: upperEnum([...ROBOT_STATUSES]),
+    current_shelf_id: optStr,
+    current_x: optNum,
+    current_y: optNum,
+    current_yaw: optNum,
+    x: optNum,
+    y: optNum,
+    yaw: optNum,
+    cpu_usage: optNum,
+    ram_usage: optNum,
+    battery_level: optNum,
+    temperature: optNum,
+    created_at: optStr,
+    updated_at: optStr,
+  })
+  .passthrough();
+
+// One point of GET /robots/:id/telemetry (x/y/yaw, not current_*)
+export const robotTelemetrySchema = z
+  .object({
+    cpu_usage: num,
+    ram_usage: num,
+    battery_level: num,
+    temperature: num,
+    x: num,
+    y: num,
+    yaw: optNum,
+    status: optUpperEnum([...ROBOT_STATUSES]),
+    timestamp: optStr,
+  })
+  .passthrough();
+
+export const shelfSchema = z
+  .object({
+    id: str,
+    warehouse_id: str,
+    level: num,
+    current_x: optNum,
+    current_y: optNum,
+    current_yaw: optNum,
+    x: optNum,
+    y: optNum,
+    yaw: optNum,
+    storage_x: num,
+    storage_y: num,
+    storage_yaw: optNum,
+    location_status: optUpperEnum([...SHELF_LOCATION_STATUSES]),
+    last_task_id: optStr,
+    available: bool.default(true),
+    status: upperEnum([...SHELF_STATUSES]).default('IDLE'),
+    april_tag_url: optStr,
+    april_tag_id: optNum,
+    created_at: optStr,
+    updated_at: optStr,
+  })
+  .passthrough();
+
+const taskHistoryEntrySchema = z
+  .object({ status: upperEnum([...TASK_STATUSES]), timestamp: str, robot_id: optStr, message: optStr })
+  .passthrough();
+
+export const taskSchema = z
+  .object({
+    id: str,
+    shelf_id: str,
+    priority: num.default(5),
+    status: upperEnum([...TASK_STATUSES]),
+    task_type: upperEnum([...TASK_TYPES]).default('PICKUP_AND_DELIVER'),
+    assigned_robot_id: optStr,
+    assigned_robot_name: optStr,
+    robot_id: optStr,
+    description: optStr,
+    zone_id: optStr,
+    drop_zone_id: optStr,
+    target_shelf_id: optStr,
+    target_zone_id: optStr,
+    pickup_x: optNum,
+    pickup_y: optNum,
+    pickup_yaw: optNum,
+    drop_x: optNum,
+    drop_y: optNum,
+    drop_yaw: optNum,
+    target_x: optNum,
+    target_y: optNum,
+    target_yaw: optNum,
+    origin_storage_x: optNum,
+    origin_storage_y: optNum,
+    origin_storage_yaw: optNum,
+    origin_pickup_x: optNum,
+    origin_pickup_y: optNum,
+    origin_pickup_yaw: optNum,
+    current_robot_x: optNum,
+    current_robot_y: optNum,
+    current_yaw: optNum,
+    completion_action: optUpperEnum([...TASK_COMPLETION_ACTIONS]),
+    duration_seconds: optNum,
+    progress: optNum,
+    error_message: optStr,
+    status_history: z.preprocess(nullToUndefined, z.array(taskHistoryEntrySchema).optional()),
+    started_at: optStr,
+    completed_at: optStr,
+    created_at: optStr,
+    updated_at: optStr,
+  })
+  .passthrough();
+
+export const zoneSchema = z
+  .object({
+    id: str,
+    zone_id: str,
+    name: optStr,
+    x: num,
+    y: num,
+    yaw: optNum,
+    created_at: optStr,
+    updated_at: optStr,
+  })
+  .passthrough();
+
+export const productSchema = z
+  .object({
+    id: str,
+    name: str,
+    sku: str,
+    quantity: num,
+    category: optStr,
+    brand: optStr,
+    price: optNum,
+    weight_kg: optNum,
+    dimensions_cm: z.preprocess(
+      nullToUndefined,
+      z.object({ length: optNum, width: optNum, height: optNum }).passthrough().optional()
+    ),
+    barcode: optStr,
+    main_image_url: optStr,
+    image_urls: z.preprocess(nullToUndefined, z.array(z.string()).optional()),
+    shelf_id: optStr,
+    description: optStr,
+    created_at: optStr,
+    updated_at: optStr,
+  })
+  .passthrough();
+
+export const productTransactionSchema = z
+  .object({
+    id: str,
+    product_id: str,
+    quantity: num,
+    action: upperEnum([...TRANSACTION_ACTIONS]),
+    description: optStr,
+    idempotency_key: optStr,
+    created_at: optStr,
+    updated_at: optStr,
+  })
+  .passthrough();
+
+// Kinds that API modules validate, with the TS type each one produces
+export interface EntityKindMap {
+  robot: Robot;
+  robotTelemetry: RobotTelemetry;
+  shelf: Shelf;
+  task: Task;
+  zone: Zone;
+  product: Product;
+  productTransaction: ProductTransaction;
+}
+
+export type EntitySchemaKind = keyof EntityKindMap;
+
+const entitySchemas: Record<EntitySchemaKind, z.ZodTypeAny> = {
+  robot: robotSchema,
+  robotTelemetry: robotTelemetrySchema,
+  shelf: shelfSchema,
+  task: taskSchema,
+  zone: zoneSchema,
+  product: productSchema,
+  productTransaction: productTransactionSchema,
+};
+
+// =========================================================
+// SOCKET PAYLOAD SCHEMAS
+// =========================================================
+
+const hasAny = (keys: string[]) => (v: Record<string, unknown>) =>
+  keys.some((k) => v[k] !== undefined && v[k] !== null && v[k] !== '');
+
+const robotEventSchema = z
+  .object({
+    robot_id: optStr,
+    robot: z.unknown().optional(),
+    id: optStr,
+    name: optStr,
+    x: optNum,
+    y: optNum,
+    yaw: optNum,
+    current_x: optNum,
+    current_y: optNum,
+    current_yaw: optNum,
+    cpu_usage: optNum,
+    ram_usage: optNum,
+    battery_level: optNum,
+    temperature: optNum,
+    status: optUpperEnum([...ROBOT_STATUSES]),
+    available: z.preprocess(toBoolean, z.boolean().optional()),
+  })
+  .passthrough()
+  .refine(hasAny(['robot_id', 'robot', 'id', 'name']), { message: 'Missing robot identifier' });
+
+const shelfEventSchema = z
+  .object({
+    shelf_id: optStr,
+    id: optStr,
+    x: optNum,
+    y: optNum,
+    yaw: optNum,
+    current_x: optNum,
+    current_y: optNum,
+    current_yaw: optNum,
+    storage_x: optNum,
+    storage_y: optNum,
+    storage_yaw: optNum,
+    location_status: optUpperEnum([...SHELF_LOCATION_STATUSES]),
+    task_id: optStr,
+  })
+  .passthrough()
+  .refine(hasAny(['shelf_id', 'id']), { message: 'Missing shelf identifier' });
+
+const taskPatchSchema = taskSchema.partial().extend({ id: optStr, task_id: optStr });
+
+const taskUpdateEventSchema = taskPatchSchema
+  .extend({ task: z.preprocess(nullToUndefined, taskPatchSchema.optional()) })
+  .refine((v) => !!(v.task?.id || v.task?.task_id || v.id || v.task_id), {
+    message: 'Missing task identifier',
+  });
+
+const taskStatusEventSchema = z
+  .object({ task_id: str, status: upperEnum([...TASK_STATUSES]), robot_id: optStr, timestamp: z.unknown() })
+  .passthrough();
+
+const taskProgressEventSchema = taskStatusEventSchema.extend({
+  current_robot_x: optNum,
+  current_robot_y: optNum,
+});
+
+const mapUpdateEventSchema = z
+  .object({ width: optNum, height: optNum, resolution: optNum })
+  .passthrough();
+
+const systemUpdateEventSchema = z
+  .object({ status: z.preprocess(nullToUndefined, z.enum(['healthy', 'warning', 'critical']).optional()) })
+  .passthrough();
+
+const robotCommandAckSchema = z
+  .object({
+    command_id: str,
+    robot_id: optStr,
+    accepted: bool,
+    message: optStr,
+  })
+  .passthrough();
+
+const socketSchemas: Partial<Record<SocketEventName, z.ZodTypeAny>> = {
+  telemetry: robotEventSchema,
+  robot_update: robotEventSchema,
+  robot_status: robotEventSchema,
+  shelf_update: shelfEventSchema,
+  shelf_location_update: shelfEventSchema,
+  shelf_deleted: z.object({ id: optStr, shelf_id: optStr }).passthrough().refine(hasAny(['shelf_id', 'id']), {
+    message: 'Missing shelf identifier',
+  }),
+  task_update: taskUpdateEventSchema,
+  task_status: taskStatusEventSchema,
+  task_progress_update: taskProgressEventSchema,
+  map_update: mapUpdateEventSchema,
+  system_update: systemUpdateEventSchema,
+  robot_command_ack: robotCommandAckSchema,
+};
+
+// =========================================================
+// VALIDATION + DIAGNOSTICS
+// =========================================================
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+const docIdOf = (doc: unknown): string | undefined => {
+  if (!doc || typeof doc !== 'object') return undefined;
+  const d = doc as Record<string, unknown>;
+  const id = d.id ?? d._id ?? d.task_id ?? d.robot_id ?? d.shelf_id;
+  return id === undefined || id === null ? undefined : String(id);
+};
+
+/**
+ * Validate a single document. Returns null (and records a diagnostic) on failure.
+ */
+export const validateEntity = <K extends EntitySchemaKind>(
+  kind: K,
+  doc: unknown,
+  source: string
+): EntityKindMap[K] | null => {
+  const result = entitySchemas[kind].safeParse(doc);
+  if (result.success) return result.data as EntityKindMap[K];
+
+  useDiagnosticsStore.getState().record({
+    source,
+    kind,
+    docId: docIdOf(doc),
+    issues: formatIssues(result.error),
+    sample: doc,
+  });
+  return null;
+};
+
+/**
+ * Validate a list, dropping (and reporting) documents that fail
+ */
+export const validateEntities = <K extends EntitySchemaKind>(
+  kind: K,
+  docs: unknown[],
+  source: string
+): EntityKindMap[K][] => {
+  const out: EntityKindMap[K][] = [];
+  for (const doc of docs) {
+    const valid = validateEntity(kind, doc, source);
+    if (valid) out.push(valid);
+  }
+  return out;
+};
+
+/**
+ * Validate a socket payload. Returns null when the payload should be dropped.
+ */
+export const validateSocketPayload = <E extends SocketEventName>(
+  eventName: E,
+  data: unknown
+): SocketEventMap[E] | null => {
+  const source = `socket:${eventName}`;
+
+  // Bulk task lists are validated per task so one bad row doesn't drop the rest
+  if (eventName === 'tasks_update') {
+    const list = Array.isArray(data) ? data : (data as { tasks?: unknown[] })?.tasks;
+    if (!Array.isArray(list)) {
+      useDiagnosticsStore.getState().record({
+        source,
+        kind: 'socket',
+        issues: ['(root): Expected a task array or { tasks: [...] }'],
+        sample: data,
+      });
+      return null;
+    }
+    return { tasks: validateEntities('task', list, source) } as SocketEventMap[E];
+  }
+
+  const schema = socketSchemas[eventName];
+  if (!schema) return data as SocketEventMap[E];
+
+  const result = schema.safeParse(data);
+  if (result.success) return result.data as SocketEventMap[E];
+
+  useDiagnosticsStore.getState().record({
+    source,
+    kind: 'socket',
+    docId: docIdOf(data),
+    issues: formatIssues(result.error),
+    sample: data,
+  });
+  return null;
+};
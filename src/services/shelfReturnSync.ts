@@ -0,0 +1,88 @@
+/**
+ * Creates RETURN_SHELF tasks for shelves waiting at a drop zone, following
+ * the zone's return policy (lib/shelfReturn.ts). Started with the entity
+ * sync; only acts for users allowed to create tasks.
+ */
+import { tasks } from '@/services/api';
+import { withTabLock } from '@/services/tabLock';
+import { useAuthStore } from '@/stores/authStore';
+import { useEntityStore } from '@/stores/entityStore';
+import { useReturnPolicyStore } from '@/stores/returnPolicyStore';
+import { hasPermission } from '@/lib/permissions';
+import { isActiveTask } from '@/lib/taskStateMachine';
+import { DEFAULT_RETURN_MINUTES, findDeliveredShelves, isReturnDue, returnTaskPayload } from '@/lib/shelfReturn';
+import type { Task } from '@/types';
+
+/** How often due returns are checked between cache updates */
+const CHECK_MS = 5000;
+
+// Shelves with a return request in flight in this tab
+const requesting = new Set<string>();
+
+/**
+ * Create the return task for a delivered shelf now (one-click return,
+ * picking confirmed, or a due policy). Returns null when the shelf
+ * already has an active task or the request failed.
+ */
+export const requestShelfReturn = async (shelfId: string, reason: string): Promise<Task | null> => {
+  const { shelves, tasks: taskMap, upsert } = useEntityStore.getState();
+  const shelf = shelves[shelfId];
+  const { setError } = useReturnPolicyStore.getState();
+  if (!shelf || requesting.has(shelfId)) return null;
+  if (Object.values(taskMap).some((t) => t.shelf_id === shelfId && isActiveTask(t))) return null;
+
+  requesting.add(shelfId);
+  try {
+    return await withTabLock(`return-${shelfId}`, async () => {
+      // Another tab may have created the return while this one waited, and
+      // the cache only learns about it from the socket update
+      const active = (await tasks.list({ shelf_id: shelfId })).find(isActiveTask);
+      if (active) {
+        upsert('tasks', active);
+        return null;
+      }
+      const task = await tasks.create(returnTaskPayload(shelf, reason));
+      upsert('tasks', task);
+      setError(shelfId, null);
+      console.log(`[Returns] Created return task ${task.id} for shelf ${shelf.warehouse_id} (${reason})`);
+      return task;
+    });
+  } catch (error) {
+    console.error(`[Returns] Return of shelf ${shelf.warehouse_id} failed:`, error);
+    setError(shelfId, error instanceof Error ? error.message : 'Failed to create return task');
+    return null;
+  } finally {
+    requesting.delete(shelfId);
+  }
+};
+
+const check = () => {
+  if (!hasPermission(useAuthStore.getState().user?.role, 'task:create')) return;
+  const { shelves, tasks: taskMap, zones, loaded } = useEntityStore.getState();
+  if (!loaded) return;
+  const { policies, errors } = useReturnPolicyStore.getState();
+  const now = Date.now();
+
+  findDeliveredShelves(Object.values(shelves), Object.values(taskMap), Object.values(zones), policies)
+    // A failed automatic return waits for the operator instead of retrying every tick
+    .filter((delivered) => isReturnDue(delivered, now) && !errors[delivered.shelf.id])
+    .forEach((delivered) =>
+      requestShelfReturn(
+        delivered.shelf.id,
+        `${delivered.policy.minutes ?? DEFAULT_RETURN_MINUTES} min at ${delivered.zone?.name ?? delivered.zone?.zone_id ?? 'drop zone'}`
+      )
+    );
+};
+
+/** Watch delivered shelves; returns the stop function */
+export const watchShelfReturns = () => {
+  check();
+  const timer = setInterval(check, CHECK_MS);
+  const unsubscribe = useEntityStore.subscribe((state, prev) => {
+    if (state.shelves !== prev.shelves || state.tasks !== prev.tasks) check();
+  });
+  return () => {
+    clearInterval(timer);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,492 @@
+/**
+ * Fleet simulator engine: assigns pending tasks, drives robots through the
+ * task state machine and emits the same socket events as the real backend
+ */
+import type { LiveSystemHealth, Robot, Shelf, ShelfLocationStatus, Task, TaskCompletionAction, TaskStatus } from '@/types';
+import { nowIso, type SimJob, type SimPoint, type SimWorld } from './world';
+
+/** Delivers a server event to the app (websocket.deliverServerEvent) */
+export type SimEmit = (event: string, payload: unknown) => void;
+
+/** Happy path of a task once a robot is assigned */
+export const TASK_FLOW: TaskStatus[] = [
+  'ASSIGNED',
+  'MOVING_TO_PICKUP',
+  'ARRIVED_AT_PICKUP',
+  'ATTACHED',
+  'MOVING_TO_DROP',
+  'ARRIVED_AT_DROP',
+  'RELEASED',
+  'MOVING_TO_REFERENCE',
+  'COMPLETED',
+];
+
+export const TERMINAL_STATUSES: TaskStatus[] = ['COMPLETED', 'ERROR', 'CANCELLED'];
+
+// Statuses where a scheduled failure may strike (the robot is doing something)
+const FAILURE_POINTS: TaskStatus[] = ['MOVING_TO_PICKUP', 'ATTACHED', 'MOVING_TO_DROP', 'MOVING_TO_REFERENCE'];
+
+/** Time spent in the stationary statuses (docking, lifting, releasing) */
+const DWELL_MS = 1200;
+/** Robots below this battery level are not given new tasks */
+export const LOW_BATTERY = 15;
+/** Battery gained per minute while parked at the dock */
+const CHARGE_PER_MIN = 6;
+/** A robot in ERROR is back in service after this long */
+const ERROR_RECOVERY_MS = 15000;
+const SYSTEM_UPDATE_MS = 5000;
+/** Telemetry history: one stored sample per robot every 5 s, six hours kept */
+const TELEMETRY_SAMPLE_MS = 5000;
+const MAX_TELEMETRY_SAMPLES = 4320;
+
+const COMPLETION_ACTIONS: Record<Task['task_type'], TaskCompletionAction> = {
+  PICKUP_AND_DELIVER: 'DELIVERED_TO_DROP_ZONE',
+  RETURN_SHELF: 'RESTORED_TO_STORAGE',
+  MOVE_SHELF: 'MOVED_TO_TARGET',
+  REPOSITION: 'REPOSITIONED_AT_ZONE',
+};
+
+// Where the shelf ends up once released
+const RELEASED_LOCATION: Record<Task['task_type'], ShelfLocationStatus> = {
+  PICKUP_AND_DELIVER: 'DELIVERED_AT_DROP_ZONE',
+  RETURN_SHELF: 'STORED',
+  MOVE_SHELF: 'REPOSITIONED',
+  REPOSITION: 'REPOSITIONED_AT_ZONE',
+};
+
+// =========================================================
+// HELPERS
+// =========================================================
+
+export const isTerminal = (status: TaskStatus) => TERMINAL_STATUSES.includes(status);
+
+export const findRobot = (world: SimWorld, id?: string) =>
+  id ? world.robots.find((r) => r.id === id || r.robot_id === id) : undefined;
+
+export const findShelf = (world: SimWorld, id?: string) =>
+  id ? world.shelves.find((s) => s.id === id && !s.deleted) : undefined;
+
+export const progressOf = (status: TaskStatus) => {
+  const index = TASK_FLOW.indexOf(status);
+  return index < 0 ? undefined : Math.round((index / (TASK_FLOW.length - 1)) * 100);
+};
+
+const pointOf = (doc: { current_x?: number; current_y?: number }): SimPoint => ({
+  x: doc.current_x ?? 0,
+  y: doc.current_y ?? 0,
+});
+
+const distance = (a: SimPoint, b: SimPoint) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Move a robot up to `step` metres toward a target; true once it is there
+const driveToward = (robot: Robot, target: SimPoint, step: number) => {
+  const from = pointOf(robot);
+  const remaining = distance(from, target);
+  if (remaining <= step) {
+    robot.current_x = target.x;
+    robot.current_y = target.y;
+    return true;
+  }
+  robot.current_yaw = Math.atan2(target.y - from.y, target.x - from.x);
+  robot.current_x = from.x + ((target.x - from.x) / remaining) * step;
+  robot.current_y = from.y + ((target.y - from.y) / remaining) * step;
+  return false;
+};
+
+export const emitTask = (task: Task, emit: SimEmit) => emit('task_update', { task: { ...task } });
+
+/** Apply a patch to a shelf and broadcast it (optionally recording history) */
+export const updateShelf = (
+  world: SimWorld,
+  shelf: Shelf,
+  patch: Partial<Shelf>,
+  emit: SimEmit,
+  now: number,
+  record = false
+) => {
+  Object.assign(shelf, patch, { updated_at: nowIso(now) });
+  if (record) {
+    (world.shelfHistory[shelf.id] ??= []).push({
+      timestamp: nowIso(now),
+      x: shelf.current_x ?? shelf.storage_x,
+      y: shelf.current_y ?? shelf.storage_y,
+      yaw: shelf.current_yaw,
+      status: shelf.location_status,
+    });
+  }
+  emit('shelf_update', {
+    shelf_id: shelf.id,
+    current_x: shelf.current_x,
+    current_y: shelf.current_y,
+    current_yaw: shelf.current_yaw,
+    storage_x: shelf.storage_x,
+    storage_y: shelf.storage_y,
+    storage_yaw: shelf.storage_yaw,
+    location_status: shelf.location_status,
+    status: shelf.status,
+    available: shelf.available,
+    task_id: shelf.last_task_id,
+  });
+};
+
+/** Move a task to a status and broadcast it (restarts the phase timer) */
+export const setTaskStatus = (task: Task, status: TaskStatus, now: number, emit: SimEmit, job?: SimJob) => {
+  task.status = status;
+  task.updated_at = nowIso(now);
+  task.progress = progressOf(status) ?? task.progress;
+  (task.status_history ??= []).push({ status, timestamp: task.updated_at, robot_id: task.robot_id });
+  if (job) job.phaseSince = now;
+  emitTask(task, emit);
+};
+
+const robotTelemetry = (robot: Robot, now: number) => ({
+  id: robot.id,
+  robot_id: robot.robot_id,
+  name: robot.name,
+  x: robot.current_x,
+  y: robot.current_y,
+  yaw: robot.current_yaw,
+  battery_level: robot.battery_level,
+  cpu_usage: robot.cpu_usage,
+  ram_usage: robot.ram_usage,
+  temperature: robot.temperature,
+  status: robot.status,
+  available: robot.available,
+  timestamp: nowIso(now),
+});
+
+// Kept for GET /robots/:id/telemetry, like the backend's InfluxDB series
+const storeTelemetry = (world: SimWorld, robot: Robot, now: number) => {
+  const history = (world.telemetry[robot.id] ??= []);
+  history.push({
+    cpu_usage: robot.cpu_usage ?? 0,
+    ram_usage: robot.ram_usage ?? 0,
+    battery_level: robot.battery_level ?? 0,
+    temperature: robot.temperature ?? 0,
+    x: robot.current_x ?? 0,
+    y: robot.current_y ?? 0,
+    yaw: robot.current_yaw,
+    status: robot.status,
+    timestamp: nowIso(now),
+  });
+  if (history.length > MAX_TELEMETRY_SAMPLES) history.splice(0, history.length - MAX_TELEMETRY_SAMPLES);
+};
+
+// =========================================================
+// TASK LIFECYCLE
+// =========================================================
+
+/**
+ * End a task (COMPLETED, ERROR or CANCELLED) and free its robot and shelf.
+ * Used by the engine and by manual status changes from the API.
+ */
+export const finishTask = (
+  world: SimWorld,
+  task: Task,
+  status: TaskStatus,
+  emit: SimEmit,
+  now: number,
+  errorMessage?: string
+) => {
+  const job = world.jobs[task.id];
+  delete world.jobs[task.id];
+
+  task.completed_at = nowIso(now);
+  if (task.started_at) {
+    task.duration_seconds = Math.round((now - new Date(task.started_at).getTime()) / 1000);
+  }
+  if (status === 'COMPLETED') task.completion_action = COMPLETION_ACTIONS[task.task_type];
+  if (status === 'ERROR') task.error_message = errorMessage ?? 'Simulated robot fault';
+  setTaskStatus(task, status, now, emit);
+
+  const robot = findRobot(world, job?.robotId ?? task.assigned_robot_id);
+  if (robot) {
+    robot.current_shelf_id = undefined;
+    if (status === 'ERROR') {
+      robot.status = 'ERROR';
+      robot.available = false;
+      world.recoverAt[robot.id] = now + ERROR_RECOVERY_MS;
+    } else {
+      robot.status = 'IDLE';
+      robot.available = true;
+    }
+  }
+
+  // A shelf still on the robot is set down where it is
+  const shelf = findShelf(world, task.shelf_id);
+  if (shelf && shelf.status === 'BUSY') {
+    updateShelf(world, shelf, { status: 'IDLE', available: true }, emit, now, true);
+  }
+};
+
+/** A robot that can take a new task right now */
+export const canTakeTask = (world: SimWorld, robot: Robot) =>
+  robot.status === 'IDLE' && robot.available && !world.paused[robot.id] && (robot.battery_level ?? 0) > LOW_BATTERY;
+
+/**
+ * Hand a pending task to a robot and start its job. Used by the queue
+ * below and by operator reassignment from the API.
+ */
+export const assignTask = (
+  world: SimWorld,
+  task: Task,
+  robot: Robot,
+  shelf: Shelf,
+  emit: SimEmit,
+  now: number,
+  random: () => number
+) => {
+  const pickup = pointOf(shelf);
+  robot.status = 'BUSY';
+  robot.available = false;
+  delete world.targets[robot.id];
+  task.assigned_robot_id = robot.id;
+  task.assigned_robot_name = robot.name;
+  task.robot_id = robot.robot_id;
+  task.pickup_x = pickup.x;
+  task.pickup_y = pickup.y;
+  task.started_at = nowIso(now);
+
+  const job: SimJob = { taskId: task.id, robotId: robot.id, phaseSince: now };
+  if (random() < world.scenario.failureRate) {
+    job.failAt = FAILURE_POINTS[Math.floor(random() * FAILURE_POINTS.length)];
+  }
+  world.jobs[task.id] = job;
+  setTaskStatus(task, 'ASSIGNED', now, emit, job);
+};
+
+// Pending tasks go to the nearest idle robot with enough battery, highest priority first
+const assignPending = (world: SimWorld, emit: SimEmit, now: number, random: () => number) => {
+  const pending = world.tasks
+    .filter((t) => t.status === 'PENDING')
+    .sort((a, b) => b.priority - a.priority || (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+
+  for (const task of pending) {
+    const shelf = findShelf(world, task.shelf_id);
+    if (!shelf) {
+      finishTask(world, task, 'ERROR', emit, now, `Shelf ${task.shelf_id} not found`);
+      continue;
+    }
+    const pickup = pointOf(shelf);
+    const robot = world.robots
+      .filter((r) => canTakeTask(world, r))
+      .sort((a, b) => distance(pointOf(a), pickup) - distance(pointOf(b), pickup))[0];
+    if (!robot) return;
+    assignTask(world, task, robot, shelf, emit, now, random);
+  }
+};
+
+// Advance one task by one tick
+const advanceJob = (world: SimWorld, job: SimJob, dtMs: number, emit: SimEmit, now: number) => {
+  const task = world.tasks.find((t) => t.id === job.taskId);
+  const robot = findRobot(world, job.robotId);
+  if (!task || isTerminal(task.status)) {
+    delete world.jobs[job.taskId];
+    return;
+  }
+  if (!robot) {
+    finishTask(world, task, 'ERROR', emit, now, 'Assigned robot was removed');
+    return;
+  }
+  // A paused robot's task clock stops with it
+  if (world.paused[robot.id]) {
+    job.phaseSince += dtMs;
+    return;
+  }
+
+  const elapsed = now - job.phaseSince;
+  if (job.failAt === task.status && elapsed >= DWELL_MS / 2) {
+    finishTask(world, task, 'ERROR', emit, now, `Simulated fault during ${task.status}`);
+    return;
+  }
+
+  const shelf = findShelf(world, task.shelf_id);
+  const step = (world.scenario.speed * dtMs) / 1000;
+  const dwelled = elapsed >= DWELL_MS;
+  const pickup = { x: task.pickup_x ?? 0, y: task.pickup_y ?? 0 };
+  const drop = { x: task.drop_x ?? pickup.x, y: task.drop_y ?? pickup.y };
+
+  switch (task.status) {
+    case 'ASSIGNED':
+      if (dwelled) setTaskStatus(task, 'MOVING_TO_PICKUP', now, emit, job);
+      break;
+
+    case 'MOVING_TO_PICKUP':
+      if (driveToward(robot, pickup, step)) setTaskStatus(task, 'ARRIVED_AT_PICKUP', now, emit, job);
+      break;
+
+    case 'ARRIVED_AT_PICKUP':
+      if (!dwelled) break;
+      robot.current_shelf_id = task.shelf_id;
+      if (shelf) {
+        updateShelf(
+          world,
+          shelf,
+          { location_status: 'IN_TRANSIT', status: 'BUSY', available: false, last_task_id: task.id },
+          emit,
+          now,
+          true
+        );
+      }
+      setTaskStatus(task, 'ATTACHED', now, emit, job);
+      break;
+
+    case 'ATTACHED':
+      if (dwelled) setTaskStatus(task, 'MOVING_TO_DROP', now, emit, job);
+      break;
+
+    case 'MOVING_TO_DROP': {
+      const arrived = driveToward(robot, drop, step);
+      if (shelf) {
+        const patch: Partial<Shelf> = {
+          current_x: robot.current_x,
+          current_y: robot.current_y,
+          current_yaw: robot.current_yaw,
+        };
+        if (arrived && task.task_type === 'PICKUP_AND_DELIVER') patch.location_status = 'AT_DROP_ZONE';
+        updateShelf(world, shelf, patch, emit, now, arrived);
+      }
+      if (arrived) setTaskStatus(task, 'ARRIVED_AT_DROP', now, emit, job);
+      break;
+    }
+
+    case 'ARRIVED_AT_DROP':
+      if (!dwelled) break;
+      robot.current_shelf_id = undefined;
+      if (shelf) {
+        updateShelf(
+          world,
+          shelf,
+          { location_status: RELEASED_LOCATION[task.task_type], status: 'IDLE', available: true },
+          emit,
+          now,
+          true
+        );
+      }
+      setTaskStatus(task, 'RELEASED', now, emit, job);
+      break;
+
+    case 'RELEASED':
+      if (dwelled) setTaskStatus(task, 'MOVING_TO_REFERENCE', now, emit, job);
+      break;
+
+    case 'MOVING_TO_REFERENCE':
+      if (driveToward(robot, world.homes[robot.id] ?? pointOf(robot), step)) {
+        finishTask(world, task, 'COMPLETED', emit, now);
+      }
+      break;
+
+    default:
+      // PENDING was set manually while a robot held the task
+      delete world.jobs[job.taskId];
+      robot.status = 'IDLE';
+      robot.available = true;
+  }
+
+  if (task.status.startsWith('MOVING_')) {
+    task.current_robot_x = robot.current_x;
+    task.current_robot_y = robot.current_y;
+    task.current_yaw = robot.current_yaw;
+    emit('task_progress_update', {
+      task_id: task.id,
+      robot_id: robot.robot_id,
+      status: task.status,
+      current_robot_x: robot.current_x,
+      current_robot_y: robot.current_y,
+      timestamp: now,
+    });
+    robot.battery_level = Math.max(
+      0,
+      (robot.battery_level ?? 100) - (world.scenario.batteryDrain * dtMs) / 60000
+    );
+    if (robot.battery_level === 0) finishTask(world, task, 'ERROR', emit, now, 'Battery depleted');
+  }
+};
+
+// Idle robots drive back to their dock and charge there, unless an operator
+// sent them elsewhere; faulted robots recover unless emergency-stopped
+const updateIdleRobot = (world: SimWorld, robot: Robot, dtMs: number, now: number) => {
+  if (world.paused[robot.id]) return;
+  if (robot.status === 'ERROR') {
+    if (now >= (world.recoverAt[robot.id] ?? 0)) {
+      delete world.recoverAt[robot.id];
+      robot.status = 'IDLE';
+      robot.available = true;
+      // A depleted robot gets a battery swap
+      robot.battery_level = Math.max(robot.battery_level ?? 0, 50);
+    }
+    return;
+  }
+  if (robot.status !== 'IDLE') return;
+  const step = (world.scenario.speed * dtMs) / 1000;
+
+  // Parked at a goto target until a task comes; sent to charge, out of service until full
+  const target = world.targets[robot.id];
+  if (target) {
+    if (!driveToward(robot, target, step)) return;
+    if (target.yaw !== undefined) robot.current_yaw = target.yaw;
+    if (!target.charge) return;
+    robot.battery_level = Math.min(100, (robot.battery_level ?? 0) + (CHARGE_PER_MIN * dtMs) / 60000);
+    if (robot.battery_level >= 100) {
+      delete world.targets[robot.id];
+      robot.available = true;
+    }
+    return;
+  }
+
+  const home = world.homes[robot.id];
+  if (home && !driveToward(robot, home, step)) return;
+  robot.battery_level = Math.min(100, (robot.battery_level ?? 0) + (CHARGE_PER_MIN * dtMs) / 60000);
+};
+
+/** System health as served by /dashboard/live/system and system_update */
+export const systemHealth = (world: SimWorld, now = Date.now()): LiveSystemHealth => {
+  const faulted = world.robots.filter((r) => r.status === 'ERROR' || r.status === 'OFFLINE').length;
+  return {
+    status: faulted === 0 ? 'healthy' : faulted < world.robots.length ? 'warning' : 'critical',
+    uptime_seconds: Math.round((now - world.startedAt) / 1000),
+    active_connections: 1,
+    mqtt_connected: true,
+    influxdb_connected: true,
+    mongodb_connected: true,
+    timestamp: nowIso(now),
+  };
+};
+
+// =========================================================
+// TICK
+// =========================================================
+
+/**
+ * Advance the simulation by `dtMs` and emit telemetry for every robot.
+ * `random` is injectable so tests can force or rule out failures.
+ */
+export const tick = (
+  world: SimWorld,
+  dtMs: number,
+  emit: SimEmit,
+  now = Date.now(),
+  random: () => number = Math.random
+) => {
+  assignPending(world, emit, now, random);
+  Object.values(world.jobs).forEach((job) => advanceJob(world, job, dtMs, emit, now));
+
+  const sample = now - world.lastTelemetrySample >= TELEMETRY_SAMPLE_MS;
+  if (sample) world.lastTelemetrySample = now;
+
+  for (const robot of world.robots) {
+    updateIdleRobot(world, robot, dtMs, now);
+    const busy = robot.status === 'BUSY';
+    robot.cpu_usage = Math.round((busy ? 45 : 12) + random() * 10);
+    robot.ram_usage = Math.round((busy ? 40 : 30) + random() * 5);
+    robot.temperature = Math.round(((robot.temperature ?? 38) * 0.9 + (busy ? 52 : 38) * 0.1) * 10) / 10;
+    robot.updated_at = nowIso(now);
+    emit('telemetry', robotTelemetry(robot, now));
+    if (sample) storeTelemetry(world, robot, now);
+  }
+
+  if (now - world.lastSystemUpdate >= SYSTEM_UPDATE_MS) {
+    world.lastSystemUpdate = now;
+    emit('system_update', systemHealth(world, now));
+  }
+};
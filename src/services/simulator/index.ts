@@ -0,0 +1,127 @@
+/**
+ * Built-in fleet simulator for demos and offline development.
+ *
+ * Plugs in behind the request core and the socket manager: while running,
+ * every API call is served from an in-memory warehouse (routes.ts) and a
+ * tick loop (engine.ts) drives the robots and pushes telemetry, task_update
+ * and shelf_update events as the real backend would.
+ */
+import type { RobotCommandKind, RobotCommandMessage } from '@/types';
+import { setTransport } from '../http';
+import { deliverServerEvent, setLocalSocketServer } from '../websocket';
+import { systemHealth, tick, type SimEmit } from './engine';
+import { activeMapViews, handleRequest } from './routes';
+import { createWorld, type SimScenario, type SimWorld } from './world';
+
+export { DEFAULT_SCENARIO, SCENARIO_LIMITS, clampScenario, type SimScenario } from './world';
+
+const TICK_MS = 500;
+/** Longest step simulated at once (background tabs throttle timers) */
+const MAX_STEP_MS = 2000;
+/** Artificial response delay so loading states still show */
+const LATENCY_MS = 80;
+
+let world: SimWorld | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+// Payloads go through JSON like on the wire, so listeners never share world objects
+const emit: SimEmit = (event, payload) => deliverServerEvent(event, JSON.parse(JSON.stringify(payload)));
+
+// JSON bodies are parsed; FormData is flattened into its entries
+const decodeBody = (body: RequestInit['body']): Record<string, unknown> => {
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return {};
+    }
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return Object.fromEntries(body.entries());
+  }
+  return {};
+};
+
+const headersOf = (init: RequestInit) =>
+  init.headers && !Array.isArray(init.headers) && !(init.headers instanceof Headers)
+    ? (init.headers as Record<string, string>)
+    : {};
+
+const serve = async (path: string, init: RequestInit) => {
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+  if (!world) throw new TypeError('Simulator is not running');
+  if (init.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+  const { status, body } = handleRequest(world, emit, init.method ?? 'GET', path, decodeBody(init.body), headersOf(init));
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+};
+
+// robot_command messages run the matching REST route and answer with robot_command_ack
+const COMMAND_ROUTES: Record<RobotCommandKind, string> = {
+  goto_pose: 'goto',
+  goto_zone: 'goto',
+  pause: 'pause',
+  resume: 'resume',
+  emergency_stop: 'estop',
+  release_shelf: 'release-shelf',
+};
+
+const runRobotCommand = ({ command_id, robot_id, command, params }: RobotCommandMessage) => {
+  if (!world) return;
+  const path = `/robots/${encodeURIComponent(robot_id)}/${COMMAND_ROUTES[command]}`;
+  const { status, body } = handleRequest(world, emit, 'POST', path, { ...params });
+  const message = (body as { message?: string } | undefined)?.message;
+  emit('robot_command_ack', { command_id, robot_id, accepted: status < 400, message });
+};
+
+// Client -> server socket messages; room subscriptions need no bookkeeping here
+const handleSocketMessage = (event: string, data?: unknown) => {
+  if (!world) return;
+  if (event === 'request_map_data') {
+    emit('map_data', { tasks: activeMapViews(world), timestamp: Date.now() });
+  } else if (event === 'request_task_data') {
+    const id = (data as { task_id?: string } | undefined)?.task_id;
+    const task = world.tasks.find((t) => t.id === id);
+    if (task) emit('task_update', { task: { ...task } });
+  } else if (event === 'subscribe_system') {
+    emit('system_update', systemHealth(world));
+  } else if (event === 'robot_command') {
+    // Acknowledged after the usual latency, like an answer from a real robot
+    const command = data as RobotCommandMessage;
+    setTimeout(() => runRobotCommand(command), LATENCY_MS);
+  }
+};
+
+/**
+ * Start (or restart) the simulator with a fresh world.
+ * API calls and the socket are re-routed immediately.
+ */
+export const startSimulator = (scenario: SimScenario) => {
+  stopSimulator();
+  console.log('[Simulator] Starting', scenario);
+
+  world = createWorld(scenario);
+  setTransport(serve);
+  setLocalSocketServer({ handle: handleSocketMessage });
+
+  let last = Date.now();
+  timer = setInterval(() => {
+    if (!world) return;
+    const now = Date.now();
+    tick(world, Math.min(now - last, MAX_STEP_MS), emit, now);
+    last = now;
+  }, TICK_MS);
+};
+
+/** Stop the simulator and hand API calls and the socket back to the network */
+export const stopSimulator = () => {
+  if (!world) return;
+  console.log('[Simulator] Stopping');
+  if (timer) clearInterval(timer);
+  timer = null;
+  world = null;
+  setTransport(null);
+  setLocalSocketServer(null);
+};
+
+export const isSimulatorRunning = () => world !== null;
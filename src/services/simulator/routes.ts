@@ -0,0 +1,1132 @@
+/**
+ * REST endpoints of the fleet simulator, served from the in-memory world.
+ * Response and error shapes follow the Flask backend so the API modules
+ * (services/api.ts, api/mapApi.ts) work unchanged.
+ */
+import type {
+  LiveRobotStats,
+  LiveTaskStats,
+  Product,
+  ProductTransaction,
+  Robot,
+  Shelf,
+  Task,
+  TaskFilterOptions,
+  TaskStatus,
+  TaskType,
+  TransactionAction,
+  UserRole,
+  ValidationErrorDetail,
+  Zone,
+} from '@/types';
+import { decodeJwt } from '@/lib/jwt';
+import { compareTasks, DEFAULT_TASK_SORT, matchesTaskFilter } from '@/lib/taskFilters';
+import { TASK_STATUSES, TASK_TYPES } from '../schemas';
+import {
+  assignTask,
+  canTakeTask,
+  emitTask,
+  findRobot,
+  findShelf,
+  finishTask,
+  isTerminal,
+  setTaskStatus,
+  systemHealth,
+  updateShelf,
+  type SimEmit,
+} from './engine';
+import { nextId, nowIso, type SimWorld } from './world';
+
+export interface SimResponse {
+  status: number;
+  body: unknown;
+}
+
+type Body = Record<string, unknown>;
+
+interface RouteContext {
+  world: SimWorld;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Body;
+  headers: Record<string, string>;
+  emit: SimEmit;
+  now: number;
+}
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface Route {
+  method: Method;
+  segments: string[];
+  handler: (ctx: RouteContext) => unknown;
+  status: number;
+}
+
+// Thrown by handlers; becomes a Flask-style { error, message, details } body
+class SimHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    message: string,
+    readonly details: ValidationErrorDetail[] = []
+  ) {
+    super(message);
+  }
+}
+
+const notFound = (kind: string, id: string) =>
+  new SimHttpError(404, `${kind.toLowerCase()}_not_found`, `${kind} ${id} not found`);
+
+const invalid = (field: string, msg: string) =>
+  new SimHttpError(422, 'validation_error', `Invalid ${field}`, [
+    { loc: ['body', field], msg, type: 'value_error' },
+  ]);
+
+// =========================================================
+// FIELD HELPERS
+// =========================================================
+
+const text = (body: Body, key: string) => {
+  const v = body[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+};
+
+const requireText = (body: Body, key: string) => {
+  const v = text(body, key);
+  if (!v) throw invalid(key, 'field required');
+  return v;
+};
+
+const number = (body: Body, key: string) => {
+  const v = body[key];
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = Number(v);
+  if (!Number.isFinite(n)) throw invalid(key, 'value is not a valid number');
+  return n;
+};
+
+const requireNumber = (body: Body, key: string) => {
+  const n = number(body, key);
+  if (n === undefined) throw invalid(key, 'field required');
+  return n;
+};
+
+const pick = <T extends object>(body: Body, keys: (keyof T & string)[]) => {
+  const out: Partial<T> = {};
+  keys.forEach((key) => {
+    if (body[key] !== undefined) (out as Body)[key] = body[key];
+  });
+  return out;
+};
+
+const list = <T>(results: T[]) => ({ results, count: results.length });
+
+// =========================================================
+// DOCUMENT VIEWS
+// =========================================================
+
+// Shelf document plus the nested storage/current view used by the map API
+const shelfDoc = (shelf: Shelf) => ({
+  ...shelf,
+  storage: { x: shelf.storage_x, y: shelf.storage_y, yaw: shelf.storage_yaw ?? 0 },
+  current: {
+    x: shelf.current_x ?? shelf.storage_x,
+    y: shelf.current_y ?? shelf.storage_y,
+    yaw: shelf.current_yaw ?? 0,
+  },
+});
+
+const taskMapView = (world: SimWorld, task: Task) => {
+  const robot = findRobot(world, task.assigned_robot_id);
+  const shelf = findShelf(world, task.shelf_id);
+  return {
+    task_id: task.id,
+    status: task.status,
+    task_type: task.task_type,
+    priority: task.priority,
+    robot: robot
+      ? {
+          id: robot.robot_id,
+          x: robot.current_x ?? 0,
+          y: robot.current_y ?? 0,
+          status: robot.status,
+          battery: robot.battery_level,
+        }
+      : undefined,
+    shelf: shelf ? { id: shelf.id, storage: shelfDoc(shelf).storage, current: shelfDoc(shelf).current } : undefined,
+    drop_zone:
+      task.drop_x !== undefined && task.drop_y !== undefined
+        ? { id: task.drop_zone_id ?? task.zone_id ?? 'drop', x: task.drop_x, y: task.drop_y }
+        : undefined,
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+  };
+};
+
+const activeTasks = (world: SimWorld) => world.tasks.filter((t) => !isTerminal(t.status));
+
+/** Map view of every unfinished task (also sent as socket map_data) */
+export const activeMapViews = (world: SimWorld) => activeTasks(world).map((t) => taskMapView(world, t));
+
+const getTask = (world: SimWorld, id: string) => {
+  const task = world.tasks.find((t) => t.id === id);
+  if (!task) throw notFound('Task', id);
+  return task;
+};
+
+const getShelf = (world: SimWorld, id: string) => {
+  const shelf = findShelf(world, id);
+  if (!shelf) throw notFound('Shelf', id);
+  return shelf;
+};
+
+const getRobot = (world: SimWorld, id: string) => {
+  const robot = findRobot(world, id);
+  if (!robot) throw notFound('Robot', id);
+  return robot;
+};
+
+const findZone = (world: SimWorld, id?: string) =>
+  id ? world.zones.find((z) => !z.deleted && (z.id === id || z.zone_id === id)) : undefined;
+
+const getZone = (world: SimWorld, id: string) => {
+  const zone = findZone(world, id);
+  if (!zone) throw notFound('Zone', id);
+  return zone;
+};
+
+const getProduct = (world: SimWorld, id: string) => {
+  const product = world.products.find((p) => p.id === id);
+  if (!product) throw notFound('Product', id);
+  return product;
+};
+
+const shelfHasActiveTask = (world: SimWorld, shelfId: string) =>
+  activeTasks(world).some((t) => t.shelf_id === shelfId);
+
+// =========================================================
+// AUTH
+// =========================================================
+
+const base64Url = (value: object) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Usernames "operator" and "viewer" log in with that role, anyone else is an admin
+const roleFor = (username: string): UserRole => {
+  const lower = username.toLowerCase();
+  if (lower.startsWith('viewer')) return 'VIEWER';
+  if (lower.startsWith('operator')) return 'OPERATOR';
+  return 'ADMIN';
+};
+
+// Unsigned token that lib/jwt can decode; no exp, so it never expires
+const issueToken = (username: string, now: number) => {
+  const user = { id: `sim-user-${username}`, username, role: roleFor(username) };
+  const claims = { sub: username, ...user, iat: Math.floor(now / 1000) };
+  const token = [base64Url({ alg: 'none', typ: 'JWT' }), base64Url(claims), 'sim'].join('.');
+  return { access_token: token, token_type: 'bearer', user };
+};
+
+const usernameFromToken = (headers: Record<string, string>) =>
+  decodeJwt((headers.Authorization ?? '').replace(/^Bearer /, ''))?.username;
+
+// =========================================================
+// TASK ACTIONS
+// =========================================================
+
+// Where a new task takes its shelf, from the request fields
+const resolveDrop = (world: SimWorld, body: Body, type: TaskType, shelf: Shelf) => {
+  if (type === 'RETURN_SHELF') {
+    return { x: shelf.storage_x, y: shelf.storage_y, yaw: shelf.storage_yaw ?? 0 };
+  }
+
+  const targetShelfId = text(body, 'target_shelf_id');
+  if (targetShelfId) {
+    const target = getShelf(world, targetShelfId);
+    // Park next to the target shelf
+    return { x: (target.current_x ?? target.storage_x) + 1, y: target.current_y ?? target.storage_y, yaw: 0 };
+  }
+
+  const zoneId = text(body, 'target_zone_id') ?? text(body, 'drop_zone_id') ?? text(body, 'zone_id');
+  const zone = zoneId ? getZone(world, zoneId) : type === 'PICKUP_AND_DELIVER' ? world.zones.find((z) => !z.deleted) : undefined;
+  if (!zone) throw invalid('target_zone_id', 'a drop zone is required for this task type');
+  return { x: zone.x, y: zone.y, yaw: zone.yaw ?? 0, zone };
+};
+
+const createTask = ({ world, body, emit, now }: RouteContext) => {
+  const shelfId = requireText(body, 'shelf_id');
+  const priority = number(body, 'priority') ?? 5;
+  if (priority < 1 || priority > 10) throw invalid('priority', 'ensure this value is between 1 and 10');
+  const taskType = (text(body, 'task_type') ?? 'PICKUP_AND_DELIVER').toUpperCase() as TaskType;
+  if (!TASK_TYPES.includes(taskType)) throw invalid('task_type', `must be one of ${TASK_TYPES.join(', ')}`);
+
+  const shelf = getShelf(world, shelfId);
+  if (shelfHasActiveTask(world, shelf.id)) {
+    throw new SimHttpError(409, 'shelf_busy', `Shelf ${shelf.warehouse_id} already has an active task`);
+  }
+  const drop = resolveDrop(world, body, taskType, shelf);
+
+  const created = nowIso(now);
+  const task: Task = {
+    id: nextId(world, 'task'),
+    shelf_id: shelf.id,
+    priority,
+    status: 'PENDING',
+    task_type: taskType,
+    description: text(body, 'description'),
+    zone_id: text(body, 'zone_id') ?? drop.zone?.zone_id,
+    drop_zone_id: drop.zone?.zone_id,
+    target_shelf_id: text(body, 'target_shelf_id'),
+    target_zone_id: text(body, 'target_zone_id'),
+    pickup_x: shelf.current_x,
+    pickup_y: shelf.current_y,
+    pickup_yaw: shelf.current_yaw,
+    drop_x: drop.x,
+    drop_y: drop.y,
+    drop_yaw: drop.yaw,
+    target_x: drop.x,
+    target_y: drop.y,
+    target_yaw: drop.yaw,
+    origin_storage_x: shelf.storage_x,
+    origin_storage_y: shelf.storage_y,
+    origin_storage_yaw: shelf.storage_yaw,
+    origin_pickup_x: shelf.current_x,
+    origin_pickup_y: shelf.current_y,
+    origin_pickup_yaw: shelf.current_yaw,
+    progress: 0,
+    status_history: [{ status: 'PENDING', timestamp: created }],
+    created_at: created,
+    updated_at: created,
+  };
+  world.tasks.push(task);
+  emitTask(task, emit);
+  return task;
+};
+
+// Operator picks the robot for a failed or queued task; it starts right away
+const reassignTask = (world: SimWorld, task: Task, robotId: string, emit: SimEmit, now: number) => {
+  if (task.status !== 'ERROR' && task.status !== 'PENDING') {
+    throw new SimHttpError(
+      409,
+      'task_not_reassignable',
+      `Task is ${task.status}; only ERROR or PENDING tasks can be reassigned`
+    );
+  }
+  const robot = getRobot(world, robotId);
+  if (!canTakeTask(world, robot)) {
+    throw new SimHttpError(409, 'robot_unavailable', `Robot ${robot.robot_id} is ${robot.status} and can't take a task`);
+  }
+  const shelf = getShelf(world, task.shelf_id);
+  if (activeTasks(world).some((t) => t.shelf_id === shelf.id && t.id !== task.id)) {
+    throw new SimHttpError(409, 'shelf_busy', `Shelf ${shelf.warehouse_id} already has an active task`);
+  }
+
+  if (task.status === 'ERROR') {
+    task.error_message = undefined;
+    task.completed_at = undefined;
+    setTaskStatus(task, 'PENDING', now, emit);
+  }
+  assignTask(world, task, robot, shelf, emit, now, Math.random);
+};
+
+const moveTask = (world: SimWorld, task: Task, status: TaskStatus, emit: SimEmit, now: number) => {
+  // Failed tasks can still be re-queued or written off
+  if (isTerminal(task.status) && !(task.status === 'ERROR' && (status === 'PENDING' || status === 'CANCELLED'))) {
+    throw new SimHttpError(409, 'task_finished', `Task is already ${task.status}`);
+  }
+
+  if (task.status === 'ERROR') {
+    if (status === 'PENDING') {
+      task.error_message = undefined;
+      task.completed_at = undefined;
+    }
+    task.assigned_robot_id = undefined;
+    task.assigned_robot_name = undefined;
+    task.robot_id = undefined;
+    setTaskStatus(task, status, now, emit);
+  } else if (isTerminal(status)) {
+    finishTask(world, task, status, emit, now, status === 'ERROR' ? 'Marked as failed by operator' : undefined);
+  } else if (status === 'PENDING') {
+    // Hand the task back to the queue
+    const robot = findRobot(world, task.assigned_robot_id);
+    if (robot) {
+      robot.status = 'IDLE';
+      robot.available = true;
+    }
+    delete world.jobs[task.id];
+    task.assigned_robot_id = undefined;
+    task.assigned_robot_name = undefined;
+    task.robot_id = undefined;
+    setTaskStatus(task, status, now, emit);
+  } else {
+    const job = world.jobs[task.id];
+    if (!job) throw new SimHttpError(409, 'not_assigned', 'Task has no robot assigned yet');
+    setTaskStatus(task, status, now, emit, job);
+  }
+};
+
+// `robot_id` with ASSIGNED hands the task to that robot; `message` is kept
+// on the history entry, and alone (same status) it only adds a note
+const changeTaskStatus = ({ world, params, body, emit, now }: RouteContext) => {
+  const task = getTask(world, params.id);
+  const raw = text(body, 'new_status') ?? text(body, 'status');
+  const status = raw?.toUpperCase() as TaskStatus | undefined;
+  if (!status || !TASK_STATUSES.includes(status)) throw invalid('new_status', 'unknown task status');
+  const message = text(body, 'message');
+  const robotId = text(body, 'robot_id');
+
+  if (status === task.status && message) {
+    task.updated_at = nowIso(now);
+    (task.status_history ??= []).push({ status, timestamp: task.updated_at, robot_id: task.robot_id, message });
+    emitTask(task, emit);
+    return task;
+  }
+  if (status === 'ASSIGNED' && robotId) reassignTask(world, task, robotId, emit, now);
+  else moveTask(world, task, status, emit, now);
+
+  const last = task.status_history?.[task.status_history.length - 1];
+  if (message && last) last.message = message;
+  return task;
+};
+
+const taskStats = (world: SimWorld, now: number): LiveTaskStats => {
+  const count = (statuses: TaskStatus[]) => world.tasks.filter((t) => statuses.includes(t.status)).length;
+  const done = world.tasks.filter((t) => t.status === 'COMPLETED' && t.duration_seconds !== undefined);
+  return {
+    tasks: {
+      total: world.tasks.length,
+      assigned: count(['ASSIGNED']),
+      in_progress: activeTasks(world).filter((t) => t.status !== 'PENDING' && t.status !== 'ASSIGNED').length,
+      completed: count(['COMPLETED']),
+      failed: count(['ERROR']),
+      average_duration_seconds: done.length
+        ? Math.round(done.reduce((sum, t) => sum + (t.duration_seconds ?? 0), 0) / done.length)
+        : 0,
+    },
+    robots: {
+      total: world.robots.length,
+      available: world.robots.filter((r) => r.status === 'IDLE' && r.available).length,
+      busy: world.robots.filter((r) => r.status === 'BUSY').length,
+      offline: world.robots.filter((r) => r.status === 'OFFLINE').length,
+    },
+    timestamp: nowIso(now),
+  };
+};
+
+const robotStats = (world: SimWorld, now: number): LiveRobotStats => ({
+  total: world.robots.length,
+  available: world.robots.filter((r) => r.status === 'IDLE' && r.available).length,
+  busy: world.robots.filter((r) => r.status === 'BUSY').length,
+  offline: world.robots.filter((r) => r.status === 'OFFLINE').length,
+  error: world.robots.filter((r) => r.status === 'ERROR').length,
+  battery_levels: world.robots.map((r) => ({ robot_id: r.robot_id, battery_level: Math.round(r.battery_level ?? 0) })),
+  timestamp: nowIso(now),
+});
+
+// =========================================================
+// SHELF + STOCK ACTIONS
+// =========================================================
+
+const restoreShelf = ({ world, params, emit, now }: RouteContext) => {
+  const shelf = getShelf(world, params.id);
+  if (shelf.status === 'BUSY') {
+    throw new SimHttpError(409, 'shelf_busy', 'Shelf is on a robot; finish or cancel its task first');
+  }
+  updateShelf(
+    world,
+    shelf,
+    {
+      current_x: shelf.storage_x,
+      current_y: shelf.storage_y,
+      current_yaw: shelf.storage_yaw,
+      location_status: 'STORED',
+    },
+    emit,
+    now,
+    true
+  );
+  return shelfDoc(shelf);
+};
+
+const recordTransaction = (
+  world: SimWorld,
+  product: Product,
+  action: TransactionAction,
+  quantity: number,
+  now: number,
+  description?: string
+) => {
+  const transaction: ProductTransaction = {
+    id: nextId(world, 'txn'),
+    product_id: product.id,
+    quantity,
+    action,
+    description,
+    created_at: nowIso(now),
+  };
+  world.transactions.push(transaction);
+  product.updated_at = nowIso(now);
+  return { message: 'Stock updated', product, transaction };
+};
+
+const positiveQuantity = (body: Body) => {
+  const quantity = requireNumber(body, 'quantity');
+  if (quantity <= 0 || !Number.isInteger(quantity)) throw invalid('quantity', 'must be a positive whole number');
+  return quantity;
+};
+
+// =========================================================
+// ROUTE TABLE
+// =========================================================
+
+const routes: Route[] = [];
+
+const route = (method: Method, pattern: string, handler: Route['handler'], status = 200) => {
+  routes.push({ method, segments: pattern.split('/').filter(Boolean), handler, status });
+};
+
+// ---- health + auth ----
+route('GET', '/health', () => ({ status: 'ok', mode: 'simulator' }));
+
+route('POST', '/auth/login', ({ body, now }) => {
+  const username = text(body, 'username');
+  if (!username || !text(body, 'password')) {
+    throw new SimHttpError(401, 'invalid_credentials', 'Username and password are required');
+  }
+  return issueToken(username, now);
+});
+
+route('POST', '/auth/register-admin', ({ body }) => ({ message: `User ${requireText(body, 'username')} created` }), 201);
+
+route('POST', '/auth/refresh', ({ headers, now }) => {
+  const username = usernameFromToken(headers);
+  if (!username) throw new SimHttpError(401, 'invalid_token', 'Token cannot be refreshed');
+  return issueToken(username, now);
+});
+
+// ---- robots ----
+route('GET', '/robots', ({ world }) => list(world.robots));
+route('GET', '/robots/:id', ({ world, params }) => getRobot(world, params.id));
+
+route('GET', '/robots/:id/telemetry', ({ world, params, query }) => {
+  const robot = getRobot(world, params.id);
+  const start = query.get('start') ? Date.parse(query.get('start')!) : -Infinity;
+  const end = query.get('end') ? Date.parse(query.get('end')!) : Infinity;
+  const telemetry = (world.telemetry[robot.id] ?? []).filter((t) => {
+    const at = Date.parse(t.timestamp ?? '');
+    return at >= start && at <= end;
+  });
+  return { robot_id: robot.robot_id, telemetry, count: telemetry.length };
+});
+
+// Operator goto: an idle robot drives to a pose (or a zone's pose) and parks
+// there; with `charge` it stays out of the task queue until its battery is full
+route('POST', '/robots/:id/goto', ({ world, params, body, now }) => {
+  const robot = getRobot(world, params.id);
+  if (robot.status !== 'IDLE') {
+    throw new SimHttpError(409, 'robot_busy', `Robot ${robot.robot_id} is ${robot.status}`);
+  }
+  const zoneId = text(body, 'zone_id');
+  const zone = zoneId ? getZone(world, zoneId) : undefined;
+  const x = zone?.x ?? requireNumber(body, 'x');
+  const y = zone?.y ?? requireNumber(body, 'y');
+  const yaw = number(body, 'yaw') ?? zone?.yaw;
+  const charge = body.charge === true;
+  world.targets[robot.id] = { x, y, yaw, charge };
+  robot.available = !charge;
+  robot.updated_at = nowIso(now);
+  return {
+    message: `Robot ${robot.robot_id} heading to (${x.toFixed(1)}, ${y.toFixed(1)})`,
+    robot_id: robot.robot_id,
+    target: { x, y, yaw, zone_id: zone?.id },
+    charge,
+  };
+});
+
+const jobOf = (world: SimWorld, robot: Robot) => Object.values(world.jobs).find((j) => j.robotId === robot.id);
+
+// Pause holds a robot where it is; its task carries on once resumed
+route('POST', '/robots/:id/pause', ({ world, params, now }) => {
+  const robot = getRobot(world, params.id);
+  world.paused[robot.id] = true;
+  robot.updated_at = nowIso(now);
+  return { message: `Robot ${robot.robot_id} paused`, robot_id: robot.robot_id, paused: true };
+});
+
+route('POST', '/robots/:id/resume', ({ world, params, now }) => {
+  const robot = getRobot(world, params.id);
+  if (!world.paused[robot.id]) {
+    throw new SimHttpError(409, 'robot_not_paused', `Robot ${robot.robot_id} is not paused`);
+  }
+  delete world.paused[robot.id];
+  robot.updated_at = nowIso(now);
+  return { message: `Robot ${robot.robot_id} resumed`, robot_id: robot.robot_id, paused: false };
+});
+
+// Emergency stop fails the current task and keeps the robot in ERROR until resumed
+route('POST', '/robots/:id/estop', ({ world, params, emit, now }) => {
+  const robot = getRobot(world, params.id);
+  const job = jobOf(world, robot);
+  if (job) finishTask(world, getTask(world, job.taskId), 'ERROR', emit, now, 'Emergency stop by operator');
+  delete world.targets[robot.id];
+  delete world.recoverAt[robot.id];
+  world.paused[robot.id] = true;
+  Object.assign(robot, { status: 'ERROR', available: false, updated_at: nowIso(now) });
+  emit('robot_update', { ...robot });
+  return { message: `Robot ${robot.robot_id} stopped; resume it to return to service`, robot_id: robot.robot_id };
+});
+
+// The attached shelf is set down where the robot is; its task is cancelled
+route('POST', '/robots/:id/release-shelf', ({ world, params, emit, now }) => {
+  const robot = getRobot(world, params.id);
+  const shelf = findShelf(world, robot.current_shelf_id);
+  if (!shelf) {
+    throw new SimHttpError(409, 'no_shelf_attached', `Robot ${robot.robot_id} is not carrying a shelf`);
+  }
+  const job = jobOf(world, robot);
+  if (job) finishTask(world, getTask(world, job.taskId), 'CANCELLED', emit, now);
+  robot.current_shelf_id = undefined;
+  updateShelf(
+    world,
+    shelf,
+    {
+      current_x: robot.current_x,
+      current_y: robot.current_y,
+      current_yaw: robot.current_yaw,
+      location_status: 'REPOSITIONED',
+      status: 'IDLE',
+      available: true,
+    },
+    emit,
+    now,
+    true
+  );
+  return { message: `Shelf ${shelf.warehouse_id} released by ${robot.robot_id}`, robot_id: robot.robot_id };
+});
+
+route(
+  'POST',
+  '/robots',
+  ({ world, body, now }) => {
+    const robotId = requireText(body, 'robot_id');
+    if (world.robots.some((r) => r.robot_id === robotId)) {
+      throw new SimHttpError(409, 'robot_exists', `Robot ${robotId} already exists`);
+    }
+    const x = number(body, 'current_x') ?? 1 + (world.robots.length % 20);
+    const y = number(body, 'current_y') ?? 1;
+    const robot: Robot = {
+      id: nextId(world, 'sim-robot'),
+      name: requireText(body, 'name'),
+      robot_id: robotId,
+      available: true,
+      status: 'IDLE',
+      current_x: x,
+      current_y: y,
+      current_yaw: number(body, 'current_yaw') ?? 0,
+      battery_level: 100,
+      cpu_usage: 10,
+      ram_usage: 30,
+      temperature: 36,
+      created_at: nowIso(now),
+      updated_at: nowIso(now),
+    };
+    world.robots.push(robot);
+    world.homes[robot.id] = { x, y };
+    return robot;
+  },
+  201
+);
+
+route('PUT', '/robots/:id', ({ world, params, body, emit, now }) => {
+  const robot = getRobot(world, params.id);
+  Object.assign(
+    robot,
+    pick<Robot>(body, ['name', 'robot_id', 'status', 'available', 'current_x', 'current_y', 'current_yaw']),
+    { updated_at: nowIso(now) }
+  );
+  emit('robot_update', { ...robot });
+  return robot;
+});
+
+route('DELETE', '/robots/:id', ({ world, params, emit, now }) => {
+  const robot = getRobot(world, params.id);
+  const job = jobOf(world, robot);
+  if (job) finishTask(world, getTask(world, job.taskId), 'ERROR', emit, now, 'Assigned robot was removed');
+  world.robots = world.robots.filter((r) => r.id !== robot.id);
+  return { message: `Robot ${robot.robot_id} deleted` };
+});
+
+// ---- shelves ----
+route('GET', '/shelves', ({ world }) => list(world.shelves.filter((s) => !s.deleted).map(shelfDoc)));
+route('GET', '/shelves/:id', ({ world, params }) => shelfDoc(getShelf(world, params.id)));
+
+route(
+  'POST',
+  '/shelves',
+  ({ world, body, now }) => {
+    const x = requireNumber(body, 'current_x');
+    const y = requireNumber(body, 'current_y');
+    const yaw = number(body, 'current_yaw') ?? 0;
+    const shelf: Shelf = {
+      id: nextId(world, 'shelf'),
+      warehouse_id: requireText(body, 'warehouse_id'),
+      level: number(body, 'level') ?? 0,
+      current_x: x,
+      current_y: y,
+      current_yaw: yaw,
+      storage_x: number(body, 'storage_x') ?? x,
+      storage_y: number(body, 'storage_y') ?? y,
+      storage_yaw: number(body, 'storage_yaw') ?? yaw,
+      location_status: 'STORED',
+      available: body.available !== false,
+      status: 'IDLE',
+      created_at: nowIso(now),
+      updated_at: nowIso(now),
+    };
+    world.shelves.push(shelf);
+    world.shelfHistory[shelf.id] = [{ timestamp: nowIso(now), x, y, yaw, status: 'STORED' }];
+    return shelfDoc(shelf);
+  },
+  201
+);
+
+route('PUT', '/shelves/:id', ({ world, params, body, emit, now }) => {
+  const shelf = getShelf(world, params.id);
+  updateShelf(world, shelf, pick<Shelf>(body, ['warehouse_id', 'level', 'available', 'status']), emit, now);
+  return shelfDoc(shelf);
+});
+
+route('PUT', '/shelves/:id/location', ({ world, params, body, emit, now }) => {
+  const shelf = getShelf(world, params.id);
+  const x = requireNumber(body, 'current_x');
+  const y = requireNumber(body, 'current_y');
+  const atStorage = x === shelf.storage_x && y === shelf.storage_y;
+  updateShelf(
+    world,
+    shelf,
+    {
+      current_x: x,
+      current_y: y,
+      current_yaw: number(body, 'current_yaw') ?? shelf.current_yaw,
+      location_status: atStorage ? 'STORED' : 'REPOSITIONED',
+    },
+    emit,
+    now,
+    true
+  );
+  return shelfDoc(shelf);
+});
+
+route('POST', '/shelves/:id/restore', restoreShelf);
+route('PUT', '/shelves/:id/restore-location', restoreShelf);
+
+route('PUT', '/shelves/:id/storage', ({ world, params, body, emit, now }) => {
+  const shelf = getShelf(world, params.id);
+  updateShelf(
+    world,
+    shelf,
+    {
+      storage_x: requireNumber(body, 'storage_x'),
+      storage_y: requireNumber(body, 'storage_y'),
+      storage_yaw: number(body, 'storage_yaw') ?? 0,
+    },
+    emit,
+    now
+  );
+  return shelfDoc(shelf);
+});
+
+route('GET', '/shelves/:id/location-info', ({ world, params }) => {
+  const shelf = getShelf(world, params.id);
+  return {
+    shelf_id: shelf.id,
+    current_x: shelf.current_x,
+    current_y: shelf.current_y,
+    current_yaw: shelf.current_yaw,
+    storage_x: shelf.storage_x,
+    storage_y: shelf.storage_y,
+    storage_yaw: shelf.storage_yaw,
+    location_status:
+      shelf.location_status === 'STORED' ? 'AT_STORAGE' : shelf.location_status === 'IN_TRANSIT' ? 'IN_TRANSIT' : 'AT_ZONE',
+    updated_at: shelf.updated_at,
+  };
+});
+
+route('GET', '/shelves/:id/location-history', ({ world, params, query }) => {
+  const shelf = getShelf(world, params.id);
+  const limit = Number(query.get('limit')) || 50;
+  return { shelf_id: shelf.id, history: (world.shelfHistory[shelf.id] ?? []).slice(-limit).reverse() };
+});
+
+route('GET', '/shelves/:id/products', ({ world, params }) => {
+  const shelf = getShelf(world, params.id);
+  return { products: world.products.filter((p) => p.shelf_id === shelf.id) };
+});
+
+route('DELETE', '/shelves/:id', ({ world, params, emit, now }) => {
+  const shelf = getShelf(world, params.id);
+  if (shelfHasActiveTask(world, shelf.id)) {
+    throw new SimHttpError(409, 'shelf_busy', 'Shelf has an active task');
+  }
+  Object.assign(shelf, { deleted: true, updated_at: nowIso(now) });
+  emit('shelf_deleted', { shelf_id: shelf.id });
+  return { message: `Shelf ${shelf.warehouse_id} deleted` };
+});
+
+// ---- zones ----
+route('GET', '/zones', ({ world }) => list(world.zones.filter((z) => !z.deleted)));
+route('GET', '/zones/:id', ({ world, params }) => getZone(world, params.id));
+
+route(
+  'POST',
+  '/zones',
+  ({ world, body, now }) => {
+    const zoneId = requireText(body, 'zone_id');
+    if (findZone(world, zoneId)) throw new SimHttpError(409, 'zone_exists', `Zone ${zoneId} already exists`);
+    const zone: Zone = {
+      id: nextId(world, 'zone'),
+      zone_id: zoneId,
+      name: text(body, 'name'),
+      x: requireNumber(body, 'x'),
+      y: requireNumber(body, 'y'),
+      yaw: number(body, 'yaw') ?? 0,
+      created_at: nowIso(now),
+      updated_at: nowIso(now),
+    };
+    world.zones.push(zone);
+    return zone;
+  },
+  201
+);
+
+route('PUT', '/zones/:id', ({ world, params, body, now }) => {
+  const zone = getZone(world, params.id);
+  Object.assign(zone, pick<Zone>(body, ['name', 'x', 'y', 'yaw']), { updated_at: nowIso(now) });
+  return zone;
+});
+
+route('DELETE', '/zones/:id', ({ world, params, now }) => {
+  const zone = getZone(world, params.id);
+  Object.assign(zone, { deleted: true, deleted_at: nowIso(now) });
+  return { message: `Zone ${zone.zone_id} deleted` };
+});
+
+// Shelves parked within 1.5 m of the zone
+route('GET', '/zones/:id/shelves', ({ world, params }) => {
+  const zone = getZone(world, params.id);
+  const near = (s: Shelf) => Math.hypot((s.current_x ?? s.storage_x) - zone.x, (s.current_y ?? s.storage_y) - zone.y) <= 1.5;
+  return { shelves: world.shelves.filter((s) => !s.deleted && near(s)).map(shelfDoc) };
+});
+
+// ---- products ----
+route('GET', '/products', ({ world }) => list(world.products));
+
+route('GET', '/products/search', ({ world, query }) => {
+  const q = (query.get('q') ?? '').toLowerCase();
+  return world.products.filter((p) => [p.name, p.sku, p.category].some((v) => v?.toLowerCase().includes(q)));
+});
+
+route('POST', '/products/return', ({ world, body, now }) => {
+  const product = getProduct(world, requireText(body, 'product_id'));
+  const quantity = positiveQuantity(body);
+  product.quantity += quantity;
+  return recordTransaction(world, product, 'RETURN', quantity, now, text(body, 'description'));
+});
+
+route('POST', '/products/adjust', ({ world, body, now }) => {
+  const product = getProduct(world, requireText(body, 'product_id'));
+  const next = requireNumber(body, 'new_quantity');
+  if (next < 0) throw invalid('new_quantity', 'must not be negative');
+  const delta = next - product.quantity;
+  product.quantity = next;
+  return recordTransaction(world, product, 'ADJUST', delta, now, text(body, 'reason'));
+});
+
+route('GET', '/products/:id', ({ world, params }) => getProduct(world, params.id));
+
+route(
+  'POST',
+  '/products',
+  ({ world, body, now }) => {
+    const sku = requireText(body, 'sku');
+    if (world.products.some((p) => p.sku === sku)) throw new SimHttpError(409, 'sku_exists', `SKU ${sku} already exists`);
+    const product: Product = {
+      ...(body as Partial<Product>),
+      id: nextId(world, 'product'),
+      name: requireText(body, 'name'),
+      sku,
+      quantity: number(body, 'quantity') ?? 0,
+      created_at: nowIso(now),
+      updated_at: nowIso(now),
+    };
+    world.products.push(product);
+    return product;
+  },
+  201
+);
+
+route('PUT', '/products/:id', ({ world, params, body, now }) => {
+  const product = getProduct(world, params.id);
+  const { id: _id, ...changes } = body;
+  Object.assign(product, changes, { updated_at: nowIso(now) });
+  return product;
+});
+
+route('DELETE', '/products/:id', ({ world, params }) => {
+  const product = getProduct(world, params.id);
+  world.products = world.products.filter((p) => p.id !== product.id);
+  return { message: `Product ${product.sku} deleted` };
+});
+
+route('POST', '/products/:id/pick', ({ world, params, body, now }) => {
+  const product = getProduct(world, params.id);
+  const key = text(body, 'idempotency_key');
+  const earlier = key && world.transactions.find((t) => t.product_id === product.id && t.idempotency_key === key);
+  if (earlier) return { message: 'Already picked', product, transaction: earlier };
+  const quantity = positiveQuantity(body);
+  if (quantity > product.quantity) {
+    throw new SimHttpError(400, 'insufficient_stock', `Only ${product.quantity} units in stock`);
+  }
+  product.quantity -= quantity;
+  const result = recordTransaction(world, product, 'PICK', quantity, now, text(body, 'description'));
+  if (key) result.transaction.idempotency_key = key;
+  return result;
+});
+
+route('GET', '/products/:id/transactions', ({ world, params }) => ({
+  transactions: world.transactions.filter((t) => t.product_id === getProduct(world, params.id).id).reverse(),
+}));
+
+route('GET', '/products/:id/images', ({ world, params }) => ({ images: getProduct(world, params.id).image_urls ?? [] }));
+
+// Uploaded files are kept as object URLs for the lifetime of the page
+route('POST', '/products/:id/images', ({ world, params, body }) => {
+  const product = getProduct(world, params.id);
+  const file = body.image;
+  if (!(file instanceof Blob) || typeof URL.createObjectURL !== 'function') throw invalid('image', 'file required');
+  const url = URL.createObjectURL(file);
+  product.image_urls = [...(product.image_urls ?? []), url];
+  product.main_image_url ??= url;
+  return { message: 'Image uploaded', image_url: url, product };
+});
+
+route('DELETE', '/products/:id/images/:index', ({ world, params }) => {
+  const product = getProduct(world, params.id);
+  const index = Number(params.index);
+  const urls = product.image_urls ?? [];
+  if (!(index >= 0 && index < urls.length)) throw new SimHttpError(404, 'image_not_found', 'Image not found');
+  const [removed] = urls.splice(index, 1);
+  if (product.main_image_url === removed) product.main_image_url = urls[0];
+  return { message: 'Image deleted', product };
+});
+
+route('PUT', '/products/:id/images/set-main', ({ world, params, body }) => {
+  const product = getProduct(world, params.id);
+  product.main_image_url = requireText(body, 'image_url');
+  return { message: 'Main image updated', product };
+});
+
+// ---- tasks ----
+route('GET', '/tasks', ({ world, query }) => {
+  const csv = (key: string) => query.get(key)?.toUpperCase().split(',').filter(Boolean);
+  const num = (key: string) => (query.get(key) ? Number(query.get(key)) : undefined);
+  const filter: TaskFilterOptions = {
+    status: csv('status') as TaskStatus[] | undefined,
+    task_type: csv('task_type') as TaskType[] | undefined,
+    robot_id: query.get('robot_id') ?? undefined,
+    shelf_id: query.get('shelf_id') ?? undefined,
+    zone_id: query.get('zone_id') ?? undefined,
+    priority_min: num('priority_min'),
+    priority_max: num('priority_max'),
+    dateRange: { start: query.get('created_after') ?? undefined, end: query.get('created_before') ?? undefined },
+    search: query.get('search') ?? undefined,
+  };
+  const zone = findZone(world, filter.zone_id);
+  const offset = Number(query.get('offset')) || 0;
+  const limit = Number(query.get('limit')) || undefined;
+  const matches = world.tasks
+    .filter((t) => matchesTaskFilter(t, filter, zone))
+    .sort(
+      compareTasks({
+        field: query.get('sort_by') ?? DEFAULT_TASK_SORT.field,
+        order: query.get('sort_order') === 'asc' ? 'asc' : 'desc',
+      })
+    );
+  const page = matches.slice(offset, limit ? offset + limit : undefined);
+  return { results: page, count: page.length, total: matches.length };
+});
+
+route('POST', '/tasks/assign', createTask, 201);
+route('GET', '/tasks/stats/live', ({ world, now }) => taskStats(world, now));
+
+route('GET', '/tasks/realtime/map/all', ({ world }) => {
+  const tasks = activeMapViews(world);
+  return { tasks, count: tasks.length };
+});
+
+route('GET', '/tasks/realtime/map/robot/:id', ({ world, params }) => {
+  const robot = getRobot(world, params.id);
+  const tasks = activeTasks(world).filter((t) => t.assigned_robot_id === robot.id);
+  return { tasks: tasks.map((t) => taskMapView(world, t)) };
+});
+
+route('POST', '/tasks/realtime/broadcast-map-update', ({ world, emit, now }) => {
+  const tasks = activeMapViews(world);
+  emit('all_tasks_map_update', { tasks, timestamp: now });
+  return { message: 'Map update broadcast', count: tasks.length };
+});
+
+route('GET', '/tasks/realtime/:id', ({ world, params }) => ({ task: taskMapView(world, getTask(world, params.id)) }));
+route('PUT', '/tasks/realtime/:id/status', changeTaskStatus);
+
+route('POST', '/tasks/realtime/:id/position', ({ world, params, body, emit, now }) => {
+  const task = getTask(world, params.id);
+  task.current_robot_x = number(body, 'robot_x') ?? number(body, 'x');
+  task.current_robot_y = number(body, 'robot_y') ?? number(body, 'y');
+  task.updated_at = nowIso(now);
+  emitTask(task, emit);
+  return { message: 'Position updated', task };
+});
+
+route('GET', '/tasks/:id', ({ world, params }) => getTask(world, params.id));
+
+route('DELETE', '/tasks/:id', ({ world, params, emit, now }) => {
+  const task = getTask(world, params.id);
+  if (!isTerminal(task.status)) finishTask(world, task, 'CANCELLED', emit, now);
+  world.tasks = world.tasks.filter((t) => t.id !== task.id);
+  return { message: `Task ${task.id} deleted` };
+});
+
+// ---- dashboard ----
+route('GET', '/dashboard/top-moving', ({ world }) => {
+  const moved: Record<string, number> = {};
+  world.transactions
+    .filter((t) => t.action === 'PICK')
+    .forEach((t) => (moved[t.product_id] = (moved[t.product_id] ?? 0) + t.quantity));
+  return world.products
+    .map((p) => ({ product_id: p.id, name: p.name, sku: p.sku, quantity_moved: moved[p.id] ?? 0 }))
+    .sort((a, b) => b.quantity_moved - a.quantity_moved)
+    .slice(0, 5);
+});
+
+route('GET', '/dashboard/shelves', ({ world }) => {
+  const shelves = world.shelves.filter((s) => !s.deleted);
+  const byStatus: Record<string, number> = {};
+  shelves.forEach((s) => (byStatus[s.location_status ?? 'STORED'] = (byStatus[s.location_status ?? 'STORED'] ?? 0) + 1));
+  return { total: shelves.length, available: shelves.filter((s) => s.available).length, by_location_status: byStatus };
+});
+
+route('GET', '/dashboard/daily', ({ world }) => {
+  const days: Record<string, { date: string; created: number; completed: number }> = {};
+  world.tasks.forEach((t) => {
+    const date = (t.created_at ?? '').slice(0, 10);
+    days[date] ??= { date, created: 0, completed: 0 };
+    days[date].created += 1;
+    if (t.status === 'COMPLETED') days[date].completed += 1;
+  });
+  return Object.values(days).sort((a, b) => a.date.localeCompare(b.date));
+});
+
+route('GET', '/dashboard/live/tasks', ({ world, now }) => taskStats(world, now).tasks);
+route('GET', '/dashboard/live/robots', ({ world, now }) => robotStats(world, now));
+route('GET', '/dashboard/live/system', ({ world, now }) => systemHealth(world, now));
+
+// ---- maps ----
+const mapMetadata = (world: SimWorld) => ({
+  id: 'sim-map',
+  name: 'Simulated warehouse',
+  width: world.grid.width,
+  height: world.grid.height,
+  resolution: world.grid.resolution,
+  origin: world.grid.origin,
+});
+
+const mergedMap = ({ world, now }: RouteContext) => ({
+  ...mapMetadata(world),
+  data: world.grid.data,
+  robots: world.robots,
+  shelves: world.shelves.filter((s) => !s.deleted).map(shelfDoc),
+  tasks: activeTasks(world),
+  zones: world.zones.filter((z) => !z.deleted),
+  entity_count: {
+    robots: world.robots.length,
+    shelves: world.shelves.filter((s) => !s.deleted).length,
+    tasks: activeTasks(world).length,
+    zones: world.zones.filter((z) => !z.deleted).length,
+  },
+  updated_at: nowIso(now),
+});
+
+route('GET', '/maps/merged', mergedMap);
+route('GET', '/maps/data', mergedMap);
+route('GET', '/maps/metadata', ({ world }) => mapMetadata(world));
+route('GET', '/maps/occupancy-grid', ({ world }) => ({ ...mapMetadata(world), data: world.grid.data }));
+
+route('PUT', '/maps/metadata', ({ world, body }) => {
+  const resolution = number(body, 'resolution');
+  if (resolution !== undefined) {
+    if (resolution <= 0) throw invalid('resolution', 'must be positive');
+    world.grid.resolution = resolution;
+  }
+  const origin = body.origin as { x?: unknown; y?: unknown } | undefined;
+  if (origin) {
+    world.grid.origin = { ...world.grid.origin, x: Number(origin.x) || 0, y: Number(origin.y) || 0 };
+  }
+  return mapMetadata(world);
+});
+
+// =========================================================
+// DISPATCH
+// =========================================================
+
+const match = (routeSegments: string[], pathSegments: string[]) => {
+  if (routeSegments.length !== pathSegments.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    const segment = routeSegments[i];
+    if (segment.startsWith(':')) params[segment.slice(1)] = decodeURIComponent(pathSegments[i]);
+    else if (segment !== pathSegments[i]) return null;
+  }
+  return params;
+};
+
+/**
+ * Serve one request against the world. `path` includes the query string;
+ * `body` is the decoded JSON (or FormData entries) of the request.
+ */
+export const handleRequest = (
+  world: SimWorld,
+  emit: SimEmit,
+  method: string,
+  path: string,
+  body: Body,
+  headers: Record<string, string> = {},
+  now = Date.now()
+): SimResponse => {
+  const [pathname, search = ''] = path.split('?');
+  const segments = pathname.split('/').filter(Boolean);
+
+  for (const r of routes) {
+    if (r.method !== method) continue;
+    const params = match(r.segments, segments);
+    if (!params) continue;
+
+    try {
+      const result = r.handler({ world, params, query: new URLSearchParams(search), body, headers, emit, now });
+      return { status: r.status, body: result };
+    } catch (err) {
+      if (err instanceof SimHttpError) {
+        return { status: err.status, body: { error: err.error, message: err.message, details: err.details } };
+      }
+      const message = err instanceof Error ? err.message : 'Simulator error';
+      return { status: 500, body: { error: 'internal_error', message } };
+    }
+  }
+
+  return { status: 404, body: { error: 'not_found', message: `No simulator route for ${method} ${pathname}` } };
+};
@@ -0,0 +1,268 @@
+/**
+ * In-memory warehouse used by the fleet simulator: seed data plus the
+ * mutable state the engine (engine.ts) and REST routes (routes.ts) share
+ */
+import type {
+  LocationHistoryEntry,
+  Product,
+  ProductTransaction,
+  Robot,
+  RobotTelemetry,
+  Shelf,
+  Task,
+  TaskStatus,
+  Zone,
+} from '@/types';
+
+// =========================================================
+// SCENARIO
+// =========================================================
+
+export interface SimScenario {
+  /** Number of robots */
+  fleetSize: number;
+  /** Robot travel speed in m/s */
+  speed: number;
+  /** Probability (0-1) that a task ends in ERROR */
+  failureRate: number;
+  /** Battery used per minute of driving, in percent */
+  batteryDrain: number;
+}
+
+export const DEFAULT_SCENARIO: SimScenario = {
+  fleetSize: 4,
+  speed: 0.8,
+  failureRate: 0.05,
+  batteryDrain: 2,
+};
+
+export const SCENARIO_LIMITS: Record<keyof SimScenario, { min: number; max: number; step: number }> = {
+  fleetSize: { min: 1, max: 12, step: 1 },
+  speed: { min: 0.2, max: 3, step: 0.1 },
+  failureRate: { min: 0, max: 1, step: 0.05 },
+  batteryDrain: { min: 0, max: 20, step: 0.5 },
+};
+
+/** Clamp every field into SCENARIO_LIMITS (persisted values may be stale) */
+export const clampScenario = (scenario: Partial<SimScenario>): SimScenario => {
+  const out = { ...DEFAULT_SCENARIO };
+  (Object.keys(SCENARIO_LIMITS) as (keyof SimScenario)[]).forEach((key) => {
+    const value = Number(scenario[key]);
+    if (Number.isFinite(value)) {
+      const { min, max } = SCENARIO_LIMITS[key];
+      out[key] = Math.min(max, Math.max(min, value));
+    }
+  });
+  out.fleetSize = Math.round(out.fleetSize);
+  return out;
+};
+
+// =========================================================
+// WORLD STATE
+// =========================================================
+
+export interface SimPoint {
+  x: number;
+  y: number;
+}
+
+/** Where an operator sent a robot; `charge` keeps it there until full */
+export interface SimTarget extends SimPoint {
+  yaw?: number;
+  charge?: boolean;
+}
+
+/** Engine bookkeeping for a task that has a robot */
+export interface SimJob {
+  taskId: string;
+  robotId: string;
+  /** When the task entered its current status (ms) */
+  phaseSince: number;
+  /** Status at which the task will fail, if it is going to */
+  failAt?: TaskStatus;
+}
+
+export interface SimGrid {
+  width: number;
+  height: number;
+  resolution: number;
+  origin: { x: number; y: number; yaw: number };
+  /** Row-major, row 0 at the bottom (min y) */
+  data: number[];
+}
+
+export interface SimWorld {
+  scenario: SimScenario;
+  startedAt: number;
+  grid: SimGrid;
+  robots: Robot[];
+  shelves: Shelf[];
+  zones: Zone[];
+  products: Product[];
+  tasks: Task[];
+  transactions: ProductTransaction[];
+  shelfHistory: Record<string, LocationHistoryEntry[]>;
+  /** Dock position of each robot (by id) */
+  homes: Record<string, SimPoint>;
+  /** Operator goto targets of idle robots (by id) */
+  targets: Record<string, SimTarget>;
+  /** Robots an operator paused or emergency-stopped (by id); they hold still until resumed */
+  paused: Record<string, boolean>;
+  /** Robots in ERROR recover at this time (ms) */
+  recoverAt: Record<string, number>;
+  jobs: Record<string, SimJob>;
+  /** Last system_update broadcast (ms) */
+  lastSystemUpdate: number;
+  /** Stored telemetry samples per robot (by id), oldest first */
+  telemetry: Record<string, RobotTelemetry[]>;
+  /** Last telemetry sample stored (ms) */
+  lastTelemetrySample: number;
+  /** Source of ids for created documents */
+  seq: number;
+}
+
+// Warehouse floor in metres
+const FLOOR_WIDTH = 24;
+const FLOOR_HEIGHT = 16;
+const RESOLUTION = 0.1;
+
+export const nowIso = (now = Date.now()) => new Date(now).toISOString();
+
+/** Next id with a readable prefix, e.g. task-0012 */
+export const nextId = (world: SimWorld, prefix: string) => {
+  world.seq += 1;
+  return `${prefix}-${String(world.seq).padStart(4, '0')}`;
+};
+
+// Free floor with walls on the border and a row of pillars
+const buildGrid = (): SimGrid => {
+  const width = Math.round(FLOOR_WIDTH / RESOLUTION);
+  const height = Math.round(FLOOR_HEIGHT / RESOLUTION);
+  const data = new Array<number>(width * height).fill(0);
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const wall = row < 2 || row >= height - 2 || col < 2 || col >= width - 2;
+      const pillar = row >= 78 && row < 82 && col % 60 >= 28 && col % 60 < 32;
+      if (wall || pillar) data[row * width + col] = 100;
+    }
+  }
+
+  return { width, height, resolution: RESOLUTION, origin: { x: 0, y: 0, yaw: 0 }, data };
+};
+
+const PRODUCT_SEED: Array<Pick<Product, 'name' | 'sku' | 'category' | 'price' | 'quantity'>> = [
+  { name: 'Cordless Drill', sku: 'TL-1001', category: 'Tools', price: 89.9, quantity: 34 },
+  { name: 'Safety Gloves (pair)', sku: 'PP-2040', category: 'Safety', price: 6.5, quantity: 420 },
+  { name: 'LED Work Light', sku: 'EL-3300', category: 'Electrical', price: 24.0, quantity: 75 },
+  { name: 'Packing Tape', sku: 'PK-0105', category: 'Packaging', price: 2.2, quantity: 900 },
+  { name: 'Cable Ties 200pc', sku: 'EL-3412', category: 'Electrical', price: 4.8, quantity: 310 },
+  { name: 'Hex Key Set', sku: 'TL-1150', category: 'Tools', price: 12.0, quantity: 58 },
+  { name: 'Shipping Box M', sku: 'PK-0220', category: 'Packaging', price: 1.1, quantity: 1200 },
+  { name: 'Hard Hat', sku: 'PP-2101', category: 'Safety', price: 15.5, quantity: 64 },
+];
+
+/**
+ * Fresh warehouse for a scenario: 12 shelves in three racks, three drop
+ * zones along the top wall and the fleet docked along the bottom wall
+ */
+export const createWorld = (scenario: SimScenario, now = Date.now()): SimWorld => {
+  const created = nowIso(now);
+  const world: SimWorld = {
+    scenario,
+    startedAt: now,
+    grid: buildGrid(),
+    robots: [],
+    shelves: [],
+    zones: [],
+    products: [],
+    tasks: [],
+    transactions: [],
+    shelfHistory: {},
+    homes: {},
+    targets: {},
+    paused: {},
+    recoverAt: {},
+    jobs: {},
+    lastSystemUpdate: 0,
+    telemetry: {},
+    lastTelemetrySample: 0,
+    seq: 0,
+  };
+
+  for (let rack = 0; rack < 3; rack++) {
+    for (let slot = 0; slot < 4; slot++) {
+      const x = 5 + rack * 7;
+      const y = 4 + slot * 2;
+      const id = `shelf-${rack * 4 + slot + 1}`;
+      world.shelves.push({
+        id,
+        warehouse_id: `R${rack + 1}-S${slot + 1}`,
+        level: slot % 2,
+        current_x: x,
+        current_y: y,
+        current_yaw: 0,
+        storage_x: x,
+        storage_y: y,
+        storage_yaw: 0,
+        location_status: 'STORED',
+        available: true,
+        status: 'IDLE',
+        created_at: created,
+        updated_at: created,
+      });
+      world.shelfHistory[id] = [{ timestamp: created, x, y, yaw: 0, status: 'STORED' }];
+    }
+  }
+
+  [
+    { zone_id: 'DROP-1', name: 'Packing Station 1', x: 5 },
+    { zone_id: 'DROP-2', name: 'Packing Station 2', x: 12 },
+    { zone_id: 'DOCK-OUT', name: 'Outbound Dock', x: 19 },
+  ].forEach((zone, i) => {
+    world.zones.push({
+      id: `zone-${i + 1}`,
+      zone_id: zone.zone_id,
+      name: zone.name,
+      x: zone.x,
+      y: 13.5,
+      yaw: 0,
+      created_at: created,
+      updated_at: created,
+    });
+  });
+
+  PRODUCT_SEED.forEach((product, i) => {
+    world.products.push({
+      ...product,
+      id: `product-${i + 1}`,
+      shelf_id: world.shelves[i % world.shelves.length].id,
+      created_at: created,
+      updated_at: created,
+    });
+  });
+
+  for (let i = 0; i < scenario.fleetSize; i++) {
+    const id = `sim-robot-${i + 1}`;
+    const home = { x: 2 + ((i * 20) / Math.max(scenario.fleetSize, 1)) + 0.5, y: 1 };
+    world.homes[id] = home;
+    world.robots.push({
+      id,
+      name: `Sim Bot ${i + 1}`,
+      robot_id: `SIM-${String(i + 1).padStart(2, '0')}`,
+      available: true,
+      status: 'IDLE',
+      current_x: home.x,
+      current_y: home.y,
+      current_yaw: Math.PI / 2,
+      battery_level: 70 + ((i * 37) % 30),
+      cpu_usage: 12,
+      ram_usage: 30,
+      temperature: 38,
+      created_at: created,
+      updated_at: created,
+    });
+  }
+
+  return world;
+};
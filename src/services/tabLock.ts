@@ -0,0 +1,77 @@
+/**
+ * Cross-tab locks for the background services every open tab runs
+ * (fulfilment picks, shelf returns, schedules, workflows). Holding the lock
+ * only serialises the tabs; callers still re-read their persisted store
+ * inside it, since another tab may have acted just before.
+ */
+
+/** A lease older than this is taken over (a tab closed mid-action) */
+const LEASE_MS = 30_000;
+const POLL_MS = 100;
+
+interface Lease {
+  owner: string;
+  until: number;
+}
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const lockKey = (name: string) => `warebot-lock-${name}`;
+
+const readLease = (key: string): Lease | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null') as Lease | null;
+  } catch {
+    return null;
+  }
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Browsers without the Web Locks API: a lease in localStorage, confirmed
+// after a short wait so two tabs writing at once don't both go ahead
+const withLease = async <T>(key: string, fn: () => Promise<T>): Promise<T> => {
+  for (;;) {
+    const lease = readLease(key);
+    if (!lease || lease.until < Date.now()) {
+      localStorage.setItem(key, JSON.stringify({ owner: tabId, until: Date.now() + LEASE_MS }));
+      await sleep(POLL_MS / 2);
+      if (readLease(key)?.owner === tabId) break;
+    }
+    await sleep(POLL_MS);
+  }
+  try {
+    return await fn();
+  } finally {
+    if (readLease(key)?.owner === tabId) localStorage.removeItem(key);
+  }
+};
+
+/**
+ * Run `fn` while no other tab of this origin holds the lock `name`.
+ * Outside a browser (tests) it just runs.
+ */
+export const withTabLock = <T>(name: string, fn: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(lockKey(name), () => fn());
+  }
+  if (typeof localStorage === 'undefined') return fn();
+  return withLease(lockKey(name), fn);
+};
+
+interface PersistedStore {
+  persist: { rehydrate: () => Promise<void> | void; getOptions: () => { name?: string } };
+}
+
+/**
+ * Reload a persisted store whenever another tab writes it, so this tab's
+ * next write doesn't put back a stale copy. Returns the stop function.
+ */
+export const followOtherTabs = (store: PersistedStore) => {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === store.persist.getOptions().name) store.persist.rehydrate();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
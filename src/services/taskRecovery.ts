@@ -0,0 +1,91 @@
+/**
+ * Recovery actions for failed tasks (lib/taskRecovery.ts). Each call
+ * updates the entity cache and records the attempt, successful or not, on
+ * the task: a note on its status history, sent through the status
+ * endpoint. A note the backend refuses stays in this browser
+ * (stores/taskRecoveryStore.ts).
+ */
+import { shelves, tasks } from '@/services/api';
+import { useAuthStore } from '@/stores/authStore';
+import { useEntityStore } from '@/stores/entityStore';
+import { useTaskRecoveryStore } from '@/stores/taskRecoveryStore';
+import { recoveryNote, type RecoveryAction, type RecoveryEntry } from '@/lib/taskRecovery';
+import type { Task } from '@/types';
+
+// The status may have moved on with the action itself, so the note goes on
+// the latest cached one
+const saveNote = async (task: Task, entry: Omit<RecoveryEntry, 'id'>): Promise<RecoveryEntry> => {
+  const current = useEntityStore.getState().tasks[task.id] ?? task;
+  try {
+    const updated = await tasks.updateStatus(task.id, current.status, {
+      old_status: current.status,
+      message: recoveryNote(entry),
+    });
+    useEntityStore.getState().upsert('tasks', { ...current, ...updated });
+    return { ...entry, id: `${task.id}-note-${Date.now().toString(36)}` };
+  } catch (error) {
+    console.warn(`[Recovery] Could not record ${entry.action} on task ${task.id}, keeping it locally:`, error);
+    return useTaskRecoveryStore.getState().record(entry);
+  }
+};
+
+const run = async (
+  task: Task,
+  action: RecoveryAction,
+  perform: () => Promise<string>,
+  robotId?: string
+): Promise<RecoveryEntry> => {
+  const base = {
+    taskId: task.id,
+    action,
+    at: Date.now(),
+    user: useAuthStore.getState().user?.username,
+    robotId,
+    taskError: task.error_message,
+  };
+  try {
+    const detail = await perform();
+    console.log(`[Recovery] ${action} on task ${task.id}: ${detail}`);
+    return saveNote(task, { ...base, ok: true, detail });
+  } catch (error) {
+    console.error(`[Recovery] ${action} on task ${task.id} failed:`, error);
+    const detail = error instanceof Error ? error.message : 'request failed';
+    return saveNote(task, { ...base, ok: false, detail });
+  }
+};
+
+/** Re-queue the task with its original parameters; any idle robot may take it */
+export const retryTask = (task: Task) =>
+  run(task, 'retry', async () => {
+    const updated = await tasks.updateStatus(task.id, 'PENDING', { old_status: task.status });
+    useEntityStore.getState().upsert('tasks', { ...task, ...updated, status: 'PENDING', error_message: undefined });
+    return 'Re-queued with the same parameters';
+  });
+
+export const reassignTask = (task: Task, robotId: string) =>
+  run(
+    task,
+    'reassign',
+    async () => {
+      const updated = await tasks.updateStatus(task.id, 'ASSIGNED', { old_status: task.status, robot_id: robotId });
+      useEntityStore.getState().upsert('tasks', { ...task, ...updated, error_message: undefined });
+      const robot = useEntityStore.getState().robots[robotId];
+      return `Assigned to ${updated.assigned_robot_name ?? robot?.name ?? robotId}`;
+    },
+    robotId
+  );
+
+export const restoreTaskShelf = (task: Task) =>
+  run(task, 'restore_shelf', async () => {
+    const shelf = await shelves.restoreToStorageLocation(task.shelf_id);
+    useEntityStore.getState().upsert('shelves', shelf);
+    return `Shelf ${shelf.warehouse_id ?? task.shelf_id} is back at its storage location`;
+  });
+
+/** Take the shelf out of service until someone checks it by hand */
+export const flagShelfForManualHandling = (task: Task) =>
+  run(task, 'manual_handling', async () => {
+    const shelf = await shelves.update(task.shelf_id, { status: 'ERROR', available: false });
+    useEntityStore.getState().upsert('shelves', shelf);
+    return `Shelf ${shelf.warehouse_id ?? task.shelf_id} marked unavailable (ERROR)`;
+  });
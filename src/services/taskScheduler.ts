@@ -0,0 +1,103 @@
+/**
+ * Fires due task schedules (stores/scheduleStore.ts) while the app is open.
+ * Started with the entity sync; only acts for users allowed to create
+ * tasks, and only fires the schedules of the backend in use. Runs found
+ * long after their time (app closed) are recorded as missed rather than
+ * fired late.
+ */
+import { tasks } from '@/services/api';
+import { followOtherTabs, withTabLock } from '@/services/tabLock';
+import { useAuthStore } from '@/stores/authStore';
+import { useEntityStore } from '@/stores/entityStore';
+import { useScheduleStore } from '@/stores/scheduleStore';
+import { activeBackendKey, isOnBackend } from '@/stores/simulatorStore';
+import { hasPermission } from '@/lib/permissions';
+import { MISSED_GRACE_MS, runsBetween, type TaskSchedule } from '@/lib/taskSchedule';
+
+/** How often schedules are checked */
+const CHECK_MS = 15000;
+
+// A check in progress in this tab
+let checking = false;
+
+const fire = async (schedule: TaskSchedule, at: number) => {
+  const taskIds: string[] = [];
+  const errors: string[] = [];
+  // One at a time so shelf conflicts surface per payload
+  for (const payload of schedule.tasks) {
+    try {
+      const task = await tasks.create(payload);
+      useEntityStore.getState().upsert('tasks', task);
+      taskIds.push(task.id);
+    } catch (error) {
+      const shelf = useEntityStore.getState().shelves[payload.shelf_id];
+      errors.push(`${shelf?.warehouse_id ?? payload.shelf_id}: ${error instanceof Error ? error.message : 'failed'}`);
+    }
+  }
+  if (errors.length) console.warn(`[Scheduler] "${schedule.name}" run had ${errors.length} failure(s)`, errors);
+  else console.log(`[Scheduler] "${schedule.name}" created ${taskIds.length} task(s)`);
+  useScheduleStore.getState().recordRun({
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    scheduledFor: at,
+    firedAt: Date.now(),
+    taskIds,
+    errors,
+    backend: schedule.backend,
+  });
+};
+
+const checkDue = async () => {
+  // Another tab may have fired and marked these schedules while this one waited
+  await useScheduleStore.persist.rehydrate();
+  const now = Date.now();
+  const backend = activeBackendKey();
+  // Schedules of another backend wait until the app is pointed back at it
+  const active = useScheduleStore.getState().schedules.filter((s) => s.enabled && isOnBackend(s, backend));
+  for (const schedule of active) {
+    const due = runsBetween(schedule, schedule.checkedUntil, now);
+    if (due.length === 0) continue;
+    // Mark first so a slow run is never picked up twice
+    useScheduleStore.getState().markChecked(schedule.id, now);
+
+    for (const at of due) {
+      // Switched backends mid-run: the rest would land on the wrong one
+      if (activeBackendKey() !== backend) return;
+      if (now - at > MISSED_GRACE_MS) {
+        useScheduleStore.getState().recordRun({
+          scheduleId: schedule.id,
+          scheduleName: schedule.name,
+          scheduledFor: at,
+          taskIds: [],
+          errors: [],
+          missed: true,
+          backend: schedule.backend,
+        });
+      } else {
+        await fire(schedule, at);
+      }
+    }
+  }
+};
+
+/** Fire due schedules; with several tabs open, one checks at a time */
+export const checkSchedules = async () => {
+  if (checking || !hasPermission(useAuthStore.getState().user?.role, 'task:create')) return;
+  checking = true;
+  try {
+    await withTabLock('schedules', checkDue);
+  } finally {
+    checking = false;
+  }
+};
+
+/** Check schedules on a timer; returns the stop function */
+export const watchSchedules = () => {
+  const unfollow = followOtherTabs(useScheduleStore);
+  checkSchedules();
+  const timer = setInterval(checkSchedules, CHECK_MS);
+  return () => {
+    clearInterval(timer);
+    unfollow();
+  };
+};
@@ -1,13 +1,82 @@
 import { io, Socket } from 'socket.io-client';
+import type { SocketEventMap, SocketEventName, SocketRoom } from '@/types';
+import { validateSocketPayload } from './schemas';
+
+// ============================================================================
+// SINGLE SOCKET CONNECTION MANAGER
+// ============================================================================
+// Every part of the app shares this one socket.io connection:
+// - Server events are forwarded into a typed callback registry
+// - Rooms are ref-counted so one component leaving doesn't evict others
+// - Active rooms are re-joined automatically after a reconnect
+// - Typed payloads are schema-validated before any listener sees them
+
+type Listener<E extends SocketEventName> = (data: SocketEventMap[E]) => void;
+type AnyListener = (data: unknown) => void;
 
 let socket: Socket | null = null;
 
+/**
+ * In-process server used instead of socket.io (the fleet simulator,
+ * services/simulator). Client messages go to `handle`; server events are
+ * pushed back through deliverServerEvent().
+ */
+export interface LocalSocketServer {
+  handle: (event: string, data?: unknown) => void;
+}
+
+let localServer: LocalSocketServer | null = null;
+let localConnected = false;
+
 // Callback registries for real-time events
-const callbackRegistry: Record<string, Set<Function>> = {};
+const callbackRegistry: Record<string, Set<AnyListener>> = {};
+const connectionListeners = new Set<(connected: boolean) => void>();
+const authErrorListeners = new Set<(message: string) => void>();
+
+// Every event forwarded from the socket into the registry
+const SERVER_EVENTS: SocketEventName[] = [
+  'telemetry',
+  'robot_update',
+  'robot_position_update',
+  'robot_status',
+  'shelf_update',
+  'shelf_location_update',
+  'shelf_location_fixed',
+  'shelf_deleted',
+  'task_update',
+  'task_status',
+  'task_status_change',
+  'task_progress_update',
+  'tasks_update',
+  'all_tasks_map_update',
+  'map_update',
+  'map_data',
+  'system_update',
+  'robot_command_ack',
+  'error',
+];
+
+// Events also delivered to listeners of another event
+// (telemetry and robot_position_update both count as robot_update)
+const EVENT_ALIASES: Partial<Record<SocketEventName, SocketEventName[]>> = {
+  telemetry: ['robot_update'],
+  robot_position_update: ['robot_update'],
+};
+
+// High-frequency events that are not logged
+const QUIET_EVENTS = new Set<string>(['telemetry', 'robot_position_update', 'robot_update']);
+
+// Extra (untyped) event names registered through onEvent()
+const extraEvents = new Set<string>();
+
+// Set from the active connection profile (stores/connectionStore.ts)
+let wsUrlOverride: string | null = null;
+
+// Determine WebSocket URL. The active connection profile wins, then `VITE_WS_URL`
+// (e.g. ws://localhost:5000), otherwise connect to same host on port 5000.
+export const getWebSocketUrl = () => {
+  if (wsUrlOverride) return wsUrlOverride;
 
-// Determine WebSocket URL. Prefer `VITE_WS_URL` if provided (e.g. ws://localhost:5000),
-// otherwise connect to same host on port 5000.
-const getWebSocketUrl = () => {
   const envUrl = (import.meta.env && import.meta.env.VITE_WS_URL) as string | undefined;
   if (envUrl && envUrl.length) return envUrl;
 
@@ -24,13 +93,65 @@ const getAuthToken = (): string | null => {
   }
 };
 
+const dispatch = (eventName: string, data: unknown) => {
+  if (callbackRegistry[eventName]) {
+    callbackRegistry[eventName].forEach((cb) => {
+      try {
+        cb(data);
+      } catch (e) {
+        console.error(`Error invoking callback for ${eventName}:`, e);
+      }
+    });
+  }
+};
+
+// Validate a server event and hand it to listeners (and their aliases)
+const receive = (eventName: string, raw: unknown) => {
+  if (!QUIET_EVENTS.has(eventName)) console.log(`[WS] ${eventName}:`, raw);
+
+  // Invalid payloads are dropped (and listed in the diagnostics panel)
+  const typed = SERVER_EVENTS.includes(eventName as SocketEventName);
+  const data = typed ? validateSocketPayload(eventName as SocketEventName, raw) : raw;
+  if (data === null) return;
+
+  dispatch(eventName, data);
+  EVENT_ALIASES[eventName as SocketEventName]?.forEach((alias) => dispatch(alias, data));
+};
+
+const forwardEvent = (s: Socket, eventName: string) => {
+  s.on(eventName, (raw: unknown) => receive(eventName, raw));
+};
+
+const notifyConnection = (connected: boolean) => {
+  connectionListeners.forEach((cb) => {
+    try {
+      cb(connected);
+    } catch (e) {
+      console.error('Error invoking connection listener:', e);
+    }
+  });
+};
+
 export const connectWebSocket = () => {
-  if (socket) return socket;
+  if (localServer) {
+    if (!localConnected) {
+      localConnected = true;
+      console.log('[WS] Connected to local server (simulator)');
+      rejoinRooms();
+      notifyConnection(true);
+    }
+    return null;
+  }
 
-  const token = getAuthToken();
+  if (socket) return socket;
 
   socket = io(getWebSocketUrl(), {
-    auth: token ? { token } : undefined,
+    // Read on every (re)connect so a refreshed token is picked up
+    auth: (cb) => {
+      const token = getAuthToken();
+      cb(token ? { token } : {});
+    },
+    transports: ['websocket', 'polling'],
     reconnection: true,
     reconnectionAttempts: Infinity,
     reconnectionDelay: 500,
@@ -40,10 +161,13 @@ export const connectWebSocket = () => {
 
   socket.on('connect', () => {
     console.log('[WS] Connected to WebSocket', getWebSocketUrl(), 'id=', socket?.id);
+    rejoinRooms();
+    notifyConnection(true);
   });
 
   socket.on('disconnect', (reason) => {
     console.log('[WS] Disconnected from WebSocket', reason);
+    notifyConnection(false);
   });
 
   socket.on('connect_error', (err) => {
@@ -52,124 +176,120 @@ export const connectWebSocket = () => {
     } catch (e) {
       console.warn('[WS] connect_error (non-serializable error)');
     }
-  });
-  socket.on('reconnect_attempt', (n) => console.log('[WS] reconnect_attempt', n));
-
-  // ============================================================================
-  // PRIMARY TELEMETRY EVENT - MOST IMPORTANT FOR ROBOT POSITION
-  // ============================================================================
-  socket.on('telemetry', (data) => {
-    console.log('[WS] Robot telemetry update:', data);
-    invokeCallbacks('telemetry', data);
-    // ALSO invoke robot_update callbacks so components can use either
-    invokeCallbacks('robot_update', data);
-  });
 
-  // ============================================================================
-  // LEGACY EVENT LISTENERS (for backward compatibility)
-  // ============================================================================
-
-  // Listen for map updates
-  socket.on('map_update', (data) => {
-    console.log('[WS] Map updated:', data);
-    invokeCallbacks('map_update', data);
-  });
-
-  // Listen for robot status changes
-  socket.on('robot_status', (data) => {
-    console.log('[WS] Robot status changed:', data);
-    invokeCallbacks('robot_status', data);
-  });
-
-  // Listen for task status updates
-  socket.on('task_status', (data) => {
-    console.log('[WS] Task status changed:', data);
-    invokeCallbacks('task_status', data);
-  });
-
-  // Listen for error events
-  socket.on('error', (data) => {
-    console.error('[WS] Error event:', data);
-    invokeCallbacks('error', data);
+    // Transport failures keep retrying; an inactive socket means the server
+    // middleware refused the handshake, i.e. the token was rejected
+    if (socket && !socket.active) {
+      const message = err?.message || 'Socket authentication failed';
+      authErrorListeners.forEach((cb) => cb(message));
+    }
   });
+  socket.io.on('reconnect_attempt', (n) => console.log('[WS] reconnect_attempt', n));
 
-  // ============================================================================
-  // NEW EVENT LISTENERS (from MQTT handlers with WebSocket room emission)
-  // ============================================================================
+  SERVER_EVENTS.forEach((eventName) => forwardEvent(socket as Socket, eventName));
+  extraEvents.forEach((eventName) => forwardEvent(socket as Socket, eventName));
 
-  // Real-time task updates (from robots/mp400/+/task_status MQTT or robot/+/task/progress)
-  socket.on('task_update', (data) => {
-    console.log('[WS] Task update:', data);
-    invokeCallbacks('task_update', data);
-  });
-
-  // Real-time robot updates (from robot/+/position/update MQTT)
-  socket.on('robot_update', (data) => {
-    console.log('[WS] Robot update:', data);
-    invokeCallbacks('robot_update', data);
-  });
+  return socket;
+};
 
-  // Real-time shelf updates (from robot/+/shelf/location MQTT)
-  socket.on('shelf_update', (data) => {
-    console.log('[WS] Shelf update:', data);
-    invokeCallbacks('shelf_update', data);
-  });
+/**
+ * Point the socket at another server (null = env default). Takes effect on the
+ * next connect; use reconnectWebSocket() to switch a live connection.
+ */
+export const setWebSocketUrl = (url: string | null) => {
+  wsUrlOverride = url?.trim() || null;
+};
 
-  // Detailed shelf location info (current + storage location)
-  socket.on('shelf_location_update', (data) => {
-    console.log('[WS] Shelf location update:', data);
-    invokeCallbacks('shelf_location_update', data);
-  });
+/**
+ * Drop the current connection and open a new one (new URL/token).
+ * Listeners and ref-counted rooms are kept and re-joined on connect.
+ */
+export const reconnectWebSocket = () => {
+  if (!socket && !localConnected) return;
+  disconnectWebSocket();
+  connectWebSocket();
+};
 
-  // Robot position updates
-  socket.on('robot_position_update', (data) => {
-    console.log('[WS] Robot position update:', data);
-    invokeCallbacks('robot_position_update', data);
-    // ALSO invoke robot_update for compatibility
-    invokeCallbacks('robot_update', data);
-  });
+/**
+ * Serve the socket from an in-process server instead of socket.io (null = network).
+ * A live connection is moved over; listeners and rooms are kept.
+ */
+export const setLocalSocketServer = (server: LocalSocketServer | null) => {
+  const wasOpen = !!socket || localConnected;
+  disconnectWebSocket();
+  localServer = server;
+  if (wasOpen) connectWebSocket();
+};
 
-  // Task progress updates
-  socket.on('task_progress_update', (data) => {
-    console.log('[WS] Task progress update:', data);
-    invokeCallbacks('task_progress_update', data);
-  });
+/** Push a server event from the local server, as if it came over the socket */
+export const deliverServerEvent = (eventName: string, data: unknown) => {
+  if (localServer && localConnected) receive(eventName, data);
+};
 
-  // System health updates
-  socket.on('system_update', (data) => {
-    console.log('[WS] System update:', data);
-    invokeCallbacks('system_update', data);
+/**
+ * One-off handshake against `url` without touching the shared connection.
+ * Used by the Settings "test connection" button.
+ */
+export const testSocketHandshake = (url: string, timeoutMs = 5000) =>
+  new Promise<{ ok: boolean; message: string }>((resolve) => {
+    const token = getAuthToken();
+    const probe = io(url, {
+      auth: token ? { token } : {},
+      transports: ['websocket', 'polling'],
+      reconnection: false,
+      forceNew: true,
+      timeout: timeoutMs,
+    });
+    const finish = (result: { ok: boolean; message: string }) => {
+      probe.removeAllListeners();
+      probe.disconnect();
+      resolve(result);
+    };
+    probe.on('connect', () => finish({ ok: true, message: `Connected (id ${probe.id})` }));
+    probe.on('connect_error', (err) => finish({ ok: false, message: err?.message || 'Connection failed' }));
   });
 
-  return socket;
-};
-
 export const getSocket = () => socket;
 
+export const isSocketConnected = () => (localServer ? localConnected : !!socket?.connected);
+
 export const disconnectWebSocket = () => {
+  if (localConnected) {
+    localConnected = false;
+    notifyConnection(false);
+  }
   if (socket) {
     socket.disconnect();
     socket = null;
+    notifyConnection(false);
+  }
+};
+
+// Client -> server message over whichever connection is active
+const send = (event: string, payload?: unknown) => {
+  if (localServer) {
+    localServer.handle(event, payload);
+  } else if (payload === undefined) {
+    socket?.emit(event);
+  } else {
+    socket?.emit(event, payload);
   }
 };
 
 // ============================================================================
-// CALLBACK REGISTRY HELPERS
+// TYPED EVENT SUBSCRIPTION
 // ============================================================================
 
-const invokeCallbacks = (eventName: string, data: any) => {
-  if (callbackRegistry[eventName]) {
-    callbackRegistry[eventName].forEach((cb) => {
-      try {
-        cb(data);
-      } catch (e) {
-        console.error(`Error invoking callback for ${eventName}:`, e);
-      }
-    });
-  }
+/**
+ * Listen for a typed server event. Returns an unsubscribe function.
+ * Opens the shared connection if needed.
+ */
+export const on = <E extends SocketEventName>(eventName: E, callback: Listener<E>) => {
+  connectWebSocket();
+  return registerCallback(eventName, callback as AnyListener);
 };
 
-export const registerCallback = (eventName: string, callback: Function) => {
+export const registerCallback = (eventName: string, callback: AnyListener) => {
   if (!callbackRegistry[eventName]) {
     callbackRegistry[eventName] = new Set();
   }
@@ -183,223 +303,236 @@ export const registerCallback = (eventName: string, callback: Function) => {
   };
 };
 
+/**
+ * Listen for handshakes refused by the server (invalid/expired token).
+ * Does not open the connection. Returns an unsubscribe function.
+ */
+export const onAuthError = (cb: (message: string) => void) => {
+  authErrorListeners.add(cb);
+  return () => {
+    authErrorListeners.delete(cb);
+  };
+};
+
+/**
+ * Listen for connection state changes. Returns an unsubscribe function.
+ */
+export const onConnectionChange = (cb: (connected: boolean) => void) => {
+  connectWebSocket();
+  connectionListeners.add(cb);
+  return () => {
+    connectionListeners.delete(cb);
+  };
+};
+
+// ============================================================================
+// REF-COUNTED ROOM SUBSCRIPTIONS
+// ============================================================================
+
+interface RoomEntry {
+  count: number;
+  join: [string, unknown?];
+  leave: [string, unknown?];
+}
+
+const rooms = new Map<SocketRoom, RoomEntry>();
+
+const roomMessages = (room: SocketRoom): Pick<RoomEntry, 'join' | 'leave'> => {
+  if (room.startsWith('task:')) {
+    const payload = { task_id: room.slice('task:'.length) };
+    return { join: ['subscribe_task', payload], leave: ['unsubscribe_task', payload] };
+  }
+  return { join: [`subscribe_${room}`], leave: [`unsubscribe_${room}`] };
+};
+
+const sendRoomMessage = ([event, payload]: [string, unknown?]) => {
+  if (!isSocketConnected()) return; // (re)sent by rejoinRooms() on connect
+  send(event, payload);
+};
+
+const rejoinRooms = () => {
+  rooms.forEach((entry) => sendRoomMessage(entry.join));
+};
+
+/**
+ * Join a room. The subscribe_* message is only sent for the first holder;
+ * the returned release function sends unsubscribe_* once the last holder leaves.
+ */
+export const joinRoom = (room: SocketRoom) => {
+  connectWebSocket();
+
+  const existing = rooms.get(room);
+  if (existing) {
+    existing.count += 1;
+  } else {
+    const entry: RoomEntry = { count: 1, ...roomMessages(room) };
+    rooms.set(room, entry);
+    console.log('[WS] Joining room', room);
+    sendRoomMessage(entry.join);
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    leaveRoom(room);
+  };
+};
+
+const leaveRoom = (room: SocketRoom) => {
+  const entry = rooms.get(room);
+  if (!entry) return;
+  entry.count -= 1;
+  if (entry.count <= 0) {
+    rooms.delete(room);
+    console.log('[WS] Leaving room', room);
+    sendRoomMessage(entry.leave);
+  }
+};
+
+/** Number of holders of a room (0 when not joined) */
+export const getRoomRefCount = (room: SocketRoom) => rooms.get(room)?.count ?? 0;
+
 // ============================================================================
 // ROOM SUBSCRIPTION FUNCTIONS
 // ============================================================================
 
+const joinAndListen = <E extends SocketEventName>(room: SocketRoom, eventName: E, callback: Listener<E>) => {
+  const release = joinRoom(room);
+  const unsubscribe = on(eventName, callback);
+  return () => {
+    unsubscribe();
+    release();
+  };
+};
+
 /**
  * Subscribe to tasks_room for real-time task updates
  */
-export const subscribeToTasksRoom = (callback: (data: any) => void) => {
-  const s = connectWebSocket();
-  console.log('[WS] Subscribing to tasks_room');
-  s.emit('subscribe_tasks');
-  return registerCallback('task_update', callback);
-};
+export const subscribeToTasksRoom = (callback: Listener<'task_update'>) =>
+  joinAndListen('tasks', 'task_update', callback);
 
 /**
  * Subscribe to robots_room for real-time robot updates
  */
-export const subscribeToRobotsRoom = (callback: (data: any) => void) => {
-  const s = connectWebSocket();
-  console.log('[WS] Subscribing to robots_room');
-  s.emit('subscribe_robots');
-  return registerCallback('robot_update', callback);
-};
+export const subscribeToRobotsRoom = (callback: Listener<'robot_update'>) =>
+  joinAndListen('robots', 'robot_update', callback);
 
 /**
  * Subscribe to shelves_room for real-time shelf updates
  */
-export const subscribeToShelvesRoom = (callback: (data: any) => void) => {
-  const s = connectWebSocket();
-  console.log('[WS] Subscribing to shelves_room');
-  s.emit('subscribe_shelves');
-  return registerCallback('shelf_update', callback);
-};
+export const subscribeToShelvesRoom = (callback: Listener<'shelf_update'>) =>
+  joinAndListen('shelves', 'shelf_update', callback);
 
 /**
  * Subscribe to system_room for real-time system health updates
  */
-export const subscribeToSystemRoom = (callback: (data: any) => void) => {
-  const s = connectWebSocket();
-  console.log('[WS] Subscribing to system_room');
-  s.emit('subscribe_system');
-  return registerCallback('system_update', callback);
-};
+export const subscribeToSystemRoom = (callback: Listener<'system_update'>) =>
+  joinAndListen('system', 'system_update', callback);
 
 /**
- * Subscribe to map updates
+ * Subscribe to map (grid) updates
  */
-export const subscribeToMapUpdates = (callback: (data: any) => void) => {
-  const s = connectWebSocket();
-  console.log('[WS] Subscribing to map updates');
-  s.emit('subscribe_map');
-  return registerCallback('map_data', callback);
-};
+export const subscribeToMapUpdates = (callback: Listener<'map_update'>) =>
+  joinAndListen('map', 'map_update', callback);
 
 /**
- * Unsubscribe from all rooms
+ * Leave every room regardless of holders (used when the session ends)
  */
 export const unsubscribeFromAll = () => {
-  const s = connectWebSocket();
   console.log('[WS] Unsubscribing from all rooms');
-  s.emit('unsubscribe_tasks');
-  s.emit('unsubscribe_robots');
-  s.emit('unsubscribe_shelves');
-  s.emit('unsubscribe_system');
+  rooms.forEach((entry) => sendRoomMessage(entry.leave));
+  rooms.clear();
 };
 
 // ============================================================================
-// LEGACY EVENT HELPERS (for backward compatibility)
+// EVENT HELPERS
 // ============================================================================
 
-// Utility: attach a handler for a named event (returns an unsubscribe function)
-export const onEvent = (event: string, cb: (...args: any[]) => void) => {
-  const s = connectWebSocket();
-  s.on(event, cb);
-  return () => s.off(event, cb);
+// Utility: attach a handler for any named event (returns an unsubscribe function)
+export const onEvent = (eventName: string, cb: (data: unknown) => void) => {
+  if (!SERVER_EVENTS.includes(eventName as SocketEventName) && !extraEvents.has(eventName)) {
+    extraEvents.add(eventName);
+    if (socket) forwardEvent(socket, eventName);
+  }
+  connectWebSocket();
+  return registerCallback(eventName, cb);
 };
 
 // Helper: Listen for telemetry updates (robot location, status, etc.)
-export const onTelemetry = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to telemetry events');
-  return registerCallback('telemetry', cb);
-};
+export const onTelemetry = (cb: Listener<'telemetry'>) => on('telemetry', cb);
 
 // Helper: Listen for map updates
-export const onMapUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to map_update events');
-  return registerCallback('map_update', cb);
-};
+export const onMapUpdate = (cb: Listener<'map_update'>) => on('map_update', cb);
 
 // Helper: Listen for robot status changes
-export const onRobotStatus = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to robot_status events');
-  return registerCallback('robot_status', cb);
-};
+export const onRobotStatus = (cb: Listener<'robot_status'>) => on('robot_status', cb);
 
 // Helper: Listen for task status updates
-export const onTaskStatus = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to task_status events');
-  return registerCallback('task_status', cb);
-};
+export const onTaskStatus = (cb: Listener<'task_status'>) => on('task_status', cb);
 
 // Helper: Listen for error events
-export const onError = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to error events');
-  return registerCallback('error', cb);
-};
-
-// Helper: Listen for connection state changes
-export const onConnectionChange = (cb: (connected: boolean) => void) => {
-  const s = connectWebSocket();
-
-  const handleConnect = () => {
-    console.log('[WS] Connection state: CONNECTED');
-    cb(true);
-  };
-
-  const handleDisconnect = () => {
-    console.log('[WS] Connection state: DISCONNECTED');
-    cb(false);
-  };
-
-  s.on('connect', handleConnect);
-  s.on('disconnect', handleDisconnect);
-
-  return () => {
-    s.off('connect', handleConnect);
-    s.off('disconnect', handleDisconnect);
-  };
-};
-
-// ============================================================================
-// NEW HELPER FUNCTIONS FOR REAL-TIME EVENTS
-// ============================================================================
+export const onError = (cb: Listener<'error'>) => on('error', cb);
 
 /**
  * Listen for real-time task updates
  */
-export const onTaskUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to task_update events');
-  return registerCallback('task_update', cb);
-};
+export const onTaskUpdate = (cb: Listener<'task_update'>) => on('task_update', cb);
 
 /**
  * Listen for real-time robot updates (includes telemetry)
  */
-export const onRobotUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to robot_update events (includes telemetry)');
-  return registerCallback('robot_update', cb);
-};
+export const onRobotUpdate = (cb: Listener<'robot_update'>) => on('robot_update', cb);
 
 /**
  * Listen for real-time shelf updates
  */
-export const onShelfUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to shelf_update events');
-  return registerCallback('shelf_update', cb);
-};
+export const onShelfUpdate = (cb: Listener<'shelf_update'>) => on('shelf_update', cb);
 
 /**
  * Listen for real-time shelf location updates (detailed)
  */
-export const onShelfLocationUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to shelf_location_update events');
-  return registerCallback('shelf_location_update', cb);
-};
+export const onShelfLocationUpdate = (cb: Listener<'shelf_location_update'>) =>
+  on('shelf_location_update', cb);
 
 /**
  * Listen for real-time robot position updates
  */
-export const onRobotPositionUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to robot_position_update events');
-  return registerCallback('robot_position_update', cb);
-};
+export const onRobotPositionUpdate = (cb: Listener<'robot_position_update'>) =>
+  on('robot_position_update', cb);
 
 /**
  * Listen for real-time task progress updates
  */
-export const onTaskProgressUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to task_progress_update events');
-  return registerCallback('task_progress_update', cb);
-};
+export const onTaskProgressUpdate = (cb: Listener<'task_progress_update'>) =>
+  on('task_progress_update', cb);
 
 /**
  * Listen for real-time system health updates
  */
-export const onSystemUpdate = (cb: (data: any) => void) => {
-  console.log('[WS] Subscribing to system_update events');
-  return registerCallback('system_update', cb);
-};
+export const onSystemUpdate = (cb: Listener<'system_update'>) => on('system_update', cb);
 
 /**
  * Emit an event to the server
  */
-export const emit = (event: string, data?: any) => {
-  const s = connectWebSocket();
-  if (s?.connected) {
-    s.emit(event, data);
+export const emit = (event: string, data?: unknown) => {
+  connectWebSocket();
+  if (isSocketConnected()) {
+    send(event, data);
   } else {
     console.warn('[WS] Cannot emit, not connected');
   }
 };
 
 /**
- * Subscribe to a specific task
+ * Subscribe to a specific task (ref-counted). Returns a release function.
  */
-export const subscribeToTask = (taskId: string) => {
-  console.log('[WS] Subscribing to task:', taskId);
-  emit('subscribe_task', { task_id: taskId });
-};
+export const subscribeToTask = (taskId: string) => joinRoom(`task:${taskId}`);
 
 /**
- * Unsubscribe from a specific task
+ * Release one holder of a specific task room
  */
-export const unsubscribeFromTask = (taskId: string) => {
-  console.log('[WS] Unsubscribing from task:', taskId);
-  emit('unsubscribe_task', { task_id: taskId });
-};
+export const unsubscribeFromTask = (taskId: string) => leaveRoom(`task:${taskId}`);
 
 /**
  * Request task data on demand
@@ -415,4 +548,4 @@ export const requestTaskData = (taskId: string) => {
 export const requestMapData = () => {
   console.log('[WS] Requesting map data');
   emit('request_map_data');
-};
\ No newline at end of file
+};
@@ -0,0 +1,111 @@
+/**
+ * Drives running workflows (stores/workflowStore.ts): dispatches the next
+ * step when the previous task completes and stops a workflow at the first
+ * failed step. Started with the entity sync; only dispatches for users
+ * allowed to create tasks, and only for workflows of the backend in use.
+ */
+import { tasks } from '@/services/api';
+import { followOtherTabs, withTabLock } from '@/services/tabLock';
+import { useAuthStore } from '@/stores/authStore';
+import { useEntityStore } from '@/stores/entityStore';
+import { useWorkflowStore } from '@/stores/workflowStore';
+import { activeBackendKey, isOnBackend } from '@/stores/simulatorStore';
+import { hasPermission } from '@/lib/permissions';
+import { canTransition } from '@/lib/taskStateMachine';
+import { currentStep, decideWorkflow, stepPayload, type Workflow } from '@/lib/workflow';
+import type { Task } from '@/types';
+
+// Workflows with a step being created in this tab
+const dispatching = new Set<string>();
+
+const createStep = async (workflowId: string, step: number) => {
+  // Another tab may have created this step while this one waited
+  await useWorkflowStore.persist.rehydrate();
+  const workflow = useWorkflowStore.getState().workflows.find((w) => w.id === workflowId);
+  if (!workflow || workflow.state !== 'running' || workflow.stepTasks[step]) return;
+  if (!isOnBackend(workflow, activeBackendKey())) return;
+
+  try {
+    const task = await tasks.create(stepPayload(workflow, step));
+    useEntityStore.getState().upsert('tasks', task);
+    useWorkflowStore.getState().setStepTask(workflow.id, step, task.id);
+    console.log(`[Workflows] "${workflow.name}" step ${step + 1} dispatched as ${task.id}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'request failed';
+    console.error(`[Workflows] "${workflow.name}" step ${step + 1} could not be created:`, error);
+    useWorkflowStore.getState().finish(workflow.id, 'failed', `Step ${step + 1} could not be created: ${message}`);
+  }
+};
+
+const dispatch = async (workflow: Workflow, step: number) => {
+  dispatching.add(workflow.id);
+  try {
+    await withTabLock(`workflow-${workflow.id}`, () => createStep(workflow.id, step));
+  } finally {
+    dispatching.delete(workflow.id);
+  }
+};
+
+const check = (taskMap: Record<string, Task>) => {
+  const canCreate = hasPermission(useAuthStore.getState().user?.role, 'task:create');
+  const { workflows, finish } = useWorkflowStore.getState();
+  const backend = activeBackendKey();
+
+  // Workflows of another backend wait until the app is pointed back at it
+  workflows
+    .filter((w) => w.state === 'running' && isOnBackend(w, backend) && !dispatching.has(w.id))
+    .forEach((workflow) => {
+      const decision = decideWorkflow(workflow, taskMap);
+      if (decision.kind === 'dispatch' && canCreate) dispatch(workflow, decision.step);
+      else if (decision.kind === 'complete') finish(workflow.id, 'completed');
+      else if (decision.kind === 'fail') {
+        console.warn(`[Workflows] "${workflow.name}" stopped: ${decision.reason}`);
+        finish(workflow.id, 'failed', decision.reason);
+      }
+    });
+};
+
+/** Run the first step of a newly started workflow right away */
+export const kickWorkflows = () => check(useEntityStore.getState().tasks);
+
+/**
+ * Stop a workflow: no further steps are dispatched, and the current
+ * step's task is cancelled when its status allows it. Returns a note
+ * about a task that has to be left running.
+ */
+export const cancelWorkflow = async (id: string): Promise<string | null> => {
+  const workflow = useWorkflowStore.getState().workflows.find((w) => w.id === id);
+  if (!workflow || workflow.state !== 'running') return null;
+  useWorkflowStore.getState().finish(id, 'cancelled', 'Cancelled by operator');
+
+  const taskId = workflow.stepTasks[currentStep(workflow)];
+  if (taskId && !isOnBackend(workflow, activeBackendKey())) {
+    return `Task ${taskId} is on another backend and was left as it is`;
+  }
+  const task = taskId ? useEntityStore.getState().tasks[taskId] : undefined;
+  if (!task || task.status === 'COMPLETED' || task.status === 'CANCELLED' || task.status === 'ERROR') return null;
+  if (!canTransition(task.task_type, task.status, 'CANCELLED')) {
+    return `Task ${task.id} is ${task.status} and can't be cancelled; it will finish on its own`;
+  }
+  try {
+    const updated = await tasks.updateStatus(task.id, 'CANCELLED', { old_status: task.status });
+    useEntityStore.getState().upsert('tasks', { ...task, ...updated, status: 'CANCELLED' });
+    return null;
+  } catch (error) {
+    console.error(`[Workflows] Cancelling task ${task.id} failed:`, error);
+    return `Task ${task.id} could not be cancelled: ${error instanceof Error ? error.message : 'request failed'}`;
+  }
+};
+
+/** Follow the task cache; returns the unsubscribe function */
+export const watchWorkflows = () => {
+  const unfollow = followOtherTabs(useWorkflowStore);
+  if (useEntityStore.getState().loaded) kickWorkflows();
+  const unsubscribe = useEntityStore.subscribe((state, prev) => {
+    if (state.tasks !== prev.tasks || (state.loaded && !prev.loaded)) check(state.tasks);
+  });
+  return () => {
+    unsubscribe();
+    unfollow();
+  };
+};
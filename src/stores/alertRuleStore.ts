@@ -0,0 +1,68 @@
+/**
+ * Fleet alert rules (lib/alertRules.ts) per connection profile, stored in
+ * the browser. Profiles without saved rules use the defaults.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_ALERT_RULES, type AlertRule, type AlertRuleInput } from '@/lib/alertRules';
+import { useConnectionStore } from './connectionStore';
+
+interface AlertRuleStore {
+  rulesByProfile: Record<string, AlertRule[]>;
+  addRule: (profileId: string, input: AlertRuleInput) => AlertRule;
+  updateRule: (profileId: string, id: string, input: AlertRuleInput) => void;
+  removeRule: (profileId: string, id: string) => void;
+  setEnabled: (profileId: string, id: string, enabled: boolean) => void;
+  resetRules: (profileId: string) => void;
+}
+
+export const useAlertRuleStore = create<AlertRuleStore>()(
+  persist(
+    (set, get) => {
+      const rulesOf = (profileId: string) => get().rulesByProfile[profileId] ?? DEFAULT_ALERT_RULES;
+      const write = (profileId: string, rules: AlertRule[]) =>
+        set((state) => ({ rulesByProfile: { ...state.rulesByProfile, [profileId]: rules } }));
+
+      return {
+        rulesByProfile: {},
+
+        addRule: (profileId, input) => {
+          const rule = { ...input, id: `rule-${Date.now().toString(36)}` } as AlertRule;
+          write(profileId, [...rulesOf(profileId), rule]);
+          return rule;
+        },
+
+        updateRule: (profileId, id, input) =>
+          write(
+            profileId,
+            rulesOf(profileId).map((r) => (r.id === id ? ({ ...input, id } as AlertRule) : r))
+          ),
+
+        removeRule: (profileId, id) => write(profileId, rulesOf(profileId).filter((r) => r.id !== id)),
+
+        setEnabled: (profileId, id, enabled) =>
+          write(profileId, rulesOf(profileId).map((r) => (r.id === id ? { ...r, enabled } : r))),
+
+        resetRules: (profileId) =>
+          set((state) => {
+            const rulesByProfile = { ...state.rulesByProfile };
+            delete rulesByProfile[profileId];
+            return { rulesByProfile };
+          }),
+      };
+    },
+    {
+      name: 'warebot-alert-rules',
+      partialize: (state) => ({ rulesByProfile: state.rulesByProfile }),
+    }
+  )
+);
+
+/** Rules of the active connection profile (the defaults until edited) */
+export const getActiveAlertRules = () =>
+  useAlertRuleStore.getState().rulesByProfile[useConnectionStore.getState().activeId] ?? DEFAULT_ALERT_RULES;
+
+export const useActiveAlertRules = () => {
+  const activeId = useConnectionStore((s) => s.activeId);
+  return useAlertRuleStore((s) => s.rulesByProfile[activeId] ?? DEFAULT_ALERT_RULES);
+};
@@ -1,28 +1,45 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { auth as authApi, getToken, setToken } from '@/services/api';
+import { auth as authApi, getToken, onUnauthorized, setToken } from '@/services/api';
+import { disconnectWebSocket, onAuthError } from '@/services/websocket';
+import { resolveUser } from '@/lib/permissions';
+import { isTokenExpired } from '@/lib/jwt';
+import type { SessionEndReason } from '@/lib/redirect';
 import type { User, AuthState } from '@/types';
 
 interface AuthStore extends AuthState {
+  /** Why the last session ended without an explicit logout (shown on /login) */
+  sessionEndReason: SessionEndReason | null;
   login: (username: string, password: string) => Promise<void>;
   register: (username: string, password: string) => Promise<void>;
   logout: () => void;
   checkAuth: () => void;
+  /** Try to swap the token for a fresh one; false if that isn't possible */
+  refreshSession: () => Promise<boolean>;
+  /** Clear credentials after expiry or a rejected request */
+  endSession: (reason: SessionEndReason) => void;
 }
 
+const hasValidToken = () => {
+  const token = getToken();
+  return !!token && !isTokenExpired(token);
+};
+
 export const useAuthStore = create<AuthStore>()(
   persist(
     (set, get) => ({
       user: null,
       token: getToken(),
-      isAuthenticated: !!getToken(),
+      isAuthenticated: hasValidToken(),
+      sessionEndReason: null,
 
       login: async (username: string, password: string) => {
         const data = await authApi.login(username, password);
         set({
-          user: data.user || { id: 'admin', username, role: 'admin' },
+          user: resolveUser(data.access_token, data, username),
           token: data.access_token,
           isAuthenticated: true,
+          sessionEndReason: null,
         });
       },
 
@@ -34,25 +51,67 @@ export const useAuthStore = create<AuthStore>()(
 
       logout: () => {
         authApi.logout();
+        disconnectWebSocket();
         set({
           user: null,
           token: null,
           isAuthenticated: false,
+          sessionEndReason: null,
         });
       },
 
       checkAuth: () => {
         const token = getToken();
-        if (token) {
-          set({ token, isAuthenticated: true });
+        if (token && !isTokenExpired(token)) {
+          // Re-derive so users persisted before roles existed get one
+          const { user } = get();
+          set({ token, user: resolveUser(token, user ? { user } : null), isAuthenticated: true });
+        } else if (token) {
+          get().endSession('expired');
         } else {
           set({ user: null, token: null, isAuthenticated: false });
         }
       },
+
+      refreshSession: async () => {
+        const data = await authApi.refresh();
+        if (!data) return false;
+
+        const { user } = get();
+        set({
+          token: data.access_token,
+          user: resolveUser(data.access_token, data.user ? data : { user }, user?.username),
+          isAuthenticated: true,
+        });
+        return true;
+      },
+
+      endSession: (reason) => {
+        // Several requests can fail at once; only the first one ends the session.
+        // Demo mode has no token, so there is nothing to expire.
+        if (!get().token && !getToken()) return;
+
+        console.warn(`[Auth] Session ended (${reason})`);
+        authApi.logout();
+        // The socket was authenticated with the old token
+        disconnectWebSocket();
+        set({
+          user: null,
+          token: null,
+          isAuthenticated: false,
+          sessionEndReason: reason,
+        });
+      },
     }),
     {
       name: 'warebot-auth',
-      partialize: (state) => ({ token: state.token }),
+      partialize: (state) => ({ token: state.token, user: state.user }),
+      onRehydrateStorage: () => (state) => state?.checkAuth(),
     }
   )
 );
+
+// Any 401 from the API or a refused socket handshake ends the session centrally;
+// ProtectedRoute then redirects to /login with a return-to URL
+onUnauthorized(() => useAuthStore.getState().endSession('unauthorized'));
+onAuthError(() => useAuthStore.getState().endSession('unauthorized'));
@@ -0,0 +1,136 @@
+/**
+ * Saved backend connection profiles (API URL + WebSocket URL), stored in the browser.
+ * Switching profiles re-points the request core and socket and drops cached data.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_API_URL, setApiUrl } from '@/services/http';
+import { getWebSocketUrl, reconnectWebSocket, setWebSocketUrl } from '@/services/websocket';
+import { useEntityStore } from './entityStore';
+import { useDiagnosticsStore } from './diagnosticsStore';
+import { useTelemetryStore } from './telemetryStore';
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  apiUrl: string;
+  wsUrl: string;
+}
+
+export type ConnectionProfileInput = Omit<ConnectionProfile, 'id'>;
+
+/** Built from the .env values; always present and not editable */
+export const DEFAULT_PROFILE_ID = 'default';
+
+const defaultProfile = (): ConnectionProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default (.env)',
+  apiUrl: DEFAULT_API_URL,
+  // Read before any override is applied, so this is the env/same-host URL
+  wsUrl: getWebSocketUrl(),
+});
+
+/** Returns an error message, or null if the profile can be saved */
+export function validateProfile(input: ConnectionProfileInput): string | null {
+  if (!input.name.trim()) return 'Name is required';
+  if (!/^(https?:\/\/|\/)/.test(input.apiUrl.trim())) {
+    return 'API URL must start with http://, https:// or /';
+  }
+  if (!/^(wss?|https?):\/\//.test(input.wsUrl.trim())) {
+    return 'WebSocket URL must start with ws://, wss://, http:// or https://';
+  }
+  return null;
+}
+
+// Point the request core and socket at a profile (the default clears overrides)
+const applyUrls = (profile: ConnectionProfile) => {
+  const isDefault = profile.id === DEFAULT_PROFILE_ID;
+  setApiUrl(isDefault ? null : profile.apiUrl);
+  setWebSocketUrl(isDefault ? null : profile.wsUrl);
+};
+
+/**
+ * Point the app at another backend: `apply` re-routes requests and the socket,
+ * then everything cached from the previous backend is dropped and reloaded
+ * (also used by the fleet simulator switch, stores/simulatorStore.ts)
+ */
+export const switchBackend = (apply: () => void) => {
+  useDiagnosticsStore.getState().clear();
+  useEntityStore.getState().reset();
+  useTelemetryStore.getState().clear();
+  apply();
+  useEntityStore.getState().load();
+};
+
+interface ConnectionStore {
+  profiles: ConnectionProfile[];
+  activeId: string;
+  addProfile: (input: ConnectionProfileInput) => ConnectionProfile;
+  updateProfile: (id: string, input: ConnectionProfileInput) => void;
+  removeProfile: (id: string) => void;
+  /** Switch backends: reconnect the socket and reload all cached data */
+  activate: (id: string) => void;
+}
+
+export const useConnectionStore = create<ConnectionStore>()(
+  persist(
+    (set, get) => ({
+      profiles: [defaultProfile()],
+      activeId: DEFAULT_PROFILE_ID,
+
+      addProfile: (input) => {
+        const profile = { ...input, id: `profile-${Date.now().toString(36)}` };
+        set((state) => ({ profiles: [...state.profiles, profile] }));
+        return profile;
+      },
+
+      updateProfile: (id, input) => {
+        if (id === DEFAULT_PROFILE_ID) return;
+        set((state) => ({
+          profiles: state.profiles.map((p) => (p.id === id ? { ...input, id } : p)),
+        }));
+        // Editing the live profile is the same as switching to it
+        if (get().activeId === id) get().activate(id);
+      },
+
+      removeProfile: (id) => {
+        if (id === DEFAULT_PROFILE_ID) return;
+        const wasActive = get().activeId === id;
+        set((state) => ({ profiles: state.profiles.filter((p) => p.id !== id) }));
+        if (wasActive) get().activate(DEFAULT_PROFILE_ID);
+      },
+
+      activate: (id) => {
+        const profile = get().profiles.find((p) => p.id === id);
+        if (!profile) return;
+
+        console.log(`[Connection] Switching to "${profile.name}"`, profile.apiUrl, profile.wsUrl);
+        set({ activeId: id });
+        switchBackend(() => {
+          applyUrls(profile);
+          reconnectWebSocket();
+        });
+      },
+    }),
+    {
+      name: 'warebot-connection',
+      partialize: (state) => ({ profiles: state.profiles, activeId: state.activeId }),
+      // The default profile always mirrors the current build's env
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<ConnectionStore>;
+        const custom = (saved.profiles ?? []).filter((p) => p.id !== DEFAULT_PROFILE_ID);
+        const profiles = [defaultProfile(), ...custom];
+        const activeId =
+          saved.activeId && profiles.some((p) => p.id === saved.activeId) ? saved.activeId : DEFAULT_PROFILE_ID;
+        return { ...current, profiles, activeId };
+      },
+      onRehydrateStorage: () => (state) => {
+        const active = state?.profiles.find((p) => p.id === state.activeId);
+        if (active) applyUrls(active);
+      },
+    }
+  )
+);
+
+export const useActiveProfile = () =>
+  useConnectionStore((s) => s.profiles.find((p) => p.id === s.activeId) ?? s.profiles[0]);
@@ -0,0 +1,62 @@
+/**
+ * Developer diagnostics: documents and socket payloads that failed
+ * schema validation (see services/schemas.ts)
+ */
+import { create } from 'zustand';
+
+/** Max distinct failures kept (oldest dropped first) */
+const MAX_FAILURES = 200;
+
+export interface ValidationFailure {
+  key: string;
+  source: string; // e.g. "GET /robots" or "socket:telemetry"
+  kind: string; // entity kind or "socket"
+  docId?: string;
+  issues: string[];
+  sample: unknown;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+type FailureInput = Pick<ValidationFailure, 'source' | 'kind' | 'docId' | 'issues' | 'sample'>;
+
+interface DiagnosticsStore {
+  failures: ValidationFailure[];
+  record: (failure: FailureInput) => void;
+  clear: () => void;
+}
+
+export const useDiagnosticsStore = create<DiagnosticsStore>()((set) => ({
+  failures: [],
+
+  record: (failure) => {
+    // The same document failing the same way repeatedly is counted, not duplicated
+    const key = `${failure.source}|${failure.docId ?? ''}|${failure.issues.join(';')}`;
+    const now = Date.now();
+
+    if (import.meta.env.DEV) {
+      console.warn(`[Validation] ${failure.source} ${failure.docId ?? ''}`, failure.issues);
+    }
+
+    set((state) => {
+      const existing = state.failures.find((f) => f.key === key);
+      if (existing) {
+        return {
+          failures: [
+            { ...existing, sample: failure.sample, count: existing.count + 1, lastSeen: now },
+            ...state.failures.filter((f) => f.key !== key),
+          ],
+        };
+      }
+      return {
+        failures: [
+          { ...failure, key, count: 1, firstSeen: now, lastSeen: now },
+          ...state.failures,
+        ].slice(0, MAX_FAILURES),
+      };
+    });
+  },
+
+  clear: () => set({ failures: [] }),
+}));
@@ -0,0 +1,37 @@
+/**
+ * Fleet energy settings (lib/energy.ts), stored in the browser: which zones
+ * are charging zones and the limits robots are flagged against
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_ENERGY_LIMITS, type EnergyLimits } from '@/lib/energy';
+
+interface EnergyStore {
+  /** Zone document ids designated as charging zones */
+  chargingZones: string[];
+  limits: EnergyLimits;
+  setChargingZone: (zoneId: string, charging: boolean) => void;
+  setLimits: (limits: EnergyLimits) => void;
+}
+
+export const useEnergyStore = create<EnergyStore>()(
+  persist(
+    (set) => ({
+      chargingZones: [],
+      limits: DEFAULT_ENERGY_LIMITS,
+
+      setChargingZone: (zoneId, charging) =>
+        set((state) => ({
+          chargingZones: charging
+            ? [...state.chargingZones.filter((id) => id !== zoneId), zoneId]
+            : state.chargingZones.filter((id) => id !== zoneId),
+        })),
+
+      setLimits: (limits) => set({ limits }),
+    }),
+    {
+      name: 'warebot-energy',
+      partialize: (state) => ({ chargingZones: state.chargingZones, limits: state.limits }),
+    }
+  )
+);
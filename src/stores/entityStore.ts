@@ -0,0 +1,307 @@
+/**
+ * Normalized entity cache for robots, shelves, tasks and zones
+ * Loaded once over REST, then kept fresh by WebSocket patches
+ * (see services/entitySync.ts for the lifecycle)
+ */
+import { create } from 'zustand';
+import { robots as robotsApi, shelves as shelvesApi, tasks as tasksApi, zones as zonesApi } from '@/services/api';
+import type { Robot, Shelf, Task, Zone } from '@/types';
+
+export type EntityKind = 'robots' | 'shelves' | 'tasks' | 'zones';
+
+export type EntityMap<T> = Record<string, T>;
+
+type EntityOf<K extends EntityKind> = K extends 'robots'
+  ? Robot
+  : K extends 'shelves'
+    ? Shelf
+    : K extends 'tasks'
+      ? Task
+      : Zone;
+
+// Loose payload shape shared by telemetry / robot_update / shelf_update / task_update
+type Payload = Record<string, unknown>;
+
+const num = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  return Number.isNaN(n) ? undefined : n;
+};
+
+const firstNum = (...values: unknown[]): number | undefined => {
+  for (const v of values) {
+    const n = num(v);
+    if (n !== undefined) return n;
+  }
+  return undefined;
+};
+
+const toMap = <T extends { id: string }>(docs: T[]): EntityMap<T> => {
+  const map: EntityMap<T> = {};
+  for (const doc of docs) {
+    if (doc?.id) map[doc.id] = doc;
+  }
+  return map;
+};
+
+// =========================================================
+// NORMALIZERS
+// =========================================================
+
+/**
+ * Fill the x/y/yaw aliases from current_* so every consumer
+ * can read either naming
+ */
+export const normalizeRobot = (robot: Robot): Robot => ({
+  ...robot,
+  x: robot.x ?? robot.current_x,
+  y: robot.y ?? robot.current_y,
+  yaw: robot.yaw ?? robot.current_yaw,
+});
+
+export const normalizeShelf = (shelf: Shelf): Shelf => ({
+  ...shelf,
+  x: shelf.x ?? shelf.current_x,
+  y: shelf.y ?? shelf.current_y,
+  yaw: shelf.yaw ?? shelf.current_yaw,
+});
+
+// =========================================================
+// PATCH HELPERS (pure, exported for tests)
+// =========================================================
+
+/**
+ * Find the cache key of the robot a telemetry payload refers to.
+ * Payloads identify robots by robot_id, robot, id or name.
+ */
+export const findRobotKey = (robotMap: EntityMap<Robot>, data: Payload): string | undefined => {
+  const candidates = [data.robot_id, data.robot, data.id].filter(
+    (v): v is string => typeof v === 'string' && v.length > 0
+  );
+  for (const candidate of candidates) {
+    if (robotMap[candidate]) return candidate;
+  }
+  return Object.keys(robotMap).find((key) => {
+    const r = robotMap[key];
+    return candidates.includes(r.robot_id) || (typeof data.name === 'string' && r.name === data.name);
+  });
+};
+
+export const patchRobot = (robot: Robot, data: Payload): Robot => {
+  const x = firstNum(data.x, data.current_x);
+  const y = firstNum(data.y, data.current_y);
+  const yaw = firstNum(data.yaw, data.current_yaw);
+
+  return {
+    ...robot,
+    x: x ?? robot.x,
+    y: y ?? robot.y,
+    yaw: yaw ?? robot.yaw,
+    current_x: x ?? robot.current_x,
+    current_y: y ?? robot.current_y,
+    current_yaw: yaw ?? robot.current_yaw,
+    cpu_usage: num(data.cpu_usage) ?? robot.cpu_usage,
+    ram_usage: num(data.ram_usage) ?? robot.ram_usage,
+    battery_level: num(data.battery_level) ?? robot.battery_level,
+    temperature: num(data.temperature) ?? robot.temperature,
+    status: (data.status as Robot['status']) ?? robot.status,
+    available: typeof data.available === 'boolean' ? data.available : robot.available,
+    current_shelf_id: (data.current_shelf_id as string) ?? robot.current_shelf_id,
+  };
+};
+
+export const patchShelf = (shelf: Shelf, data: Payload): Shelf => {
+  const x = firstNum(data.current_x, data.x);
+  const y = firstNum(data.current_y, data.y);
+  const yaw = firstNum(data.current_yaw, data.yaw);
+
+  return {
+    ...shelf,
+    current_x: x ?? shelf.current_x,
+    current_y: y ?? shelf.current_y,
+    current_yaw: yaw ?? shelf.current_yaw,
+    x: x ?? shelf.x,
+    y: y ?? shelf.y,
+    yaw: yaw ?? shelf.yaw,
+    storage_x: num(data.storage_x) ?? shelf.storage_x,
+    storage_y: num(data.storage_y) ?? shelf.storage_y,
+    storage_yaw: num(data.storage_yaw) ?? shelf.storage_yaw,
+    location_status: (data.location_status as Shelf['location_status']) ?? shelf.location_status,
+    last_task_id: (data.task_id as string) ?? (data.last_task_id as string) ?? shelf.last_task_id,
+    status: (data.status as Shelf['status']) ?? shelf.status,
+    available: typeof data.available === 'boolean' ? data.available : shelf.available,
+  };
+};
+
+/**
+ * task_update arrives either as { task: {...} } or as a flat
+ * { task_id, status, ... } payload
+ */
+export const unwrapTaskPayload = (data: Payload): Payload | null => {
+  const inner = (data.task && typeof data.task === 'object' ? data.task : data) as Payload;
+  const id = inner.id ?? inner.task_id;
+  if (typeof id !== 'string' || !id) return null;
+  const { task_id: _taskId, ...rest } = inner;
+  return { ...rest, id };
+};
+
+export const patchTask = (task: Task | undefined, data: Payload): Task => {
+  const merged = { ...(task || {}), ...data } as Task;
+  const numericKeys: (keyof Task)[] = [
+    'priority',
+    'pickup_x',
+    'pickup_y',
+    'drop_x',
+    'drop_y',
+    'current_robot_x',
+    'current_robot_y',
+    'progress',
+    'duration_seconds',
+  ];
+  for (const key of numericKeys) {
+    const n = num(merged[key]);
+    if (n !== undefined) (merged as unknown as Payload)[key] = n;
+  }
+  return merged;
+};
+
+// =========================================================
+// STORE
+// =========================================================
+
+interface EntityStore {
+  robots: EntityMap<Robot>;
+  shelves: EntityMap<Shelf>;
+  tasks: EntityMap<Task>;
+  zones: EntityMap<Zone>;
+
+  loaded: boolean;
+  loading: boolean;
+  error: string | null;
+  socketConnected: boolean;
+  lastUpdate: number | null;
+
+  load: (options?: { silent?: boolean }) => Promise<void>;
+  setSocketConnected: (connected: boolean) => void;
+
+  // Socket patches
+  applyRobotUpdate: (data: Payload) => void;
+  applyShelfUpdate: (data: Payload) => void;
+  applyTaskUpdate: (data: Payload) => void;
+  replaceTasks: (tasks: Task[]) => void;
+
+  // Local writes after REST mutations
+  upsert: <K extends EntityKind>(kind: K, doc: EntityOf<K>) => void;
+  remove: (kind: EntityKind, id: string) => void;
+  reset: () => void;
+}
+
+const emptyState = {
+  robots: {} as EntityMap<Robot>,
+  shelves: {} as EntityMap<Shelf>,
+  tasks: {} as EntityMap<Task>,
+  zones: {} as EntityMap<Zone>,
+  loaded: false,
+  loading: false,
+  error: null as string | null,
+  lastUpdate: null as number | null,
+};
+
+export const useEntityStore = create<EntityStore>()((set, get) => ({
+  ...emptyState,
+  socketConnected: false,
+
+  load: async (options) => {
+    if (!options?.silent) set({ loading: true });
+
+    const results = await Promise.allSettled([
+      robotsApi.list(),
+      shelvesApi.list(),
+      tasksApi.list(),
+      zonesApi.list(),
+    ]);
+    const [robotRes, shelfRes, taskRes, zoneRes] = results;
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+    set((state) => ({
+      robots:
+        robotRes.status === 'fulfilled'
+          ? toMap((robotRes.value as Robot[]).map(normalizeRobot))
+          : state.robots,
+      shelves:
+        shelfRes.status === 'fulfilled'
+          ? toMap((shelfRes.value as Shelf[]).map(normalizeShelf))
+          : state.shelves,
+      tasks: taskRes.status === 'fulfilled' ? toMap(taskRes.value) : state.tasks,
+      zones: zoneRes.status === 'fulfilled' ? toMap(zoneRes.value as Zone[]) : state.zones,
+      loaded: true,
+      loading: false,
+      error: failed ? failed.reason?.message || 'Failed to load data' : null,
+      lastUpdate: Date.now(),
+    }));
+  },
+
+  setSocketConnected: (connected) => {
+    if (get().socketConnected !== connected) set({ socketConnected: connected });
+  },
+
+  applyRobotUpdate: (data) => {
+    const key = findRobotKey(get().robots, data);
+    if (!key) return;
+    set((state) => ({
+      robots: { ...state.robots, [key]: patchRobot(state.robots[key], data) },
+      lastUpdate: Date.now(),
+    }));
+  },
+
+  applyShelfUpdate: (data) => {
+    const id = (data.shelf_id ?? data.id) as string | undefined;
+    if (!id || !get().shelves[id]) return;
+    set((state) => ({
+      shelves: { ...state.shelves, [id]: patchShelf(state.shelves[id], data) },
+      lastUpdate: Date.now(),
+    }));
+  },
+
+  applyTaskUpdate: (data) => {
+    const patch = unwrapTaskPayload(data);
+    if (!patch) return;
+    const id = patch.id as string;
+    const existing = get().tasks[id];
+    // Unknown tasks are only inserted when the payload carries a full document
+    if (!existing && (!patch.shelf_id || !patch.status)) return;
+    set((state) => ({
+      tasks: { ...state.tasks, [id]: patchTask(existing, patch) },
+      lastUpdate: Date.now(),
+    }));
+  },
+
+  replaceTasks: (tasks) => {
+    set({ tasks: toMap(tasks), lastUpdate: Date.now() });
+  },
+
+  upsert: (kind, doc) => {
+    const normalized =
+      kind === 'robots'
+        ? normalizeRobot(doc as Robot)
+        : kind === 'shelves'
+          ? normalizeShelf(doc as Shelf)
+          : doc;
+    // Validated documents carry explicit undefined keys; don't let them erase cached values
+    const defined = Object.fromEntries(Object.entries(normalized).filter(([, v]) => v !== undefined));
+    set((state) => ({
+      [kind]: { ...state[kind], [doc.id]: { ...state[kind][doc.id], ...defined } },
+      lastUpdate: Date.now(),
+    }) as Partial<EntityStore>);
+  },
+
+  remove: (kind, id) => {
+    set((state) => {
+      const next = { ...state[kind] };
+      delete next[id];
+      return { [kind]: next, lastUpdate: Date.now() } as Partial<EntityStore>;
+    });
+  },
+
+  reset: () => set({ ...emptyState }),
+}));
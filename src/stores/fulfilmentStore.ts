@@ -0,0 +1,83 @@
+/**
+ * Fulfilment orders: the product lines each fulfilment task delivers and
+ * whether their stock has been picked. Kept in the browser so a pick due
+ * while the app was closed still happens on the next visit.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/** Finished orders kept for the list (oldest dropped first) */
+const MAX_FINISHED = 50;
+
+export type PickState = 'waiting' | 'picked' | 'failed';
+
+export interface FulfilmentLine {
+  productId: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  pick: PickState;
+  /** Last pick error */
+  error?: string;
+}
+
+export interface FulfilmentOrder {
+  taskId: string;
+  shelfId: string;
+  zoneId: string;
+  createdAt: number;
+  lines: FulfilmentLine[];
+  /** Set when the task was cancelled before reaching the drop zone */
+  cancelled?: boolean;
+}
+
+interface FulfilmentStore {
+  orders: FulfilmentOrder[];
+  add: (order: Omit<FulfilmentOrder, 'createdAt'>) => void;
+  setLine: (taskId: string, productId: string, patch: Pick<FulfilmentLine, 'pick' | 'error'>) => void;
+  cancel: (taskId: string) => void;
+  /** Drop the record of an order (its task is left alone) */
+  dismiss: (taskId: string) => void;
+}
+
+export const isOrderOpen = (order: FulfilmentOrder) =>
+  !order.cancelled && order.lines.some((line) => line.pick !== 'picked');
+
+export const useFulfilmentStore = create<FulfilmentStore>()(
+  persist(
+    (set) => ({
+      orders: [],
+
+      add: (order) =>
+        set((state) => {
+          const orders = [{ ...order, createdAt: Date.now() }, ...state.orders];
+          const finished = orders.filter((o) => !isOrderOpen(o));
+          const drop = new Set(finished.slice(MAX_FINISHED));
+          return { orders: orders.filter((o) => !drop.has(o)) };
+        }),
+
+      setLine: (taskId, productId, patch) =>
+        set((state) => ({
+          orders: state.orders.map((order) =>
+            order.taskId === taskId
+              ? {
+                  ...order,
+                  lines: order.lines.map((line) => (line.productId === productId ? { ...line, ...patch } : line)),
+                }
+              : order
+          ),
+        })),
+
+      cancel: (taskId) =>
+        set((state) => ({
+          orders: state.orders.map((order) => (order.taskId === taskId ? { ...order, cancelled: true } : order)),
+        })),
+
+      dismiss: (taskId) => set((state) => ({ orders: state.orders.filter((order) => order.taskId !== taskId) })),
+    }),
+    {
+      name: 'warebot-fulfilment',
+      partialize: (state) => ({ orders: state.orders }),
+    }
+  )
+);
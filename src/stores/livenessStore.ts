@@ -0,0 +1,28 @@
+/**
+ * Robot stale/offline timeouts (lib/robotLiveness.ts), stored in the browser
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_LIVENESS_TIMEOUTS, type LivenessTimeouts } from '@/lib/robotLiveness';
+
+interface LivenessStore {
+  timeouts: LivenessTimeouts;
+  setTimeouts: (timeouts: LivenessTimeouts) => void;
+  reset: () => void;
+}
+
+export const useLivenessStore = create<LivenessStore>()(
+  persist(
+    (set) => ({
+      timeouts: DEFAULT_LIVENESS_TIMEOUTS,
+
+      setTimeouts: (timeouts) => set({ timeouts }),
+
+      reset: () => set({ timeouts: DEFAULT_LIVENESS_TIMEOUTS }),
+    }),
+    {
+      name: 'warebot-liveness',
+      partialize: (state) => ({ timeouts: state.timeouts }),
+    }
+  )
+);
@@ -0,0 +1,97 @@
+/**
+ * Notification center (lib/notifications.ts): task failures, robot and
+ * system health changes, low stock and fleet alerts, stored in the browser
+ * with who acknowledged what. Also holds which sources notify and whether
+ * critical items raise a browser popup.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AppNotification, NotificationInput, NotificationSource } from '@/lib/notifications';
+
+/** Notifications kept (oldest dropped first) */
+const MAX_NOTIFICATIONS = 300;
+
+export interface NotificationPrefs {
+  sources: Record<NotificationSource, boolean>;
+  /** Browser Notification API popups for critical items */
+  browser: boolean;
+  /** Products at or below this quantity are low on stock */
+  lowStockThreshold: number;
+}
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  sources: { task: true, robot: true, system: true, stock: true, alert: true },
+  browser: false,
+  lowStockThreshold: 10,
+};
+
+interface NotificationStore {
+  /** Newest first */
+  notifications: AppNotification[];
+  prefs: NotificationPrefs;
+  /** Returns null when the source is switched off */
+  notify: (input: NotificationInput) => AppNotification | null;
+  acknowledge: (id: string, user?: string) => void;
+  acknowledgeAll: (user?: string) => void;
+  snooze: (id: string, ms: number) => void;
+  clear: () => void;
+  setPrefs: (prefs: Partial<NotificationPrefs>) => void;
+  setSourceEnabled: (source: NotificationSource, enabled: boolean) => void;
+}
+
+let seq = 0;
+
+export const useNotificationStore = create<NotificationStore>()(
+  persist(
+    (set, get) => ({
+      notifications: [],
+      prefs: DEFAULT_NOTIFICATION_PREFS,
+
+      notify: (input) => {
+        if (!get().prefs.sources[input.source]) return null;
+        const notification: AppNotification = { ...input, id: `ntf-${Date.now().toString(36)}-${++seq}`, at: Date.now() };
+        set((state) => ({ notifications: [notification, ...state.notifications].slice(0, MAX_NOTIFICATIONS) }));
+        return notification;
+      },
+
+      acknowledge: (id, user) =>
+        set((state) => ({
+          notifications: state.notifications.map((n) =>
+            n.id === id && !n.acknowledgedAt ? { ...n, acknowledgedAt: Date.now(), acknowledgedBy: user } : n
+          ),
+        })),
+
+      acknowledgeAll: (user) => {
+        const at = Date.now();
+        set((state) => ({
+          notifications: state.notifications.map((n) =>
+            n.acknowledgedAt ? n : { ...n, acknowledgedAt: at, acknowledgedBy: user }
+          ),
+        }));
+      },
+
+      snooze: (id, ms) =>
+        set((state) => ({
+          notifications: state.notifications.map((n) => (n.id === id ? { ...n, snoozedUntil: Date.now() + ms } : n)),
+        })),
+
+      clear: () => set({ notifications: [] }),
+
+      setPrefs: (prefs) => set((state) => ({ prefs: { ...state.prefs, ...prefs } })),
+
+      setSourceEnabled: (source, enabled) =>
+        set((state) => ({ prefs: { ...state.prefs, sources: { ...state.prefs.sources, [source]: enabled } } })),
+    }),
+    {
+      name: 'warebot-notifications',
+      partialize: (state) => ({ notifications: state.notifications, prefs: state.prefs }),
+      // Sources added later start switched on
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<NotificationStore>;
+        const prefs = { ...DEFAULT_NOTIFICATION_PREFS, ...saved.prefs };
+        prefs.sources = { ...DEFAULT_NOTIFICATION_PREFS.sources, ...saved.prefs?.sources };
+        return { ...current, notifications: saved.notifications ?? [], prefs };
+      },
+    }
+  )
+);
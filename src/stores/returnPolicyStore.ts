@@ -0,0 +1,40 @@
+/**
+ * Per-zone return policies (lib/shelfReturn.ts), stored in the browser,
+ * plus the outcome of the last return attempt per shelf
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ReturnPolicy } from '@/lib/shelfReturn';
+
+interface ReturnPolicyStore {
+  /** Keyed by zone document id */
+  policies: Record<string, ReturnPolicy>;
+  /** Last failed return per shelf id (not persisted) */
+  errors: Record<string, string>;
+  setPolicy: (zoneId: string, policy: ReturnPolicy) => void;
+  setError: (shelfId: string, error: string | null) => void;
+}
+
+export const useReturnPolicyStore = create<ReturnPolicyStore>()(
+  persist(
+    (set) => ({
+      policies: {},
+      errors: {},
+
+      setPolicy: (zoneId, policy) => set((state) => ({ policies: { ...state.policies, [zoneId]: policy } })),
+
+      setError: (shelfId, error) =>
+        set((state) => {
+          if (!error && !(shelfId in state.errors)) return state;
+          const errors = { ...state.errors };
+          if (error) errors[shelfId] = error;
+          else delete errors[shelfId];
+          return { errors };
+        }),
+    }),
+    {
+      name: 'warebot-return-policies',
+      partialize: (state) => ({ policies: state.policies }),
+    }
+  )
+);
@@ -0,0 +1,71 @@
+/**
+ * Audit trail of robot commands (lib/robotCommands.ts), stored in the
+ * browser: who sent what to which robot, over which transport, and whether
+ * it was acknowledged. Also holds the transport new commands use.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type {
+  RobotCommandEntry,
+  RobotCommandInput,
+  RobotCommandResult,
+  RobotCommandTransport,
+} from '@/lib/robotCommands';
+
+/** Entries kept (oldest dropped first) */
+const MAX_ENTRIES = 500;
+
+interface RobotCommandStore {
+  /** Newest first */
+  entries: RobotCommandEntry[];
+  transport: RobotCommandTransport;
+  record: (input: RobotCommandInput) => RobotCommandEntry;
+  /** Settles a pending entry; a late answer also replaces a timeout */
+  resolve: (id: string, result: RobotCommandResult) => void;
+  setTransport: (transport: RobotCommandTransport) => void;
+}
+
+let seq = 0;
+
+export const useRobotCommandStore = create<RobotCommandStore>()(
+  persist(
+    (set) => ({
+      entries: [],
+      transport: 'rest',
+
+      record: (input) => {
+        const entry: RobotCommandEntry = {
+          ...input,
+          id: `cmd-${Date.now().toString(36)}-${++seq}`,
+          sentAt: Date.now(),
+          status: 'pending',
+        };
+        set((state) => ({ entries: [entry, ...state.entries].slice(0, MAX_ENTRIES) }));
+        return entry;
+      },
+
+      resolve: (id, result) =>
+        set((state) => ({
+          entries: state.entries.map((e) =>
+            e.id === id && (e.status === 'pending' || e.status === 'timed_out')
+              ? { ...e, ...result, resolvedAt: Date.now() }
+              : e
+          ),
+        })),
+
+      setTransport: (transport) => set({ transport }),
+    }),
+    {
+      name: 'warebot-robot-commands',
+      partialize: (state) => ({ entries: state.entries, transport: state.transport }),
+      // An acknowledgement can't arrive for a command sent before the reload
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<RobotCommandStore>;
+        const entries = (saved.entries ?? []).map((e): RobotCommandEntry =>
+          e.status === 'pending' ? { ...e, status: 'timed_out', message: 'No answer before the page closed' } : e
+        );
+        return { ...current, entries, transport: saved.transport ?? current.transport };
+      },
+    }
+  )
+);
@@ -0,0 +1,80 @@
+/**
+ * Task schedules (lib/taskSchedule.ts) and the history of their runs,
+ * stored in the browser. Each schedule belongs to the backend it was
+ * created on (stores/simulatorStore.ts).
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ScheduleDraft, ScheduleRun, TaskSchedule } from '@/lib/taskSchedule';
+import { activeBackendKey, isOnBackend } from './simulatorStore';
+
+/** Runs kept in the history (oldest dropped first) */
+const MAX_RUNS = 200;
+
+interface ScheduleStore {
+  schedules: TaskSchedule[];
+  runs: ScheduleRun[];
+  add: (draft: ScheduleDraft) => TaskSchedule;
+  /** Edits apply from now on; runs between the last check and now are not replayed */
+  update: (id: string, draft: ScheduleDraft) => void;
+  setEnabled: (id: string, enabled: boolean) => void;
+  remove: (id: string) => void;
+  markChecked: (id: string, until: number) => void;
+  recordRun: (run: Omit<ScheduleRun, 'id'>) => void;
+  /** Clears the history of one backend */
+  clearRuns: (backend: string) => void;
+}
+
+let seq = 0;
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${++seq}`;
+
+export const useScheduleStore = create<ScheduleStore>()(
+  persist(
+    (set) => ({
+      schedules: [],
+      runs: [],
+
+      add: (draft) => {
+        const now = Date.now();
+        const schedule: TaskSchedule = {
+          ...draft,
+          id: newId('sched'),
+          enabled: true,
+          createdAt: now,
+          checkedUntil: now,
+          backend: activeBackendKey(),
+        };
+        set((state) => ({ schedules: [...state.schedules, schedule] }));
+        return schedule;
+      },
+
+      update: (id, draft) =>
+        set((state) => ({
+          schedules: state.schedules.map((s) => (s.id === id ? { ...s, ...draft, checkedUntil: Date.now() } : s)),
+        })),
+
+      // Re-enabling does not fire the runs skipped while disabled
+      setEnabled: (id, enabled) =>
+        set((state) => ({
+          schedules: state.schedules.map((s) =>
+            s.id === id ? { ...s, enabled, checkedUntil: enabled ? Date.now() : s.checkedUntil } : s
+          ),
+        })),
+
+      remove: (id) => set((state) => ({ schedules: state.schedules.filter((s) => s.id !== id) })),
+
+      markChecked: (id, until) =>
+        set((state) => ({
+          schedules: state.schedules.map((s) => (s.id === id ? { ...s, checkedUntil: until } : s)),
+        })),
+
+      recordRun: (run) => set((state) => ({ runs: [{ ...run, id: newId('run') }, ...state.runs].slice(0, MAX_RUNS) })),
+
+      clearRuns: (backend) => set((state) => ({ runs: state.runs.filter((r) => !isOnBackend(r, backend)) })),
+    }),
+    {
+      name: 'warebot-schedules',
+      partialize: (state) => ({ schedules: state.schedules, runs: state.runs }),
+    }
+  )
+);
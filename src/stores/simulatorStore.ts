@@ -0,0 +1,85 @@
+/**
+ * Fleet simulator switch and scenario, stored in the browser.
+ * While enabled, the API and socket are served by services/simulator.
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { clampScenario, DEFAULT_SCENARIO, startSimulator, stopSimulator, type SimScenario } from '@/services/simulator';
+import { DEFAULT_PROFILE_ID, switchBackend, useConnectionStore } from './connectionStore';
+
+// VITE_SIMULATOR=true starts in simulator mode until the user turns it off
+const ENABLED_BY_DEFAULT = (import.meta.env && import.meta.env.VITE_SIMULATOR) === 'true';
+
+interface SimulatorStore {
+  enabled: boolean;
+  scenario: SimScenario;
+  setEnabled: (enabled: boolean) => void;
+  /** Save the scenario; a running simulator restarts with a fresh world */
+  setScenario: (scenario: Partial<SimScenario>) => void;
+  /** Start over with a fresh world (same scenario) */
+  restart: () => void;
+}
+
+export const useSimulatorStore = create<SimulatorStore>()(
+  persist(
+    (set, get) => ({
+      enabled: ENABLED_BY_DEFAULT,
+      scenario: DEFAULT_SCENARIO,
+
+      setEnabled: (enabled) => {
+        set({ enabled });
+        switchBackend(() => (enabled ? startSimulator(get().scenario) : stopSimulator()));
+      },
+
+      setScenario: (scenario) => {
+        set({ scenario: clampScenario({ ...get().scenario, ...scenario }) });
+        if (get().enabled) get().restart();
+      },
+
+      restart: () => {
+        if (!get().enabled) return;
+        switchBackend(() => startSimulator(get().scenario));
+      },
+    }),
+    {
+      name: 'warebot-simulator',
+      partialize: (state) => ({ enabled: state.enabled, scenario: state.scenario }),
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<SimulatorStore>;
+        return {
+          ...current,
+          enabled: saved.enabled ?? current.enabled,
+          scenario: clampScenario(saved.scenario ?? current.scenario),
+        };
+      },
+      // Runs at startup, before the first request
+      onRehydrateStorage: () => (state) => {
+        if (state?.enabled) startSimulator(state.scenario);
+      },
+    }
+  )
+);
+
+// =========================================================
+// ACTIVE BACKEND
+// =========================================================
+
+/** Backend key while the simulator serves the API */
+export const SIMULATOR_BACKEND = 'simulator';
+
+/**
+ * Which backend the app talks to: the simulator, or the active connection
+ * profile. Schedules and workflows hold shelf and zone ids of one backend,
+ * so each is stamped with this key and only runs there.
+ */
+export const activeBackendKey = () =>
+  useSimulatorStore.getState().enabled ? SIMULATOR_BACKEND : useConnectionStore.getState().activeId;
+
+export const useActiveBackendKey = () => {
+  const simulated = useSimulatorStore((s) => s.enabled);
+  const activeId = useConnectionStore((s) => s.activeId);
+  return simulated ? SIMULATOR_BACKEND : activeId;
+};
+
+/** Items saved before backends were told apart belong to the default profile */
+export const isOnBackend = (item: { backend?: string }, key: string) => (item.backend ?? DEFAULT_PROFILE_ID) === key;
@@ -0,0 +1,29 @@
+/**
+ * SLA targets per task type (lib/taskAnalytics.ts), stored in the browser
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_SLA_MINUTES, type SlaTargets } from '@/lib/taskAnalytics';
+import type { TaskType } from '@/types';
+
+interface SlaStore {
+  targets: SlaTargets;
+  setTarget: (type: TaskType, minutes: number) => void;
+  reset: () => void;
+}
+
+export const useSlaStore = create<SlaStore>()(
+  persist(
+    (set) => ({
+      targets: DEFAULT_SLA_MINUTES,
+
+      setTarget: (type, minutes) => set((state) => ({ targets: { ...state.targets, [type]: minutes } })),
+
+      reset: () => set({ targets: DEFAULT_SLA_MINUTES }),
+    }),
+    {
+      name: 'warebot-sla',
+      partialize: (state) => ({ targets: state.targets }),
+    }
+  )
+);
@@ -0,0 +1,90 @@
+/**
+ * Task event log: every status change the client has seen, from operator
+ * actions and task_update events. Changes the state machine
+ * (lib/taskStateMachine.ts) does not allow are flagged as anomalies.
+ * Also keeps the robot path reported for each running task.
+ */
+import { create } from 'zustand';
+import { explainTransition } from '@/lib/taskStateMachine';
+import type { TaskStatus, TaskType } from '@/types';
+
+/** Max events kept (oldest dropped first) */
+const MAX_EVENTS = 500;
+/** Max points kept per task path, and max tasks with a path */
+const MAX_TRACK_POINTS = 2000;
+const MAX_TRACKS = 50;
+/** Positions closer than this (metres) to the last point are skipped */
+const MIN_TRACK_STEP = 0.02;
+
+export type TaskEventSource = 'operator' | 'socket';
+
+export interface TaskEvent {
+  id: number;
+  taskId: string;
+  taskType?: TaskType;
+  from: TaskStatus;
+  to: TaskStatus;
+  source: TaskEventSource;
+  at: number;
+  /** Why the transition is illegal; unset for normal events */
+  anomaly?: string;
+}
+
+export interface TrackPoint {
+  x: number;
+  y: number;
+  at: number;
+}
+
+type TaskEventInput = Pick<TaskEvent, 'taskId' | 'taskType' | 'from' | 'to' | 'source'>;
+
+interface TaskEventStore {
+  events: TaskEvent[];
+  /** Robot positions reported while each task ran (current_robot_x/y) */
+  tracks: Record<string, TrackPoint[]>;
+  record: (event: TaskEventInput) => TaskEvent | null;
+  recordPosition: (taskId: string, x: number, y: number) => void;
+  clear: () => void;
+}
+
+let seq = 0;
+
+export const useTaskEventStore = create<TaskEventStore>()((set) => ({
+  events: [],
+  tracks: {},
+
+  record: (input) => {
+    if (input.from === input.to) return null;
+
+    const anomaly = explainTransition(input.taskType, input.from, input.to) ?? undefined;
+    const event: TaskEvent = { ...input, id: ++seq, at: Date.now(), anomaly };
+
+    if (anomaly) {
+      console.warn(`[Tasks] Illegal transition ${input.from} -> ${input.to} on ${input.taskId}: ${anomaly}`);
+    }
+
+    set((state) => ({ events: [event, ...state.events].slice(0, MAX_EVENTS) }));
+    return event;
+  },
+
+  recordPosition: (taskId, x, y) => {
+    set((state) => {
+      const track = state.tracks[taskId] ?? [];
+      const last = track[track.length - 1];
+      if (last && Math.hypot(last.x - x, last.y - y) < MIN_TRACK_STEP) return state;
+
+      const tracks = { ...state.tracks, [taskId]: [...track, { x, y, at: Date.now() }].slice(-MAX_TRACK_POINTS) };
+      // Forget the least recently started paths
+      const ids = Object.keys(tracks);
+      if (ids.length > MAX_TRACKS) {
+        ids
+          .sort((a, b) => tracks[a][0].at - tracks[b][0].at)
+          .slice(0, ids.length - MAX_TRACKS)
+          .forEach((id) => delete tracks[id]);
+      }
+      return { tracks };
+    });
+  },
+
+  clear: () => set({ events: [] }),
+}));
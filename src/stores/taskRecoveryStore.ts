@@ -0,0 +1,36 @@
+/**
+ * Recovery actions (lib/taskRecovery.ts) whose note the backend refused,
+ * so they could not be recorded on the task; stored in this browser only
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { RecoveryEntry } from '@/lib/taskRecovery';
+
+/** Entries kept (oldest dropped first) */
+const MAX_ENTRIES = 500;
+
+interface TaskRecoveryStore {
+  /** Newest first */
+  entries: RecoveryEntry[];
+  record: (entry: Omit<RecoveryEntry, 'id'>) => RecoveryEntry;
+}
+
+let seq = 0;
+
+export const useTaskRecoveryStore = create<TaskRecoveryStore>()(
+  persist(
+    (set) => ({
+      entries: [],
+
+      record: (entry) => {
+        const recorded: RecoveryEntry = { ...entry, id: `rec-${Date.now().toString(36)}-${++seq}` };
+        set((state) => ({ entries: [recorded, ...state.entries].slice(0, MAX_ENTRIES) }));
+        return recorded;
+      },
+    }),
+    {
+      name: 'warebot-task-recovery',
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+);
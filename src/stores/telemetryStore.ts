@@ -0,0 +1,42 @@
+/**
+ * Live telemetry ring buffer: the samples `telemetry` events carried for
+ * each robot (by cache key) since the app started syncing. Not persisted;
+ * older points come from GET /robots/:id/telemetry.
+ */
+import { create } from 'zustand';
+import { pushSample, type TelemetrySample } from '@/lib/telemetry';
+
+/** Max samples kept per robot (oldest dropped first) */
+const MAX_SAMPLES = 1800;
+
+interface TelemetryStore {
+  samples: Record<string, TelemetrySample[]>;
+  /** When each robot's last telemetry or position event arrived (client clock, ms) */
+  receivedAt: Record<string, number>;
+  /** When tracking (re)started; robots not heard from since count from here */
+  since: number;
+  push: (robotKey: string, sample: TelemetrySample) => void;
+  /** An event without sensor readings (e.g. a position update) */
+  seen: (robotKey: string) => void;
+  /** Restart the `since` clock, keeping samples */
+  track: () => void;
+  clear: () => void;
+}
+
+export const useTelemetryStore = create<TelemetryStore>()((set) => ({
+  samples: {},
+  receivedAt: {},
+  since: Date.now(),
+
+  push: (robotKey, sample) =>
+    set((state) => ({
+      samples: { ...state.samples, [robotKey]: pushSample(state.samples[robotKey] ?? [], sample, MAX_SAMPLES) },
+      receivedAt: { ...state.receivedAt, [robotKey]: Date.now() },
+    })),
+
+  seen: (robotKey) => set((state) => ({ receivedAt: { ...state.receivedAt, [robotKey]: Date.now() } })),
+
+  track: () => set({ since: Date.now() }),
+
+  clear: () => set({ samples: {}, receivedAt: {}, since: Date.now() }),
+}));
@@ -0,0 +1,95 @@
+/**
+ * Workflow templates and running/finished workflows (lib/workflow.ts),
+ * stored in the browser. Templates are shared; a workflow belongs to the
+ * backend it was started on (stores/simulatorStore.ts).
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Workflow, WorkflowState, WorkflowStep, WorkflowTemplate } from '@/lib/workflow';
+import { activeBackendKey } from './simulatorStore';
+
+/** Finished workflows kept (oldest dropped first) */
+const MAX_FINISHED = 50;
+
+interface WorkflowStore {
+  templates: WorkflowTemplate[];
+  workflows: Workflow[];
+  saveTemplate: (template: Omit<WorkflowTemplate, 'id'> & { id?: string }) => void;
+  removeTemplate: (id: string) => void;
+  start: (template: WorkflowTemplate, shelfId: string) => Workflow;
+  setStepTask: (id: string, step: number, taskId: string) => void;
+  finish: (id: string, state: Exclude<WorkflowState, 'running'>, failure?: string) => void;
+  remove: (id: string) => void;
+}
+
+let seq = 0;
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${++seq}`;
+
+const trimFinished = (workflows: Workflow[]) => {
+  const finished = workflows.filter((w) => w.state !== 'running');
+  const drop = new Set(finished.slice(MAX_FINISHED));
+  return workflows.filter((w) => !drop.has(w));
+};
+
+export const useWorkflowStore = create<WorkflowStore>()(
+  persist(
+    (set) => ({
+      templates: [],
+      workflows: [],
+
+      saveTemplate: (template) =>
+        set((state) => {
+          if (template.id && state.templates.some((t) => t.id === template.id)) {
+            return {
+              templates: state.templates.map((t) =>
+                t.id === template.id ? { ...t, name: template.name, steps: template.steps } : t
+              ),
+            };
+          }
+          return { templates: [...state.templates, { id: newId('wft'), name: template.name, steps: template.steps }] };
+        }),
+
+      removeTemplate: (id) => set((state) => ({ templates: state.templates.filter((t) => t.id !== id) })),
+
+      start: (template, shelfId) => {
+        const workflow: Workflow = {
+          id: newId('wf'),
+          name: template.name,
+          shelfId,
+          steps: template.steps.map((step): WorkflowStep => ({ ...step })),
+          stepTasks: [],
+          state: 'running',
+          startedAt: Date.now(),
+          backend: activeBackendKey(),
+        };
+        set((state) => ({ workflows: [workflow, ...state.workflows] }));
+        return workflow;
+      },
+
+      setStepTask: (id, step, taskId) =>
+        set((state) => ({
+          workflows: state.workflows.map((w) => {
+            if (w.id !== id) return w;
+            const stepTasks = [...w.stepTasks];
+            stepTasks[step] = taskId;
+            return { ...w, stepTasks };
+          }),
+        })),
+
+      finish: (id, finalState, failure) =>
+        set((state) => ({
+          workflows: trimFinished(
+            state.workflows.map((w) =>
+              w.id === id && w.state === 'running' ? { ...w, state: finalState, failure, finishedAt: Date.now() } : w
+            )
+          ),
+        })),
+
+      remove: (id) => set((state) => ({ workflows: state.workflows.filter((w) => w.id !== id) })),
+    }),
+    {
+      name: 'warebot-workflows',
+      partialize: (state) => ({ templates: state.templates, workflows: state.workflows }),
+    }
+  )
+);
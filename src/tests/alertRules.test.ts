@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the fleet alert rules engine
+ */
+import { evaluateAlerts, validateAlertRule, type AlertRule, type RobotObservation } from '../lib/alertRules';
+
+const robot = (patch: Partial<RobotObservation>): RobotObservation => ({
+  key: 'r1',
+  name: 'MP400-1',
+  status: 'IDLE',
+  values: { battery_level: 80, temperature: 40 },
+  x: 1,
+  y: 1,
+  lastSeen: 0,
+  ...patch,
+});
+
+const hot: AlertRule = {
+  id: 'hot',
+  name: 'Overheating',
+  enabled: true,
+  severity: 'critical',
+  kind: 'threshold',
+  metric: 'temperature',
+  op: 'above',
+  value: 70,
+  forSeconds: 10,
+};
+const silent: AlertRule = { id: 'silent', name: 'Silent', enabled: true, severity: 'critical', kind: 'silent', seconds: 30 };
+const stuck: AlertRule = {
+  id: 'stuck',
+  name: 'Stuck',
+  enabled: true,
+  severity: 'warning',
+  kind: 'stuck',
+  seconds: 60,
+  radius: 0.1,
+};
+
+describe('fleet alert rules', () => {
+  it('fires a threshold only once it has held long enough, and once', () => {
+    const overheated = robot({ values: { temperature: 80 } });
+    let step = evaluateAlerts([hot], [overheated], {}, 1000);
+    expect(step.fired.length).toBe(0);
+    step = evaluateAlerts([hot], [overheated], step.state, 11000);
+    expect(step.fired.map((a) => a.message)).toEqual(['MP400-1: Temperature 80°C (above 70)']);
+    step = evaluateAlerts([hot], [overheated], step.state, 12000);
+    expect(step.fired.length).toBe(0);
+  });
+
+  it('can fire again after the condition clears', () => {
+    let step = evaluateAlerts([{ ...hot, forSeconds: 0 }], [robot({ values: { temperature: 80 } })], {}, 0);
+    expect(step.fired.length).toBe(1);
+    step = evaluateAlerts([{ ...hot, forSeconds: 0 }], [robot({})], step.state, 1000);
+    step = evaluateAlerts([{ ...hot, forSeconds: 0 }], [robot({ values: { temperature: 81 } })], step.state, 2000);
+    expect(step.fired.length).toBe(1);
+  });
+
+  it('flags robots that go silent, except those already OFFLINE', () => {
+    const step = evaluateAlerts([silent], [robot({}), robot({ key: 'r2', status: 'OFFLINE' })], {}, 31000);
+    expect(step.fired.map((a) => a.robot.key)).toEqual(['r1']);
+    expect(evaluateAlerts([silent], [robot({ lastSeen: 20000 })], {}, 31000).fired.length).toBe(0);
+  });
+
+  it('flags a BUSY robot that stays in place', () => {
+    let step = evaluateAlerts([stuck], [robot({ status: 'BUSY' })], {}, 0);
+    step = evaluateAlerts([stuck], [robot({ status: 'BUSY', x: 1.05 })], step.state, 59000);
+    expect(step.fired.length).toBe(0);
+    step = evaluateAlerts([stuck], [robot({ status: 'BUSY', x: 1.05 })], step.state, 60000);
+    expect(step.fired.length).toBe(1);
+    // Moving restarts the clock
+    step = evaluateAlerts([stuck], [robot({ status: 'BUSY', x: 3 })], {}, 0);
+    step = evaluateAlerts([stuck], [robot({ status: 'BUSY', x: 4 })], step.state, 60000);
+    expect(step.fired.length).toBe(0);
+  });
+
+  it('ignores disabled rules and rejects bad ones', () => {
+    expect(evaluateAlerts([{ ...silent, enabled: false }], [robot({})], {}, 60000).fired.length).toBe(0);
+    expect(validateAlertRule({ ...stuck, radius: 0 })).toBe('Radius must be more than 0 m');
+    expect(validateAlertRule({ ...hot, name: ' ' })).toBe('Name is required');
+  });
+});
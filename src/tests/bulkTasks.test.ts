@@ -0,0 +1,63 @@
+/**
+ * Unit tests for bulk task import (CSV parsing, dry run, bounded submission)
+ */
+import { parseCsv, prepareBulkRows, readBulkRows, runWithConcurrency } from '../lib/bulkTasks';
+import type { Shelf, Task, Zone } from '../types';
+
+const shelf = (id: string, warehouse_id: string): Shelf => ({
+  id,
+  warehouse_id,
+  level: 0,
+  storage_x: 0,
+  storage_y: 0,
+  available: true,
+  status: 'IDLE',
+});
+
+const shelves = [shelf('s1', 'R1-S1'), shelf('s2', 'R1-S2'), shelf('s3', 'R1-S3')];
+const zones: Zone[] = [{ id: 'z1', zone_id: 'DROP-1', name: 'Packing Station 1', x: 1, y: 1 }];
+const tasks = [{ id: 't1', shelf_id: 's3', priority: 5, status: 'MOVING_TO_PICKUP', task_type: 'RETURN_SHELF' }] as Task[];
+
+describe('bulk task import', () => {
+  it('parses quoted fields and tab-separated pastes', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+    expect(parseCsv('R1-S1\tRETURN_SHELF')).toEqual([['R1-S1', 'RETURN_SHELF']]);
+  });
+
+  it('resolves human ids and flags conflicts in the dry run', () => {
+    const text = [
+      'shelf,type,zone,priority',
+      'r1-s1,PICKUP_AND_DELIVER,Packing Station 1,7',
+      'R1-S1,RETURN_SHELF,,5',
+      'R1-S3,RETURN_SHELF,,5',
+      'R1-S2,PICKUP_AND_DELIVER,,5',
+      'R9-S9,RETURN_SHELF,,11',
+    ].join('\n');
+    const rows = prepareBulkRows(readBulkRows(text), { shelves, zones, tasks });
+
+    expect(rows[0].payload).toMatchObject({ shelf_id: 's1', zone_id: 'z1', priority: 7 });
+    expect(rows[1].errors[0]).toMatch(/already used on line 2/);
+    expect(rows[2].errors[0]).toMatch(/already has an active task/);
+    expect(rows[3].errors).toEqual(['Zone is required for PICKUP_AND_DELIVER tasks']);
+    expect(rows[4].errors).toEqual(['Unknown shelf "R9-S9"']);
+  });
+
+  it('keeps at most `limit` requests in flight and reports each row', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      if (n === 3) throw new Error('boom');
+      return n * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+  });
+});
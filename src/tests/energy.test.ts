@@ -0,0 +1,53 @@
+/**
+ * Unit tests for battery drain and depletion forecasts
+ */
+import { assessEnergy, compareEnergy, drainRate, minutesToEmpty, nearestZone } from '../lib/energy';
+import type { TelemetrySample } from '../lib/telemetry';
+import type { Robot, Zone } from '../types';
+
+const limits = { lowLevel: 25, reserveMinutes: 20 };
+
+const robot = (battery_level: number, patch: Partial<Robot> = {}) =>
+  ({ id: 'r1', name: 'MP400-1', robot_id: 'mp400-1', status: 'BUSY', battery_level, ...patch }) as Robot;
+
+// One sample a minute, draining `perMin` % per minute from `start`
+const draining = (start: number, perMin: number, minutes: number): TelemetrySample[] =>
+  Array.from({ length: minutes + 1 }, (_, i) => ({ at: i * 60000, battery_level: start - perMin * i }));
+
+describe('fleet energy', () => {
+  it('fits the drain rate and the time left at it', () => {
+    const trend = draining(80, 2, 5).map((s) => ({ at: s.at, level: s.battery_level as number }));
+    expect(drainRate(trend)).toBeCloseTo(-2);
+    expect(minutesToEmpty(70, -2)).toBe(35);
+    expect(minutesToEmpty(70, 0.5)).toBeUndefined();
+    expect(drainRate(trend.slice(0, 2))).toBeUndefined();
+  });
+
+  it('flags robots to charge or keep off long tasks', () => {
+    const now = 5 * 60000;
+    expect(assessEnergy('r1', robot(20), [], limits, now).flag).toBe('charge_now');
+    const short = assessEnergy('r1', robot(30), draining(40, 2, 5), limits, now);
+    expect(short.flag).toBe('avoid_long_tasks');
+    expect(short.minutesLeft).toBeCloseTo(15);
+    expect(assessEnergy('r1', robot(90), draining(92, 0.4, 5), limits, now).flag).toBe('ok');
+  });
+
+  it('puts the most urgent robots first', () => {
+    const now = 5 * 60000;
+    const list = [
+      assessEnergy('a', robot(90), [], limits, now),
+      assessEnergy('b', robot(30), draining(40, 2, 5), limits, now),
+      assessEnergy('c', robot(10), [], limits, now),
+    ];
+    expect(list.sort(compareEnergy).map((e) => e.key)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('picks the nearest charging zone', () => {
+    const zones = [
+      { id: 'z1', zone_id: 'Z1', x: 10, y: 10 },
+      { id: 'z2', zone_id: 'Z2', x: 2, y: 1 },
+    ] as Zone[];
+    expect(nearestZone(robot(50, { current_x: 1, current_y: 1 }), zones)?.id).toBe('z2');
+    expect(nearestZone(robot(50), [])).toBeUndefined();
+  });
+});
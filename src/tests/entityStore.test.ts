@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the entity cache patch helpers
+ * Verifies socket payloads are merged into cached entities correctly
+ */
+import {
+  findRobotKey,
+  patchRobot,
+  patchShelf,
+  patchTask,
+  unwrapTaskPayload,
+} from '../stores/entityStore';
+import type { Robot, Shelf, Task } from '../types';
+
+jest.mock('../services/api');
+
+const robot: Robot = {
+  id: 'r1',
+  name: 'MP400-1',
+  robot_id: 'robot1',
+  available: true,
+  status: 'IDLE',
+  current_x: 1,
+  current_y: 2,
+  x: 1,
+  y: 2,
+  battery_level: 80,
+};
+
+const shelf: Shelf = {
+  id: 's1',
+  warehouse_id: 'A-01',
+  level: 1,
+  storage_x: 5,
+  storage_y: 5,
+  current_x: 5,
+  current_y: 5,
+  available: true,
+  status: 'IDLE',
+  location_status: 'STORED',
+};
+
+describe('entityStore patch helpers', () => {
+  describe('findRobotKey', () => {
+    it('matches by cache id, robot_id or name', () => {
+      const map = { r1: robot };
+      expect(findRobotKey(map, { id: 'r1' })).toBe('r1');
+      expect(findRobotKey(map, { robot_id: 'robot1' })).toBe('r1');
+      expect(findRobotKey(map, { robot: 'robot1' })).toBe('r1');
+      expect(findRobotKey(map, { name: 'MP400-1' })).toBe('r1');
+      expect(findRobotKey(map, { robot_id: 'unknown' })).toBeUndefined();
+    });
+  });
+
+  describe('patchRobot', () => {
+    it('applies telemetry to both x/y and current_x/y', () => {
+      const patched = patchRobot(robot, { x: '3.5', y: 4, battery_level: 70, status: 'BUSY' });
+      expect(patched.x).toBe(3.5);
+      expect(patched.current_x).toBe(3.5);
+      expect(patched.current_y).toBe(4);
+      expect(patched.battery_level).toBe(70);
+      expect(patched.status).toBe('BUSY');
+    });
+
+    it('keeps existing values for missing fields', () => {
+      const patched = patchRobot(robot, { cpu_usage: 12 });
+      expect(patched.x).toBe(1);
+      expect(patched.battery_level).toBe(80);
+      expect(patched.cpu_usage).toBe(12);
+    });
+  });
+
+  describe('patchShelf', () => {
+    it('moves the current location but never the storage location', () => {
+      const patched = patchShelf(shelf, {
+        shelf_id: 's1',
+        current_x: 9,
+        current_y: 8,
+        location_status: 'IN_TRANSIT',
+      });
+      expect(patched.current_x).toBe(9);
+      expect(patched.x).toBe(9);
+      expect(patched.storage_x).toBe(5);
+      expect(patched.location_status).toBe('IN_TRANSIT');
+    });
+  });
+
+  describe('task payloads', () => {
+    it('unwraps nested and flat task_update payloads', () => {
+      expect(unwrapTaskPayload({ task: { id: 't1', status: 'ASSIGNED' } })).toEqual({
+        id: 't1',
+        status: 'ASSIGNED',
+      });
+      expect(unwrapTaskPayload({ task_id: 't2', status: 'ATTACHED' })).toEqual({
+        id: 't2',
+        status: 'ATTACHED',
+      });
+      expect(unwrapTaskPayload({ status: 'ATTACHED' })).toBeNull();
+    });
+
+    it('merges a status patch into the cached task', () => {
+      const task = { id: 't1', shelf_id: 's1', priority: 5, status: 'PENDING', task_type: 'PICKUP_AND_DELIVER' } as Task;
+      const patched = patchTask(task, { id: 't1', status: 'MOVING_TO_PICKUP', current_robot_x: '1.5' });
+      expect(patched.status).toBe('MOVING_TO_PICKUP');
+      expect(patched.current_robot_x).toBe(1.5);
+      expect(patched.shelf_id).toBe('s1');
+    });
+  });
+});
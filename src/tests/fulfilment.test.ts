@@ -0,0 +1,74 @@
+/**
+ * Unit tests for product fulfilment planning
+ */
+import { fulfilmentTask, isReadyToPick, planFulfilment } from '../lib/fulfilment';
+import type { Product, Shelf, Task } from '../types';
+
+const shelf = (id: string, warehouse_id: string): Shelf => ({
+  id,
+  warehouse_id,
+  level: 0,
+  storage_x: 0,
+  storage_y: 0,
+  available: true,
+  status: 'IDLE',
+});
+
+const shelves = [shelf('s1', 'R1-S1'), shelf('s2', 'R1-S2')];
+const products: Product[] = [
+  { id: 'p1', name: 'Bolts', sku: 'B-1', quantity: 10, shelf_id: 's1' },
+  { id: 'p2', name: 'Nuts', sku: 'N-1', quantity: 3, shelf_id: 's1' },
+  { id: 'p3', name: 'Gears', sku: 'G-1', quantity: 5, shelf_id: 's2' },
+  { id: 'p4', name: 'Loose', sku: 'L-1', quantity: 5 },
+];
+
+describe('product fulfilment', () => {
+  it('groups lines by holding shelf and merges repeated products', () => {
+    const plan = planFulfilment(
+      [
+        { productId: 'p1', quantity: 2 },
+        { productId: 'p3', quantity: 1 },
+        { productId: 'p2', quantity: 1 },
+        { productId: 'p1', quantity: 1 },
+      ],
+      { products, shelves, tasks: [] }
+    );
+
+    expect(plan.rejected).toEqual([]);
+    expect(plan.groups.map((g) => g.shelf.id)).toEqual(['s1', 's2']);
+    expect(plan.groups[0].lines.map((l) => [l.productId, l.quantity])).toEqual([
+      ['p1', 3],
+      ['p2', 1],
+    ]);
+    expect(fulfilmentTask(plan.groups[0], 'z1', 7)).toEqual({
+      shelf_id: 's1',
+      zone_id: 'z1',
+      task_type: 'PICKUP_AND_DELIVER',
+      priority: 7,
+      description: 'Fulfil 3x B-1, 1x N-1',
+    });
+  });
+
+  it('rejects unshelved products and blocks busy or understocked shelves', () => {
+    const tasks = [{ id: 't1', shelf_id: 's2', priority: 5, status: 'ASSIGNED' }] as Task[];
+    const plan = planFulfilment(
+      [
+        { productId: 'p4', quantity: 1 },
+        { productId: 'p2', quantity: 4 },
+        { productId: 'p3', quantity: 1 },
+      ],
+      { products, shelves, tasks }
+    );
+
+    expect(plan.rejected.map((r) => r.reason)).toEqual(['Not stored on a shelf']);
+    expect(plan.groups[0].errors).toEqual(['N-1: only 3 in stock']);
+    expect(plan.groups[1].errors[0]).toMatch(/active task/);
+  });
+
+  it('picks once the shelf has reached the drop zone', () => {
+    expect(isReadyToPick('MOVING_TO_DROP')).toBe(false);
+    expect(isReadyToPick('ARRIVED_AT_DROP')).toBe(true);
+    expect(isReadyToPick('COMPLETED')).toBe(true);
+    expect(isReadyToPick('CANCELLED')).toBe(false);
+  });
+});
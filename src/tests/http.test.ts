@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the shared request core
+ * Verifies auth headers, query strings, structured errors and 401 reporting
+ */
+import { ApiError, onUnauthorized, request, setToken } from '../services/http';
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: { get: () => 'application/json' },
+  json: async () => body,
+});
+
+describe('request', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn();
+    setToken('abc');
+  });
+
+  it('attaches the token and skips empty query values', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(200, { results: [] }));
+
+    await request('/tasks', { query: { status: 'PENDING', robot_id: undefined, limit: 20 } });
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('/api/tasks?status=PENDING&limit=20');
+    expect(init.headers.Authorization).toBe('Bearer abc');
+  });
+
+  it('omits the token for unauthenticated calls', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(200, {}));
+
+    await request('/auth/login', { method: 'POST', auth: false, body: { username: 'a' } });
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(init.body).toBe('{"username":"a"}');
+  });
+
+  it('throws ApiError with validation details', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse(422, {
+        error: 'validation_error',
+        details: [{ loc: ['body', 'priority'], msg: 'must be <= 10', type: 'value_error' }],
+      })
+    );
+
+    const err = await request<never>('/tasks/assign', { method: 'POST', body: {} }).catch((e: ApiError) => e);
+
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.status).toBe(422);
+    expect(err.kind).toBe('http');
+    expect(err.fieldErrors).toEqual({ priority: 'must be <= 10' });
+    expect(err.describe()).toBe('Validation error - priority: must be <= 10');
+  });
+
+  it('reports 401s from non-auth endpoints', async () => {
+    const listener = jest.fn();
+    const off = onUnauthorized(listener);
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(401, { error: 'expired' }))
+      .mockResolvedValueOnce(jsonResponse(401, { error: 'bad credentials' }));
+
+    await request('/robots').catch(() => undefined);
+    await request('/auth/login', { method: 'POST', auth: false }).catch(() => undefined);
+    off();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('/robots');
+  });
+
+  it('wraps network failures', async () => {
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Failed to fetch'));
+
+    const err = await request<never>('/zones').catch((e: ApiError) => e);
+
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.kind).toBe('network');
+    expect(err.status).toBe(0);
+  });
+});
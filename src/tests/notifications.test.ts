@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the notification center rules
+ */
+import {
+  healthNotice,
+  isDuplicateNotice,
+  lowStockNotices,
+  needsAttention,
+  robotStatusNotice,
+  taskFailureNotice,
+  type AppNotification,
+} from '../lib/notifications';
+import type { LiveSystemHealth, Product, Robot, Task } from '../types';
+
+const task = (status: Task['status'], patch: Partial<Task> = {}) =>
+  ({ id: 't1', shelf_id: 's1', priority: 5, status, task_type: 'PICKUP_AND_DELIVER', ...patch }) as Task;
+
+const robot = (status: Robot['status']) =>
+  ({ id: 'r1', name: 'MP400-1', robot_id: 'mp400-1', available: true, status }) as Robot;
+
+const health = (patch: Partial<LiveSystemHealth> = {}): LiveSystemHealth => ({
+  status: 'healthy',
+  uptime_seconds: 100,
+  active_connections: 1,
+  mqtt_connected: true,
+  influxdb_connected: true,
+  mongodb_connected: true,
+  timestamp: '2024-01-01T00:00:00Z',
+  ...patch,
+});
+
+const product = (id: string, quantity: number) => ({ id, name: id, sku: `SKU-${id}`, quantity }) as Product;
+
+describe('notification rules', () => {
+  it('notifies once when a known task moves into ERROR', () => {
+    const notice = taskFailureNotice(task('MOVING_TO_DROP'), task('ERROR', { error_message: 'Lost shelf' }));
+    expect(notice).toMatchObject({ severity: 'critical', source: 'task', message: 'Lost shelf', link: '/tasks/t1' });
+    expect(taskFailureNotice(undefined, task('ERROR'))).toBeNull();
+    expect(taskFailureNotice(task('ERROR'), task('ERROR'))).toBeNull();
+    expect(taskFailureNotice(task('PENDING'), task('COMPLETED'))).toBeNull();
+  });
+
+  it('grades robot status changes and links to the robot', () => {
+    expect(robotStatusNotice('r1', robot('BUSY'), robot('ERROR'))).toMatchObject({
+      severity: 'critical',
+      link: '/robots/r1',
+    });
+    expect(robotStatusNotice('r1', robot('IDLE'), robot('OFFLINE'))?.severity).toBe('warning');
+    expect(robotStatusNotice('r1', robot('IDLE'), robot('BUSY'))).toBeNull();
+  });
+
+  it('reports service drops and recoveries', () => {
+    expect(healthNotice(undefined, health())).toBeNull();
+    expect(healthNotice(health(), health())).toBeNull();
+    const dropped = healthNotice(health(), health({ status: 'warning', mqtt_connected: false }));
+    expect(dropped).toMatchObject({ severity: 'warning', message: 'MQTT disconnected' });
+    const restored = healthNotice(health({ status: 'warning', mqtt_connected: false }), health());
+    expect(restored).toMatchObject({ severity: 'info', message: 'MQTT reconnected' });
+  });
+
+  it('raises low stock once per dip', () => {
+    const first = lowStockNotices([product('a', 3), product('b', 50)], 10, new Set());
+    expect(first.notices.map((n) => n.title)).toEqual(['a is running low']);
+    const again = lowStockNotices([product('a', 2), product('b', 0)], 10, first.low);
+    expect(again.notices.map((n) => n.title)).toEqual(['b is out of stock']);
+    expect(again.notices[0].link).toBe('/products?product=b');
+  });
+
+  it('drops acknowledged and snoozed items from the active list', () => {
+    const n: AppNotification = { id: 'n1', at: 0, severity: 'info', source: 'system', title: 'x', message: '' };
+    expect(needsAttention(n, 1000)).toBe(true);
+    expect(needsAttention({ ...n, acknowledgedAt: 500 }, 1000)).toBe(false);
+    expect(needsAttention({ ...n, snoozedUntil: 2000 }, 1000)).toBe(false);
+    expect(needsAttention({ ...n, snoozedUntil: 2000 }, 2000)).toBe(true);
+  });
+
+  it('treats a notification raised moments ago as the same event', () => {
+    const n: AppNotification = { id: 'n1', at: 0, severity: 'critical', source: 'task', title: 'Failed', message: 'x' };
+    const input = { severity: n.severity, source: n.source, title: n.title, message: n.message };
+    expect(isDuplicateNotice([n], input, 1000)).toBe(true);
+    expect(isDuplicateNotice([n], { ...input, message: 'y' }, 1000)).toBe(false);
+    expect(isDuplicateNotice([n], input, 10 * 60 * 1000)).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for role resolution and the permission matrix
+ */
+import { hasPermission, normalizeRole, resolveUser } from '../lib/permissions';
+
+function fakeJwt(claims: Record<string, unknown>): string {
+  const encode = (obj: object) =>
+    btoa(JSON.stringify(obj)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+describe('permissions', () => {
+  it('keeps viewers read-only and lets operators run tasks and stock moves', () => {
+    expect(hasPermission('VIEWER', 'task:create')).toBe(false);
+    expect(hasPermission('OPERATOR', 'task:create')).toBe(true);
+    expect(hasPermission('OPERATOR', 'stock:move')).toBe(true);
+    expect(hasPermission('OPERATOR', 'shelf:set_storage')).toBe(false);
+    expect(hasPermission('ADMIN', 'shelf:set_storage')).toBe(true);
+    expect(hasPermission('ADMIN', 'map:edit_metadata')).toBe(true);
+    expect(hasPermission(null, 'task:create')).toBe(false);
+  });
+
+  it('normalizes role spellings', () => {
+    expect(normalizeRole('admin')).toBe('ADMIN');
+    expect(normalizeRole('ROLE_OPERATOR')).toBe('OPERATOR');
+    expect(normalizeRole('superuser')).toBeNull();
+  });
+
+  it('prefers the login response role over token claims', () => {
+    const token = fakeJwt({ sub: 'alice', role: 'operator' });
+    expect(resolveUser(token, { user: { id: '1', username: 'alice', role: 'ADMIN' } }).role).toBe('ADMIN');
+    expect(resolveUser(token, {}).role).toBe('OPERATOR');
+    expect(resolveUser(token, {}).username).toBe('alice');
+  });
+
+  it('falls back to viewer when no role is present', () => {
+    expect(resolveUser('not-a-jwt', {}, 'bob')).toMatchObject({ username: 'bob', role: 'VIEWER' });
+    expect(resolveUser(null)).toBeNull();
+  });
+});
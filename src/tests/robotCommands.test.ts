@@ -0,0 +1,47 @@
+/**
+ * Unit tests for robot command validation, descriptions and map targets
+ */
+import {
+  commandLatency,
+  describeCommand,
+  targetFromQuery,
+  targetQuery,
+  validateCommand,
+  type RobotCommandEntry,
+} from '../lib/robotCommands';
+import type { Zone } from '../types';
+
+const zones = [{ id: 'z1', zone_id: 'DROP-1', name: 'Packing Station 1', x: 5, y: 13.5 }] as Zone[];
+
+describe('robot commands', () => {
+  it('requires a pose or a zone for goto commands', () => {
+    expect(validateCommand('goto_pose', { x: 4 })).toBe('Target x and y are required');
+    expect(validateCommand('goto_pose', { x: 4, y: 2, yaw: NaN })).toBe('Heading must be a number');
+    expect(validateCommand('goto_pose', { x: 4, y: 2 })).toBeNull();
+    expect(validateCommand('goto_zone', {})).toBe('Choose a zone');
+    expect(validateCommand('pause')).toBeNull();
+  });
+
+  it('describes commands for the audit trail', () => {
+    expect(describeCommand('goto_pose', { x: 4, y: 2.25, yaw: 1.5 })).toBe('Go to (4.0, 2.3, yaw 1.50)');
+    expect(describeCommand('goto_zone', { zone_id: 'z1', charge: true }, zones)).toBe(
+      'Go to Packing Station 1 and charge'
+    );
+    expect(describeCommand('goto_zone', { zone_id: 'z9' }, zones)).toBe('Go to z9');
+    expect(describeCommand('emergency_stop')).toBe('Emergency stop');
+  });
+
+  it('round-trips a map target through the query string', () => {
+    const query = new URLSearchParams(targetQuery({ x: 4.236, y: 7.5 }));
+    expect(targetFromQuery(query)).toEqual({ x: 4.24, y: 7.5 });
+    expect(targetFromQuery(new URLSearchParams('x=1&y=2&yaw=0.5'))).toEqual({ x: 1, y: 2, yaw: 0.5 });
+    expect(targetFromQuery(new URLSearchParams('x=1'))).toBeUndefined();
+    expect(targetFromQuery(new URLSearchParams('x=&y=2'))).toBeUndefined();
+  });
+
+  it('measures the time to an answer', () => {
+    const entry = { sentAt: 1000, status: 'pending' } as RobotCommandEntry;
+    expect(commandLatency(entry)).toBeUndefined();
+    expect(commandLatency({ ...entry, status: 'acknowledged', resolvedAt: 1250 })).toBe(250);
+  });
+});
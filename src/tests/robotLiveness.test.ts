@@ -0,0 +1,55 @@
+/**
+ * Unit tests for robot stale/offline detection
+ */
+import {
+  assessFleet,
+  isStaleTask,
+  lastSeenLabel,
+  livenessOf,
+  validateLivenessTimeouts,
+} from '../lib/robotLiveness';
+import type { Robot, Task } from '../types';
+
+const timeouts = { staleSeconds: 15, offlineSeconds: 60 };
+
+const robot = (id: string, robotId: string) =>
+  ({ id, name: robotId, robot_id: robotId, available: true, status: 'BUSY' }) as Robot;
+
+describe('robot liveness', () => {
+  it('goes stale, then offline, as the gap grows', () => {
+    expect(livenessOf(0, 0, 14000, timeouts)).toBe('live');
+    expect(livenessOf(0, 0, 15000, timeouts)).toBe('stale');
+    expect(livenessOf(0, 0, 60000, timeouts)).toBe('offline');
+    // Never heard from: counts from when tracking started
+    expect(livenessOf(undefined, 50000, 60000, timeouts)).toBe('live');
+    expect(livenessOf(undefined, 0, 60000, timeouts)).toBe('offline');
+  });
+
+  it('labels the age of the last event', () => {
+    expect(lastSeenLabel(1000, 43000)).toBe('last seen 42s ago');
+    expect(lastSeenLabel(undefined, 43000)).toBe('not seen yet');
+  });
+
+  it('resolves robots by cache key and robot_id', () => {
+    const robots = { r1: robot('r1', 'mp400-1'), r2: robot('r2', 'mp400-2') };
+    const fleet = assessFleet(robots, { r1: 50000 }, 0, 60000, timeouts);
+    expect(fleet.r1.liveness).toBe('live');
+    expect(fleet['mp400-2']).toBe(fleet.r2);
+    expect(fleet.r2).toEqual({ liveness: 'offline', lastSeen: undefined });
+  });
+
+  it('flags only active tasks of quiet robots', () => {
+    const fleet = assessFleet({ r1: robot('r1', 'mp400-1') }, { r1: 0 }, 0, 20000, timeouts);
+    const task = { id: 't1', shelf_id: 's1', priority: 5, status: 'MOVING_TO_PICKUP', robot_id: 'mp400-1' } as Task;
+    expect(isStaleTask(task, fleet)).toBe(true);
+    expect(isStaleTask({ ...task, status: 'COMPLETED' }, fleet)).toBe(false);
+    expect(isStaleTask({ ...task, robot_id: 'unknown' }, fleet)).toBe(false);
+  });
+
+  it('rejects timeouts out of order', () => {
+    expect(validateLivenessTimeouts(timeouts)).toBeNull();
+    expect(validateLivenessTimeouts({ staleSeconds: 30, offlineSeconds: 30 })).toBe(
+      'Offline after must be longer than stale after'
+    );
+  });
+});
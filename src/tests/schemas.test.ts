@@ -0,0 +1,85 @@
+/**
+ * Unit tests for runtime schema validation
+ * Verifies coercion of loose backend data and diagnostics reporting
+ */
+import { validateEntities, validateEntity, validateSocketPayload } from '../services/schemas';
+import { useDiagnosticsStore } from '../stores/diagnosticsStore';
+
+describe('schemas', () => {
+  beforeEach(() => {
+    useDiagnosticsStore.getState().clear();
+  });
+
+  it('coerces numeric strings and nulls on robots', () => {
+    const robot = validateEntity(
+      'robot',
+      { id: 'r1', name: 'MP400', robot_id: 'robot1', status: 'idle', battery_level: '87.5', current_x: null },
+      'GET /robots'
+    );
+    expect(robot?.battery_level).toBe(87.5);
+    expect(robot?.current_x).toBeUndefined();
+    expect(robot?.status).toBe('IDLE');
+    expect(robot?.available).toBe(true);
+  });
+
+  it('drops invalid tasks from a list and records why', () => {
+    const tasks = validateEntities(
+      'task',
+      [
+        { id: 't1', shelf_id: 's1', status: 'PENDING', pickup_x: '1.5' },
+        { id: 't2', shelf_id: 's1', status: 'TELEPORTING' },
+      ],
+      'GET /tasks'
+    );
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].pickup_x).toBe(1.5);
+
+    const [failure] = useDiagnosticsStore.getState().failures;
+    expect(failure.source).toBe('GET /tasks');
+    expect(failure.docId).toBe('t2');
+    expect(failure.issues[0]).toMatch(/^status:/);
+  });
+
+  it('counts repeated failures instead of duplicating them', () => {
+    const bad = { id: 'z1', zone_id: 'DROP-1', x: 'abc', y: 1 };
+    validateEntity('zone', bad, 'GET /zones');
+    validateEntity('zone', bad, 'GET /zones');
+
+    const { failures } = useDiagnosticsStore.getState();
+    expect(failures).toHaveLength(1);
+    expect(failures[0].count).toBe(2);
+  });
+
+  it('coerces stored telemetry points and drops those without a pose', () => {
+    const point = { cpu_usage: '12', ram_usage: 40, battery_level: 80, temperature: 35, timestamp: '2026-03-02T10:00:00Z' };
+    const samples = validateEntities(
+      'robotTelemetry',
+      [
+        { ...point, x: '1.5', y: 2, status: 'busy' },
+        { ...point, x: null, y: 2 },
+      ],
+      'GET /robots/r1/telemetry'
+    );
+
+    expect(samples).toHaveLength(1);
+    expect(samples[0]).toMatchObject({ cpu_usage: 12, x: 1.5, status: 'BUSY' });
+    expect(useDiagnosticsStore.getState().failures[0].source).toBe('GET /robots/r1/telemetry');
+  });
+
+  it('rejects socket payloads without an identifier', () => {
+    expect(validateSocketPayload('telemetry', { x: 1, y: 2 })).toBeNull();
+    expect(validateSocketPayload('telemetry', { robot_id: 'robot1', x: '1', y: 2 })).toMatchObject({
+      robot_id: 'robot1',
+      x: 1,
+    });
+  });
+
+  it('validates tasks_update per task', () => {
+    const result = validateSocketPayload('tasks_update', [
+      { id: 't1', shelf_id: 's1', status: 'ASSIGNED' },
+      { id: 't2' },
+    ]);
+    expect(result).toEqual({ tasks: [expect.objectContaining({ id: 't1' })] });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for drop-zone return policies
+ */
+import { describeReturn, findDeliveredShelves, isReturnDue } from '../lib/shelfReturn';
+import type { Shelf, Task, Zone } from '../types';
+
+const shelf = (id: string, location_status: Shelf['location_status']): Shelf => ({
+  id,
+  warehouse_id: id.toUpperCase(),
+  level: 0,
+  storage_x: 0,
+  storage_y: 0,
+  available: true,
+  status: 'IDLE',
+  location_status,
+  last_task_id: `t-${id}`,
+});
+
+const zones: Zone[] = [
+  { id: 'z1', zone_id: 'DROP-1', name: 'Packing 1', x: 1, y: 1 },
+  { id: 'z2', zone_id: 'DROP-2', name: 'Packing 2', x: 2, y: 2 },
+];
+const delivery = (shelfId: string, zone: string): Task =>
+  ({
+    id: `t-${shelfId}`,
+    shelf_id: shelfId,
+    priority: 5,
+    status: 'COMPLETED',
+    task_type: 'PICKUP_AND_DELIVER',
+    zone_id: zone,
+    completed_at: '2026-01-01T10:00:00Z',
+  }) as Task;
+
+const deliveredAt = Date.parse('2026-01-01T10:00:00Z');
+
+describe('shelf return policies', () => {
+  const shelves = [shelf('s1', 'DELIVERED_AT_DROP_ZONE'), shelf('s2', 'DELIVERED_AT_DROP_ZONE'), shelf('s3', 'STORED')];
+  const tasks = [delivery('s1', 'DROP-1'), delivery('s2', 'z2')];
+  const policies = { z1: { mode: 'after_minutes' as const, minutes: 10 }, z2: { mode: 'on_confirm' as const } };
+
+  it('finds shelves waiting at a zone with their policy and due time', () => {
+    const delivered = findDeliveredShelves(shelves, tasks, zones, policies);
+    expect(delivered.map((d) => [d.shelf.id, d.zone?.id, d.policy.mode])).toEqual([
+      ['s1', 'z1', 'after_minutes'],
+      ['s2', 'z2', 'on_confirm'],
+    ]);
+    expect(delivered[0].dueAt).toBe(deliveredAt + 10 * 60000);
+    expect(delivered[1].dueAt).toBeUndefined();
+  });
+
+  it('is due once the delay passed and no return task is running', () => {
+    const [s1] = findDeliveredShelves(shelves, tasks, zones, policies);
+    expect(isReturnDue(s1, deliveredAt + 9 * 60000)).toBe(false);
+    expect(describeReturn(s1, deliveredAt + 9 * 60000)).toBe('Returns in 1m 00s');
+    expect(isReturnDue(s1, deliveredAt + 10 * 60000)).toBe(true);
+
+    const returning = { id: 'r1', shelf_id: 's1', priority: 5, status: 'PENDING', task_type: 'RETURN_SHELF' } as Task;
+    const [busy] = findDeliveredShelves(shelves, [...tasks, returning], zones, policies);
+    expect(isReturnDue(busy, deliveredAt + 60 * 60000)).toBe(false);
+    expect(describeReturn(busy, 0)).toBe('Returning (PENDING)');
+  });
+
+  it('never returns automatically for zones without a policy', () => {
+    const [s1] = findDeliveredShelves(shelves, tasks, zones, {});
+    expect(s1.policy.mode).toBe('never');
+    expect(isReturnDue(s1, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+});
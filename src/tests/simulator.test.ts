@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the fleet simulator engine and its REST routes
+ */
+import { createWorld, DEFAULT_SCENARIO } from '../services/simulator/world';
+import { tick } from '../services/simulator/engine';
+import { handleRequest } from '../services/simulator/routes';
+import type { Task } from '../types';
+
+const noop = () => {};
+
+function run(world: ReturnType<typeof createWorld>, from: number, ticks: number, random: () => number) {
+  let now = from;
+  for (let i = 0; i < ticks; i++) {
+    now += 500;
+    tick(world, 500, noop, now, random);
+  }
+  return now;
+}
+
+describe('fleet simulator', () => {
+  it('carries an assigned shelf through the full task flow to the drop zone', () => {
+    const world = createWorld({ ...DEFAULT_SCENARIO, failureRate: 0 }, 0);
+    const res = handleRequest(world, noop, 'POST', '/tasks/assign', { shelf_id: 'shelf-1', priority: 5 }, {}, 0);
+    expect(res.status).toBe(201);
+
+    const now = run(world, 0, 400, () => 0.5);
+    const task = handleRequest(world, noop, 'GET', `/tasks/${(res.body as Task).id}`, {}, {}, now).body as Task;
+    expect(task.status).toBe('COMPLETED');
+
+    const shelf = world.shelves.find((s) => s.id === 'shelf-1');
+    expect(shelf?.location_status).toBe('DELIVERED_AT_DROP_ZONE');
+    expect(shelf?.status).toBe('IDLE');
+  });
+
+  it('fails tasks at the configured failure rate', () => {
+    const world = createWorld({ ...DEFAULT_SCENARIO, failureRate: 1 }, 0);
+    handleRequest(world, noop, 'POST', '/tasks/assign', { shelf_id: 'shelf-2' }, {}, 0);
+    run(world, 0, 100, () => 0);
+    expect(world.tasks[0].status).toBe('ERROR');
+    expect(world.tasks[0].error_message).toBeTruthy();
+  });
+
+  it('sends an idle robot to charge at a zone and returns it to service when full', () => {
+    const world = createWorld({ ...DEFAULT_SCENARIO, failureRate: 0 }, 0);
+    const robot = world.robots[0];
+    const zone = world.zones[0];
+    robot.battery_level = 40;
+    const body = { zone_id: zone.id, charge: true };
+    const res = handleRequest(world, noop, 'POST', `/robots/${robot.id}/goto`, body, {}, 0);
+    expect(res.status).toBe(200);
+    expect(robot.available).toBe(false);
+
+    run(world, 0, 60, () => 0.5);
+    expect([robot.current_x, robot.current_y]).toEqual([zone.x, zone.y]);
+    run(world, 30000, 1400, () => 0.5);
+    expect(robot.battery_level).toBe(100);
+    expect(robot.available).toBe(true);
+    expect(world.targets[robot.id]).toBeUndefined();
+  });
+
+  it('pauses, emergency-stops and resumes a robot on operator command', () => {
+    const world = createWorld({ ...DEFAULT_SCENARIO, failureRate: 0 }, 0);
+    const res = handleRequest(world, noop, 'POST', '/tasks/assign', { shelf_id: 'shelf-1' }, {}, 0);
+    const task = res.body as Task;
+    let now = run(world, 0, 4, () => 0.5);
+    const robot = world.robots.find((r) => r.id === task.assigned_robot_id)!;
+
+    expect(handleRequest(world, noop, 'POST', `/robots/${robot.id}/pause`, {}, {}, now).status).toBe(200);
+    const status = task.status;
+    const pose = [robot.current_x, robot.current_y];
+    now = run(world, now, 20, () => 0.5);
+    expect(task.status).toBe(status);
+    expect([robot.current_x, robot.current_y]).toEqual(pose);
+
+    expect(handleRequest(world, noop, 'POST', `/robots/${robot.id}/estop`, {}, {}, now).status).toBe(200);
+    expect(task.status).toBe('ERROR');
+    now = run(world, now, 60, () => 0.5);
+    expect(robot.status).toBe('ERROR');
+
+    expect(handleRequest(world, noop, 'POST', `/robots/${robot.id}/resume`, {}, {}, now).status).toBe(200);
+    run(world, now, 2, () => 0.5);
+    expect(robot.status).toBe('IDLE');
+    expect(handleRequest(world, noop, 'POST', `/robots/${robot.id}/resume`, {}, {}, now).status).toBe(409);
+  });
+
+  it('sets an attached shelf down where the robot is', () => {
+    const world = createWorld({ ...DEFAULT_SCENARIO, failureRate: 0 }, 0);
+    const robot = world.robots[0];
+    expect(handleRequest(world, noop, 'POST', `/robots/${robot.id}/release-shelf`, {}, {}, 0).status).toBe(409);
+
+    const res = handleRequest(world, noop, 'POST', '/tasks/assign', { shelf_id: 'shelf-1' }, {}, 0);
+    const task = res.body as Task;
+    let now = 0;
+    while (task.status !== 'MOVING_TO_DROP' && now < 200000) now = run(world, now, 1, () => 0.5);
+    const carrier = world.robots.find((r) => r.id === task.assigned_robot_id)!;
+    now = run(world, now, 2, () => 0.5);
+
+    expect(handleRequest(world, noop, 'POST', `/robots/${carrier.id}/release-shelf`, {}, {}, now).status).toBe(200);
+    const shelf = world.shelves.find((s) => s.id === 'shelf-1')!;
+    expect(task.status).toBe('CANCELLED');
+    expect(carrier.current_shelf_id).toBeUndefined();
+    expect([shelf.current_x, shelf.current_y]).toEqual([carrier.current_x, carrier.current_y]);
+    expect(shelf.location_status).toBe('REPOSITIONED');
+  });
+
+  it('reassigns a failed task and keeps notes through the status endpoint', () => {
+    const world = createWorld({ ...DEFAULT_SCENARIO, failureRate: 1 }, 0);
+    const task = handleRequest(world, noop, 'POST', '/tasks/assign', { shelf_id: 'shelf-2' }, {}, 0).body as Task;
+    const now = run(world, 0, 100, () => 0);
+    expect(task.status).toBe('ERROR');
+
+    const note = { new_status: 'ERROR', message: 'checked by hand' };
+    expect(handleRequest(world, noop, 'PUT', `/tasks/realtime/${task.id}/status`, note, {}, now).status).toBe(200);
+    expect(task.status).toBe('ERROR');
+    const last = () => task.status_history?.[task.status_history.length - 1];
+    expect(last()?.message).toBe('checked by hand');
+
+    const robot = world.robots.find((r) => r.status === 'IDLE' && r.available)!;
+    const body = { new_status: 'ASSIGNED', robot_id: robot.id, message: 'reassigned' };
+    expect(handleRequest(world, noop, 'PUT', `/tasks/realtime/${task.id}/status`, body, {}, now).status).toBe(200);
+    expect(task.assigned_robot_id).toBe(robot.id);
+    expect(last()?.message).toBe('reassigned');
+  });
+
+  it('takes stock once for a repeated pick idempotency key', () => {
+    const world = createWorld(DEFAULT_SCENARIO, 0);
+    const product = world.products[0];
+    const before = product.quantity;
+    const body = { quantity: 1, idempotency_key: 'fulfilment:task-1:p1' };
+    expect(handleRequest(world, noop, 'POST', `/products/${product.id}/pick`, body, {}, 0).status).toBe(200);
+    expect(handleRequest(world, noop, 'POST', `/products/${product.id}/pick`, body, {}, 0).status).toBe(200);
+    expect(product.quantity).toBe(before - 1);
+    expect(world.transactions.filter((t) => t.product_id === product.id)).toHaveLength(1);
+  });
+
+  it('answers with backend-shaped errors', () => {
+    const world = createWorld(DEFAULT_SCENARIO, 0);
+    const invalid = handleRequest(world, noop, 'POST', '/tasks/assign', { shelf_id: 'shelf-1', priority: 20 }, {}, 0);
+    expect(invalid.status).toBe(422);
+    expect(handleRequest(world, noop, 'GET', '/nope', {}, {}, 0).status).toBe(404);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for task analytics and CSV export
+ */
+import {
+  DEFAULT_SLA_MINUTES,
+  durationDistribution,
+  durationStats,
+  failureRates,
+  robotKey,
+  slaBreaches,
+  tasksInRange,
+  throughput,
+} from '../lib/taskAnalytics';
+import { toCsv } from '../lib/csv';
+import type { Task } from '../types';
+
+const task = (patch: Partial<Task>): Task =>
+  ({
+    id: 't1',
+    shelf_id: 'shelf-1',
+    priority: 5,
+    status: 'COMPLETED',
+    task_type: 'PICKUP_AND_DELIVER',
+    created_at: '2026-03-02T10:05:00',
+    ...patch,
+  }) as Task;
+
+const at = (time: string) => new Date(`2026-03-02T${time}`).getTime();
+
+describe('task analytics', () => {
+  it('counts created, completed and failed tasks per hour', () => {
+    const rows = throughput(
+      [
+        task({ id: 'a', completed_at: '2026-03-02T10:20:00' }),
+        task({ id: 'b', completed_at: '2026-03-02T11:10:00' }),
+        task({ id: 'c', status: 'ERROR', created_at: '2026-03-02T11:30:00', updated_at: '2026-03-02T11:40:00' }),
+      ],
+      { from: at('10:00:00'), to: at('12:30:00') }
+    );
+    expect(rows.map((r) => r.label)).toEqual(['10:00', '11:00', '12:00']);
+    expect(rows.map((r) => [r.created, r.completed, r.failed])).toEqual([
+      [2, 1, 0],
+      [1, 1, 1],
+      [0, 0, 0],
+    ]);
+  });
+
+  it('keeps the tasks created within the range', () => {
+    const inRange = tasksInRange(
+      [
+        task({ id: 'before', created_at: '2026-03-02T09:59:59' }),
+        task({ id: 'inside' }),
+        task({ id: 'after', created_at: '2026-03-02T12:00:01' }),
+        task({ id: 'undated', created_at: undefined }),
+      ],
+      { from: at('10:00:00'), to: at('12:00:00') }
+    );
+    expect(inRange.map((t) => t.id)).toEqual(['inside']);
+  });
+
+  it('bins completed tasks by duration per type', () => {
+    const tasks = [
+      task({ id: 'a', duration_seconds: 30 }),
+      task({ id: 'b', duration_seconds: 90 }),
+      task({ id: 'c', task_type: 'MOVE_SHELF', duration_seconds: 400 }),
+      task({ id: 'd', status: 'ERROR', duration_seconds: 10 }),
+    ];
+    const rows = durationDistribution(tasks);
+    expect(rows[0].PICKUP_AND_DELIVER).toBe(1);
+    expect(rows[1].PICKUP_AND_DELIVER).toBe(1);
+    expect(rows[3].MOVE_SHELF).toBe(1);
+    const pd = durationStats(tasks).find((s) => s.type === 'PICKUP_AND_DELIVER');
+    expect(pd?.count).toBe(2);
+    expect(pd?.avgMs).toBe(60000);
+    expect(pd?.p90Ms).toBe(90000);
+  });
+
+  it('groups failure rate by robot and skips unfinished tasks', () => {
+    const rows = failureRates(
+      [
+        task({ id: 'a', robot_id: 'r1' }),
+        task({ id: 'b', robot_id: 'r1', status: 'ERROR' }),
+        task({ id: 'c', robot_id: 'r2' }),
+        task({ id: 'd', robot_id: 'r2', status: 'MOVING_TO_DROP' }),
+      ],
+      robotKey
+    );
+    expect(rows.map((r) => [r.key, r.finished, r.rate])).toEqual([
+      ['r1', 2, 0.5],
+      ['r2', 1, 0],
+    ]);
+  });
+
+  it('lists SLA breaches, longest overrun first', () => {
+    const breaches = slaBreaches(
+      [
+        task({ id: 'quick', completed_at: '2026-03-02T10:15:00' }),
+        task({ id: 'slow', completed_at: '2026-03-02T10:30:00' }),
+        task({ id: 'open', status: 'MOVING_TO_DROP', task_type: 'MOVE_SHELF' }),
+        task({ id: 'cancelled', status: 'CANCELLED' }),
+      ],
+      DEFAULT_SLA_MINUTES,
+      at('11:05:00')
+    );
+    expect(breaches.map((b) => [b.task.id, b.open])).toEqual([
+      ['open', true],
+      ['slow', false],
+    ]);
+    expect(breaches[1].overMs).toBe(10 * 60000);
+  });
+
+  it('quotes CSV cells that need it', () => {
+    expect(toCsv(['label', 'failed'], [{ label: 'Zone "A", dock', failed: 2 }])).toBe(
+      'label,failed\n"Zone ""A"", dock",2'
+    );
+  });
+});
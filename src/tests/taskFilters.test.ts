@@ -0,0 +1,79 @@
+/**
+ * Unit tests for task list filters and their URL form
+ */
+import {
+  compareTasks,
+  isServerQuery,
+  matchesTaskFilter,
+  parseTaskQuery,
+  taskQueryParams,
+  toListParams,
+} from '../lib/taskFilters';
+import type { Task } from '../types';
+
+const task = (patch: Partial<Task>): Task =>
+  ({
+    id: 't1',
+    shelf_id: 'shelf-1',
+    priority: 5,
+    status: 'PENDING',
+    task_type: 'PICKUP_AND_DELIVER',
+    created_at: '2026-03-02T10:00:00',
+    ...patch,
+  }) as Task;
+
+describe('task filters', () => {
+  it('reads shared links and drops unknown values', () => {
+    const query = parseTaskQuery(new URLSearchParams('status=error&status=PENDING,bogus&robot=mp400-2&pmin=12&page=0'));
+    expect(query.statuses).toEqual(['ERROR', 'PENDING']);
+    expect(query.robot).toBe('mp400-2');
+    expect(query.priorityMin).toBe(10);
+    expect(query.page).toBe(1);
+    expect(query.sort).toEqual({ field: 'created_at', order: 'desc' });
+  });
+
+  it('writes the same query back without the defaults', () => {
+    const link = 'status=ERROR&robot=mp400-2&from=2026-03-02&to=2026-03-02&sort=priority&order=asc&page=2';
+    expect(taskQueryParams(parseTaskQuery(new URLSearchParams(link))).toString()).toBe(link);
+    expect(taskQueryParams(parseTaskQuery(new URLSearchParams('size=25&order=desc'))).toString()).toBe('');
+  });
+
+  it('pages through the server with limit and offset', () => {
+    const params = toListParams(parseTaskQuery(new URLSearchParams('page=3&size=10')));
+    expect(params.limit).toBe(10);
+    expect(params.offset).toBe(20);
+  });
+
+  it('leaves queries the backend cannot filter or sort to the client', () => {
+    const params = (qs: string) => toListParams(parseTaskQuery(new URLSearchParams(qs)));
+    expect(isServerQuery(params('status=ERROR&robot=mp400-2&shelf=shelf-1&page=2'))).toBe(true);
+    expect(isServerQuery(params('status=ERROR,PENDING'))).toBe(false);
+    expect(isServerQuery(params('type=MOVE_SHELF'))).toBe(false);
+    expect(isServerQuery(params('from=2026-03-02'))).toBe(false);
+    expect(isServerQuery(params('q=drop'))).toBe(false);
+    expect(isServerQuery(params('sort=priority'))).toBe(false);
+  });
+
+  it('matches status, robot, zone, priority and day', () => {
+    const filter = toListParams(
+      parseTaskQuery(new URLSearchParams('status=ERROR&robot=mp400-2&zone=zone-doc&pmax=6&from=2026-03-02&to=2026-03-02'))
+    ).filter!;
+    const zone = { id: 'zone-doc', zone_id: 'PICK' };
+    const failed = task({ status: 'ERROR', robot_id: 'mp400-2', drop_zone_id: 'PICK' });
+    expect(matchesTaskFilter(failed, filter, zone)).toBe(true);
+    expect(matchesTaskFilter({ ...failed, robot_id: 'mp400-1' }, filter, zone)).toBe(false);
+    expect(matchesTaskFilter({ ...failed, drop_zone_id: 'QA' }, filter, zone)).toBe(false);
+    expect(matchesTaskFilter({ ...failed, priority: 7 }, filter, zone)).toBe(false);
+    expect(matchesTaskFilter({ ...failed, created_at: '2026-03-03T00:30:00' }, filter, zone)).toBe(false);
+  });
+
+  it('sorts by the chosen field with newest first on ties', () => {
+    const tasks = [
+      task({ id: 'a', priority: 3, created_at: '2026-03-02T08:00:00' }),
+      task({ id: 'b', priority: 9 }),
+      task({ id: 'c', priority: 3, created_at: '2026-03-02T09:00:00' }),
+    ];
+    expect([...tasks].sort(compareTasks({ field: 'priority', order: 'desc' })).map((t) => t.id)).toEqual(['b', 'c', 'a']);
+    expect([...tasks].sort(compareTasks({ field: 'priority', order: 'asc' })).map((t) => t.id)).toEqual(['c', 'a', 'b']);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for failed-task recovery rules
+ */
+import { reassignCandidates, recoveryBlockers, recoveryHistory, recoveryNote } from '../lib/taskRecovery';
+import type { Robot, Shelf, Task, TaskStatus } from '../types';
+
+const task = (id: string, status: TaskStatus, shelf_id = 'shelf-1'): Task =>
+  ({ id, shelf_id, priority: 5, status, task_type: 'PICKUP_AND_DELIVER' }) as Task;
+
+const shelf = (patch: Partial<Shelf> = {}): Shelf =>
+  ({ id: 'shelf-1', warehouse_id: 'A-1', status: 'IDLE', available: true, location_status: 'IN_TRANSIT', ...patch }) as Shelf;
+
+describe('task recovery', () => {
+  it('allows every action on a failed task with a stranded shelf', () => {
+    expect(recoveryBlockers(task('t1', 'ERROR'), shelf(), [])).toEqual({});
+  });
+
+  it('blocks retry and restore while the shelf has another active task', () => {
+    const failed = task('t1', 'ERROR');
+    const blockers = recoveryBlockers(failed, shelf(), [failed, task('t2', 'MOVING_TO_PICKUP')]);
+    expect(blockers.retry).toBe('Shelf has another active task (t2, MOVING_TO_PICKUP)');
+    expect(blockers.reassign).toBe(blockers.retry);
+    expect(blockers.restore_shelf).toBe(blockers.retry);
+    expect(blockers.manual_handling).toBeUndefined();
+  });
+
+  it('does not restore a stored shelf or flag it twice', () => {
+    const blockers = recoveryBlockers(
+      task('t1', 'ERROR'),
+      shelf({ location_status: 'STORED', status: 'ERROR', available: false }),
+      []
+    );
+    expect(blockers.restore_shelf).toBe('Shelf is already in storage');
+    expect(blockers.manual_handling).toBe('Shelf is already flagged');
+  });
+
+  it('only retries tasks that are in ERROR', () => {
+    expect(recoveryBlockers(task('t1', 'PENDING'), shelf(), []).retry).toBe('Task is PENDING');
+  });
+
+  it('offers idle, available robots for reassignment', () => {
+    const robots = [
+      { id: 'r2', name: 'Bot B', status: 'IDLE', available: true },
+      { id: 'r1', name: 'Bot A', status: 'IDLE', available: true },
+      { id: 'r3', name: 'Bot C', status: 'ERROR', available: false },
+    ] as Robot[];
+    expect(reassignCandidates(robots).map((r) => r.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('reads recovery notes back from the task history', () => {
+    const note = recoveryNote({ action: 'reassign', ok: true, user: 'Ana Lopez', detail: 'Assigned to Bot A' });
+    const failedRestore = recoveryNote({ action: 'restore_shelf', ok: false });
+    const failed: Task = {
+      ...task('t1', 'ASSIGNED'),
+      status_history: [
+        { status: 'ERROR', timestamp: '2026-03-02T10:00:00Z', message: 'Robot lost localisation' },
+        { status: 'ASSIGNED', timestamp: '2026-03-02T10:05:00Z', robot_id: 'r1' },
+        { status: 'ASSIGNED', timestamp: '2026-03-02T10:05:01Z', robot_id: 'r1', message: note },
+        { status: 'ASSIGNED', timestamp: '2026-03-02T10:06:00Z', message: failedRestore },
+      ],
+    };
+
+    const history = recoveryHistory(failed);
+    expect(history.map((e) => e.action)).toEqual(['restore_shelf', 'reassign']);
+    expect(history[1]).toMatchObject({ ok: true, user: 'Ana_Lopez', detail: 'Assigned to Bot A', robotId: 'r1' });
+    expect(history[0]).toMatchObject({ ok: false, detail: undefined });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for task schedule run times
+ */
+import { describeSchedule, nextRun, runsBetween, upcomingRuns, validateSchedule } from '../lib/taskSchedule';
+import type { TaskSchedule } from '../lib/taskSchedule';
+
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) => new Date(y, mo - 1, d, h, mi).getTime();
+
+const schedule = (patch: Partial<TaskSchedule>): TaskSchedule => ({
+  id: 's1',
+  name: 'Morning wave',
+  tasks: [{ shelf_id: 'shelf-1', task_type: 'PICKUP_AND_DELIVER', zone_id: 'z1', priority: 5 }],
+  kind: 'recurring',
+  time: '06:00',
+  days: [1, 2, 3, 4, 5],
+  enabled: true,
+  createdAt: 0,
+  checkedUntil: 0,
+  ...patch,
+});
+
+describe('task schedules', () => {
+  it('lists weekday runs inside the window', () => {
+    // 2026-03-13 is a Friday
+    const runs = runsBetween(schedule({}), at(2026, 3, 13, 7), at(2026, 3, 17, 6));
+    expect(runs).toEqual([at(2026, 3, 16, 6), at(2026, 3, 17, 6)]);
+    expect(nextRun(schedule({}), at(2026, 3, 13, 7))).toBe(at(2026, 3, 16, 6));
+    expect(describeSchedule(schedule({}))).toBe('Mon–Fri at 06:00');
+  });
+
+  it('fires a one-off schedule once', () => {
+    const once = schedule({ kind: 'once', runAt: at(2026, 3, 20, 9, 30), time: undefined, days: undefined });
+    expect(runsBetween(once, at(2026, 3, 1), at(2026, 4, 1))).toEqual([at(2026, 3, 20, 9, 30)]);
+    expect(nextRun(once, at(2026, 3, 20, 9, 30))).toBeUndefined();
+  });
+
+  it('merges upcoming runs of enabled schedules in time order', () => {
+    const daily = schedule({ id: 's2', time: '05:00', days: [0, 1, 2, 3, 4, 5, 6] });
+    const paused = schedule({ id: 's3', enabled: false });
+    const runs = upcomingRuns([schedule({}), daily, paused], at(2026, 3, 16), at(2026, 3, 17), 10);
+    expect(runs.map((r) => [r.schedule.id, r.at])).toEqual([
+      ['s2', at(2026, 3, 16, 5)],
+      ['s1', at(2026, 3, 16, 6)],
+    ]);
+  });
+
+  it('rejects drafts without shelves, days or a future time', () => {
+    expect(validateSchedule({ ...schedule({}), tasks: [] })).toBe('Pick at least one shelf');
+    expect(validateSchedule({ ...schedule({}), days: [] })).toBe('Pick at least one weekday');
+    expect(validateSchedule({ ...schedule({}), kind: 'once', runAt: at(2026, 1, 1) }, at(2026, 2, 1))).toBe(
+      'The run time is in the past'
+    );
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the task state machine and anomaly flagging
+ */
+import {
+  canTransition,
+  explainTransition,
+  nextStatuses,
+  phaseOf,
+  phaseTargetStatus,
+  transitionOptions,
+} from '../lib/taskStateMachine';
+import { useTaskEventStore } from '../stores/taskEventStore';
+
+describe('task state machine', () => {
+  it('follows the forward flow and never leaves a finished task', () => {
+    expect(canTransition('PICKUP_AND_DELIVER', 'PENDING', 'ASSIGNED')).toBe(true);
+    expect(canTransition('PICKUP_AND_DELIVER', 'ASSIGNED', 'ARRIVED_AT_PICKUP')).toBe(false);
+    expect(canTransition('PICKUP_AND_DELIVER', 'COMPLETED', 'MOVING_TO_PICKUP')).toBe(false);
+    expect(nextStatuses('RETURN_SHELF', 'CANCELLED')).toEqual([]);
+    expect(canTransition('MOVE_SHELF', 'ERROR', 'PENDING')).toBe(true);
+  });
+
+  it('applies per-type rules', () => {
+    expect(canTransition('MOVE_SHELF', 'RELEASED', 'COMPLETED')).toBe(true);
+    expect(canTransition('PICKUP_AND_DELIVER', 'RELEASED', 'COMPLETED')).toBe(false);
+    expect(canTransition('PICKUP_AND_DELIVER', 'ATTACHED', 'CANCELLED')).toBe(false);
+    expect(canTransition('RETURN_SHELF', 'ATTACHED', 'CANCELLED')).toBe(true);
+  });
+
+  it('explains disabled options', () => {
+    expect(explainTransition('PICKUP_AND_DELIVER', 'COMPLETED', 'PENDING')).toBe('COMPLETED tasks are final');
+    const options = transitionOptions({ status: 'PENDING', task_type: 'PICKUP_AND_DELIVER' });
+    expect(options.filter((o) => o.allowed).map((o) => o.status)).toEqual(['ASSIGNED', 'ERROR', 'CANCELLED']);
+    expect(options.find((o) => o.status === 'COMPLETED')?.reason).toMatch(/can only go to/);
+  });
+
+  it('flags illegal jumps in the event log', () => {
+    const { record } = useTaskEventStore.getState();
+    expect(record({ taskId: 't1', taskType: 'PICKUP_AND_DELIVER', from: 'ASSIGNED', to: 'MOVING_TO_PICKUP', source: 'socket' })?.anomaly).toBeUndefined();
+    expect(record({ taskId: 't1', taskType: 'PICKUP_AND_DELIVER', from: 'COMPLETED', to: 'MOVING_TO_PICKUP', source: 'socket' })?.anomaly).toBeTruthy();
+    expect(record({ taskId: 't1', from: 'PENDING', to: 'PENDING', source: 'socket' })).toBeNull();
+    expect(useTaskEventStore.getState().events).toHaveLength(2);
+  });
+});
+
+describe('task phases', () => {
+  it('only lets a card move to a phase it can legally reach', () => {
+    expect(phaseOf('ATTACHED')).toBe('carrying');
+    expect(phaseTargetStatus({ status: 'ASSIGNED', task_type: 'PICKUP_AND_DELIVER' }, 'to_pickup')).toBe('MOVING_TO_PICKUP');
+    expect(phaseTargetStatus({ status: 'ASSIGNED', task_type: 'PICKUP_AND_DELIVER' }, 'carrying')).toBeNull();
+    expect(phaseTargetStatus({ status: 'PENDING', task_type: 'PICKUP_AND_DELIVER' }, 'done')).toBe('CANCELLED');
+    expect(phaseTargetStatus({ status: 'RELEASED', task_type: 'MOVE_SHELF' }, 'done')).toBe('COMPLETED');
+  });
+});
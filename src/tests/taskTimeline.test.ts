@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the task lifecycle timeline
+ */
+import { buildTaskTimeline, formatDuration, parseTimestamp } from '../lib/taskTimeline';
+import type { Task } from '../types';
+
+const T0 = Date.parse('2026-01-01T00:00:00Z');
+const at = (seconds: number) => new Date(T0 + seconds * 1000).toISOString();
+
+const task: Task = {
+  id: 't1',
+  shelf_id: 's1',
+  priority: 5,
+  status: 'MOVING_TO_PICKUP',
+  task_type: 'PICKUP_AND_DELIVER',
+  created_at: at(0),
+  status_history: [
+    { status: 'PENDING', timestamp: at(0) },
+    { status: 'ASSIGNED', timestamp: at(5) },
+    { status: 'MOVING_TO_PICKUP', timestamp: at(8) },
+  ],
+};
+
+describe('task timeline', () => {
+  it('measures time spent in each state from the history', () => {
+    const timeline = buildTaskTimeline(task, [], T0 + 20000);
+    expect(timeline.map((e) => e.status)).toEqual(['PENDING', 'ASSIGNED', 'MOVING_TO_PICKUP']);
+    expect(timeline.map((e) => e.durationMs)).toEqual([5000, 3000, 12000]);
+  });
+
+  it('appends live events and flags illegal jumps', () => {
+    const timeline = buildTaskTimeline(
+      { ...task, status: 'RELEASED' },
+      [{ id: 1, taskId: 't1', from: 'MOVING_TO_PICKUP', to: 'RELEASED', source: 'socket', at: T0 + 30000 }],
+      T0 + 40000
+    );
+    expect(timeline[3]).toMatchObject({ status: 'RELEASED', source: 'live', durationMs: 10000 });
+    expect(timeline[3].anomaly).toBeTruthy();
+  });
+
+  it('parses and formats times', () => {
+    expect(parseTimestamp(1767225600)).toBe(T0);
+    expect(parseTimestamp('bad')).toBeUndefined();
+    expect(formatDuration(75000)).toBe('1m 15s');
+  });
+});
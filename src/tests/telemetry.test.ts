@@ -0,0 +1,54 @@
+/**
+ * Unit tests for robot telemetry series
+ */
+import {
+  downsample,
+  mergeSamples,
+  poseTrail,
+  pushSample,
+  toSample,
+  windowSamples,
+  type TelemetrySample,
+} from '../lib/telemetry';
+
+const sample = (at: number, x = 0): TelemetrySample => ({ at, x, y: 0, battery_level: 80 });
+
+describe('robot telemetry', () => {
+  it('reads stored points and live payloads alike', () => {
+    expect(toSample({ battery_level: 64, x: 1, y: 2, timestamp: '2026-03-02T10:00:00Z' })).toEqual({
+      at: Date.parse('2026-03-02T10:00:00Z'),
+      battery_level: 64,
+      cpu_usage: undefined,
+      ram_usage: undefined,
+      temperature: undefined,
+      x: 1,
+      y: 2,
+      yaw: undefined,
+    });
+    expect(toSample({ current_x: '3.5', current_y: 4 }, 1000)).toMatchObject({ at: 1000, x: 3.5, y: 4 });
+  });
+
+  it('keeps the ring buffer bounded', () => {
+    let buffer = [sample(1), sample(2), sample(3)];
+    buffer = pushSample(buffer, sample(4), 3);
+    expect(buffer.map((s) => s.at)).toEqual([2, 3, 4]);
+  });
+
+  it('appends only live samples newer than the history', () => {
+    const merged = mergeSamples([sample(20), sample(10)], [sample(15), sample(30)]);
+    expect(merged.map((s) => s.at)).toEqual([10, 20, 30]);
+    expect(windowSamples(merged, 15, 30).map((s) => s.at)).toEqual([20, 30]);
+  });
+
+  it('thins long series but keeps the latest point', () => {
+    const series = Array.from({ length: 100 }, (_, i) => sample(i));
+    const thinned = downsample(series, 10);
+    expect(thinned.length).toBe(10);
+    expect(thinned[9].at).toBe(99);
+  });
+
+  it('skips tiny moves in the pose trail', () => {
+    const trail = poseTrail([sample(1, 0), sample(2, 0.01), sample(3, 1), { at: 4 }]);
+    expect(trail.map((p) => p.x)).toEqual([0, 1]);
+  });
+});
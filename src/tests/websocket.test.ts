@@ -0,0 +1,76 @@
+/**
+ * Unit tests for the shared socket connection manager
+ * Verifies ref-counted rooms and typed event forwarding
+ */
+import { getRoomRefCount, joinRoom, on } from '../services/websocket';
+
+const handlers: { [key: string]: (data: unknown) => void } = {};
+const mockSocket = {
+  on: jest.fn((event: string, handler: (data: unknown) => void) => {
+    handlers[event] = handler;
+  }),
+  off: jest.fn(),
+  emit: jest.fn(),
+  disconnect: jest.fn(),
+  connect: jest.fn(),
+  io: { on: jest.fn() },
+  connected: true,
+};
+
+jest.mock('socket.io-client', () => ({
+  io: jest.fn(() => mockSocket),
+}));
+
+describe('websocket connection manager', () => {
+  beforeEach(() => {
+    mockSocket.emit.mockClear();
+  });
+
+  describe('room subscriptions', () => {
+    it('sends subscribe_tasks once for several holders', () => {
+      const releaseA = joinRoom('tasks');
+      const releaseB = joinRoom('tasks');
+
+      expect(getRoomRefCount('tasks')).toBe(2);
+      expect(mockSocket.emit).toHaveBeenCalledTimes(1);
+      expect(mockSocket.emit).toHaveBeenCalledWith('subscribe_tasks');
+
+      releaseA();
+      expect(mockSocket.emit).not.toHaveBeenCalledWith('unsubscribe_tasks');
+
+      releaseB();
+      expect(getRoomRefCount('tasks')).toBe(0);
+      expect(mockSocket.emit).toHaveBeenCalledWith('unsubscribe_tasks');
+    });
+
+    it('ignores a second release from the same holder', () => {
+      const releaseA = joinRoom('map');
+      joinRoom('map');
+
+      releaseA();
+      releaseA();
+      expect(getRoomRefCount('map')).toBe(1);
+    });
+
+    it('sends the task id for task rooms', () => {
+      const release = joinRoom('task:t-1');
+      expect(mockSocket.emit).toHaveBeenCalledWith('subscribe_task', { task_id: 't-1' });
+      release();
+      expect(mockSocket.emit).toHaveBeenCalledWith('unsubscribe_task', { task_id: 't-1' });
+    });
+  });
+
+  describe('event forwarding', () => {
+    it('delivers telemetry to robot_update listeners', () => {
+      const onRobotUpdate = jest.fn();
+      const unsubscribe = on('robot_update', onRobotUpdate);
+
+      handlers['telemetry']({ robot_id: 'robot1', x: 1, y: 2 });
+      expect(onRobotUpdate).toHaveBeenCalledWith({ robot_id: 'robot1', x: 1, y: 2 });
+
+      unsubscribe();
+      handlers['telemetry']({ robot_id: 'robot1', x: 3, y: 4 });
+      expect(onRobotUpdate).toHaveBeenCalledTimes(1);
+    });
+  });
+});
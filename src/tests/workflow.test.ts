@@ -0,0 +1,61 @@
+/**
+ * Unit tests for workflow step sequencing
+ */
+import { decideWorkflow, stepPayload, validateTemplate, type Workflow } from '../lib/workflow';
+import type { Task, TaskStatus } from '../types';
+
+const workflow = (stepTasks: string[]): Workflow => ({
+  id: 'wf-1',
+  name: 'Pick, QA, return',
+  shelfId: 'shelf-1',
+  steps: [
+    { task_type: 'PICKUP_AND_DELIVER', zone_id: 'pick', priority: 6 },
+    { task_type: 'REPOSITION', target_zone_id: 'qa', priority: 5 },
+    { task_type: 'RETURN_SHELF', priority: 5 },
+  ],
+  stepTasks,
+  state: 'running',
+  startedAt: 0,
+});
+
+const task = (id: string, status: TaskStatus): Task =>
+  ({ id, shelf_id: 'shelf-1', priority: 5, status, task_type: 'PICKUP_AND_DELIVER' }) as Task;
+
+describe('workflows', () => {
+  it('dispatches each step only after the previous one completed', () => {
+    expect(decideWorkflow(workflow([]), {})).toEqual({ kind: 'dispatch', step: 0 });
+    expect(decideWorkflow(workflow(['t1']), { t1: task('t1', 'MOVING_TO_DROP') })).toEqual({ kind: 'wait' });
+    expect(decideWorkflow(workflow(['t1']), { t1: task('t1', 'COMPLETED') })).toEqual({ kind: 'dispatch', step: 1 });
+    expect(
+      decideWorkflow(workflow(['t1', 't2', 't3']), {
+        t1: task('t1', 'COMPLETED'),
+        t2: task('t2', 'COMPLETED'),
+        t3: task('t3', 'COMPLETED'),
+      })
+    ).toEqual({ kind: 'complete' });
+  });
+
+  it('stops at a step that ends in ERROR or CANCELLED', () => {
+    const decision = decideWorkflow(workflow(['t1', 't2']), { t1: task('t1', 'COMPLETED'), t2: task('t2', 'CANCELLED') });
+    expect(decision.kind).toBe('fail');
+  });
+
+  it('waits for a dispatched task that is not in the cache yet', () => {
+    expect(decideWorkflow(workflow(['t1']), {})).toEqual({ kind: 'wait' });
+  });
+
+  it('builds step payloads for the workflow shelf', () => {
+    expect(stepPayload(workflow([]), 1)).toEqual({
+      shelf_id: 'shelf-1',
+      task_type: 'REPOSITION',
+      priority: 5,
+      zone_id: undefined,
+      target_zone_id: 'qa',
+      target_shelf_id: undefined,
+      description: 'Pick, QA, return: step 2/3',
+    });
+    expect(validateTemplate('Broken', [{ task_type: 'PICKUP_AND_DELIVER', priority: 5 }])).toBe(
+      'Step 1: Zone is required for PICKUP_AND_DELIVER tasks'
+    );
+  });
+});
@@ -3,6 +3,13 @@
 // Matches backend Python Pydantic models exactly
 // =========================================================
 
+import type {
+  AllTasksMapUpdatePayload,
+  MapDataPayload,
+  ShelfLocationFixedPayload,
+  TaskStatusChangePayload,
+} from './map';
+
 // =========================================================
 // ROBOT TYPES
 // =========================================================
@@ -91,6 +98,43 @@ export interface RobotTelemetry {
   timestamp?: string;
 }
 
+/**
+ * Robot goto payload (POST /robots/:id/goto)
+ * Either a pose (x/y/yaw) or a zone whose pose is used
+ */
+export interface RobotGoToInput {
+  x?: number;
+  y?: number;
+  yaw?: number;
+  zone_id?: string;
+  /** Stay out of the task queue at the target until fully charged */
+  charge?: boolean;
+}
+
+/** Operator interventions sent from the robot command panel */
+export type RobotCommandKind = 'goto_pose' | 'goto_zone' | 'pause' | 'resume' | 'emergency_stop' | 'release_shelf';
+
+/**
+ * Robot command socket message (client -> server `robot_command`)
+ * Answered with a `robot_command_ack` carrying the same command_id
+ */
+export interface RobotCommandMessage {
+  command_id: string;
+  robot_id: string;
+  command: RobotCommandKind;
+  params?: RobotGoToInput;
+}
+
+/**
+ * Robot command acknowledgement (server -> client `robot_command_ack`)
+ */
+export interface RobotCommandAck {
+  command_id: string;
+  robot_id?: string;
+  accepted: boolean;
+  message?: string;
+}
+
 // =========================================================
 // SHELF TYPES
 // =========================================================
@@ -485,6 +529,12 @@ export interface Task {
   progress?: number;
   error_message?: string;
   
+  // -------------------------
+  // STATE HISTORY
+  // -------------------------
+  // Returned by GET /tasks/:id, oldest first
+  status_history?: TaskStatusHistoryEntry[];
+  
   // -------------------------
   // TIMESTAMPS
   // -------------------------
@@ -494,6 +544,16 @@ export interface Task {
   updated_at?: string;
 }
 
+/**
+ * One entry of a task's state history
+ */
+export interface TaskStatusHistoryEntry {
+  status: TaskStatus;
+  timestamp: string;
+  robot_id?: string;
+  message?: string;
+}
+
 /**
  * Task creation payload
  * Matches TaskCreate Pydantic model
@@ -599,6 +659,8 @@ export interface ProductTransaction {
   quantity: number;
   action: TransactionAction;
   description?: string;
+  /** Set on picks sent with an idempotency key */
+  idempotency_key?: string;
   
   created_at?: string;
   updated_at?: string;
@@ -677,6 +739,9 @@ export interface AdminLogin {
   password: string;
 }
 
+/** Access level; see lib/permissions.ts for what each role may do */
+export type UserRole = 'ADMIN' | 'OPERATOR' | 'VIEWER';
+
 /**
  * User entity
  * Authenticated user information
@@ -684,7 +749,7 @@ export interface AdminLogin {
 export interface User {
   id: string;
   username: string;
-  role: 'ADMIN' | 'OPERATOR' | 'VIEWER';
+  role: UserRole;
   created_at?: string;
   updated_at?: string;
 }
@@ -735,7 +800,10 @@ export interface ApiResponse<T = any> {
  */
 export interface PaginatedResponse<T> {
   items: T[];
-  total: number;
+  /** Matches across all pages; absent when the backend doesn't count them */
+  total?: number;
+  /** Another page follows this one */
+  hasMore: boolean;
   page: number;
   limit: number;
 }
@@ -790,6 +858,20 @@ export interface MapData {
   zones?: Zone[];
 }
 
+/**
+ * Active task as served by /tasks/realtime/map/* for map overlays
+ */
+export interface RealtimeTaskView {
+  task_id: string;
+  status: TaskStatus;
+  task_type?: TaskType;
+  priority?: number;
+  robot?: { id: string; x: number; y: number; status?: RobotStatus; battery?: number };
+  drop_zone?: { id: string; x: number; y: number };
+  created_at?: string;
+  updated_at?: string;
+}
+
 // =========================================================
 // WEBSOCKET EVENT TYPES
 // =========================================================
@@ -865,6 +947,75 @@ export interface MapUpdateEvent {
   timestamp?: string;
 }
 
+/**
+ * Telemetry event
+ * Robot sensors + pose; robots are identified by robot_id, robot, id or name
+ */
+export interface RobotTelemetryEvent extends Partial<RobotTelemetry> {
+  robot_id?: string;
+  robot?: string;
+  id?: string;
+  name?: string;
+  current_x?: number;
+  current_y?: number;
+  current_yaw?: number;
+}
+
+/**
+ * Robot update event
+ * Partial robot document (status, pose, telemetry)
+ */
+export type RobotUpdateEvent = Partial<Robot> & RobotTelemetryEvent;
+
+/**
+ * Shelf update event
+ * Location update or partial shelf document
+ */
+export type ShelfUpdateEvent = Partial<ShelfLocationUpdate> & Partial<Shelf>;
+
+/**
+ * Task update event
+ * Either { task: {...} } or a flat status update
+ */
+export interface TaskUpdateEvent extends Partial<TaskStatusUpdate> {
+  task?: Partial<Task> & { id?: string; task_id?: string };
+  [key: string]: unknown;
+}
+
+/**
+ * Server -> client socket events
+ * Single source of truth for event names and payloads
+ */
+export interface SocketEventMap {
+  telemetry: RobotTelemetryEvent;
+  robot_update: RobotUpdateEvent;
+  robot_position_update: RobotPositionUpdate;
+  robot_status: RobotUpdateEvent;
+  shelf_update: ShelfUpdateEvent;
+  shelf_location_update: ShelfLocationUpdate;
+  shelf_location_fixed: ShelfLocationFixedPayload;
+  shelf_deleted: { id?: string; shelf_id?: string };
+  task_update: TaskUpdateEvent;
+  task_status: TaskStatusUpdate;
+  task_status_change: TaskStatusChangePayload;
+  task_progress_update: TaskProgressUpdate;
+  tasks_update: { tasks: Task[] } | Task[];
+  all_tasks_map_update: AllTasksMapUpdatePayload;
+  map_update: MapUpdateEvent;
+  map_data: MapDataPayload;
+  system_update: LiveSystemHealth;
+  robot_command_ack: RobotCommandAck;
+  error: unknown;
+}
+
+export type SocketEventName = keyof SocketEventMap;
+
+/**
+ * Socket rooms
+ * Joined with subscribe_* and left with unsubscribe_*
+ */
+export type SocketRoom = 'tasks' | 'robots' | 'shelves' | 'system' | 'map' | `task:${string}`;
+
 // =========================================================
 // LIVE STATISTICS TYPES
 // =========================================================
@@ -1004,6 +1155,29 @@ export interface ListQueryParams {
   filter?: FilterOptions;
 }
 
+/**
+ * Task filter options
+ * dateRange applies to created_at (ISO timestamps)
+ */
+export interface TaskFilterOptions extends FilterOptions {
+  status?: TaskStatus[];
+  task_type?: TaskType[];
+  /** Robot document id or robot_id */
+  robot_id?: string;
+  shelf_id?: string;
+  /** Zone document id or zone_id; matches pickup, drop and target zone */
+  zone_id?: string;
+  priority_min?: number;
+  priority_max?: number;
+}
+
+/**
+ * Task list query parameters
+ */
+export interface TaskListParams extends ListQueryParams {
+  filter?: TaskFilterOptions;
+}
+
 // =========================================================
 // TYPE GUARDS
 // =========================================================